@@ -0,0 +1,82 @@
+// @vitest-environment happy-dom
+// Node's Web Crypto rejects jsdom's ArrayBuffers and jsdom's Blob cannot read itself back, so these run under
+// happy-dom, on an in-memory IndexedDB.
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  VAULT_STAGED_STORAGE_KEY,
+  createWorkspaceLock,
+  decryptText,
+  deriveWorkspaceKey,
+  encryptText,
+  listVaultFileIds,
+  loadDocText,
+  loadVaultFile,
+  saveDocText,
+  saveVaultFile,
+  settleVaultRekey,
+  stageVaultRekey,
+  unlockWorkspaceKey,
+} from './index';
+
+describe('workspace encryption', () => {
+  // Fewer iterations than a real lock, which only slows the tests down.
+  const testKey = (passphrase: string) => deriveWorkspaceKey(passphrase, new Uint8Array(16), 1000);
+  const plaint = { id: 'plaint', paginated: false, pages: ['The plaintiff Ravi Kumar seeks possession.'] };
+  const storeVault = async (key: CryptoKey | null) => {
+    await saveVaultFile('plaint', new File(['%PDF plaint'], 'plaint.pdf', { type: 'application/pdf', lastModified: 1 }), key);
+    await saveDocText(plaint, key);
+  };
+  const readVault = async (key: CryptoKey | null) => {
+    const file = await loadVaultFile('plaint', key);
+    return { name: file?.name, type: file?.type, text: await file?.text(), docText: await loadDocText('plaint', key) };
+  };
+  const stored = { name: 'plaint.pdf', type: 'application/pdf', text: '%PDF plaint', docText: plaint };
+
+  afterEach(() => localStorage.clear());
+
+  it('unlocks only with the passphrase that set the lock', async () => {
+    const { lock, key } = await createWorkspaceLock('correct horse battery', 15);
+    const sealed = await encryptText(key, '{"client":"Ravi Kumar"}');
+    expect(sealed).not.toContain('Ravi');
+    expect(await unlockWorkspaceKey(lock, 'wrong passphrase')).toBeNull();
+    const unlocked = await unlockWorkspaceKey(lock, 'correct horse battery');
+    expect(await decryptText(unlocked, sealed)).toBe('{"client":"Ravi Kumar"}');
+  });
+
+  it('reads values written before a passphrase was set and refuses sealed ones without the key', async () => {
+    const key = await testKey('first passphrase');
+    expect(await decryptText(null, '[]')).toBe('[]');
+    await expect(decryptText(null, await encryptText(key, '[]'))).rejects.toThrow(/workspace is locked/);
+    await expect(decryptText(await testKey('other passphrase'), await encryptText(key, '[]'))).rejects.toThrow();
+  });
+
+  it('moves the vault to the new key only once the re-key is committed', async () => {
+    const [oldKey, newKey] = await Promise.all([testKey('first passphrase'), testKey('second passphrase')]);
+    await storeVault(oldKey);
+    await stageVaultRekey(oldKey, newKey);
+    expect(await readVault(oldKey)).toEqual(stored);
+    expect(await listVaultFileIds()).toEqual(['plaint']);
+
+    localStorage.setItem(VAULT_STAGED_STORAGE_KEY, '1');
+    await settleVaultRekey();
+    expect(await readVault(newKey)).toEqual(stored);
+    await expect(readVault(oldKey)).rejects.toThrow();
+    expect(localStorage.getItem(VAULT_STAGED_STORAGE_KEY)).toBeNull();
+  });
+
+  it('drops the copies of a re-key that never committed', async () => {
+    const [oldKey, newKey] = await Promise.all([testKey('first passphrase'), testKey('second passphrase')]);
+    await storeVault(oldKey);
+    await stageVaultRekey(oldKey, newKey);
+    await settleVaultRekey();
+    expect(await readVault(oldKey)).toEqual(stored);
+    await expect(readVault(newKey)).rejects.toThrow();
+  });
+
+  it('fails the re-key when a record does not open under the old key', async () => {
+    const [oldKey, newKey, strayKey] = await Promise.all([testKey('first passphrase'), testKey('second passphrase'), testKey('stray passphrase')]);
+    await storeVault(strayKey);
+    await expect(stageVaultRekey(oldKey, newKey)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,414 @@
+import { GenerateContentResponse } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_COURT_CALENDAR,
+  DEFAULT_PLAYBOOK,
+  DEFAULT_REDACTION_SETTINGS,
+  DEFAULT_RESEARCH_PROFILES,
+  WORKSPACE_BACKUP_VERSION,
+  LIMITATION_RULES,
+  buildSearchIndex,
+  computeLimitation,
+  createMockProvider,
+  emptyPlaceholderMap,
+  formatRupees,
+  migrateWorkspaceBackup,
+  nextOccurrence,
+  parseContractReview,
+  parseKeyFacts,
+  parseLegalIndex,
+  redactText,
+  restorePlaceholders,
+  searchVault,
+  withRedaction,
+} from './index';
+
+const currentBackup = (overrides: Record<string, unknown> = {}) => ({
+  format: 'juris-workspace',
+  version: WORKSPACE_BACKUP_VERSION,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  matters: [],
+  sessions: [],
+  documents: [],
+  comparisons: [],
+  courtCalendar: DEFAULT_COURT_CALENDAR,
+  drafts: [],
+  playbook: DEFAULT_PLAYBOOK,
+  profiles: DEFAULT_RESEARCH_PROFILES,
+  ...overrides,
+});
+
+describe('migrateWorkspaceBackup', () => {
+  it('upgrades a raw localStorage dump to the current format', () => {
+    const backup = migrateWorkspaceBackup({
+      juris_history: JSON.stringify([{ id: 's1', messages: [{ id: 'm1', role: 'user', text: 'Limitation for a money suit?' }] }]),
+      juris_docs: JSON.stringify([{ id: 'd1', name: 'plaint.pdf' }]),
+    });
+    expect(backup.version).toBe(WORKSPACE_BACKUP_VERSION);
+    expect(backup.sessions).toEqual([{ id: 's1', title: 'Legal Consultation', date: '', citations: [], messages: [{ id: 'm1', role: 'user', text: 'Limitation for a money suit?' }] }]);
+    expect(backup.documents).toEqual([{ id: 'd1', name: 'plaint.pdf', type: '', date: '', fileData: null, tasks: [] }]);
+    expect(backup.matters).toEqual([]);
+    expect(backup.comparisons).toEqual([]);
+    expect(backup.drafts).toEqual([]);
+    expect(backup.courtCalendar).toEqual(DEFAULT_COURT_CALENDAR);
+    expect(backup.playbook.positions).toHaveLength(DEFAULT_PLAYBOOK.positions.length);
+    expect(backup.profiles.map(p => p.id)).toEqual(DEFAULT_RESEARCH_PROFILES.map(p => p.id));
+  });
+
+  it('fills in only the slices added after the backup was made', () => {
+    const { profiles, ...v6 } = currentBackup({ matters: [{ id: 'm1', name: 'Sharma v. Union of India' }] });
+    const backup = migrateWorkspaceBackup({ ...v6, version: 6 });
+    expect(backup.matters).toEqual([{ id: 'm1', name: 'Sharma v. Union of India', clientName: '', caseNumber: '', court: '', opposingParty: '', createdAt: '' }]);
+    expect(backup.profiles).toHaveLength(DEFAULT_RESEARCH_PROFILES.length);
+  });
+
+  it('normalises research profiles that omit optional fields', () => {
+    const backup = migrateWorkspaceBackup(currentBackup({ profiles: [{ id: 'p1', name: 'Madras High Court' }] }));
+    expect(backup.profiles).toEqual([{ id: 'p1', name: 'Madras High Court', jurisdiction: '', practiceArea: '', authorities: '', citationStyle: '', answerFormat: '', officialSources: [] }]);
+  });
+
+  it('strips script from imported drafts and their versions', () => {
+    const html = '<p onclick="steal()">Notice<script>steal()</script></p><span class="draft-field" data-field="date" contenteditable="false">1 May 2026</span>';
+    const backup = migrateWorkspaceBackup(currentBackup({ drafts: [{ id: 'd1', html, versions: [{ id: 'v1', savedAt: '', label: 'First', html }] }] }));
+    const expected = '<p>Notice</p><span class="draft-field" data-field="date" contenteditable="false">1 May 2026</span>';
+    expect(backup.drafts[0].html).toBe(expected);
+    expect(backup.drafts[0].versions[0].html).toBe(expected);
+  });
+
+  it('keeps chat attachments on their messages and rejects malformed ones', () => {
+    const fileData = { name: 'notice.pdf', type: 'application/pdf', lastModified: 0, base64: 'JVBERi0=' };
+    const backup = migrateWorkspaceBackup(currentBackup({ sessions: [{ id: 's1', messages: [{ id: 'm1', role: 'user', text: 'Summarise', fileName: 'notice.pdf', fileData }] }] }));
+    expect(backup.sessions[0].messages[0].fileData).toEqual(fileData);
+    const malformed = currentBackup({ sessions: [{ id: 's1', title: 'Notice', messages: [{ id: 'm1', role: 'user', text: '', fileData: { name: 'notice.pdf' } }] }] });
+    expect(() => migrateWorkspaceBackup(malformed)).toThrow('session "Notice" has malformed attachment data');
+  });
+
+  it('rejects backups from a newer version of the app', () => {
+    expect(() => migrateWorkspaceBackup(currentBackup({ version: WORKSPACE_BACKUP_VERSION + 1 }))).toThrow(/newer version/);
+  });
+
+  it('rejects files that are not workspace backups', () => {
+    expect(() => migrateWorkspaceBackup(null)).toThrow(/not a Juris workspace backup/);
+    expect(() => migrateWorkspaceBackup({ hello: 'world' })).toThrow(/not a Juris workspace backup/);
+  });
+
+  it('lists what is malformed', () => {
+    const malformed = currentBackup({
+      sessions: [{ id: 's1', title: 'Bail', messages: [{ id: 'm1', role: 'system', text: '' }] }],
+      documents: [{ name: 'no-id.pdf' }],
+      playbook: { positions: [{ category: 'not-a-category' }] },
+    });
+    expect(() => migrateWorkspaceBackup(malformed)).toThrow('session "Bail" contains a malformed message; document 1 has no id or name; playbook position 1 has an unknown clause category');
+  });
+});
+
+describe('searchVault', () => {
+  const plaint = buildSearchIndex({
+    id: 'plaint',
+    paginated: true,
+    pages: [
+      'The plaintiff seeks specific performance of the agreement to sell.',
+      'In the alternative, the plaintiff claims damages for breach of contract.',
+    ],
+  });
+  const notice = buildSearchIndex({ id: 'notice', paginated: false, pages: ['Notice of breach of contract under Section 80 CPC.'] });
+  const highlighted = (hit: { snippet: { text: string; highlight: boolean }[] }) => hit.snippet.filter(s => s.highlight).map(s => s.text);
+
+  it('matches phrases across documents in the order given', () => {
+    const hits = searchVault([plaint, notice], '"breach of contract"');
+    expect(hits.map(h => [h.docId, h.page])).toEqual([['plaint', 2], ['notice', 1]]);
+    expect(highlighted(hits[0])).toEqual(['breach of contract']);
+  });
+
+  it('supports AND, OR and NOT', () => {
+    expect(searchVault([plaint], 'plaintiff AND damages').map(h => h.page)).toEqual([2]);
+    expect(searchVault([plaint, notice], 'performance OR "section 80"').map(h => h.docId)).toEqual(['plaint', 'notice']);
+    expect(searchVault([plaint], 'plaintiff -damages').map(h => h.page)).toEqual([1]);
+  });
+
+  it('treats lower-case operators as search terms', () => {
+    expect(searchVault([plaint], 'specific and performance')).toEqual([]);
+  });
+
+  it('applies the limit to the documents it is given', () => {
+    expect(searchVault([plaint, notice], 'contract', 1).map(h => h.docId)).toEqual(['plaint']);
+    expect(searchVault([notice], 'contract', 1).map(h => h.docId)).toEqual(['notice']);
+  });
+
+  it('reuses the index of an unchanged document', () => {
+    const docText = { id: 'd', paginated: false, pages: ['Arbitration clause'] };
+    expect(buildSearchIndex(docText)).toBe(buildSearchIndex(docText));
+  });
+
+  it('records every position of a repeated term', () => {
+    const index = buildSearchIndex({ id: 'r', paginated: false, pages: ['notice notice notice'] });
+    expect(index.postings.get('notice')?.get(0)).toEqual([0, 1, 2]);
+  });
+});
+
+describe('parseLegalIndex', () => {
+  it('reads sections and cases, defaulting the name to the file name', () => {
+    const source = parseLegalIndex({
+      sections: [{ act: 'Indian Penal Code, 1860', section: 302, heading: 'Punishment for murder', replacedBy: { act: 'Bharatiya Nyaya Sanhita, 2023', section: '103' } }],
+      cases: [{ citation: '(2014) 8 SCC 273', title: ' Arnesh Kumar v. State of Bihar ', parallel: ['AIR 2014 SC 2756'] }],
+    }, 'criminal.json');
+    expect(source.name).toBe('criminal');
+    expect(source.sections).toEqual([{ act: 'Indian Penal Code, 1860', section: '302', heading: 'Punishment for murder', text: '', replacedBy: { act: 'Bharatiya Nyaya Sanhita, 2023', section: '103' } }]);
+    expect(source.cases).toHaveLength(1);
+    expect(source.cases[0].title).toBe('Arnesh Kumar v. State of Bihar');
+    expect(source.cases[0].parallelCitations).toHaveLength(1);
+  });
+
+  it('reports malformed entries instead of importing them', () => {
+    expect(() => parseLegalIndex([], 'index.json')).toThrow(/JSON object/);
+    expect(() => parseLegalIndex({ sections: [null, { act: 'IPC' }], cases: 'none' }, 'index.json'))
+      .toThrow('Invalid legal index: "cases" must be a list; section 1 needs an act and a section number; section 2 needs an act and a section number');
+    expect(() => parseLegalIndex({ sections: [] }, 'index.json')).toThrow(/does not contain any sections or cases/);
+  });
+});
+
+describe('formatRupees', () => {
+  it('writes the amount in figures and words with Indian grouping', () => {
+    expect(formatRupees('500000')).toBe('Rs. 5,00,000/- (Rupees Five Lakh only)');
+    expect(formatRupees('15000000')).toBe('Rs. 1,50,00,000/- (Rupees One Crore Fifty Lakh only)');
+    expect(formatRupees('1234.50')).toBe('Rs. 1,234.50/- (Rupees One Thousand Two Hundred Thirty Four and Paise Fifty only)');
+  });
+
+  it('accepts amounts typed with a currency prefix', () => {
+    expect(formatRupees('Rs. 5,000')).toBe('Rs. 5,000/- (Rupees Five Thousand only)');
+    expect(formatRupees('INR 5,000')).toBe('Rs. 5,000/- (Rupees Five Thousand only)');
+    expect(formatRupees('₹5,000/-')).toBe('Rs. 5,000/- (Rupees Five Thousand only)');
+  });
+
+  it('leaves text that is not a single amount unchanged', () => {
+    expect(formatRupees('to be agreed')).toBe('to be agreed');
+    expect(formatRupees('1.500.000')).toBe('1.500.000');
+  });
+});
+
+describe('parseKeyFacts', () => {
+  it('keeps well-formed facts and drops entries without their key field', () => {
+    const facts = parseKeyFacts(JSON.stringify({
+      parties: [{ name: ' Ravi Kumar ', role: 'Plaintiff' }, { role: 'Witness' }, 'Sunita'],
+      keyDates: [{ date: '2025-03-31', description: 'Written statement due', isDeadline: true }, { date: '2025-04-01' }],
+      obligations: [{ party: 'Defendant', description: 'Deposit the rent', dueDate: 'next week' }],
+      amounts: [{ amount: 'Rs. 5,00,000', description: 'Security deposit' }],
+      governingLaw: 42,
+    }));
+    expect(facts).toEqual({
+      parties: [{ name: 'Ravi Kumar', role: 'Plaintiff' }],
+      keyDates: [{ date: '2025-03-31', description: 'Written statement due', isDeadline: true }],
+      obligations: [{ party: 'Defendant', description: 'Deposit the rent', dueDate: '' }],
+      amounts: [{ amount: 'Rs. 5,00,000', description: 'Security deposit' }],
+      governingLaw: '',
+    });
+  });
+
+  it('drops calendar dates that do not exist', () => {
+    const facts = parseKeyFacts(JSON.stringify({ keyDates: [
+      { date: '2025-02-30', description: 'Hearing', isDeadline: true },
+      { date: '2024-02-29', description: 'Filing', isDeadline: true },
+      { date: '2025-13-01', description: 'Reply', isDeadline: true },
+    ] }));
+    expect(facts.keyDates.map(d => d.date)).toEqual(['', '2024-02-29', '']);
+  });
+
+  it('tolerates a reply that is not an object', () => {
+    expect(parseKeyFacts('["parties"]')).toEqual({ parties: [], keyDates: [], obligations: [], amounts: [], governingLaw: '' });
+  });
+});
+
+describe('parseContractReview', () => {
+  const clauses = [
+    '1. The Supplier shall indemnify the Customer against all losses howsoever arising.',
+    '2. This Agreement is governed by the laws of India.',
+    '3. Notices shall be in writing.',
+  ];
+  const playbook = {
+    perspective: 'Customer',
+    positions: [
+      { category: 'indemnity' as const, preferred: '', fallback: '', redFlags: '', required: true },
+      { category: 'arbitration' as const, preferred: '', fallback: '', redFlags: '', required: true },
+    ],
+  };
+
+  it('keeps the model\'s review of each clause, clamping scores', () => {
+    const json = JSON.stringify({ clauses: [
+      { index: 1, title: ' Indemnity ', category: 'indemnity', score: 12.4, issue: 'Uncapped', fallback: 'Capped at fees paid.' },
+      { index: 2, title: 'Governing law', category: 'governing-law', score: -3, issue: '', fallback: '' },
+    ] });
+    const review = parseContractReview(json, clauses, playbook, false);
+    expect(review.perspective).toBe('Customer');
+    expect(review.clauses[0]).toEqual({ index: 1, title: 'Indemnity', text: clauses[0], category: 'indemnity', score: 10, issue: 'Uncapped', fallback: 'Capped at fees paid.' });
+    expect(review.clauses[1].score).toBe(0);
+    expect(review.missing).toEqual(['arbitration']);
+  });
+
+  it('keeps clauses the model skipped or garbled as unclassified', () => {
+    const json = JSON.stringify({ clauses: [null, 'text', { index: '3', category: 'notices' }, { index: 2, category: 'made-up', score: 'high' }] });
+    const review = parseContractReview(json, clauses, playbook, true);
+    expect(review.truncated).toBe(true);
+    expect(review.clauses.map(c => [c.category, c.score])).toEqual([['other', 0], ['other', 0], ['other', 0]]);
+    expect(review.clauses[2].title).toBe('Notices shall be in writing.');
+    expect(review.missing).toEqual(['indemnity', 'arbitration']);
+  });
+
+  it('tolerates a reply that is not an object', () => {
+    expect(parseContractReview('[]', clauses, playbook, false).clauses).toHaveLength(3);
+  });
+});
+
+describe('redaction', () => {
+  const client = [{ value: 'Ravi Kumar', placeholder: 'CLIENT' }];
+  type Redactor = Parameters<typeof withRedaction>[1];
+  type OutgoingRequest = Parameters<Redactor['onSend']>[0];
+
+  const makeRedactor = (log: OutgoingRequest[]): Redactor => {
+    const map = emptyPlaceholderMap();
+    return {
+      settings: DEFAULT_REDACTION_SETTINGS,
+      redact: (text, hits) => redactText(text, client, DEFAULT_REDACTION_SETTINGS, map, hits),
+      restore: (text, escape) => restorePlaceholders(text, map, escape),
+      onSend: request => log.push(request),
+    };
+  };
+
+  it('replaces identifiers and sensitive terms with placeholders', () => {
+    const hits: { placeholder: string; value: string }[] = [];
+    const text = 'Ravi Kumar (PAN ABCPK1234D, phone +91 98765 43210) wrote from ravi@example.com; Aadhaar 2345 6789 0124, A/c No. 1234 5678 9012.';
+    expect(redactText(text, client, DEFAULT_REDACTION_SETTINGS, emptyPlaceholderMap(), hits))
+      .toBe('[CLIENT_1] (PAN [PAN_1], phone [PHONE_1]) wrote from [EMAIL_1]; Aadhaar [AADHAAR_1], A/c No. [ACCOUNT_1].');
+    expect(hits.map(h => h.value)).toEqual(['ravi@example.com', 'Ravi Kumar', '2345 6789 0124', 'ABCPK1234D', '1234 5678 9012', '+91 98765 43210']);
+  });
+
+  it('leaves numbers that fail their checks and detectors that are off', () => {
+    const settings = { ...DEFAULT_REDACTION_SETTINGS, detectors: { ...DEFAULT_REDACTION_SETTINGS.detectors, email: false } };
+    expect(redactText('Ref 2345 6789 0123 sent to ravi@example.com', [], settings, emptyPlaceholderMap(), [])).toBe('Ref 2345 6789 0123 sent to ravi@example.com');
+  });
+
+  it('gives a value the same placeholder however it is written, and restores it', () => {
+    const map = emptyPlaceholderMap();
+    const first = redactText('Call 9876543210 or ravi kumar', client, DEFAULT_REDACTION_SETTINGS, map, []);
+    const second = redactText('Call +91 98765-43210 or RAVI KUMAR', client, DEFAULT_REDACTION_SETTINGS, map, []);
+    expect(first).toBe('Call [PHONE_1] or [CLIENT_1]');
+    expect(second).toBe(first);
+    expect(restorePlaceholders('[CLIENT_1] on [PHONE_1], not [PAN_9]', map)).toBe('Ravi Kumar on 9876543210, not [PAN_9]');
+  });
+
+  it('redacts what the provider receives and restores what it returns', async () => {
+    const log: OutgoingRequest[] = [];
+    const received: unknown[] = [];
+    const provider = withRedaction({
+      generate: async call => {
+        received.push(call.contents);
+        return Object.assign(new GenerateContentResponse(), { candidates: [{ content: { role: 'model', parts: [{ text: '[CLIENT_1] should reply to the notice.' }] } }] });
+      },
+      stream: async () => { throw new Error('not used'); },
+      embed: async () => { throw new Error('not used'); },
+    }, makeRedactor(log));
+
+    const response = await provider.generate({
+      feature: 'research',
+      model: 'test-model',
+      contents: [{ role: 'user', parts: [{ text: 'Advise Ravi Kumar on the notice.' }, { inlineData: { data: 'iVBORw0KGgo=', mimeType: 'image/png' } }] }],
+    });
+
+    expect(received).toEqual([[{ role: 'user', parts: [
+      { text: 'Advise [CLIENT_1] on the notice.' },
+      { text: '[An attachment (image/png) was withheld because its contents could not be checked for personal data.]' },
+    ] }]]);
+    expect(response.candidates?.[0].content?.parts?.[0].text).toBe('Ravi Kumar should reply to the notice.');
+    expect(log).toHaveLength(1);
+    expect(log[0].hits).toEqual([{ placeholder: '[CLIENT_1]', value: 'Ravi Kumar' }]);
+    expect(log[0].parts.filter(p => p.isNote).map(p => p.text)).toEqual(['File (image/png) withheld: it has no readable text to redact']);
+  });
+});
+
+describe('createMockProvider', () => {
+  const question = { feature: 'research' as const, model: 'mock', contents: [{ role: 'user', parts: [{ text: 'Is a cheque bounce notice valid by email?' }] }] };
+
+  it('answers the same request the same way, with sources that point into the answer', async () => {
+    const first = await createMockProvider().generate(question);
+    const second = await createMockProvider().generate(question);
+    expect(first.text).toBe(second.text);
+    expect(first.text).toContain('cheque bounce notice valid by email');
+    const { groundingChunks, groundingSupports } = first.candidates?.[0].groundingMetadata || {};
+    expect(groundingChunks).toHaveLength(3);
+    const bytes = new TextEncoder().encode(first.text);
+    for (const { segment } of groundingSupports || []) {
+      expect(new TextDecoder().decode(bytes.slice(segment?.startIndex, segment?.endIndex))).toBe(segment?.text);
+    }
+  });
+
+  it('uses a scripted reply for the features it covers', async () => {
+    const provider = createMockProvider({ summarize: { text: 'Scripted summary.' } });
+    expect((await provider.generate({ ...question, feature: 'summarize' })).text).toBe('Scripted summary.');
+    expect((await provider.generate({ ...question, feature: 'analyze' })).text).toContain('Mock analysis');
+  });
+
+  it('streams the reply in chunks, with grounding on the last', async () => {
+    const chunks = [];
+    for await (const chunk of await createMockProvider({ research: { text: 'x'.repeat(100), groundingMetadata: { webSearchQueries: ['q'] } } }).stream(question)) chunks.push(chunk);
+    expect(chunks.map(c => c.text).join('')).toBe('x'.repeat(100));
+    expect(chunks.map(c => !!c.candidates?.[0].groundingMetadata)).toEqual([false, false, true]);
+  });
+});
+
+describe('computeLimitation', () => {
+  const rule = (id: string) => LIMITATION_RULES.find(r => r.id === id)!;
+  const alwaysOpen = { closedWeekdays: [], holidays: [] };
+  const noCopy = { copyAppliedOn: '', copyReadyOn: '' };
+
+  it('excludes the starting day', () => {
+    const result = computeLimitation(rule('art-116b'), { startDate: '2025-01-01', ...noCopy }, alwaysOpen);
+    expect(result.lastDate).toBe('2025-01-31');
+    expect(result.notes[0]).toMatch(/Enter the dates the certified copy/);
+  });
+
+  it('excludes the time taken to obtain a certified copy, counting both days', () => {
+    const result = computeLimitation(rule('art-116b'), { startDate: '2025-01-01', copyAppliedOn: '2025-01-10', copyReadyOn: '2025-01-14' }, alwaysOpen);
+    expect(result.excludedDays).toBe(5);
+    expect(result.lastDate).toBe('2025-02-05');
+  });
+
+  it('ignores certified copy dates that are out of order or after expiry', () => {
+    const outOfOrder = computeLimitation(rule('art-116b'), { startDate: '2025-01-01', copyAppliedOn: '2025-01-14', copyReadyOn: '2025-01-10' }, alwaysOpen);
+    expect(outOfOrder.lastDate).toBe('2025-01-31');
+    expect(outOfOrder.notes[0]).toMatch(/out of order/);
+    const late = computeLimitation(rule('art-116b'), { startDate: '2025-01-01', copyAppliedOn: '2025-02-03', copyReadyOn: '2025-02-10' }, alwaysOpen);
+    expect(late.excludedDays).toBe(0);
+    expect(late.lastDate).toBe('2025-01-31');
+    expect(late.notes[0]).toMatch(/already expired/);
+  });
+
+  it('runs a period that ends while the court is closed to the day it reopens', () => {
+    const calendar = { closedWeekdays: [0], holidays: [{ id: 'h1', label: 'Winter vacation', start: '2025-01-30', end: '2025-02-01' }] };
+    const result = computeLimitation(rule('art-123'), { startDate: '2025-01-01', ...noCopy }, calendar);
+    expect(result.lastDate).toBe('2025-02-03');
+    expect(result.steps[1]).toContain('(Winter vacation, Sunday)');
+    // A notice is not filed in court, so s.4 does not move it.
+    expect(computeLimitation(rule('ni-138b'), { startDate: '2025-01-01', ...noCopy }, calendar).lastDate).toBe('2025-01-31');
+  });
+
+  it('ends a period in months or years on the last day of a shorter month', () => {
+    const sixMonths = rule('s378-5-public-servant');
+    expect(computeLimitation(sixMonths, { startDate: '2025-08-31', ...noCopy }, alwaysOpen).lastDate).toBe('2026-02-28');
+    expect(computeLimitation(sixMonths, { startDate: '2023-08-31', ...noCopy }, alwaysOpen).lastDate).toBe('2024-02-29');
+    expect(computeLimitation(rule('art-113'), { startDate: '2024-02-29', ...noCopy }, alwaysOpen).lastDate).toBe('2027-02-28');
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('keeps a month-end series at month-end', () => {
+    const deadlines = ['2025-01-31'];
+    for (let i = 0; i < 3; i++) deadlines.push(nextOccurrence(deadlines[i], 'monthly', 31));
+    expect(deadlines).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+  });
+
+  it('steps weeks, quarters and years from the deadline', () => {
+    expect(nextOccurrence('2025-12-29', 'weekly')).toBe('2026-01-05');
+    expect(nextOccurrence('2025-11-30', 'quarterly')).toBe('2026-02-28');
+    expect(nextOccurrence('2024-02-29', 'yearly')).toBe('2025-02-28');
+    expect(nextOccurrence('2025-02-28', 'yearly', 29)).toBe('2026-02-28');
+  });
+});
@@ -1,10 +1,31 @@
+/// <reference types="vite/client" />
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Modality } from '@google/genai';
+import { GoogleGenAI, Modality, Content, ContentListUnion, ContentUnion, Part, PartUnion, EmbedContentResponse, GenerateContentConfig, GenerateContentResponse, GroundingMetadata, GroundingSupport, HarmBlockThreshold, HarmCategory, Schema, Type } from '@google/genai';
+import { Marked, Token, Tokens } from 'marked';
+import DOMPurify from 'dompurify';
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import mammoth from 'mammoth';
+import { Document, Packer, Paragraph, TextRun, ExternalHyperlink, HeadingLevel, Table, TableRow, TableCell, WidthType, LevelFormat, BorderStyle, ParagraphChild, AlignmentType } from 'docx';
 import { 
   Scale, 
   Search,
+  PenLine,
+  Bold,
+  Italic,
+  Underline,
+  List,
+  ListOrdered,
+  AlignLeft,
+  AlignCenter,
+  AlignRight,
+  AlignJustify,
+  Heading2,
+  Undo2,
+  Redo2,
+  Save,
   Clock,
   FileText,
   Trash2,
@@ -33,7 +54,39 @@ import {
   Menu,
   Library,
   BookOpenText,
-  AlertTriangle
+  AlertTriangle,
+  StopCircle,
+  Check,
+  FileDown,
+  DatabaseBackup,
+  ArchiveRestore,
+  Briefcase,
+  Pencil,
+  FileSearch,
+  GitCompare,
+  ClipboardList,
+  CalendarDays,
+  Bell,
+  AlarmClock,
+  Repeat,
+  Calculator,
+  Gavel,
+  Landmark,
+  ShieldCheck,
+  ShieldX,
+  ShieldAlert,
+  Eye,
+  Lock,
+  LockKeyhole,
+  KeyRound,
+  Settings,
+  EyeOff,
+  RotateCcw,
+  Gauge,
+  ArrowUp,
+  ArrowDown,
+  ShieldQuestion,
+  ArrowLeftRight
 } from 'lucide-react';
 
 // --- Types ---
@@ -44,6 +97,10 @@ interface Message {
   fileName?: string;
   fileURL?: string;
   fileStatus?: 'Analyzing...' | 'Ready for Review' | 'Error' | 'Processing...';
+  isError?: boolean; // Error notices are shown to the user but never replayed to the model
+  isStopped?: boolean; // The user cancelled the response before it finished streaming
+  citations?: Citation[]; // Grounding chunks for this answer; footnote [n] refers to citations[n - 1]
+  groundingSupports?: CitationSupport[];
 }
 
 interface Citation {
@@ -54,11 +111,37 @@ interface Citation {
   text?: string;
 }
 
+// A span of Message.text (character offsets) backed by one or more of the message's citations.
+interface CitationSupport {
+  startIndex: number;
+  endIndex: number;
+  chunkIndices: number[];
+}
+
 interface Task {
   id: string;
   text: string;
   deadline: string;
   isComplete: boolean;
+  reminders?: number[]; // Days before the deadline, 0 being the morning of; absent means DEFAULT_TASK_REMINDERS
+  recurrence?: TaskRecurrence; // Completing a recurring task schedules its next occurrence
+  recurrenceDay?: number; // Day of the month the series was first due, so 31 Jan recurs on 28 Feb and then 31 Mar
+  snoozedUntil?: string; // ISO timestamp; no reminders fire before it
+  notified?: string[]; // Keys of reminders already delivered, so each fires once
+}
+
+type TaskRecurrence = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+// An entry in the notification centre's log of delivered reminders.
+interface AppNotification {
+  id: string;
+  docId: string;
+  taskId: string;
+  title: string;
+  body: string;
+  kind: 'reminder' | 'missed';
+  createdAt: string;
+  isRead: boolean;
 }
 
 interface ManagedDoc {
@@ -67,8 +150,22 @@ interface ManagedDoc {
   url: string;
   type: string;
   date: string;
-  tasks: Task[];
+  tasks: Task[]; // Tasks belong to the document's matter
   file: File | null; // Store the file object for analysis
+  matterId?: string;
+  keyFacts?: KeyFacts;
+  riskReview?: ContractReview;
+}
+
+// Dates are ISO (YYYY-MM-DD), or empty when the document does not fix one.
+interface KeyFacts {
+  parties: { name: string; role: string }[];
+  keyDates: { date: string; description: string; isDeadline: boolean }[];
+  obligations: { party: string; description: string; dueDate: string }[];
+  amounts: { amount: string; description: string }[];
+  governingLaw: string;
+  extractedAt: string;
+  pendingTasks: Task[]; // Proposed from the dates above and not yet accepted or rejected
 }
 
 interface Session {
@@ -77,6 +174,160 @@ interface Session {
   date: string;
   messages: Message[];
   citations: Citation[];
+  contextSummary?: string; // Condensed account of the turns folded out of the live context
+  summarizedCount?: number; // How many leading messages the summary covers
+  matterId?: string;
+  profileId?: string; // ResearchProfile.id the session was researched under
+}
+
+// A forum, practice area and house style that research answers are tailored to.
+interface ResearchProfile {
+  id: string;
+  name: string;
+  jurisdiction: string;
+  practiceArea: string;
+  authorities: string; // Which authorities to prefer, and in what order
+  citationStyle: string;
+  answerFormat: string;
+  officialSources: string[]; // Domains, e.g. sci.gov.in
+}
+
+// Text extracted from a vault document. PDFs keep one entry per page; other formats are a single block.
+interface DocText {
+  id: string; // ManagedDoc.id
+  pages: string[];
+  paginated: boolean;
+}
+
+// An imported reference list used to check the authorities cited in answers. Each import is kept as its
+// own source so it can be removed without touching the others.
+interface LegalIndexSource {
+  id: string;
+  name: string;
+  importedAt: string;
+  sections: BareActSection[];
+  cases: CaseRecord[];
+}
+
+interface BareActSection {
+  act: string; // Canonical full title, e.g. "Indian Penal Code, 1860"
+  section: string;
+  heading: string;
+  text: string;
+  replacedBy?: { act: string; section: string }; // Set for sections of a repealed code
+}
+
+interface CaseRecord {
+  citation: string; // Canonical form, see findAuthorities
+  title: string;
+  court: string;
+  date: string;
+  parallelCitations: string[];
+}
+
+// A document drafted from a template. `values` keeps the template's field values so the live fields in `html`
+// can be refilled; `versions` are snapshots of `html`, newest first.
+interface Draft {
+  id: string;
+  title: string;
+  templateId: string;
+  matterId?: string;
+  sourceDocId?: string; // Vault document whose key facts filled the fields
+  values: Record<string, string>;
+  html: string;
+  versions: DraftVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface DraftVersion {
+  id: string;
+  savedAt: string;
+  label: string;
+  html: string;
+}
+
+type ClauseCategory = 'indemnity' | 'limitation-of-liability' | 'termination' | 'arbitration' | 'governing-law' | 'confidentiality'
+  | 'payment' | 'intellectual-property' | 'warranties' | 'force-majeure' | 'assignment' | 'non-compete' | 'data-protection'
+  | 'term-renewal' | 'notices' | 'boilerplate' | 'other';
+
+// The firm's preferred stance on one kind of clause, which review scores are measured against.
+interface PlaybookPosition {
+  category: ClauseCategory;
+  preferred: string;
+  fallback: string; // Least favourable wording still acceptable
+  redFlags: string;
+  required: boolean; // The contract is flagged when it has no clause of this kind
+}
+
+interface ContractPlaybook {
+  perspective: string; // Whose side the review takes, e.g. "Customer"
+  positions: PlaybookPosition[];
+}
+
+// A structured review of a contract. Scores run from 0 (matches the playbook) to 10 (unacceptable).
+interface ContractReview {
+  reviewedAt: string;
+  perspective: string;
+  clauses: ClauseReview[];
+  missing: ClauseCategory[]; // Required categories with no matching clause
+  truncated: boolean; // Only the first MAX_REVIEW_CLAUSES clauses were reviewed
+}
+
+interface ClauseReview {
+  index: number; // 1-based position in the document
+  title: string;
+  text: string;
+  category: ClauseCategory;
+  score: number;
+  issue: string;
+  fallback: string; // Suggested replacement wording, empty when the clause is acceptable
+}
+
+interface Matter {
+  id: string;
+  name: string;
+  clientName: string;
+  caseNumber: string;
+  court: string;
+  opposingParty: string;
+  createdAt: string;
+  sensitiveTerms?: string[]; // Redacted from everything sent to the model, along with the party names
+}
+
+// One row of a clause-level redline. Indices are 1-based clause positions in each document.
+interface ClauseChange {
+  kind: 'unchanged' | 'inserted' | 'deleted' | 'moved' | 'modified';
+  baseIndex?: number;
+  revisedIndex?: number;
+  baseText?: string; // Omitted for unchanged clauses, which read the same as revisedText
+  revisedText?: string;
+  words?: { text: string; op: 'equal' | 'insert' | 'delete' }[]; // Word-level redline of a modified clause
+}
+
+// A redline of two vault documents, listed against both of them.
+interface DocComparison {
+  id: string;
+  baseDocId: string;
+  revisedDocId: string;
+  baseName: string; // Document names when the comparison was made
+  revisedName: string;
+  createdAt: string;
+  changes: ClauseChange[];
+  commentary: string; // Markdown; refers to changes by label, e.g. [C3]
+}
+
+// Days the courts do not sit, used to extend limitation periods under Section 4 of the Limitation Act.
+interface CourtCalendar {
+  closedWeekdays: number[]; // 0 is Sunday
+  holidays: CourtHoliday[];
+}
+
+interface CourtHoliday {
+  id: string;
+  label: string;
+  start: string; // Inclusive ISO dates; a single holiday has start === end
+  end: string;
 }
 
 // --- Audio Helpers ---
@@ -111,491 +362,6205 @@ async function decodeAudioData(
 
 
 // --- File Helper ---
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.readAsDataURL(blob);
+});
+
 const fileToGenerativePart = async (file: File) => {
-  const base64EncodedDataPromise = new Promise<string>((resolve) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-    reader.readAsDataURL(file);
-  });
   return {
-    inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
+    inlineData: { data: await blobToBase64(file), mimeType: file.type },
   };
 };
 
-const JurisApp = () => {
-  const [activeTab, setActiveTab] = useState<'research' | 'documents' | 'history'>('research');
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [userInput, setUserInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [citations, setCitations] = useState<Citation[]>([]);
-  const [showAllSources, setShowAllSources] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [loadingMessage, setLoadingMessage] = useState('Juris is thinking...');
-  const [isListening, setIsListening] = useState(false);
-  const [isConfigured, setIsConfigured] = useState(true);
-  
-  // Data Persistence
-  const [managedDocs, setManagedDocs] = useState<ManagedDoc[]>([]);
-  const [sessionHistory, setSessionHistory] = useState<Session[]>([]);
-  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+// --- Workspace Encryption ---
+// With a passphrase set, the workspace's client data (sessions, documents, tasks, drafts and the redaction
+// placeholders) and the API key are stored AES-GCM encrypted under a key derived from the passphrase. Neither
+// the key nor the passphrase is ever written to disk.
+const LOCK_STORAGE_KEY = 'juris_lock';
+const ENCRYPTED_STORAGE_KEYS = ['juris_docs', 'juris_history', 'juris_matters', 'juris_comparisons', 'juris_notifications', 'juris_drafts', 'juris_playbook', 'juris_placeholders', 'juris_api_key'];
+const ENCRYPTED_PREFIX = 'enc1:';
+const PBKDF2_ITERATIONS = 600000;
+const LOCK_CHECK_TEXT = 'juris-workspace';
+const MIN_PASSPHRASE_LENGTH = 8;
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0]; // Minutes of inactivity; 0 never locks
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
 
-  // Document Vault State
-  const [docSearchTerm, setDocSearchTerm] = useState('');
-  const [isUploadingDocs, setIsUploadingDocs] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [viewingDoc, setViewingDoc] = useState<ManagedDoc | null>(null);
-  const [managingTasksForDoc, setManagingTasksForDoc] = useState<ManagedDoc | null>(null);
-  const [analyzingDoc, setAnalyzingDoc] = useState<ManagedDoc | null>(null);
-  const [analysisPrompt, setAnalysisPrompt] = useState('');
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysisResult, setAnalysisResult] = useState('');
-  const [newTaskText, setNewTaskText] = useState('');
-  const [newTaskDeadline, setNewTaskDeadline] = useState('');
-  const [summarizingDoc, setSummarizingDoc] = useState<ManagedDoc | null>(null);
-  const [summaryResult, setSummaryResult] = useState('');
-  const [isSummarizing, setIsSummarizing] = useState(false);
+interface WorkspaceLock {
+  salt: string; // base64
+  iterations: number;
+  check: string; // LOCK_CHECK_TEXT encrypted under the key, so a wrong passphrase is caught before any data is read
+  autoLockMinutes: number;
+}
 
-  // Audio State
-  const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+interface SealedBytes {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
 
-  // UI State
-  const [isCitationRailVisible, setIsCitationRailVisible] = useState(true);
-  const [isMobileNavVisible, setIsMobileNavVisible] = useState(false);
-  
-  const chatEndRef = useRef<HTMLDivElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const docUploadInputRef = useRef<HTMLInputElement>(null);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const recognitionRef = useRef<any>(null);
-  const docViewerFrameRef = useRef<HTMLIFrameElement>(null);
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // In chunks: spreading a large array into one call overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
 
-  // --- Initial Setup ---
-  useEffect(() => {
-    setTimeout(() => {
-      if (!(window as any).GEMINI_API_KEY) {
-        console.error("Configuration Error: GEMINI_API_KEY not found in window object.");
-        setIsConfigured(false);
-      }
-    }, 500);
+export const deriveWorkspaceKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
 
-    audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+const sealBytes = async (key: CryptoKey, data: BufferSource): Promise<SealedBytes> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data) };
+};
 
-    const savedDocs = localStorage.getItem('juris_docs');
-    const savedHistory = localStorage.getItem('juris_history');
-    if (savedDocs) {
-        const parsedDocs = JSON.parse(savedDocs);
-        setManagedDocs(parsedDocs.map((d: any) => ({...d, file: null})));
-    }
-    if (savedHistory) setSessionHistory(JSON.parse(savedHistory));
-  }, []);
+const openBytes = (key: CryptoKey | null, sealed: SealedBytes) => {
+  if (!key) throw new Error("This data is encrypted and the workspace is locked.");
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+};
 
-  useEffect(() => {
-    const docsToSave = managedDocs.map(({ file, ...rest }) => rest);
-    localStorage.setItem('juris_docs', JSON.stringify(docsToSave));
-  }, [managedDocs]);
+export const encryptText = async (key: CryptoKey, text: string) => {
+  const sealed = await sealBytes(key, new TextEncoder().encode(text));
+  return `${ENCRYPTED_PREFIX}${bytesToBase64(sealed.iv)}:${bytesToBase64(new Uint8Array(sealed.data))}`;
+};
 
-  useEffect(() => {
-    localStorage.setItem('juris_history', JSON.stringify(sessionHistory));
-  }, [sessionHistory]);
+// Values written before a passphrase was set are plain JSON and pass through unchanged.
+export const decryptText = async (key: CryptoKey | null, stored: string) => {
+  if (!stored.startsWith(ENCRYPTED_PREFIX)) return stored;
+  const [iv, data] = stored.slice(ENCRYPTED_PREFIX.length).split(':');
+  return new TextDecoder().decode(await openBytes(key, { iv: decode(iv), data: decode(data).buffer }));
+};
 
-  useEffect(() => {
-    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isLoading]);
+export const createWorkspaceLock = async (passphrase: string, autoLockMinutes: number) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveWorkspaceKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const lock: WorkspaceLock = { salt: bytesToBase64(salt), iterations: PBKDF2_ITERATIONS, check: await encryptText(key, LOCK_CHECK_TEXT), autoLockMinutes };
+  return { lock, key };
+};
 
-  useEffect(() => {
-    if (textareaRef.current) {
-        textareaRef.current.style.height = 'auto';
-        textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`;
-    }
-  }, [userInput]);
+// Resolves to null for a wrong passphrase: AES-GCM refuses to open the check value under any other key.
+export const unlockWorkspaceKey = async (lock: WorkspaceLock, passphrase: string) => {
+  const key = await deriveWorkspaceKey(passphrase, decode(lock.salt), lock.iterations);
+  try {
+    return await decryptText(key, lock.check) === LOCK_CHECK_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+};
 
-  // Speech Recognition Init
-  useEffect(() => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (SpeechRecognition) {
-      recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.continuous = true;
-      recognitionRef.current.interimResults = true;
-      recognitionRef.current.onresult = (event: any) => {
-        const transcript = Array.from(event.results).map((result: any) => result[0].transcript).join('');
-        setUserInput(transcript);
-      };
-      recognitionRef.current.onend = () => setIsListening(false);
-    }
-  }, []);
+const loadWorkspaceLock = (): WorkspaceLock | null => {
+  const saved = localStorage.getItem(LOCK_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : null;
+};
 
-  // --- Handlers ---
-  const prepareForApiCall = () => {
-    const apiKey = (window as any).GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("API key not found. Please ensure it's set correctly in your environment.");
-    }
-    return new GoogleGenAI({ apiKey });
-  };
+// --- Vault Storage (IndexedDB) ---
+// File bytes are too large for localStorage, so vault documents keep their metadata there and
+// their contents (and extracted text) here, keyed by ManagedDoc.id.
+const VAULT_DB_NAME = 'juris_vault';
+const VAULT_FILE_STORE = 'files';
+const VAULT_TEXT_STORE = 'texts';
+const VAULT_INDEX_STORE = 'legal_index';
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-  };
+interface StoredVaultFile {
+  id: string;
+  name: string;
+  type: string;
+  lastModified: number;
+  data: Blob;
+}
 
-  const verifiedCitations = useMemo(() => citations.filter(c => !!c.web), [citations]);
-  const displayedCitations = showAllSources ? citations : verifiedCitations;
+// How files and texts are stored while the workspace is encrypted. Only the id stays readable.
+interface SealedVaultRecord {
+  id: string;
+  sealed: SealedBytes;
+}
 
-  const toggleListening = () => {
-    if (isListening) recognitionRef.current?.stop();
-    else {
-      setUserInput('');
-      recognitionRef.current?.start();
-      setIsListening(true);
-    }
+const openVaultDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(VAULT_DB_NAME, 3);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(VAULT_FILE_STORE)) db.createObjectStore(VAULT_FILE_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(VAULT_TEXT_STORE)) db.createObjectStore(VAULT_TEXT_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(VAULT_INDEX_STORE)) db.createObjectStore(VAULT_INDEX_STORE, { keyPath: 'id' });
   };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) setSelectedFile(e.target.files[0]);
-  };
+const runVaultRequest = async <T,>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openVaultDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => { db.close(); resolve(request.result); };
+    // Quota failures abort the transaction rather than failing the request.
+    tx.onerror = tx.onabort = () => { db.close(); reject(tx.error || request.error); };
+  });
+};
 
-  const handleMultiFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const files = e.target.files;
-      setIsUploadingDocs(true);
-      setUploadProgress(0);
+// The name, type and date are sealed along with the bytes, since a file name alone can identify a client.
+// Layout: 4-byte metadata length, metadata JSON, file bytes.
+const sealVaultFile = async (key: CryptoKey, file: File) => {
+  const meta = new TextEncoder().encode(JSON.stringify({ name: file.name, type: file.type, lastModified: file.lastModified }));
+  const header = new Uint8Array(4);
+  new DataView(header.buffer).setUint32(0, meta.length);
+  return sealBytes(key, await new Blob([header, meta, file]).arrayBuffer());
+};
 
-      const newManagedDocs: ManagedDoc[] = [];
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const fileURL = URL.createObjectURL(file);
-        newManagedDocs.push({
-          id: Math.random().toString(36).substr(2, 9),
-          name: file.name,
-          url: fileURL,
-          type: file.type,
-          date: new Date().toLocaleDateString(),
-          tasks: [],
-          file: file,
-        });
-        
-        setUploadProgress(Math.round(((i + 1) / files.length) * 100));
-        await new Promise(r => setTimeout(r, 200));
-      }
-      
-      setManagedDocs(prev => [...prev, ...newManagedDocs]);
-      setTimeout(() => setIsUploadingDocs(false), 500);
-    }
-  };
+const openVaultFile = async (key: CryptoKey | null, sealed: SealedBytes) => {
+  const bytes = await openBytes(key, sealed);
+  const metaLength = new DataView(bytes).getUint32(0);
+  const meta = JSON.parse(new TextDecoder().decode(new Uint8Array(bytes, 4, metaLength)));
+  return new File([bytes.slice(4 + metaLength)], meta.name, { type: meta.type, lastModified: meta.lastModified });
+};
 
-  const startNewSession = () => {
-    setMessages([]);
-    setCitations([]);
-    setCurrentSessionId(null);
-    setActiveTab('research');
-    setIsMobileNavVisible(false);
-  };
+const vaultFileRecord = async (id: string, file: File, key: CryptoKey | null): Promise<StoredVaultFile | SealedVaultRecord> => key
+  ? { id, sealed: await sealVaultFile(key, file) }
+  : { id, name: file.name, type: file.type, lastModified: file.lastModified, data: file };
 
-  const handleClearChat = () => {
-    if (window.confirm("Are you sure you want to clear this entire conversation? This cannot be undone.")) {
-      setMessages([]);
-      setCitations([]);
-      setCurrentSessionId(null);
-    }
-  };
+export const saveVaultFile = async (id: string, file: File, key: CryptoKey | null) => {
+  const record = await vaultFileRecord(id, file, key);
+  return runVaultRequest(VAULT_FILE_STORE, 'readwrite', store => store.put(record));
+};
 
-  const loadSession = (session: Session) => {
-    setMessages(session.messages);
-    setCitations(session.citations);
-    setCurrentSessionId(session.id);
-    setActiveTab('research');
-    setIsMobileNavVisible(false);
-  };
+export const loadVaultFile = async (id: string, key: CryptoKey | null) => {
+  const record = await runVaultRequest<StoredVaultFile | SealedVaultRecord | undefined>(VAULT_FILE_STORE, 'readonly', store => store.get(id));
+  if (!record) return null;
+  if ('sealed' in record) return openVaultFile(key, record.sealed);
+  return new File([record.data], record.name, { type: record.type, lastModified: record.lastModified });
+};
 
-  const deleteSession = (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (window.confirm("Delete this session from history?")) {
-      setSessionHistory(prev => prev.filter(s => s.id !== id));
-      if (currentSessionId === id) startNewSession();
-    }
-  };
+const deleteVaultFile = (id: string) => runVaultRequest(VAULT_FILE_STORE, 'readwrite', store => store.delete(id));
 
-  const handleTextToSpeech = async (message: Message) => {
-    if (playingAudioId === message.id) {
-        audioSourceRef.current?.stop();
-        setPlayingAudioId(null);
-        return;
-    }
-    
-    try {
-        const ai = prepareForApiCall();
-        setPlayingAudioId(message.id);
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: message.text }] }],
-            config: { responseModalities: [Modality.AUDIO] },
-        });
+// Chat attachments share the file store with documents, under the id of the message that sent them.
+const VAULT_ATTACHMENT_PREFIX = 'attachment:';
 
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (base64Audio && audioContextRef.current) {
-            const audioBuffer = await decodeAudioData(decode(base64Audio), audioContextRef.current, 24000, 1);
-            const source = audioContextRef.current.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioContextRef.current.destination);
-            source.start();
-            source.onended = () => setPlayingAudioId(null);
-            audioSourceRef.current = source;
-        }
-    } catch (error) {
-        console.error("TTS Error:", error);
-        setPlayingAudioId(null);
-    }
-  };
+const attachmentVaultId = (messageId: string) => VAULT_ATTACHMENT_PREFIX + messageId;
 
-  const handleSummarizeDocument = async (doc: ManagedDoc) => {
-      if (!doc.file) {
-        alert("File data is not available for summarization. Please re-upload the document.");
-        return;
-      }
-      
-      try {
-        const ai = prepareForApiCall();
-        setSummarizingDoc(doc);
-        setIsSummarizing(true);
-        setSummaryResult('');
+const isAttachmentVaultId = (id: string) => id.startsWith(VAULT_ATTACHMENT_PREFIX);
 
-        const parts = [
-          { text: `You are a legal expert. Provide a concise, professional summary of the following document: "${doc.name}". Focus on the key legal points, arguments, and outcomes.` },
-          await fileToGenerativePart(doc.file)
-        ];
-        const response = await ai.models.generateContent({
-          model: "gemini-3-pro-preview",
-          contents: { parts }
-        });
-        setSummaryResult(response.text || 'No summary could be generated.');
-      } catch (error) {
-        console.error("Summarization error:", error);
-        setSummaryResult("An error occurred while generating the summary.");
-      } finally {
-        setIsSummarizing(false);
-      }
-    };
-  
-  const handleAnalyzeDocument = async () => {
-    if (!analysisPrompt || !analyzingDoc?.file) return;
+// Copies staged by a re-key sit beside the records they replace, under this prefix.
+const VAULT_STAGING_PREFIX = 'rekey:';
+export const VAULT_STAGED_STORAGE_KEY = 'juris_vault_staged'; // Set once a re-key is committed and its staged copies are due to be swapped in
 
-    try {
-        const ai = prepareForApiCall();
-        setIsAnalyzing(true);
-        setAnalysisResult('');
-        const parts = [
-            { text: `Context: You are analyzing a legal document named "${analyzingDoc.name}". Task: ${analysisPrompt}` },
-            await fileToGenerativePart(analyzingDoc.file)
-        ];
-        const response = await ai.models.generateContent({
-            model: "gemini-3-pro-preview",
-            contents: { parts }
-        });
-        setAnalysisResult(response.text || 'No result found.');
-    } catch (error) {
-        console.error("Analysis error:", error);
-        setAnalysisResult("An error occurred during analysis.");
-    } finally {
-        setIsAnalyzing(false);
-    }
-  };
+const isStagedId = (id: IDBValidKey) => String(id).startsWith(VAULT_STAGING_PREFIX);
 
-  const handleAddTask = (docId: string) => {
-    if (!newTaskText) return;
-    const newTask: Task = {
-        id: Math.random().toString(36).substr(2, 9),
-        text: newTaskText,
-        deadline: newTaskDeadline,
-        isComplete: false,
-    };
-    // FIX: Spread the tasks array from the document, not the document itself.
-    setManagedDocs(docs => docs.map(d => d.id === docId ? {...d, tasks: [...d.tasks, newTask]} : d));
-    setNewTaskText('');
-    setNewTaskDeadline('');
-  };
+const listVaultIds = async (storeName: string) => (await runVaultRequest(storeName, 'readonly', store => store.getAllKeys())).filter(id => !isStagedId(id)).map(String);
 
-  const toggleTask = (docId: string, taskId: string) => {
-    setManagedDocs(docs => docs.map(d => d.id === docId ? { ...d, tasks: d.tasks.map(t => t.id === taskId ? {...t, isComplete: !t.isComplete} : t) } : d));
-  };
+export const listVaultFileIds = () => listVaultIds(VAULT_FILE_STORE);
 
-  const deleteTask = (docId: string, taskId: string) => {
-    setManagedDocs(docs => docs.map(d => d.id === docId ? { ...d, tasks: d.tasks.filter(t => t.id !== taskId) } : d));
-  };
-  
-  const handlePrintDoc = () => {
-    if (docViewerFrameRef.current?.contentWindow) {
-      docViewerFrameRef.current.contentWindow.focus();
-      docViewerFrameRef.current.contentWindow.print();
+const docTextRecord = async (text: DocText, key: CryptoKey | null): Promise<DocText | SealedVaultRecord> => key
+  ? { id: text.id, sealed: await sealBytes(key, new TextEncoder().encode(JSON.stringify(text))) }
+  : text;
+
+export const saveDocText = async (text: DocText, key: CryptoKey | null) => {
+  const record = await docTextRecord(text, key);
+  return runVaultRequest(VAULT_TEXT_STORE, 'readwrite', store => store.put(record));
+};
+
+const openDocText = async (record: DocText | SealedVaultRecord, key: CryptoKey | null): Promise<DocText> =>
+  'sealed' in record ? JSON.parse(new TextDecoder().decode(await openBytes(key, record.sealed))) : record;
+
+export const loadDocText = async (id: string, key: CryptoKey | null) => {
+  const record = await runVaultRequest<DocText | SealedVaultRecord | undefined>(VAULT_TEXT_STORE, 'readonly', store => store.get(id));
+  return record ? openDocText(record, key) : null;
+};
+
+const loadAllDocTexts = async (key: CryptoKey | null) => {
+  const records = await runVaultRequest<(DocText | SealedVaultRecord)[]>(VAULT_TEXT_STORE, 'readonly', store => store.getAll());
+  return Promise.all(records.filter(record => !isStagedId(record.id)).map(record => openDocText(record, key)));
+};
+
+const deleteDocText = (id: string) => runVaultRequest(VAULT_TEXT_STORE, 'readwrite', store => store.delete(id));
+
+// Copies every stored file and text under the new key, beside the originals, one record at a time to keep only
+// one file in memory. Nothing the old key reads is changed, so a failure here leaves the vault as it was; a record
+// the old key cannot open fails the re-key rather than being left behind.
+export const stageVaultRekey = async (oldKey: CryptoKey | null, newKey: CryptoKey | null) => {
+  for (const id of await listVaultFileIds()) {
+    const file = await loadVaultFile(id, oldKey);
+    if (!file) continue;
+    const record = await vaultFileRecord(VAULT_STAGING_PREFIX + id, file, newKey);
+    await runVaultRequest(VAULT_FILE_STORE, 'readwrite', store => store.put(record));
+  }
+  for (const id of await listVaultIds(VAULT_TEXT_STORE)) {
+    const text = await loadDocText(id, oldKey);
+    if (!text) continue;
+    const record = { ...await docTextRecord(text, newKey), id: VAULT_STAGING_PREFIX + id };
+    await runVaultRequest(VAULT_TEXT_STORE, 'readwrite', store => store.put(record));
+  }
+};
+
+// Moves staged copies over their originals (keep) or drops them, in one transaction. No key is needed, so a swap
+// interrupted by a reload is finished on the next load.
+const settleStagedVault = async (keep: boolean) => {
+  const db = await openVaultDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([VAULT_FILE_STORE, VAULT_TEXT_STORE], 'readwrite');
+    for (const storeName of [VAULT_FILE_STORE, VAULT_TEXT_STORE]) {
+      const store = tx.objectStore(storeName);
+      const request = store.openCursor(IDBKeyRange.bound(VAULT_STAGING_PREFIX, `${VAULT_STAGING_PREFIX}\uffff`));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (keep) store.put({ ...cursor.value, id: String(cursor.key).slice(VAULT_STAGING_PREFIX.length) });
+        cursor.delete();
+        cursor.continue();
+      };
     }
-  };
+    tx.oncomplete = () => { db.close(); resolve(); };
+    tx.onerror = tx.onabort = () => { db.close(); reject(tx.error); };
+  });
+};
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if ((!userInput.trim() && !selectedFile) || isLoading) return;
-    
-    let ai;
-    try {
-        ai = prepareForApiCall();
-    } catch (error) {
-        // This should not be reached if isConfigured state is handled correctly, but it's a good safeguard.
-        console.error(error);
-        setIsConfigured(false);
-        return;
+// Finishes a committed re-key's swap, or clears out the copies of one that never committed.
+export const settleVaultRekey = async () => {
+  const isCommitted = localStorage.getItem(VAULT_STAGED_STORAGE_KEY) !== null;
+  await settleStagedVault(isCommitted);
+  localStorage.removeItem(VAULT_STAGED_STORAGE_KEY);
+};
+
+const saveLegalSource = (source: LegalIndexSource) => runVaultRequest(VAULT_INDEX_STORE, 'readwrite', store => store.put(source));
+
+const loadLegalSources = () => runVaultRequest<LegalIndexSource[]>(VAULT_INDEX_STORE, 'readonly', store => store.getAll());
+
+const deleteLegalSource = (id: string) => runVaultRequest(VAULT_INDEX_STORE, 'readwrite', store => store.delete(id));
+
+const isQuotaError = (error: unknown) => error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+// --- Citation Helpers ---
+// Grounding segments report UTF-8 byte offsets, while Message.text is indexed by UTF-16 code units.
+const byteOffsetToCharIndex = (text: string, byteOffset: number) => {
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes >= byteOffset) return i;
+    const code = text.codePointAt(i)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    if (code >= 0x10000) i++;
+  }
+  return text.length;
+};
+
+const resolveCitationSupports = (text: string, supports: GroundingSupport[] = []): CitationSupport[] => {
+  let searchFrom = 0;
+  return supports.flatMap(support => {
+    const chunkIndices = support.groundingChunkIndices || [];
+    const segment = support.segment;
+    if (!segment || chunkIndices.length === 0) return [];
+
+    // Prefer locating the segment text itself; offsets drift when a streamed answer is stitched together.
+    const found = segment.text ? text.indexOf(segment.text, searchFrom) : -1;
+    if (found >= 0) {
+      searchFrom = found;
+      return [{ startIndex: found, endIndex: found + segment.text!.length, chunkIndices }];
     }
-    
-    if (isListening) recognitionRef.current?.stop();
+    return [{
+      startIndex: byteOffsetToCharIndex(text, segment.startIndex || 0),
+      endIndex: byteOffsetToCharIndex(text, segment.endIndex || 0),
+      chunkIndices,
+    }];
+  });
+};
 
-    const currentInput = userInput;
-    const currentFile = selectedFile;
-    let fileURL = '';
+// Splits text at the end of every supported span so footnote markers can be rendered between the pieces.
+const splitAtCitationMarkers = (text: string, supports: CitationSupport[] = []) => {
+  const boldRanges = [...text.matchAll(/\*\*.*?\*\*/g)].map(match => [match.index!, match.index! + match[0].length]);
+  const markers = new Map<number, Set<number>>();
+  for (const support of supports) {
+    // Never split a **bold** run, or its asterisks would end up in different pieces.
+    const enclosing = boldRanges.find(([start, end]) => support.endIndex > start && support.endIndex < end);
+    const position = enclosing ? enclosing[1] : support.endIndex;
+    const indices = markers.get(position) || new Set<number>();
+    support.chunkIndices.forEach(i => indices.add(i));
+    markers.set(position, indices);
+  }
 
-    if (currentFile) fileURL = URL.createObjectURL(currentFile);
-    
-    const userMessage: Message = { 
-        id: Math.random().toString(36).substr(2, 9),
-        role: 'user', 
-        text: currentInput,
-        fileName: currentFile?.name,
-        fileURL: fileURL || undefined,
-        fileStatus: currentFile ? 'Analyzing...' : undefined
-    };
-    
-    const newMessages = [...messages, userMessage];
-    setMessages(newMessages);
-    setIsLoading(true);
-    setUserInput('');
-    setSelectedFile(null);
+  const pieces: ({ text: string } | { chunkIndices: number[] })[] = [];
+  let cursor = 0;
+  for (const position of [...markers.keys()].sort((a, b) => a - b)) {
+    pieces.push({ text: text.slice(cursor, position) });
+    pieces.push({ chunkIndices: [...markers.get(position)!].sort((a, b) => a - b) });
+    cursor = position;
+  }
+  pieces.push({ text: text.slice(cursor) });
+  return pieces;
+};
 
-    try {
-        const parts = [];
-        if (currentInput) parts.push({ text: currentInput });
-        if (currentFile) parts.push(await fileToGenerativePart(currentFile));
-
-        const isImageAnalysis = currentFile?.type.startsWith('image/');
-        const modelName = isImageAnalysis ? "gemini-3-pro-preview" : "gemini-3-flash-preview";
-        const systemInstruction = isImageAnalysis 
-            ? "You are an expert legal assistant analyzing visual evidence. Describe the image and identify legally relevant objects, actions, or context. Be objective and precise."
-            : "You are Juris, a high-trust expert Indian AI Law Consultant. Your tone is authoritative, professional, and precise. Always cite sources from Indian statutes and case law. Provide source summaries when relevant.";
-
-        const response = await ai.models.generateContent({
-            model: modelName,
-            contents: { parts },
-            config: {
-                systemInstruction,
-                tools: isImageAnalysis ? [] : [{ googleSearch: {} }],
-            },
-        });
+const dedupeCitations = (citations: Citation[]) => {
+  const seen = new Set<string>();
+  return citations.filter(c => {
+    const key = c.web?.uri || c.text || '';
+    if (!key || seen.has(key)) return !key;
+    seen.add(key);
+    return true;
+  });
+};
 
-      const modelMessage: Message = { id: Math.random().toString(36).substr(2, 9), role: 'model', text: response.text || '' };
-      const finalMessages = [...newMessages, modelMessage];
-      setMessages(finalMessages);
+// --- Markdown Rendering ---
+const markdownParser = new Marked({ gfm: true, breaks: true });
 
-      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      setCitations(groundingChunks);
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
 
-      const sessionTitle = currentInput ? currentInput.substring(0, 40) + '...' : (currentFile?.name || 'Legal Consultation');
-      const updatedSession: Session = {
-        id: currentSessionId || Math.random().toString(36).substr(2, 9),
-        title: sessionTitle,
-        date: new Date().toLocaleString(),
-        messages: finalMessages,
-        citations: groundingChunks
-      };
+const renderMarkdown = (text: string) => DOMPurify.sanitize(markdownParser.parse(text, { async: false }) as string, { ADD_ATTR: ['target'] });
 
-      if (currentSessionId) {
-        setSessionHistory(prev => prev.map(s => s.id === currentSessionId ? updatedSession : s));
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Splits markdown into heading-led sections so each can be copied on its own. Headings inside code fences don't count.
+const splitMarkdownSections = (text: string) => {
+  const sections: { start: number; end: number }[] = [];
+  let start = 0;
+  let offset = 0;
+  let inFence = false;
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    else if (!inFence && /^#{1,6}\s/.test(line) && offset > start) {
+      sections.push({ start, end: offset });
+      start = offset;
+    }
+    offset += line.length + 1;
+  }
+  sections.push({ start, end: text.length });
+  return sections.filter(section => text.slice(section.start, section.end).trim());
+};
+
+const withFootnoteMarkers = (text: string, supports: CitationSupport[], citations: Citation[] = []) =>
+  splitAtCitationMarkers(text, supports).map(piece => 'chunkIndices' in piece
+    ? piece.chunkIndices.map(i => `<sup class="footnote-marker" data-citation-index="${i}" title="${escapeHtml(citations[i]?.web?.title || 'Grounding Reference')}">[${i + 1}]</sup>`).join('')
+    : piece.text
+  ).join('');
+
+const MarkdownContent = ({ text, citations, supports, onCitationClick }: {
+  text: string;
+  citations?: Citation[];
+  supports?: CitationSupport[];
+  onCitationClick?: (index: number) => void;
+}) => {
+  const [copiedSection, setCopiedSection] = useState<number | null>(null);
+
+  const sections = useMemo(() => splitMarkdownSections(text).map(({ start, end }) => {
+    const source = text.slice(start, end);
+    const sectionSupports = (supports || [])
+      .filter(support => support.endIndex > start && support.endIndex <= end)
+      .map(support => ({ ...support, startIndex: support.startIndex - start, endIndex: support.endIndex - start }));
+    return { source, html: renderMarkdown(withFootnoteMarkers(source, sectionSupports, citations)) };
+  }), [text, supports, citations]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    const marker = (e.target as HTMLElement).closest('.footnote-marker');
+    if (marker && onCitationClick) onCitationClick(Number(marker.getAttribute('data-citation-index')));
+  };
+
+  // Copies rich text where the browser allows it, so headings and tables survive a paste into a brief.
+  const copySection = async (source: string, index: number) => {
+    try {
+      if (typeof ClipboardItem !== 'undefined') {
+        await navigator.clipboard.write([new ClipboardItem({
+          'text/html': new Blob([renderMarkdown(source)], { type: 'text/html' }),
+          'text/plain': new Blob([source.trim()], { type: 'text/plain' }),
+        })]);
       } else {
-        setSessionHistory(prev => [updatedSession, ...prev]);
-        setCurrentSessionId(updatedSession.id);
+        await navigator.clipboard.writeText(source.trim());
       }
-      setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, fileStatus: 'Ready for Review' } : m));
-
+      setCopiedSection(index);
+      setTimeout(() => setCopiedSection(null), 1500);
     } catch (error) {
-      console.error(error);
-      setMessages(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), role: 'model', text: "An error occurred. This could be due to an invalid API key or a network issue. Please check your key in the settings and try again." }]);
-      setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, fileStatus: 'Error' } : m));
-    } finally {
-      setIsLoading(false);
+      console.error("Copy error:", error);
     }
   };
-  
-  const handleTabClick = (tab: 'research' | 'documents' | 'history') => {
-    setActiveTab(tab);
-    setIsMobileNavVisible(false);
+
+  return (
+    <div className="markdown-body" onClick={handleClick}>
+      {sections.map((section, i) => (
+        <div key={i} className="md-section">
+          <button className="md-copy-btn" title="Copy section" onClick={() => copySection(section.source, i)}>
+            {copiedSection === i ? <Check size={12} /> : <Copy size={12} />}
+          </button>
+          <div dangerouslySetInnerHTML={{ __html: section.html }} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// --- Memo Export ---
+interface ResearchMemo {
+  title: string;
+  date: string;
+  matter?: Matter;
+  exchanges: { question: string; attachment?: string; answer: string; isStopped?: boolean }[];
+  bibliography: Citation[];
+}
+
+// Flattens a session into question/answer pairs, renumbering each answer's footnotes against one
+// session-wide bibliography of web sources.
+const buildResearchMemo = (session: Session, matter?: Matter): ResearchMemo => {
+  const bibliography: Citation[] = [];
+  const bibliographyNumbers = new Map<string, number>();
+  const cite = (c: Citation) => {
+    const key = c.web?.uri || c.web?.title || '';
+    if (!bibliographyNumbers.has(key)) {
+      bibliography.push(c);
+      bibliographyNumbers.set(key, bibliography.length);
+    }
+    return bibliographyNumbers.get(key)!;
+  };
+
+  const exchanges: ResearchMemo['exchanges'] = [];
+  for (const m of session.messages) {
+    if (m.isError) continue;
+    if (m.role === 'user') {
+      exchanges.push({ question: m.text, attachment: m.fileName, answer: '' });
+      continue;
+    }
+    const numbers = (m.citations || []).map(c => c.web ? cite(c) : 0);
+    const answer = splitAtCitationMarkers(m.text, m.groundingSupports).map(piece => 'chunkIndices' in piece
+      ? [...new Set(piece.chunkIndices.map(i => numbers[i]).filter(Boolean))].map(n => `[${n}]`).join('')
+      : piece.text
+    ).join('');
+    const last = exchanges[exchanges.length - 1];
+    if (last && !last.answer) Object.assign(last, { answer, isStopped: m.isStopped });
+    else exchanges.push({ question: '', answer, isStopped: m.isStopped });
   }
+  // Sessions saved before per-message citations only carry the session-level list.
+  session.citations.filter(c => c.web).forEach(cite);
 
-  const filteredDocs = useMemo(() => managedDocs.filter(doc => doc.name.toLowerCase().includes(docSearchTerm.toLowerCase())), [managedDocs, docSearchTerm]);
+  return { title: session.title.replace(/\.\.\.$/, ''), date: session.date, matter, exchanges, bibliography };
+};
 
-  return (
-    <div className="juris-container">
-      <style>{`
-        /* --- Main App Styles --- */
-        .juris-container { display: flex; height: 100vh; width: 100vw; background-color: var(--bg-light); color: var(--text-main); position: relative; overflow: hidden; }
-        
-        .sidebar { width: 280px; background: linear-gradient(180deg, #2c3e50 0%, #34495e 100%); color: #ECF0F1; display: flex; flex-direction: column; flex-shrink: 0; box-shadow: var(--shadow-md); z-index: 100;}
-        .logo-section { padding: 2rem 1.5rem; border-bottom: 1px solid rgba(212, 175, 55, 0.2); }
-        .logo-placeholder { display: flex; align-items: center; gap: 0.75rem; }
-        .logo-symbol { font-size: 2rem; background: linear-gradient(45deg, var(--brand-gold), #FFF); -webkit-background-clip: text; -webkit-text-fill-color: transparent; font-family: var(--font-serif); }
-        .logo-brand { font-family: var(--font-serif); font-weight: 700; letter-spacing: 0.05em; font-size: 1.4rem; color: white; }
-        
-        .nav-list { flex: 1; padding: 1.5rem 1rem; }
-        .nav-link { display: flex; align-items: center; gap: 0.75rem; padding: 0.85rem 1rem; border-radius: 0.5rem; color: #BDC3C7; transition: 0.2s; cursor: pointer; margin-bottom: 0.5rem; font-size: 0.95rem; }
-        .nav-link:hover { background: #34495e; color: white; }
-        .nav-link.active { background: var(--brand-gold); color: var(--brand-navy); font-weight: 600; box-shadow: 0 4px 12px rgba(212, 175, 55, 0.3); }
+// Pushes answer headings below the memo's own question/response headings.
+const demoteHeadings = (markdown: string, levels: number) => {
+  let inFence = false;
+  return markdown.split('\n').map(line => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence) return line;
+    return line.replace(/^(#{1,6})(\s)/, (_, hashes: string, space: string) => '#'.repeat(Math.min(6, hashes.length + levels)) + space);
+  }).join('\n');
+};
 
-        .sidebar-actions { padding: 0 1rem 1.5rem; }
-        .clear-btn { width: 100%; display: flex; align-items: center; gap: 0.5rem; padding: 0.75rem 1rem; border-radius: 0.5rem; color: #FC8181; border: 1px solid rgba(252, 129, 129, 0.2); background: transparent; cursor: pointer; transition: 0.2s; font-size: 0.9rem; margin-top: 0.5rem; }
-        .clear-btn:hover { background: rgba(252, 129, 129, 0.1); border-color: #FC8181; }
+const memoToMarkdown = (memo: ResearchMemo) => {
+  const lines = [
+    '# Research Memorandum',
+    '',
+    `**Subject:** ${memo.title}  `,
+    `**Date:** ${memo.date}  `,
+    ...(memo.matter ? [
+      `**Matter:** ${memo.matter.name}  `,
+      ...([['Client', memo.matter.clientName], ['Case No.', memo.matter.caseNumber], ['Court', memo.matter.court], ['Opposing Party', memo.matter.opposingParty]]
+        .filter(([, value]) => value).map(([label, value]) => `**${label}:** ${value}  `)),
+    ] : []),
+    '**Prepared with:** Juris AI Legal Research Assistant',
+    '',
+    '---',
+    '',
+  ];
+  memo.exchanges.forEach((exchange, i) => {
+    lines.push(`## ${i + 1}. Question`, '');
+    if (exchange.question) lines.push(exchange.question.split('\n').map(line => `> ${line}`).join('\n'), '');
+    if (exchange.attachment) lines.push(`*Attachment: ${exchange.attachment}*`, '');
+    lines.push('### Response', '');
+    lines.push(exchange.answer ? demoteHeadings(exchange.answer, 3) : '*No response was recorded.*', '');
+    if (exchange.isStopped) lines.push('*This response was stopped before completion.*', '');
+  });
+  if (memo.bibliography.length > 0) {
+    lines.push('## Bibliography', '');
+    memo.bibliography.forEach((c, i) => lines.push(`${i + 1}. ${c.web?.title || 'Web source'}${c.web?.uri ? ` — <${c.web.uri}>` : ''}`));
+    lines.push('');
+  }
+  return lines.join('\n');
+};
 
-        .new-chat-btn { margin: 1.5rem; border: 1px solid var(--brand-gold); color: var(--brand-gold); padding: 0.75rem; border-radius: 0.5rem; text-align: center; display: flex; align-items: center; justify-content: center; gap: 0.5rem; cursor: pointer; transition: 0.2s; font-weight: 600; font-size: 0.9rem; background: transparent; }
-        .new-chat-btn:hover { background: rgba(212, 175, 55, 0.1); }
+const memoFileName = (memo: ResearchMemo, extension: string) =>
+  `${memo.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').substring(0, 60) || 'research-memo'}.${extension}`;
 
-        .main-content { flex: 1; display: flex; flex-direction: column; overflow: hidden; position: relative; }
-        .view-header { height: 4.5rem; background: rgba(255,255,255,0.8); backdrop-filter: blur(8px); border-bottom: 1px solid var(--border-color); display: flex; align-items: center; justify-content: space-between; padding: 0 2rem; z-index: 5; }
-        .view-header h2 { font-family: var(--font-serif); font-size: 1.25rem; color: var(--brand-navy); margin: 0; }
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
 
-        .chat-area { flex: 1; overflow-y: auto; padding: 2.5rem 2rem; background: linear-gradient(to bottom, #F8F9FA, #FFFFFF); }
-        .msg-wrap { max-width: 52rem; margin: 0 auto 2.5rem; display: flex; gap: 1.25rem; }
-        .msg-wrap.user { flex-direction: row-reverse; }
-        .avatar { width: 2.5rem; height: 2.5rem; border-radius: 0.5rem; display: flex; align-items: center; justify-content: center; flex-shrink: 0; }
-        .avatar.model { background: white; color: var(--brand-navy); border: 1px solid var(--border-color); }
-        .avatar.user { background: var(--brand-gold); color: var(--brand-navy); font-weight: 700; font-size: 0.8rem; }
-        .bubble { padding: 1.25rem 1.5rem; border-radius: 0.75rem; font-size: 0.95rem; line-height: 1.6; position: relative; max-width: 85%; }
-        .user .bubble { background: var(--brand-navy); color: var(--text-light); border-top-right-radius: 0; box-shadow: var(--shadow-md); }
-        .model .bubble { background: var(--bg-main); border: 1px solid var(--border-color); border-top-left-radius: 0; box-shadow: var(--shadow-sm); }
-        
-        .input-bar { padding: 1.5rem 2rem; background: rgba(255,255,255,0.7); backdrop-filter: blur(10px); border-top: 1px solid var(--border-color); }
-        .input-box-wrapper { max-width: 52rem; margin: 0 auto; position: relative; }
-        .input-textarea { width: 100%; border: 1px solid var(--border-color); border-radius: 1rem; padding: 1rem 7.5rem 1rem 1.25rem; font-size: 1rem; outline: none; transition: 0.2s; resize: none; min-height: 60px; }
-        .input-textarea:focus { border-color: var(--brand-gold); box-shadow: 0 0 0 4px rgba(212, 175, 55, 0.1); }
-        .input-textarea:disabled { background: #F8F9FA; cursor: not-allowed; }
-        
-        .input-actions { position: absolute; right: 0.75rem; top: 0.75rem; display: flex; gap: 0.5rem; }
-        .action-btn { padding: 0.6rem; border-radius: 0.75rem; background: transparent; border: none; cursor: pointer; color: var(--text-muted); transition: 0.2s; display: flex; align-items: center; justify-content: center; }
-        .action-btn:hover { color: var(--brand-navy); background: #F0F2F5; }
-        .action-btn:disabled { opacity: 0.5; cursor: not-allowed; }
-        .action-btn.active-mic { color: white; background: #E53E3E; animation: mic-pulse 1.5s infinite; }
-        @keyframes mic-pulse { 0% { box-shadow: 0 0 0 0 rgba(229, 62, 62, 0.4); } 70% { box-shadow: 0 0 0 10px rgba(229, 62, 62, 0); } 100% { box-shadow: 0 0 0 0 rgba(229, 62, 62, 0); } }
+const decodeEntities = (text: string) => text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
 
-        .send-btn { background: var(--brand-navy); color: white; border-radius: 0.75rem; padding: 0.6rem 0.8rem; border: none; cursor: pointer; transition: 0.2s; }
-        .send-btn:hover { background: #000; transform: translateY(-1px); }
-        
-        .config-error-bar { padding: 1rem 2rem; background: #FFF5F5; border-top: 1px solid #FED7D7; }
-        .config-error-content { max-width: 52rem; margin: 0 auto; display: flex; align-items: center; gap: 1rem; color: #C53030; font-size: 0.9rem; }
-        .config-error-content strong { color: #9B2C2C; }
+type RunStyle = { bold?: boolean; italics?: boolean; strike?: boolean };
 
-        .right-rail { width: 340px; border-left: 1px solid var(--border-color); background: var(--bg-main); display: flex; flex-direction: column; flex-shrink: 0; transition: margin-right 0.3s ease-in-out, transform 0.3s ease-in-out; }
-        .right-rail.hidden { margin-right: -340px; }
-        .rail-toggle-btn { position: fixed; top: 50%; right: 340px; transform: translate(50%, -50%); z-index: 20; background: white; border: 1px solid var(--border-color); width: 28px; height: 28px; border-radius: 50%; display: flex; align-items: center; justify-content: center; cursor: pointer; box-shadow: var(--shadow-sm); color: var(--text-muted); transition: right 0.3s ease-in-out, opacity 0.3s; }
-        .rail-toggle-btn:hover { color: var(--brand-navy); border-color: var(--brand-gold); }
-        .rail-toggle-btn.hidden { right: 0px; }
+const docxInlineRuns = (tokens: Token[] = [], style: RunStyle = {}): ParagraphChild[] => tokens.flatMap((token): ParagraphChild[] => {
+  switch (token.type) {
+    case 'strong': return docxInlineRuns((token as Tokens.Strong).tokens, { ...style, bold: true });
+    case 'em': return docxInlineRuns((token as Tokens.Em).tokens, { ...style, italics: true });
+    case 'del': return docxInlineRuns((token as Tokens.Del).tokens, { ...style, strike: true });
+    case 'codespan': return [new TextRun({ text: decodeEntities(token.text), font: 'Courier New', ...style })];
+    case 'br': return [new TextRun({ text: '', break: 1 })];
+    case 'link': return [new ExternalHyperlink({ link: (token as Tokens.Link).href, children: [new TextRun({ text: decodeEntities(token.text), style: 'Hyperlink', ...style })] })];
+    case 'html': return [new TextRun({ text: decodeEntities(token.text.replace(/<[^>]*>/g, '')), ...style })];
+    case 'text': return token.tokens ? docxInlineRuns(token.tokens, style) : [new TextRun({ text: decodeEntities(token.text), ...style })];
+    default: return 'text' in token ? [new TextRun({ text: decodeEntities(String(token.text)), ...style })] : [];
+  }
+});
 
-        .rail-header { padding: 1.5rem; border-bottom: 1px solid var(--border-color); font-weight: 700; font-family: var(--font-serif); font-size: 1.1rem; color: var(--brand-navy); }
+// Converts marked's block tokens into docx paragraphs and tables. Each ordered list gets its own
+// numbering instance so it restarts at 1.
+const docxBlocks = (tokens: Token[], numbering: { instance: number }, quoted = false): (Paragraph | Table)[] => {
+  const quoteStyle = quoted ? { indent: { left: 720 }, border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'D4AF37', space: 8 } } } : {};
+  const headingLevels = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6];
+
+  const listParagraphs = (list: Tokens.List, level: number): Paragraph[] => {
+    const instance = numbering.instance++;
+    return list.items.flatMap(item => {
+      const inline = item.tokens.filter(t => t.type === 'text' || t.type === 'paragraph');
+      const nested = item.tokens.filter((t): t is Tokens.List => t.type === 'list');
+      const children = inline.flatMap(t => 'tokens' in t && t.tokens ? docxInlineRuns(t.tokens) : [new TextRun(decodeEntities(t.raw))]);
+      const paragraph = new Paragraph({
+        children,
+        ...(list.ordered ? { numbering: { reference: 'memo-ordered', level, instance } } : { bullet: { level } }),
+      });
+      return [paragraph, ...nested.flatMap(n => listParagraphs(n, Math.min(level + 1, 2)))];
+    });
+  };
+
+  return tokens.flatMap((token): (Paragraph | Table)[] => {
+    switch (token.type) {
+      case 'heading':
+        return [new Paragraph({ heading: headingLevels[(token as Tokens.Heading).depth - 1], children: docxInlineRuns(token.tokens) })];
+      case 'paragraph':
+        return [new Paragraph({ children: docxInlineRuns(token.tokens), spacing: { after: 120 }, ...quoteStyle })];
+      case 'list':
+        return listParagraphs(token as Tokens.List, 0);
+      case 'blockquote':
+        return docxBlocks((token as Tokens.Blockquote).tokens, numbering, true);
+      case 'code':
+        return token.text.split('\n').map((line: string) => new Paragraph({ children: [new TextRun({ text: line, font: 'Courier New', size: 20 })] }));
+      case 'table': {
+        const table = token as Tokens.Table;
+        const row = (cells: Tokens.TableCell[], isHeader: boolean) => new TableRow({
+          tableHeader: isHeader,
+          children: cells.map(cell => new TableCell({ children: [new Paragraph({ children: docxInlineRuns(cell.tokens, { bold: isHeader }) })] })),
+        });
+        return [new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [row(table.header, true), ...table.rows.map(r => row(r, false))] })];
+      }
+      case 'hr':
+        return [new Paragraph({ children: [], border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'E9ECEF', space: 1 } } })];
+      case 'space':
+        return [];
+      default:
+        return 'text' in token ? [new Paragraph({ children: [new TextRun(decodeEntities(String(token.text)))], ...quoteStyle })] : [];
+    }
+  });
+};
+
+const docxDocument = (children: (Paragraph | Table)[]) => new Document({
+  styles: { default: { document: { run: { font: 'Times New Roman', size: 24 } } } },
+  numbering: {
+    config: [{
+      reference: 'memo-ordered',
+      levels: [0, 1, 2].map(level => ({
+        level,
+        format: level === 1 ? LevelFormat.LOWER_LETTER : level === 2 ? LevelFormat.LOWER_ROMAN : LevelFormat.DECIMAL,
+        text: `%${level + 1}.`,
+        style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+      })),
+    }],
+  },
+  sections: [{ children }],
+});
+
+const markdownToDocx = (markdown: string) => docxDocument(docxBlocks(markdownParser.lexer(markdown), { instance: 0 }));
+
+// Opens the document in a new window and hands it to the browser's print dialog (Save as PDF). The window shares
+// this origin, so the HTML is sanitized again here whatever its source.
+const printHtml = (html: string, title: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    alert("Please allow pop-ups for Juris to print or save the document as PDF.");
+    return;
+  }
+  printWindow.document.write(`<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${escapeHtml(title)}</title><style>
+    body { font-family: 'Times New Roman', serif; font-size: 12pt; line-height: 1.5; color: #1A1A1A; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; }
+    h1 { font-size: 20pt; text-align: center; margin-bottom: 1.5rem; }
+    h2 { font-size: 14pt; border-bottom: 1px solid #CCC; padding-bottom: 0.25rem; margin-top: 2rem; }
+    h3 { font-size: 12pt; }
+    blockquote { margin: 0 0 1rem; padding: 0.25rem 1rem; border-left: 3px solid #D4AF37; font-style: italic; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 1rem; }
+    th, td { border: 1px solid #999; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+    a { color: #1A1A1A; word-break: break-all; }
+    hr { border: none; border-top: 1px solid #CCC; }
+    @page { margin: 2.5cm; }
+  </style></head><body>${DOMPurify.sanitize(html)}</body></html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  setTimeout(() => printWindow.print(), 300);
+};
+
+const printMarkdown = (markdown: string, title: string) => printHtml(renderMarkdown(markdown), title);
+
+// --- Untrusted JSON ---
+// Imported files and model replies are parsed as `unknown` and narrowed with these before use.
+type JsonObject = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const jsonObjects = (value: unknown): JsonObject[] => Array.isArray(value) ? value.filter(isJsonObject) : [];
+
+// --- Workspace Backup ---
+const WORKSPACE_BACKUP_FORMAT = 'juris-workspace';
+export const WORKSPACE_BACKUP_VERSION = 8;
+
+interface BackupFileData {
+  name: string;
+  type: string;
+  lastModified: number;
+  base64: string;
+}
+
+interface BackupDocument extends Omit<ManagedDoc, 'file' | 'url'> {
+  fileData: BackupFileData | null;
+}
+
+interface BackupMessage extends Message {
+  fileData?: BackupFileData | null; // The chat attachment sent with the message
+}
+
+interface BackupSession extends Omit<Session, 'messages'> {
+  messages: BackupMessage[];
+}
+
+const toBackupFileData = async (file: File): Promise<BackupFileData> => ({ name: file.name, type: file.type, lastModified: file.lastModified, base64: await blobToBase64(file) });
+
+const fromBackupFileData = (fileData: BackupFileData) => new File([decode(fileData.base64)], fileData.name, { type: fileData.type, lastModified: fileData.lastModified });
+
+interface WorkspaceBackup {
+  format: typeof WORKSPACE_BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  matters: Matter[];
+  sessions: BackupSession[];
+  documents: BackupDocument[];
+  comparisons: DocComparison[];
+  courtCalendar: CourtCalendar;
+  drafts: Draft[];
+  playbook: ContractPlaybook;
+  profiles: ResearchProfile[];
+}
+
+type ConflictStrategy = 'keep-existing' | 'use-imported' | 'keep-both';
+
+const parseMaybeJson = (value: unknown): unknown => typeof value === 'string' ? JSON.parse(value) : value;
+
+// Each entry upgrades a backup from version n to n + 1. Version 0 is a raw dump of the
+// juris_docs / juris_history localStorage keys, as copied out of the browser by hand.
+const BACKUP_MIGRATIONS: Record<number, (backup: JsonObject) => JsonObject> = {
+  0: legacy => ({
+    format: WORKSPACE_BACKUP_FORMAT,
+    exportedAt: new Date(0).toISOString(),
+    sessions: parseMaybeJson(legacy.juris_history) || [],
+    documents: jsonObjects(parseMaybeJson(legacy.juris_docs)).map(d => ({ ...d, fileData: null })),
+  }),
+  // v2 introduced matters; older workspaces had none.
+  1: backup => ({ ...backup, matters: [] }),
+  // v3 added saved document comparisons.
+  2: backup => ({ ...backup, comparisons: [] }),
+  // v4 added the court calendar used by the limitation calculator.
+  3: backup => ({ ...backup, courtCalendar: DEFAULT_COURT_CALENDAR }),
+  // v5 added drafts from the drafting workspace.
+  4: backup => ({ ...backup, drafts: [] }),
+  // v6 added the contract review playbook.
+  5: backup => ({ ...backup, playbook: DEFAULT_PLAYBOOK }),
+  // v7 added research profiles.
+  6: backup => ({ ...backup, profiles: DEFAULT_RESEARCH_PROFILES }),
+  // v8 carries chat attachments on the messages that sent them; older backups have none to add.
+  7: backup => backup,
+};
+
+// Checks the fields the app relies on; anything else in a record is kept as exported. Once every slice has
+// passed, the records are filled out with defaults and taken as their workspace types.
+const validateWorkspaceBackup = (backup: JsonObject): WorkspaceBackup => {
+  const problems: string[] = [];
+  const checkList = (value: unknown, label: string, check: (item: JsonObject, i: number) => string | null): JsonObject[] => {
+    if (!Array.isArray(value)) {
+      problems.push(`${label} must be a list`);
+      return [];
+    }
+    return value.map((item: unknown, i) => {
+      const record = isJsonObject(item) ? item : {};
+      const problem = check(record, i);
+      if (problem) problems.push(problem);
+      return record;
+    });
+  };
+
+  if (backup.format !== WORKSPACE_BACKUP_FORMAT) problems.push('missing workspace format marker');
+  const matters = checkList(backup.matters, 'matters', (m, i) => typeof m.id !== 'string' || typeof m.name !== 'string' ? `matter ${i + 1} has no id or name` : null);
+  const sessions = checkList(backup.sessions, 'sessions', (s, i) => {
+    if (typeof s.id !== 'string' || !Array.isArray(s.messages)) return `session ${i + 1} has no id or messages`;
+    if (s.messages.some((m: unknown) => !isJsonObject(m) || typeof m.id !== 'string' || (m.role !== 'user' && m.role !== 'model') || typeof m.text !== 'string')) return `session "${s.title || s.id}" contains a malformed message`;
+    if (jsonObjects(s.messages).some(m => m.fileData && !(isJsonObject(m.fileData) && typeof m.fileData.base64 === 'string'))) return `session "${s.title || s.id}" has malformed attachment data`;
+    return null;
+  });
+  const documents = checkList(backup.documents, 'documents', (d, i) => {
+    if (typeof d.id !== 'string' || typeof d.name !== 'string') return `document ${i + 1} has no id or name`;
+    if (d.tasks !== undefined && !Array.isArray(d.tasks)) return `document "${d.name}" has malformed tasks`;
+    if (d.fileData && !(isJsonObject(d.fileData) && typeof d.fileData.base64 === 'string')) return `document "${d.name}" has malformed file data`;
+    return null;
+  });
+  const comparisons = checkList(backup.comparisons, 'comparisons', (c, i) =>
+    typeof c.id !== 'string' || typeof c.baseDocId !== 'string' || typeof c.revisedDocId !== 'string' || !Array.isArray(c.changes) ? `comparison ${i + 1} is malformed` : null);
+  const calendar = isJsonObject(backup.courtCalendar) ? backup.courtCalendar : {};
+  if (!Array.isArray(calendar.closedWeekdays) || !Array.isArray(calendar.holidays)) problems.push('court calendar is malformed');
+  const closedWeekdays = Array.isArray(calendar.closedWeekdays) ? calendar.closedWeekdays.filter((d: unknown): d is number => Number.isInteger(d)) : [];
+  const holidays = Array.isArray(calendar.holidays) ? checkList(calendar.holidays, 'court holidays', (h, i) =>
+    typeof h.id !== 'string' || typeof h.start !== 'string' || typeof h.end !== 'string' || !ISO_DATE.test(h.start) || !ISO_DATE.test(h.end) ? `court holiday ${i + 1} has no id or valid dates` : null) : [];
+  const drafts = checkList(backup.drafts, 'drafts', (d, i) => {
+    if (typeof d.id !== 'string' || typeof d.html !== 'string') return `draft ${i + 1} has no id or text`;
+    if (d.versions !== undefined && !Array.isArray(d.versions)) return `draft "${d.title || d.id}" has a malformed version history`;
+    return null;
+  });
+  const playbook = isJsonObject(backup.playbook) ? backup.playbook : {};
+  if (!Array.isArray(playbook.positions)) problems.push('contract playbook is malformed');
+  const positions = Array.isArray(playbook.positions) ? checkList(playbook.positions, 'playbook positions', (p, i) =>
+    CLAUSE_CATEGORIES.some(c => c === p.category) ? null : `playbook position ${i + 1} has an unknown clause category`) : [];
+  const profiles = checkList(backup.profiles, 'research profiles', (p, i) => {
+    if (typeof p.id !== 'string' || typeof p.name !== 'string') return `research profile ${i + 1} has no id or name`;
+    if (p.officialSources !== undefined && !Array.isArray(p.officialSources)) return `research profile "${p.name}" has malformed official sources`;
+    return null;
+  });
+  if (problems.length > 0) throw new Error(`Invalid workspace backup: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? '; ...' : ''}`);
+
+  return {
+    format: WORKSPACE_BACKUP_FORMAT,
+    version: WORKSPACE_BACKUP_VERSION,
+    exportedAt: typeof backup.exportedAt === 'string' ? backup.exportedAt : new Date(0).toISOString(),
+    matters: matters.map(m => ({ clientName: '', caseNumber: '', court: '', opposingParty: '', createdAt: '', ...m }) as Matter),
+    sessions: sessions.map(s => ({ title: 'Legal Consultation', date: '', citations: [], ...s }) as BackupSession),
+    documents: documents.map(d => ({ type: '', date: '', fileData: null, ...d, tasks: d.tasks || [] }) as BackupDocument),
+    comparisons: comparisons.map(c => ({ baseName: '', revisedName: '', createdAt: '', commentary: '', ...c }) as DocComparison),
+    courtCalendar: {
+      closedWeekdays,
+      holidays: holidays.map(h => ({ label: 'Court holiday', ...h }) as CourtHoliday),
+    },
+    // Draft HTML goes into the editor and the print window, so a shared backup must not be able to carry script.
+    drafts: drafts.map(d => ({
+      title: 'Untitled draft', templateId: '', values: {}, createdAt: '', updatedAt: '', ...d,
+      html: sanitizeDraftHtml(String(d.html)),
+      versions: jsonObjects(d.versions).map(v => ({ ...v, html: sanitizeDraftHtml(String(v.html ?? '')) })),
+    }) as Draft),
+    playbook: {
+      perspective: typeof playbook.perspective === 'string' ? playbook.perspective : DEFAULT_PLAYBOOK.perspective,
+      positions: positions.map(p => ({ preferred: '', fallback: '', redFlags: '', required: false, ...p }) as PlaybookPosition),
+    },
+    profiles: profiles.map(p => ({ jurisdiction: '', practiceArea: '', authorities: '', citationStyle: '', answerFormat: '', ...p, officialSources: p.officialSources || [] }) as ResearchProfile),
+  };
+};
+
+export const migrateWorkspaceBackup = (raw: unknown): WorkspaceBackup => {
+  if (!isJsonObject(raw)) throw new Error('This file is not a Juris workspace backup.');
+  let version = typeof raw.version === 'number' ? raw.version : ('juris_history' in raw || 'juris_docs' in raw) ? 0 : NaN;
+  if (isNaN(version)) throw new Error('This file is not a Juris workspace backup.');
+  if (version > WORKSPACE_BACKUP_VERSION) throw new Error(`This backup was made by a newer version of Juris (format v${version}). Please update the app before restoring it.`);
+
+  let backup = raw;
+  while (version < WORKSPACE_BACKUP_VERSION) {
+    backup = BACKUP_MIGRATIONS[version](backup);
+    version++;
+  }
+  return validateWorkspaceBackup(backup);
+};
+
+// --- Vault Text Extraction ---
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Returns null for formats we cannot read text from (images, legacy .doc).
+const extractDocumentText = async (file: File): Promise<Omit<DocText, 'id'> | null> => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) {
+    const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const content = await (await pdf.getPage(i)).getTextContent();
+      pages.push(content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '').join(''));
+    }
+    await pdf.destroy();
+    return { pages, paginated: true };
+  }
+  if (name.endsWith('.docx') || file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+    return { pages: [value], paginated: false };
+  }
+  if (file.type.startsWith('text/') || /\.(txt|md|csv|html?)$/.test(name)) {
+    return { pages: [await file.text()], paginated: false };
+  }
+  return null;
+};
+
+// --- Full-Text Search ---
+interface SearchToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedPage {
+  text: string;
+  tokens: SearchToken[];
+}
+
+// One document's index; a page's slot is its 0-based position in `pages`.
+interface SearchIndex {
+  docId: string;
+  paginated: boolean;
+  pages: IndexedPage[];
+  postings: Map<string, Map<number, number[]>>; // term -> page slot -> token positions
+}
+
+type QueryNode =
+  | { type: 'phrase'; terms: string[] } // a single word is a one-term phrase
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+const tokenizeText = (text: string): SearchToken[] =>
+  [...text.matchAll(/[\p{L}\p{N}]+/gu)].map(match => ({ term: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length }));
+
+// DocText entries are replaced rather than mutated, so each is tokenized once however often other documents change.
+const searchIndexCache = new WeakMap<DocText, SearchIndex>();
+
+export const buildSearchIndex = (docText: DocText): SearchIndex => {
+  const cached = searchIndexCache.get(docText);
+  if (cached) return cached;
+  const postings: SearchIndex['postings'] = new Map();
+  const pages = docText.pages.map((text, slot) => {
+    const tokens = tokenizeText(text);
+    tokens.forEach((token, position) => {
+      let byPage = postings.get(token.term);
+      if (!byPage) postings.set(token.term, byPage = new Map());
+      const positions = byPage.get(slot);
+      if (positions) positions.push(position);
+      else byPage.set(slot, [position]);
+    });
+    return { text, tokens };
+  });
+  const index = { docId: docText.id, paginated: docText.paginated, pages, postings };
+  searchIndexCache.set(docText, index);
+  return index;
+};
+
+// Grammar: or := and ("OR" and)* ; and := unary (["AND"] unary)* ; unary := ("NOT" | "-") unary | primary ;
+// primary := "(" or ")" | "quoted phrase" | word. Operators must be upper-case; lower-case "and"/"or" are search terms.
+const parseSearchQuery = (query: string): QueryNode | null => {
+  const tokens = [...query.matchAll(/"([^"]*)"?|\(|\)|-(?=\S)|[^\s()"]+/g)].map(m => m[1] !== undefined ? { phrase: m[1] } : { word: m[0] });
+  let cursor = 0;
+  const peek = () => tokens[cursor];
+  const isOperator = (word: string) => peek() && 'word' in peek() && (peek() as { word: string }).word === word;
+
+  const parseOr = (): QueryNode | null => {
+    const children = [parseAnd()];
+    while (isOperator('OR')) {
+      cursor++;
+      children.push(parseAnd());
+    }
+    const valid = children.filter((c): c is QueryNode => !!c);
+    return valid.length > 1 ? { type: 'or', children: valid } : valid[0] || null;
+  };
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (peek() && !isOperator('OR') && !isOperator(')')) {
+      if (isOperator('AND')) {
+        cursor++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    return children.length > 1 ? { type: 'and', children } : children[0] || null;
+  };
+  const parseUnary = (): QueryNode | null => {
+    if (isOperator('NOT') || isOperator('-')) {
+      cursor++;
+      const child = parseUnary();
+      return child && { type: 'not', child };
+    }
+    const token = tokens[cursor++];
+    if (!token) return null;
+    if ('word' in token && token.word === '(') {
+      const inner = parseOr();
+      if (isOperator(')')) cursor++;
+      return inner;
+    }
+    const terms = tokenizeText('phrase' in token ? token.phrase : token.word).map(t => t.term);
+    return terms.length > 0 ? { type: 'phrase', terms } : null;
+  };
+
+  return parseOr();
+};
+
+// Token positions where the phrase starts, per page slot.
+const findPhrase = (index: SearchIndex, terms: string[]) => {
+  const matches = new Map<number, number[]>();
+  for (const [slot, positions] of index.postings.get(terms[0]) || []) {
+    const tokens = index.pages[slot].tokens;
+    const starts = positions.filter(p => terms.every((term, i) => tokens[p + i]?.term === term));
+    if (starts.length > 0) matches.set(slot, starts);
+  }
+  return matches;
+};
+
+const evaluateQuery = (index: SearchIndex, node: QueryNode): Set<number> => {
+  switch (node.type) {
+    case 'phrase': return new Set(findPhrase(index, node.terms).keys());
+    case 'and': return node.children
+      .map(c => evaluateQuery(index, c))
+      .reduce((result, matched) => new Set([...result].filter(slot => matched.has(slot))));
+    case 'or': return new Set(node.children.flatMap(c => [...evaluateQuery(index, c)]));
+    case 'not': {
+      const excluded = evaluateQuery(index, node.child);
+      return new Set([...index.pages.keys()].filter(slot => !excluded.has(slot)));
+    }
+  }
+};
+
+const positivePhrases = (node: QueryNode): string[][] =>
+  node.type === 'phrase' ? [node.terms] : node.type === 'not' ? [] : node.children.flatMap(positivePhrases);
+
+interface SearchHit {
+  docId: string;
+  page: number;
+  paginated: boolean;
+  snippet: { text: string; highlight: boolean }[];
+}
+
+// A hit on one page, with a snippet around its first highlighted match.
+const snippetHit = (index: SearchIndex, slot: number, phrases: string[][]): SearchHit => {
+  const page = index.pages[slot];
+  const ranges = phrases.flatMap(terms => (findPhrase(index, terms).get(slot) || [])
+    .map(p => [page.tokens[p].start, page.tokens[p + terms.length - 1].end] as [number, number]))
+    .sort((a, b) => a[0] - b[0]);
+
+  const from = Math.max(0, (ranges[0]?.[0] ?? 0) - 80);
+  const to = Math.min(page.text.length, (ranges[0]?.[1] ?? 0) + 160);
+  const snippet: SearchHit['snippet'] = [];
+  let cursor = from;
+  for (const [start, end] of ranges) {
+    if (start < cursor || end > to) continue;
+    snippet.push({ text: page.text.slice(cursor, start), highlight: false }, { text: page.text.slice(start, end), highlight: true });
+    cursor = end;
+  }
+  snippet.push({ text: page.text.slice(cursor, to), highlight: false });
+  if (from > 0) snippet[0].text = '…' + snippet[0].text.trimStart();
+  if (to < page.text.length) snippet[snippet.length - 1].text += '…';
+  return { docId: index.docId, page: slot + 1, paginated: index.paginated, snippet };
+};
+
+// Returns hits in the order of `indexes`, then by page. Callers pass only the documents in scope, so the limit counts hits the user can actually see.
+export const searchVault = (indexes: SearchIndex[], query: string, limit = 200): SearchHit[] => {
+  const ast = parseSearchQuery(query);
+  if (!ast) return [];
+  const phrases = positivePhrases(ast);
+  const hits: SearchHit[] = [];
+  for (const index of indexes) {
+    if (hits.length >= limit) break;
+    const slots = [...evaluateQuery(index, ast)].sort((a, b) => a - b).slice(0, limit - hits.length);
+    hits.push(...slots.map(slot => snippetHit(index, slot, phrases)));
+  }
+  return hits;
+};
+
+// --- Vault Retrieval ---
+// "Ask the Vault" answers from the few passages most relevant to the question instead of uploading
+// whole files: every document is split into overlapping passages that never cross a page boundary,
+// ranked with BM25 and, optionally, re-ranked by embedding similarity.
+const PASSAGE_CHARS = 1200;
+const PASSAGE_OVERLAP = 200;
+const PASSAGES_PER_ANSWER = 8;
+const SEMANTIC_CANDIDATES = 40;
+
+const RETRIEVAL_STOPWORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'there', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'any', 'all', 'our', 'us']);
+
+interface VaultPassage {
+  id: string;
+  docId: string;
+  page: number;
+  paginated: boolean;
+  text: string;
+}
+
+interface RetrievalIndex {
+  passages: VaultPassage[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+const retrievalTerms = (text: string) => tokenizeText(text).map(t => t.term).filter(term => !RETRIEVAL_STOPWORDS.has(term));
+
+const chunkDocText = (docText: DocText): VaultPassage[] => docText.pages.flatMap((pageText, i) => {
+  const text = pageText.replace(/\s+/g, ' ').trim();
+  const passages: VaultPassage[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + PASSAGE_CHARS);
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      if (space > start + PASSAGE_CHARS / 2) end = space;
+    }
+    passages.push({ id: `${docText.id}:${i + 1}:${start}`, docId: docText.id, page: i + 1, paginated: docText.paginated, text: text.slice(start, end) });
+    if (end >= text.length) break;
+    const next = text.indexOf(' ', end - PASSAGE_OVERLAP);
+    start = next > start && next < end ? next + 1 : end;
+  }
+  return passages;
+});
+
+const buildRetrievalIndex = (texts: DocText[]): RetrievalIndex => {
+  const passages = texts.flatMap(chunkDocText);
+  const documentFrequency = new Map<string, number>();
+  const lengths: number[] = [];
+  const termFrequencies = passages.map(passage => {
+    const frequencies = new Map<string, number>();
+    const terms = retrievalTerms(passage.text);
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+    frequencies.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    lengths.push(terms.length);
+    return frequencies;
+  });
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / (lengths.length || 1);
+  return { passages, termFrequencies, lengths, documentFrequency, averageLength };
+};
+
+// Okapi BM25 with the usual k1 = 1.2, b = 0.75.
+const rankPassagesLexically = (index: RetrievalIndex, query: string) => {
+  const queryTerms = [...new Set(retrievalTerms(query))];
+  const total = index.passages.length;
+  return index.passages.map((passage, i) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = index.termFrequencies[i].get(term);
+      if (!frequency) continue;
+      const df = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      score += idf * (frequency * 2.2) / (frequency + 1.2 * (0.25 + 0.75 * index.lengths[i] / (index.averageLength || 1)));
+    }
+    return { passage, score };
+  }).filter(r => r.score > 0).sort((a, b) => b.score - a.score);
+};
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA * normB) || 1);
+};
+
+// Blends normalised BM25 with embedding similarity for the strongest lexical candidates. Passage
+// embeddings are cached by passage id, so repeat questions only embed the query.
+const rerankWithEmbeddings = async (
+  ai: ModelClient,
+  query: string,
+  candidates: { passage: VaultPassage; score: number }[],
+  cache: Map<string, number[]>,
+) => {
+  const missing = candidates.filter(c => !cache.has(c.passage.id));
+  for (let i = 0; i < missing.length; i += 100) {
+    const batch = missing.slice(i, i + 100);
+    const response = await ai.embed('embed', batch.map(c => c.passage.text));
+    batch.forEach((c, j) => cache.set(c.passage.id, response.embeddings?.[j]?.values || []));
+  }
+  const queryResponse = await ai.embed('embed', [query]);
+  const queryVector = queryResponse.embeddings?.[0]?.values || [];
+  const topLexical = candidates[0]?.score || 1;
+  return candidates
+    .map(c => ({ ...c, score: 0.5 * (c.score / topLexical) + 0.5 * cosineSimilarity(queryVector, cache.get(c.passage.id) || []) }))
+    .sort((a, b) => b.score - a.score);
+};
+
+const passageLabel = (passage: VaultPassage, docName: string) => `${docName}${passage.paginated ? `, page ${passage.page}` : ''}`;
+
+// --- Document Comparison ---
+// Clauses are aligned on their normalised text with an LCS. Clauses left over on both sides are then
+// paired up: identical text in a new position is a move, similar text is a modification, and the rest
+// are plain insertions and deletions.
+const MAX_CLAUSE_CHARS = 1000;
+const CLAUSE_SIMILARITY_THRESHOLD = 0.5;
+const MAX_WORD_DIFF_CELLS = 250000;
+
+// Numbered headings ("12.", "4.2", "(b)", "Clause 7", "Article III") start a new clause even without a blank line.
+const CLAUSE_NUMBER = /^(?:(?:clause|article|schedule)\s+[\divxlc]+[.:]?|\d+(?:\.\d+)+[.)]?|\d+[.)]|\([a-z0-9]{1,4}\)|[a-z][.)])\s+/i;
+
+const splitIntoClauses = (docText: DocText) => {
+  const clauses: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    const clause = current.join(' ');
+    current = [];
+    if (!clause) return;
+    // Unnumbered text (typical of PDFs, which carry no paragraph breaks) falls back to sentences.
+    if (clause.length <= MAX_CLAUSE_CHARS) clauses.push(clause);
+    else clauses.push(...clause.split(/(?<=[.;:])\s+(?=[A-Z(])/));
+  };
+  for (const line of docText.pages.join('\n').split('\n').map(l => l.replace(/\s+/g, ' ').trim())) {
+    if (!line || CLAUSE_NUMBER.test(line)) flush();
+    if (line) current.push(line);
+  }
+  flush();
+  return clauses;
+};
+
+// Renumbering and punctuation alone do not make a clause different.
+const clauseKey = (clause: string) => clause.replace(CLAUSE_NUMBER, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Index pairs [i, j] of a longest common subsequence of a and b, in order.
+const longestCommonSubsequence = (a: string[], b: string[]) => {
+  const table = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  for (let i = 0, j = 0; i < a.length && j < b.length;) {
+    if (a[i] === b[j]) pairs.push([i++, j++]);
+    else if (table[i + 1][j] >= table[i][j + 1]) i++;
+    else j++;
+  }
+  return pairs;
+};
+
+const diffWords = (before: string, after: string): NonNullable<ClauseChange['words']> => {
+  const a = before.split(' '), b = after.split(' ');
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) return [{ text: before, op: 'delete' }, { text: after, op: 'insert' }];
+
+  const parts: NonNullable<ClauseChange['words']> = [];
+  const push = (text: string, op: 'equal' | 'insert' | 'delete') => {
+    const last = parts[parts.length - 1];
+    if (last?.op === op) last.text += ' ' + text;
+    else parts.push({ text, op });
+  };
+  let i = 0, j = 0;
+  for (const [matchA, matchB] of longestCommonSubsequence(a, b)) {
+    while (i < matchA) push(a[i++], 'delete');
+    while (j < matchB) push(b[j++], 'insert');
+    push(a[i], 'equal');
+    i++;
+    j++;
+  }
+  while (i < a.length) push(a[i++], 'delete');
+  while (j < b.length) push(b[j++], 'insert');
+  return parts;
+};
+
+const wordOverlap = (a: Set<string>, b: Set<string>) => {
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared || 1);
+};
+
+// Changes follow the revised document's order; deletions sit where they stood in the original.
+const compareDocuments = (base: DocText, revised: DocText): ClauseChange[] => {
+  const a = splitIntoClauses(base), b = splitIntoClauses(revised);
+  const aKeys = a.map(clauseKey), bKeys = b.map(clauseKey);
+  const anchors = new Map<number, number>(); // revised index -> original index of an unchanged clause
+  const paired = new Map<number, { kind: 'moved' | 'modified'; baseIndex: number }>();
+  const usedBase = new Set<number>();
+  for (const [i, j] of longestCommonSubsequence(aKeys, bKeys)) {
+    anchors.set(j, i);
+    usedBase.add(i);
+  }
+
+  bKeys.forEach((key, j) => {
+    if (anchors.has(j)) return;
+    const i = aKeys.findIndex((baseKey, i) => !usedBase.has(i) && baseKey === key);
+    if (i < 0) return;
+    paired.set(j, { kind: 'moved', baseIndex: i });
+    usedBase.add(i);
+  });
+
+  const aWords = aKeys.map(key => new Set(key.split(' ')));
+  bKeys.forEach((key, j) => {
+    if (anchors.has(j) || paired.has(j)) return;
+    const words = new Set(key.split(' '));
+    let best = -1, bestScore = CLAUSE_SIMILARITY_THRESHOLD;
+    aWords.forEach((baseWords, i) => {
+      if (usedBase.has(i)) return;
+      const score = wordOverlap(words, baseWords);
+      if (score >= bestScore) [best, bestScore] = [i, score];
+    });
+    if (best < 0) return;
+    paired.set(j, { kind: 'modified', baseIndex: best });
+    usedBase.add(best);
+  });
+
+  const changes: ClauseChange[] = [];
+  let nextBase = 0;
+  const pushDeletionsBefore = (end: number) => {
+    for (; nextBase < end; nextBase++) {
+      if (!usedBase.has(nextBase)) changes.push({ kind: 'deleted', baseIndex: nextBase + 1, baseText: a[nextBase] });
+    }
+  };
+  b.forEach((text, j) => {
+    const anchor = anchors.get(j);
+    const pair = paired.get(j);
+    if (anchor !== undefined) {
+      pushDeletionsBefore(anchor);
+      nextBase = anchor + 1;
+      changes.push({ kind: 'unchanged', baseIndex: anchor + 1, revisedIndex: j + 1, revisedText: text });
+    } else if (pair) {
+      const baseText = a[pair.baseIndex];
+      changes.push({
+        kind: pair.kind, baseIndex: pair.baseIndex + 1, revisedIndex: j + 1, baseText, revisedText: text,
+        ...(pair.kind === 'modified' && { words: diffWords(baseText, text) }),
+      });
+    } else {
+      changes.push({ kind: 'inserted', revisedIndex: j + 1, revisedText: text });
+    }
+  });
+  pushDeletionsBefore(a.length);
+  return changes;
+};
+
+// Labels C1, C2, ... number every change that is not an unchanged clause.
+const changeLabels = (changes: ClauseChange[]) => {
+  const labels = new Map<ClauseChange, string>();
+  changes.forEach(c => c.kind !== 'unchanged' && labels.set(c, `C${labels.size + 1}`));
+  return labels;
+};
+
+const summarizeChanges = (changes: ClauseChange[]) => {
+  const count = (kind: ClauseChange['kind']) => changes.filter(c => c.kind === kind).length;
+  const parts = (['modified', 'inserted', 'deleted', 'moved'] as const).filter(kind => count(kind) > 0).map(kind => `${count(kind)} ${kind}`);
+  return parts.length > 0 ? parts.join(', ') : 'No differences';
+};
+
+const describeChange = (change: ClauseChange, label: string) => {
+  switch (change.kind) {
+    case 'inserted': return `[${label}] New clause (revised clause ${change.revisedIndex}):\n${change.revisedText}`;
+    case 'deleted': return `[${label}] Deleted clause (original clause ${change.baseIndex}):\n${change.baseText}`;
+    case 'moved': return `[${label}] Clause moved from position ${change.baseIndex} to ${change.revisedIndex}, wording unchanged:\n${change.revisedText}`;
+    default: return `[${label}] Amended clause (original clause ${change.baseIndex}, revised clause ${change.revisedIndex}):\nOriginal: ${change.baseText}\nRevised: ${change.revisedText}`;
+  }
+};
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_~[\]#<>|])/g, '\\$1').replace(/^(\d+)\./, '$1\\.').replace(/^([-+])/, '\\$1');
+
+const comparisonToMarkdown = (comparison: DocComparison, matter?: Matter) => {
+  const labels = changeLabels(comparison.changes);
+  const lines = [
+    '# Redline Comparison',
+    '',
+    `**Original:** ${comparison.baseName}  `,
+    `**Revised:** ${comparison.revisedName}  `,
+    `**Compared:** ${comparison.createdAt}  `,
+    ...(matter ? [`**Matter:** ${matter.name}  `] : []),
+    `**Changes:** ${summarizeChanges(comparison.changes)}`,
+    '',
+    '*Struck-through text was removed from the original; bold text was added in the revised draft.*',
+    '',
+    '---',
+    '',
+    '## Changes',
+    '',
+  ];
+  comparison.changes.forEach(change => {
+    const label = labels.get(change);
+    if (!label) return;
+    const struck = (text: string) => `~~${escapeMarkdown(text)}~~`;
+    const added = (text: string) => `**${escapeMarkdown(text)}**`;
+    switch (change.kind) {
+      case 'inserted':
+        lines.push(`### ${label}. Inserted (revised clause ${change.revisedIndex})`, '', added(change.revisedText!), '');
+        break;
+      case 'deleted':
+        lines.push(`### ${label}. Deleted (original clause ${change.baseIndex})`, '', struck(change.baseText!), '');
+        break;
+      case 'moved':
+        lines.push(`### ${label}. Moved (clause ${change.baseIndex} to clause ${change.revisedIndex})`, '', escapeMarkdown(change.revisedText!), '');
+        break;
+      default:
+        lines.push(`### ${label}. Amended (clause ${change.baseIndex} to clause ${change.revisedIndex})`, '');
+        lines.push(change.words!.map(w => w.op === 'equal' ? escapeMarkdown(w.text) : w.op === 'delete' ? struck(w.text) : added(w.text)).join(' '), '');
+    }
+  });
+  if (labels.size === 0) lines.push('*The two documents contain the same clauses.*', '');
+  if (comparison.commentary) lines.push('## Commentary', '', demoteHeadings(comparison.commentary, 2), '');
+  return lines.join('\n');
+};
+
+const comparisonFileName = (comparison: DocComparison, extension: string) => {
+  const slug = (name: string) => name.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').substring(0, 40);
+  return `redline-${slug(comparison.baseName)}-vs-${slug(comparison.revisedName)}.${extension}`;
+};
+
+// One column of a redline row: the original shows what was removed, the revision what was added.
+const RedlineSide = ({ change, side }: { change: ClauseChange; side: 'base' | 'revised' }) => {
+  const isBase = side === 'base';
+  switch (change.kind) {
+    case 'inserted': return isBase ? null : <ins>{change.revisedText}</ins>;
+    case 'deleted': return isBase ? <del>{change.baseText}</del> : null;
+    case 'moved': return (
+      <>
+        {isBase ? change.baseText : change.revisedText}
+        <small className="redline-note">{isBase ? `Moved to clause ${change.revisedIndex}` : `Moved from clause ${change.baseIndex}`}</small>
+      </>
+    );
+    case 'modified': return (
+      <>
+        {change.words!.filter(w => w.op !== (isBase ? 'insert' : 'delete')).map((w, i) => (
+          <React.Fragment key={i}>
+            {i > 0 && ' '}
+            {w.op === 'equal' ? w.text : isBase ? <del>{w.text}</del> : <ins>{w.text}</ins>}
+          </React.Fragment>
+        ))}
+      </>
+    );
+    default: return <>{change.revisedText}</>;
+  }
+};
+
+// --- Key Fact Extraction ---
+const KEY_FACTS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    parties: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          role: { type: Type.STRING, description: 'e.g. Lessor, Petitioner, Employer, Accused' },
+        },
+        required: ['name', 'role'],
+      },
+    },
+    keyDates: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING, description: 'YYYY-MM-DD, or empty if the document does not fix the date' },
+          description: { type: Type.STRING, description: 'What happens or falls due on this date' },
+          isDeadline: { type: Type.BOOLEAN, description: 'True for hearings, filing or reply deadlines, payment dates and other dates someone must act by' },
+        },
+        required: ['date', 'description', 'isDeadline'],
+      },
+    },
+    obligations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          party: { type: Type.STRING },
+          description: { type: Type.STRING },
+          dueDate: { type: Type.STRING, description: 'YYYY-MM-DD, or empty if there is no fixed date' },
+        },
+        required: ['party', 'description', 'dueDate'],
+      },
+    },
+    amounts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          amount: { type: Type.STRING, description: 'As written, with currency, e.g. Rs. 5,00,000' },
+          description: { type: Type.STRING },
+        },
+        required: ['amount', 'description'],
+      },
+    },
+    governingLaw: { type: Type.STRING, description: 'Governing law and forum, or empty if not stated' },
+  },
+  required: ['parties', 'keyDates', 'obligations', 'amounts', 'governingLaw'],
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// The schema constrains the model, but a truncated or off-schema reply must not put malformed facts on a document.
+export const parseKeyFacts = (json: string): Omit<KeyFacts, 'extractedAt' | 'pendingTasks'> => {
+  const parsed: unknown = JSON.parse(json);
+  const raw = isJsonObject(parsed) ? parsed : {};
+  const str = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  // A date such as 2025-02-30 would otherwise roll over into March and become a deadline nobody set.
+  const date = (value: unknown) => {
+    const text = str(value);
+    return ISO_DATE.test(text) && toIsoDate(parseIsoDate(text)) === text ? text : '';
+  };
+  return {
+    parties: jsonObjects(raw.parties).map(p => ({ name: str(p.name), role: str(p.role) })).filter(p => p.name),
+    keyDates: jsonObjects(raw.keyDates).map(d => ({ date: date(d.date), description: str(d.description), isDeadline: d.isDeadline === true })).filter(d => d.description),
+    obligations: jsonObjects(raw.obligations).map(o => ({ party: str(o.party), description: str(o.description), dueDate: date(o.dueDate) })).filter(o => o.description),
+    amounts: jsonObjects(raw.amounts).map(a => ({ amount: str(a.amount), description: str(a.description) })).filter(a => a.amount),
+    governingLaw: str(raw.governingLaw),
+  };
+};
+
+// Deadlines and dated obligations become task proposals, skipping any the document already tracks.
+const proposeTasks = (facts: Omit<KeyFacts, 'extractedAt' | 'pendingTasks'>, existing: Task[]): Task[] => {
+  const seen = new Set(existing.map(t => `${t.text.toLowerCase()}|${t.deadline}`));
+  const candidates = [
+    ...facts.keyDates.filter(d => d.isDeadline && d.date).map(d => ({ text: d.description, deadline: d.date })),
+    ...facts.obligations.filter(o => o.dueDate).map(o => ({ text: o.party ? `${o.party}: ${o.description}` : o.description, deadline: o.dueDate })),
+  ];
+  return candidates.flatMap(c => {
+    const key = `${c.text.toLowerCase()}|${c.deadline}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [{ id: Math.random().toString(36).substr(2, 9), ...c, isComplete: false }];
+  });
+};
+
+// --- Contract Review ---
+// Clauses come from the same splitter as the redline, with sub-clauses folded back into their parent so each
+// row is a whole provision. The model classifies and scores them; everything else here is deterministic.
+const MAX_REVIEW_CLAUSE_CHARS = 2500;
+const MAX_REVIEW_CLAUSES = 200;
+const SUBCLAUSE_NUMBER = /^(?:\([a-z0-9]{1,4}\)|[a-z][.)])\s+/i;
+
+const CLAUSE_CATEGORY_LABELS: Record<ClauseCategory, string> = {
+  'indemnity': 'Indemnity',
+  'limitation-of-liability': 'Limitation of liability',
+  'termination': 'Termination',
+  'arbitration': 'Dispute resolution / arbitration',
+  'governing-law': 'Governing law & jurisdiction',
+  'confidentiality': 'Confidentiality',
+  'payment': 'Payment',
+  'intellectual-property': 'Intellectual property',
+  'warranties': 'Warranties',
+  'force-majeure': 'Force majeure',
+  'assignment': 'Assignment',
+  'non-compete': 'Non-compete / non-solicit',
+  'data-protection': 'Data protection',
+  'term-renewal': 'Term & renewal',
+  'notices': 'Notices',
+  'boilerplate': 'General / boilerplate',
+  'other': 'Other',
+};
+
+const CLAUSE_CATEGORIES = Object.keys(CLAUSE_CATEGORY_LABELS) as ClauseCategory[];
+
+export const DEFAULT_PLAYBOOK: ContractPlaybook = {
+  perspective: 'Our client',
+  positions: [
+    {
+      category: 'indemnity',
+      preferred: 'Mutual indemnities limited to third-party claims arising from breach, negligence or wilful misconduct, conditional on prompt notice and control of the defence.',
+      fallback: 'One-way indemnity in the counterparty\'s favour only for third-party IP infringement and wilful misconduct, within the liability cap.',
+      redFlags: 'Uncapped or one-sided indemnity; indemnity for any loss "howsoever arising"; indemnity for the other party\'s own negligence.',
+      required: true,
+    },
+    {
+      category: 'limitation-of-liability',
+      preferred: 'Each party\'s aggregate liability capped at the fees paid or payable in the 12 months before the claim; no liability for indirect or consequential loss or loss of profit.',
+      fallback: 'Cap of up to twice the annual fees, with carve-outs only for fraud, wilful misconduct and breach of confidentiality.',
+      redFlags: 'No cap, or a cap protecting the counterparty only; liquidated damages with no ceiling (Section 74, Indian Contract Act, 1872).',
+      required: true,
+    },
+    {
+      category: 'termination',
+      preferred: 'Either party may terminate for material breach not cured within 30 days of notice, or on insolvency; mutual termination for convenience on 60 to 90 days\' notice.',
+      fallback: 'Termination for convenience by the counterparty only if fees for work done up to termination are paid.',
+      redFlags: 'Termination at will for the counterparty alone; no cure period; forfeiture of amounts already earned.',
+      required: true,
+    },
+    {
+      category: 'arbitration',
+      preferred: 'Arbitration under the Arbitration and Conciliation Act, 1996 before a sole arbitrator appointed by agreement, seated in our city, in English.',
+      fallback: 'Institutional arbitration (MCIA, DIAC or similar) with an Indian seat; three arbitrators above an agreed claim value.',
+      redFlags: 'Unilateral appointment of the arbitrator by one party (Perkins Eastman, 2019); foreign seat for a purely domestic contract; no seat stated.',
+      required: true,
+    },
+    {
+      category: 'governing-law',
+      preferred: 'Laws of India, with exclusive jurisdiction of the courts at the seat of arbitration.',
+      fallback: 'Laws of India with courts at a neutral city.',
+      redFlags: 'Foreign governing law; exclusive jurisdiction of a court with no connection to the parties or the contract.',
+      required: true,
+    },
+    {
+      category: 'confidentiality',
+      preferred: 'Mutual obligations with the usual exclusions, disclosure permitted where required by law, surviving three to five years after termination.',
+      fallback: 'One-way obligations if our own disclosures are limited; trade secrets protected for as long as they remain secret.',
+      redFlags: 'Obligations binding us alone; perpetual obligations on all information; no carve-out for legally compelled disclosure.',
+      required: true,
+    },
+    {
+      category: 'payment',
+      preferred: 'Payment within 30 days of a valid invoice, GST payable in addition, interest on late payment.',
+      fallback: 'Payment within 45 days; disputed amounts notified within 15 days and the undisputed balance paid.',
+      redFlags: 'Payment at the counterparty\'s sole discretion or only on its acceptance; set-off rights for the counterparty only; delays beyond the MSMED Act, 2006 limits where it applies.',
+      required: false,
+    },
+    {
+      category: 'intellectual-property',
+      preferred: 'Each party keeps its pre-existing IP; deliverables are assigned only on full payment, with a licence of any background IP needed to use them.',
+      fallback: 'A perpetual, non-exclusive licence of deliverables instead of assignment.',
+      redFlags: 'Assignment of background IP; assignment before payment; assignment not in writing or silent on duration and territory (Section 19, Copyright Act, 1957).',
+      required: false,
+    },
+    {
+      category: 'warranties',
+      preferred: 'Limited warranties of authority, compliance with law and performance with reasonable skill and care; all implied warranties excluded.',
+      fallback: 'Performance warranty for a fixed period with re-performance or refund as the sole remedy.',
+      redFlags: 'Fitness-for-purpose or outcome guarantees; open-ended warranty periods.',
+      required: false,
+    },
+    {
+      category: 'force-majeure',
+      preferred: 'Mutual clause covering natural disasters, epidemics and government action, suspending performance, with a right to terminate if it lasts beyond 60 to 90 days.',
+      fallback: 'Payment obligations excluded for both parties alike.',
+      redFlags: 'Relief for one party only; no termination right for a prolonged event (Section 56, Indian Contract Act, 1872).',
+      required: false,
+    },
+    {
+      category: 'assignment',
+      preferred: 'No assignment without prior written consent, not to be unreasonably withheld; assignment to group companies on notice.',
+      fallback: 'Counterparty may assign on a sale of business if the assignee assumes all obligations.',
+      redFlags: 'Free assignment by the counterparty while we need consent.',
+      required: false,
+    },
+    {
+      category: 'non-compete',
+      preferred: 'Restrictions limited to the term of the agreement, with non-solicitation of employees for no more than 12 months after it.',
+      fallback: 'Non-solicitation of clients introduced under the agreement for 12 months after termination.',
+      redFlags: 'Post-termination non-compete, void under Section 27 of the Indian Contract Act, 1872; unlimited scope or territory.',
+      required: false,
+    },
+    {
+      category: 'data-protection',
+      preferred: 'Compliance with the Digital Personal Data Protection Act, 2023; processing only on documented instructions; breach notification within 72 hours.',
+      fallback: 'Reasonable security practices and prompt notification of breaches.',
+      redFlags: 'Unrestricted use or transfer of personal data by the counterparty; no breach notification.',
+      required: false,
+    },
+    {
+      category: 'term-renewal',
+      preferred: 'Fixed term, renewed only by written agreement.',
+      fallback: 'Automatic renewal for one-year periods unless either party opts out on 60 days\' notice.',
+      redFlags: 'Automatic renewal without an opt-out; lock-in with no exit.',
+      required: false,
+    },
+  ],
+};
+
+const riskLevel = (score: number) => score >= 7 ? 'high' : score >= 4 ? 'medium' : 'low';
+
+const isClauseHeading = (clause: string) => clause.length < 80 && !/[.;:,]$/.test(clause.replace(CLAUSE_NUMBER, '').trim());
+
+const splitForReview = (docText: DocText) => splitIntoClauses(docText).reduce<string[]>((clauses, piece) => {
+  const last = clauses[clauses.length - 1];
+  // Sub-clauses and unnumbered continuations belong to the clause before them, as does anything after a bare heading.
+  const continues = SUBCLAUSE_NUMBER.test(piece) || !CLAUSE_NUMBER.test(piece) || (last !== undefined && isClauseHeading(last));
+  if (last !== undefined && continues && last.length + piece.length < MAX_REVIEW_CLAUSE_CHARS) clauses[clauses.length - 1] = `${last} ${piece}`;
+  else clauses.push(piece);
+  return clauses;
+}, []);
+
+const describePlaybook = (playbook: ContractPlaybook) => playbook.positions.map(p => [
+  `${CLAUSE_CATEGORY_LABELS[p.category]} (${p.category})${p.required ? ' [required]' : ''}`,
+  `  Preferred: ${p.preferred}`,
+  `  Acceptable fallback: ${p.fallback}`,
+  `  Red flags: ${p.redFlags}`,
+].join('\n')).join('\n\n');
+
+const CONTRACT_REVIEW_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    clauses: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: 'The clause number in square brackets' },
+          title: { type: Type.STRING, description: 'Short heading, e.g. "Indemnification by Supplier"' },
+          category: { type: Type.STRING, enum: CLAUSE_CATEGORIES },
+          score: { type: Type.INTEGER, description: '0 if the clause meets the preferred position, 10 if it hits a red flag or is unacceptable' },
+          issue: { type: Type.STRING, description: 'How the clause departs from the playbook, or empty if it does not' },
+          fallback: { type: Type.STRING, description: 'Replacement wording to propose, or empty for a score below 4' },
+        },
+        required: ['index', 'title', 'category', 'score', 'issue', 'fallback'],
+      },
+    },
+  },
+  required: ['clauses'],
+};
+
+// Clauses the model skipped or garbled stay in the table as unclassified rather than disappearing.
+export const parseContractReview = (json: string, clauses: string[], playbook: ContractPlaybook, truncated: boolean): ContractReview => {
+  const raw: unknown = JSON.parse(json);
+  const str = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  const byIndex = new Map(jsonObjects(isJsonObject(raw) ? raw.clauses : []).flatMap(c => Number.isInteger(c.index) ? [[c.index, c] as const] : []));
+  const reviewed: ClauseReview[] = clauses.map((text, i) => {
+    const c = byIndex.get(i + 1) || {};
+    return {
+      index: i + 1,
+      title: str(c.title) || text.replace(CLAUSE_NUMBER, '').split(/\s+/).slice(0, 8).join(' '),
+      text,
+      category: CLAUSE_CATEGORIES.find(category => category === c.category) || 'other',
+      score: Math.min(10, Math.max(0, Math.round(Number(c.score) || 0))),
+      issue: str(c.issue),
+      fallback: str(c.fallback),
+    };
+  });
+  const present = new Set(reviewed.map(c => c.category));
+  return {
+    reviewedAt: new Date().toLocaleString(),
+    perspective: playbook.perspective,
+    clauses: reviewed,
+    missing: playbook.positions.filter(p => p.required && !present.has(p.category)).map(p => p.category),
+    truncated,
+  };
+};
+
+const escapeTableCell = (text: string) => escapeMarkdown(text).replace(/\s*\n\s*/g, ' ');
+
+const reviewToMarkdown = (docName: string, review: ContractReview, clauses: ClauseReview[], matter?: Matter) => {
+  const counts = (['high', 'medium', 'low'] as const).map(level => `${review.clauses.filter(c => riskLevel(c.score) === level).length} ${level}`);
+  const lines = [
+    `# Contract Review: ${docName}`,
+    '',
+    `**Reviewed:** ${review.reviewedAt}  `,
+    `**Acting for:** ${review.perspective}  `,
+    ...(matter ? [`**Matter:** ${matter.name}  `] : []),
+    `**Risk:** ${counts.join(', ')}`,
+    '',
+  ];
+  if (review.missing.length > 0) lines.push(`**Missing clauses:** ${review.missing.map(c => CLAUSE_CATEGORY_LABELS[c]).join(', ')}`, '');
+  if (review.truncated) lines.push(`*Only the first ${MAX_REVIEW_CLAUSES} clauses were reviewed.*`, '');
+  lines.push(
+    '| # | Clause | Category | Risk | Issue | Suggested fallback |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...clauses.map(c => `| ${c.index} | ${escapeTableCell(c.title)} | ${CLAUSE_CATEGORY_LABELS[c.category]} | ${c.score} (${riskLevel(c.score)}) | ${escapeTableCell(c.issue)} | ${escapeTableCell(c.fallback)} |`),
+    '',
+    '*Scores run from 0 (meets the playbook) to 10 (unacceptable). Review each clause against the contract before relying on this table.*',
+  );
+  return lines.join('\n');
+};
+
+const csvCell = (value: string | number) => /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+
+const reviewToCsv = (clauses: ClauseReview[]) => [
+  ['Clause', 'Title', 'Category', 'Score', 'Risk', 'Issue', 'Suggested fallback', 'Text'],
+  ...clauses.map(c => [c.index, c.title, CLAUSE_CATEGORY_LABELS[c.category], c.score, riskLevel(c.score), c.issue, c.fallback, c.text]),
+].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+const reviewFileName = (docName: string, extension: string) =>
+  `contract-review-${docName.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').substring(0, 50)}.${extension}`;
+
+// --- Deadline Calendar ---
+interface DeadlineEntry {
+  task: Task;
+  doc: ManagedDoc;
+}
+
+// Task deadlines are calendar dates with no time zone, so they are handled as local dates throughout.
+const toIsoDate = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseIsoDate = (iso: string) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (iso: string, days: number) => {
+  const date = parseIsoDate(iso);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+};
+
+// Calendar months keep the day of the month, clamped to shorter months (31 Jan + 1 month = 28 Feb).
+// Lands on the given day of the month (by default the date's own), clamped to the length of that month.
+const addMonths = (iso: string, months: number, day = parseIsoDate(iso).getDate()) => {
+  const date = parseIsoDate(iso);
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return toIsoDate(new Date(date.getFullYear(), date.getMonth() + months, Math.min(day, lastDay)));
+};
+
+const daysBetween = (from: string, to: string) => Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / 86400000);
+
+// Weeks run Monday to Sunday.
+const startOfWeek = (iso: string) => addDays(iso, -((parseIsoDate(iso).getDay() + 6) % 7));
+
+// Six full weeks covering the cursor's month, so every month fits the same grid.
+const monthGridDays = (iso: string) => {
+  const date = parseIsoDate(iso);
+  const first = startOfWeek(toIsoDate(new Date(date.getFullYear(), date.getMonth(), 1)));
+  return Array.from({ length: 42 }, (_, i) => addDays(first, i));
+};
+
+const isOverdue = (task: Task, today: string) => !task.isComplete && !!task.deadline && task.deadline < today;
+
+const formatDeadline = (iso: string, options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' }) =>
+  parseIsoDate(iso).toLocaleDateString('en-IN', options);
+
+const escapeIcsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits content lines to 75 octets; longer lines continue on the next line after a space.
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '', octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+// All-day events, one per task. UIDs are stable so re-importing updates events instead of duplicating them.
+const buildIcsCalendar = (entries: DeadlineEntry[], matterName: (matterId?: string) => string | undefined) => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Juris//Deadlines//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH', 'X-WR-CALNAME:Juris Deadlines'];
+  for (const { task, doc } of entries) {
+    const matter = matterName(doc.matterId);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${task.id}-${doc.id}@juris`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${task.deadline.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${addDays(task.deadline, 1).replace(/-/g, '')}`,
+      `SUMMARY:${escapeIcsText(task.text)}`,
+      `DESCRIPTION:${escapeIcsText(`Document: ${doc.name}${matter ? `\nMatter: ${matter}` : ''}`)}`,
+      ...(task.isComplete ? ['STATUS:CANCELLED'] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// --- Task Reminders ---
+const DEFAULT_TASK_REMINDERS = [7, 1, 0];
+const REMINDER_OPTIONS = [30, 14, 7, 3, 1, 0];
+const REMINDER_HOUR = 9; // Reminders fire at 9 a.m. on their day
+const MAX_NOTIFICATIONS = 100;
+
+const RECURRENCE_LABELS: Record<TaskRecurrence, string> = { weekly: 'Weekly', monthly: 'Monthly', quarterly: 'Quarterly', yearly: 'Yearly' };
+
+const reminderLabel = (days: number) => days === 0 ? 'Morning of' : days === 1 ? '1 day before' : `${days} days before`;
+
+const reminderTime = (deadline: string, daysBefore: number) => {
+  const date = parseIsoDate(addDays(deadline, -daysBefore));
+  date.setHours(REMINDER_HOUR);
+  return date;
+};
+
+// Monthly and longer periods land on the series' own day, so a short month does not pull later ones back.
+export const nextOccurrence = (deadline: string, recurrence: TaskRecurrence, day?: number) => {
+  if (recurrence === 'weekly') return addDays(deadline, 7);
+  return addMonths(deadline, recurrence === 'monthly' ? 1 : recurrence === 'quarterly' ? 3 : 12, day);
+};
+
+// The reminder a task is owed right now, if any. When several have come due while the app was closed,
+// only the most recent is delivered and the older ones are marked as delivered with it.
+const pendingReminder = (task: Task, now: Date) => {
+  if (task.isComplete || !task.deadline || (task.snoozedUntil && new Date(task.snoozedUntil) > now)) return null;
+  const notified = new Set(task.notified);
+  const due = (task.reminders ?? DEFAULT_TASK_REMINDERS)
+    .filter(days => reminderTime(task.deadline, days) <= now)
+    .sort((a, b) => a - b)
+    .map(days => ({ days, key: `${task.deadline}@${days}` }));
+  const deadlineText = formatDeadline(task.deadline);
+
+  const isMissed = now >= parseIsoDate(addDays(task.deadline, 1));
+  const missedKey = `${task.deadline}@missed`;
+
+  const snoozeKey = task.snoozedUntil && `snooze@${task.snoozedUntil}`;
+  if (snoozeKey && !notified.has(snoozeKey)) {
+    return {
+      kind: isMissed ? 'missed' as const : 'reminder' as const,
+      keys: [snoozeKey, ...(isMissed ? [missedKey] : []), ...due.map(d => d.key)],
+      body: `Snoozed reminder: ${isMissed ? 'deadline was' : 'due'} ${deadlineText}`,
+    };
+  }
+  if (isMissed) {
+    if (notified.has(missedKey)) return null;
+    return { kind: 'missed' as const, keys: [missedKey, ...due.map(d => d.key)], body: `Deadline missed (${deadlineText})` };
+  }
+  if (due.length === 0 || notified.has(due[0].key)) return null;
+  // Phrased from today rather than the reminder's offset, which may have passed before the task existed.
+  const days = daysBetween(toIsoDate(now), task.deadline);
+  const body = days === 0 ? 'Due today' : `Due ${days === 1 ? 'tomorrow' : `in ${days} days`} (${deadlineText})`;
+  return { kind: 'reminder' as const, keys: due.map(d => d.key), body };
+};
+
+const snoozeUntil = (option: 'hour' | 'tomorrow' | 'week', now = new Date()) => {
+  if (option === 'hour') return new Date(now.getTime() + 60 * 60 * 1000);
+  return reminderTime(addDays(toIsoDate(now), option === 'tomorrow' ? 1 : 7), 0);
+};
+
+// --- Limitation Calculator ---
+// Periods are counted the way the Limitation Act, 1963 requires, with no model involved: the starting day is
+// excluded (s.12(1)), time taken to obtain a certified copy is excluded for appeals, reviews and revisions
+// (s.12(2)), and a period ending on a day the court is closed runs to the day it reopens (s.4).
+interface LimitationRule {
+  id: string;
+  category: string;
+  provision: string;
+  description: string;
+  period: { amount: number; unit: 'days' | 'months' | 'years' };
+  startsFrom: string;
+  copyExclusion: boolean; // Section 12(2) applies
+  filedInCourt: boolean; // Section 4 applies
+}
+
+const LIMITATION_CATEGORIES = {
+  suits: 'Suits and applications (Limitation Act, 1963)',
+  civil: 'Civil appeals, reviews and revisions',
+  criminal: 'Criminal appeals and revisions (CrPC / BNSS)',
+  cheque: 'Cheque dishonour (NI Act, 1881)',
+};
+
+export const LIMITATION_RULES: LimitationRule[] = [
+  { id: 'art-113', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 113', description: 'Suit for which no period is provided elsewhere in the Schedule', period: { amount: 3, unit: 'years' }, startsFrom: 'Date the right to sue accrues', copyExclusion: false, filedInCourt: true },
+  { id: 'art-19', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 19', description: 'Recovery of money lent', period: { amount: 3, unit: 'years' }, startsFrom: 'Date the loan is made', copyExclusion: false, filedInCourt: true },
+  { id: 'art-54', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 54', description: 'Specific performance of a contract', period: { amount: 3, unit: 'years' }, startsFrom: 'Date fixed for performance, or date the plaintiff has notice of refusal', copyExclusion: false, filedInCourt: true },
+  { id: 'art-55', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 55', description: 'Compensation for breach of contract', period: { amount: 3, unit: 'years' }, startsFrom: 'Date the contract is broken', copyExclusion: false, filedInCourt: true },
+  { id: 'art-58', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 58', description: 'Any other declaration', period: { amount: 3, unit: 'years' }, startsFrom: 'Date the right to sue first accrues', copyExclusion: false, filedInCourt: true },
+  { id: 'art-64', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 64', description: 'Possession of immovable property based on previous possession', period: { amount: 12, unit: 'years' }, startsFrom: 'Date of dispossession', copyExclusion: false, filedInCourt: true },
+  { id: 'art-65', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 65', description: 'Possession of immovable property based on title', period: { amount: 12, unit: 'years' }, startsFrom: "Date the defendant's possession becomes adverse", copyExclusion: false, filedInCourt: true },
+  { id: 'art-123', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 123', description: 'Setting aside an ex parte decree', period: { amount: 30, unit: 'days' }, startsFrom: 'Date of the decree, or date of knowledge where summons was not duly served', copyExclusion: false, filedInCourt: true },
+  { id: 'art-136', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 136', description: 'Execution of a decree (other than a mandatory injunction)', period: { amount: 12, unit: 'years' }, startsFrom: 'Date the decree becomes enforceable', copyExclusion: false, filedInCourt: true },
+  { id: 'art-137', category: LIMITATION_CATEGORIES.suits, provision: 'Art. 137', description: 'Application for which no period is provided elsewhere', period: { amount: 3, unit: 'years' }, startsFrom: 'Date the right to apply accrues', copyExclusion: false, filedInCourt: true },
+  { id: 'art-116a', category: LIMITATION_CATEGORIES.civil, provision: 'Art. 116(a)', description: 'Appeal under the CPC to a High Court', period: { amount: 90, unit: 'days' }, startsFrom: 'Date of the decree or order', copyExclusion: true, filedInCourt: true },
+  { id: 'art-116b', category: LIMITATION_CATEGORIES.civil, provision: 'Art. 116(b)', description: 'Appeal under the CPC to any other court', period: { amount: 30, unit: 'days' }, startsFrom: 'Date of the decree or order', copyExclusion: true, filedInCourt: true },
+  { id: 'art-117', category: LIMITATION_CATEGORIES.civil, provision: 'Art. 117', description: 'Intra-court appeal from a decree or order of a High Court', period: { amount: 30, unit: 'days' }, startsFrom: 'Date of the decree or order', copyExclusion: true, filedInCourt: true },
+  { id: 'art-124', category: LIMITATION_CATEGORIES.civil, provision: 'Art. 124', description: 'Review of judgment by a court other than the Supreme Court', period: { amount: 30, unit: 'days' }, startsFrom: 'Date of the decree or order', copyExclusion: true, filedInCourt: true },
+  { id: 'art-131-civil', category: LIMITATION_CATEGORIES.civil, provision: 'Art. 131', description: 'Civil revision (CPC s.115)', period: { amount: 90, unit: 'days' }, startsFrom: 'Date of the decree or order sought to be revised', copyExclusion: true, filedInCourt: true },
+  { id: 'art-115a', category: LIMITATION_CATEGORIES.criminal, provision: 'Art. 115(a)', description: 'Appeal against a sentence of death (CrPC s.374 / BNSS s.415)', period: { amount: 30, unit: 'days' }, startsFrom: 'Date of the sentence', copyExclusion: true, filedInCourt: true },
+  { id: 'art-115b-hc', category: LIMITATION_CATEGORIES.criminal, provision: 'Art. 115(b)(i)', description: 'Appeal against conviction to the High Court (CrPC s.374(2) / BNSS s.415(2))', period: { amount: 60, unit: 'days' }, startsFrom: 'Date of the sentence or order', copyExclusion: true, filedInCourt: true },
+  { id: 'art-115b-sessions', category: LIMITATION_CATEGORIES.criminal, provision: 'Art. 115(b)(ii)', description: 'Appeal against conviction to the Court of Session (CrPC s.374(3) / BNSS s.415(3))', period: { amount: 30, unit: 'days' }, startsFrom: 'Date of the sentence or order', copyExclusion: true, filedInCourt: true },
+  { id: 'art-114a', category: LIMITATION_CATEGORIES.criminal, provision: 'Art. 114(a)', description: 'State appeal against acquittal (CrPC s.378(1), (2) / BNSS s.419(1), (2))', period: { amount: 90, unit: 'days' }, startsFrom: 'Date of the order of acquittal', copyExclusion: true, filedInCourt: true },
+  { id: 'art-114b', category: LIMITATION_CATEGORIES.criminal, provision: 'Art. 114(b)', description: "Complainant's appeal against acquittal after special leave (CrPC s.378(4) / BNSS s.419(4))", period: { amount: 30, unit: 'days' }, startsFrom: 'Date special leave is granted', copyExclusion: true, filedInCourt: true },
+  { id: 's378-5', category: LIMITATION_CATEGORIES.criminal, provision: 'CrPC s.378(5) / BNSS s.419(5)', description: 'Special leave to appeal against acquittal, complainant not a public servant', period: { amount: 60, unit: 'days' }, startsFrom: 'Date of the order of acquittal', copyExclusion: true, filedInCourt: true },
+  { id: 's378-5-public-servant', category: LIMITATION_CATEGORIES.criminal, provision: 'CrPC s.378(5) / BNSS s.419(5)', description: 'Special leave to appeal against acquittal, complainant a public servant', period: { amount: 6, unit: 'months' }, startsFrom: 'Date of the order of acquittal', copyExclusion: true, filedInCourt: true },
+  { id: 'art-131-criminal', category: LIMITATION_CATEGORIES.criminal, provision: 'Art. 131', description: 'Criminal revision (CrPC s.397 / BNSS s.438)', period: { amount: 90, unit: 'days' }, startsFrom: 'Date of the order or sentence sought to be revised', copyExclusion: true, filedInCourt: true },
+  { id: 'ni-138b', category: LIMITATION_CATEGORIES.cheque, provision: 'NI Act s.138(b)', description: 'Demand notice to the drawer of a dishonoured cheque', period: { amount: 30, unit: 'days' }, startsFrom: 'Date the bank informs the payee of dishonour', copyExclusion: false, filedInCourt: false },
+  { id: 'ni-142', category: LIMITATION_CATEGORIES.cheque, provision: 'NI Act s.142(1)(b)', description: 'Complaint for dishonour of cheque', period: { amount: 1, unit: 'months' }, startsFrom: 'Date the cause of action arises (expiry of 15 days from service of the demand notice)', copyExclusion: false, filedInCourt: true },
+];
+
+export const DEFAULT_COURT_CALENDAR: CourtCalendar = { closedWeekdays: [0], holidays: [] };
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface LimitationInput {
+  startDate: string;
+  copyAppliedOn: string; // Optional; both copy dates are needed for the s.12(2) exclusion
+  copyReadyOn: string;
+}
+
+interface LimitationResult {
+  rule: LimitationRule;
+  startDate: string;
+  lastDate: string;
+  excludedDays: number;
+  steps: string[];
+  notes: string[];
+}
+
+const formatPeriod = ({ amount, unit }: LimitationRule['period']) => `${amount} ${amount === 1 ? unit.slice(0, -1) : unit}`;
+
+// Why the court is closed on a date, or null if it sits.
+const courtClosure = (iso: string, calendar: CourtCalendar) => {
+  const holiday = calendar.holidays.find(h => h.start <= iso && iso <= h.end);
+  if (holiday) return holiday.label;
+  const weekday = parseIsoDate(iso).getDay();
+  return calendar.closedWeekdays.includes(weekday) ? WEEKDAY_NAMES[weekday] : null;
+};
+
+const countCourtDays = (from: string, to: string, calendar: CourtCalendar) => {
+  let count = 0;
+  for (let day = from; day <= to; day = addDays(day, 1)) if (!courtClosure(day, calendar)) count++;
+  return count;
+};
+
+export const computeLimitation = (rule: LimitationRule, input: LimitationInput, calendar: CourtCalendar): LimitationResult => {
+  const steps: string[] = [];
+  const notes: string[] = [];
+  const { amount, unit } = rule.period;
+  // With the starting day excluded, a period ends on the same calendar date (or day count) after it.
+  let lastDate = unit === 'days' ? addDays(input.startDate, amount) : addMonths(input.startDate, unit === 'years' ? amount * 12 : amount);
+  steps.push(`${formatPeriod(rule.period)} from ${formatDeadline(input.startDate)}, excluding that day (s.12(1)), ends on ${formatDeadline(lastDate)}.`);
+
+  let excludedDays = 0;
+  if (rule.copyExclusion && input.copyAppliedOn && input.copyReadyOn) {
+    if (input.copyReadyOn < input.copyAppliedOn || input.copyAppliedOn < input.startDate) {
+      notes.push('The certified copy dates are out of order, so no time has been excluded under s.12(2).');
+    } else if (input.copyAppliedOn > lastDate) {
+      notes.push('The certified copy was applied for after the period had already expired, so s.12(2) does not extend it.');
+    } else {
+      excludedDays = daysBetween(input.copyAppliedOn, input.copyReadyOn) + 1;
+      lastDate = addDays(lastDate, excludedDays);
+      steps.push(`${excludedDays} ${excludedDays === 1 ? 'day' : 'days'} taken to obtain the certified copy (${formatDeadline(input.copyAppliedOn)} to ${formatDeadline(input.copyReadyOn)}) are excluded under s.12(2), moving the last day to ${formatDeadline(lastDate)}.`);
+    }
+  } else if (rule.copyExclusion) {
+    notes.push('Enter the dates the certified copy was applied for and made ready to exclude that time under s.12(2).');
+  }
+
+  if (rule.filedInCourt) {
+    const expiry = lastDate;
+    const closures: string[] = [];
+    for (let closure = courtClosure(lastDate, calendar); closure && closures.length < 366; closure = courtClosure(lastDate, calendar)) {
+      closures.push(closure);
+      lastDate = addDays(lastDate, 1);
+    }
+    if (closures.length > 0) {
+      steps.push(`The court is closed on ${formatDeadline(expiry)} (${[...new Set(closures)].join(', ')}), so under s.4 the filing may be made when it reopens on ${formatDeadline(lastDate)}.`);
+    }
+  }
+  if (rule.copyExclusion || rule.id === 'art-123') notes.push('Delay beyond this date can only be condoned on sufficient cause under s.5.');
+  return { rule, startDate: input.startDate, lastDate, excludedDays, steps, notes };
+};
+
+// Plain text for quoting the computation in a chat message or a task.
+const limitationSummary = (result: LimitationResult) => [
+  `Limitation computation (Juris calculator):`,
+  `- Provision: ${result.rule.provision}${result.rule.category === LIMITATION_CATEGORIES.cheque || result.rule.provision.startsWith('CrPC') ? '' : ', Limitation Act, 1963'} — ${result.rule.description} (${formatPeriod(result.rule.period)})`,
+  `- Starting point: ${formatDeadline(result.startDate)} (${result.rule.startsFrom.toLowerCase()})`,
+  ...result.steps.map(step => `- ${step}`),
+  `- Last date: ${formatDeadline(result.lastDate, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}`,
+].join('\n');
+
+const DeadlineChip = ({ entry, today, onOpen }: { entry: DeadlineEntry; today: string; onOpen: (doc: ManagedDoc) => void }) => (
+  <div
+    className={`deadline-chip ${entry.task.isComplete ? 'complete' : isOverdue(entry.task, today) ? 'overdue' : ''}`}
+    title={`${entry.task.text} (${entry.doc.name})`}
+    onClick={() => onOpen(entry.doc)}
+  >
+    {entry.task.text}
+  </div>
+);
+
+// --- Legal Authorities ---
+// Case citations and statutory references are recognised by pattern, so "AIR 1973 SC 1461" in an answer and
+// "A.I.R. 1973 S.C. 1461" in a judgment resolve to the same key and are listed together wherever they occur.
+interface LegalAuthority {
+  key: string; // Canonical form; two mentions with the same key cite the same authority
+  kind: 'case' | 'statute';
+  label: string; // Short form shown on chips
+  title: string; // Long form shown on hover
+  act?: string; // Statutes only: canonical act title and the section or article cited
+  section?: string;
+}
+
+interface AuthorityMention {
+  authority: LegalAuthority;
+  start: number;
+  end: number;
+}
+
+interface AuthorityOccurrence {
+  source: 'session' | 'document';
+  sourceId: string;
+  messageId?: string;
+  page: number | null; // Documents only, when the text is paginated
+  snippet: { before: string; match: string; after: string };
+}
+
+interface AuthorityEntry {
+  authority: LegalAuthority;
+  occurrences: AuthorityOccurrence[];
+}
+
+// Aliases are matched whole-word and in this order, so longer names must come before their abbreviations' prefixes (BNSS before BNS).
+const STATUTES: { pattern: string; short: string; full: string }[] = [
+  { pattern: String.raw`Negotiable\s+Instruments\s+Act(?:,?\s*1881)?|N\.?\s?I\.?\s+Act`, short: 'NI Act', full: 'Negotiable Instruments Act, 1881' },
+  { pattern: String.raw`Indian\s+Penal\s+Code(?:,?\s*1860)?|I\.P\.C\.?|IPC`, short: 'IPC', full: 'Indian Penal Code, 1860' },
+  { pattern: String.raw`Code\s+of\s+Criminal\s+Procedure(?:,?\s*(?:1973|1898))?|Cr\.\s?P\.\s?C\.?|CrPC|Cr\.PC`, short: 'CrPC', full: 'Code of Criminal Procedure, 1973' },
+  { pattern: String.raw`Code\s+of\s+Civil\s+Procedure(?:,?\s*1908)?|C\.P\.C\.?|CPC`, short: 'CPC', full: 'Code of Civil Procedure, 1908' },
+  { pattern: String.raw`Bharatiya\s+Nagarik\s+Suraksha\s+Sanhita(?:,?\s*2023)?|BNSS`, short: 'BNSS', full: 'Bharatiya Nagarik Suraksha Sanhita, 2023' },
+  { pattern: String.raw`Bharatiya\s+Nyaya\s+Sanhita(?:,?\s*2023)?|BNS`, short: 'BNS', full: 'Bharatiya Nyaya Sanhita, 2023' },
+  { pattern: String.raw`Bharatiya\s+Sakshya\s+Adhiniyam(?:,?\s*2023)?|BSA`, short: 'BSA', full: 'Bharatiya Sakshya Adhiniyam, 2023' },
+  { pattern: String.raw`(?:Indian\s+)?Evidence\s+Act(?:,?\s*1872)?`, short: 'Evidence Act', full: 'Indian Evidence Act, 1872' },
+  { pattern: String.raw`(?:Indian\s+)?Contract\s+Act(?:,?\s*1872)?`, short: 'Contract Act', full: 'Indian Contract Act, 1872' },
+  { pattern: String.raw`Limitation\s+Act(?:,?\s*1963)?`, short: 'Limitation Act', full: 'Limitation Act, 1963' },
+  { pattern: String.raw`Specific\s+Relief\s+Act(?:,?\s*1963)?`, short: 'SRA', full: 'Specific Relief Act, 1963' },
+  { pattern: String.raw`Transfer\s+of\s+Property\s+Act(?:,?\s*1882)?|T\.?P\.?\s+Act`, short: 'TP Act', full: 'Transfer of Property Act, 1882' },
+  { pattern: String.raw`Arbitration\s+(?:and|&)\s+Conciliation\s+Act(?:,?\s*1996)?`, short: 'A&C Act', full: 'Arbitration and Conciliation Act, 1996' },
+  { pattern: String.raw`Companies\s+Act(?:,?\s*2013)?`, short: 'Companies Act', full: 'Companies Act, 2013' },
+  { pattern: String.raw`Income[-\s]tax\s+Act(?:,?\s*1961)?`, short: 'IT Act, 1961', full: 'Income-tax Act, 1961' },
+  { pattern: String.raw`Information\s+Technology\s+Act(?:,?\s*2000)?`, short: 'IT Act, 2000', full: 'Information Technology Act, 2000' },
+  { pattern: String.raw`Consumer\s+Protection\s+Act(?:,?\s*2019)?`, short: 'CPA', full: 'Consumer Protection Act, 2019' },
+  { pattern: String.raw`Hindu\s+Marriage\s+Act(?:,?\s*1955)?|HMA`, short: 'HMA', full: 'Hindu Marriage Act, 1955' },
+  { pattern: String.raw`Protection\s+of\s+Women\s+from\s+Domestic\s+Violence\s+Act(?:,?\s*2005)?|DV\s+Act`, short: 'DV Act', full: 'Protection of Women from Domestic Violence Act, 2005' },
+  { pattern: String.raw`Prevention\s+of\s+Corruption\s+Act(?:,?\s*1988)?|PC\s+Act`, short: 'PC Act', full: 'Prevention of Corruption Act, 1988' },
+  { pattern: String.raw`Narcotic\s+Drugs\s+and\s+Psychotropic\s+Substances\s+Act(?:,?\s*1985)?|NDPS\s+Act`, short: 'NDPS Act', full: 'Narcotic Drugs and Psychotropic Substances Act, 1985' },
+  { pattern: String.raw`Protection\s+of\s+Children\s+from\s+Sexual\s+Offences\s+Act(?:,?\s*2012)?|POCSO\s+Act|POCSO`, short: 'POCSO', full: 'Protection of Children from Sexual Offences Act, 2012' },
+];
+
+// Any other Act is recognised only with its year, and then keeps its own name ("Real Estate (Regulation and Development) Act, 2016").
+const OTHER_ACT = String.raw`(?:\(?[A-Z][\w()'-]*\s+(?:(?:of|and|for|the|from|in|to|&)\s+)*){1,8}Act,?\s*\d{4}`;
+const SECTION_NUMBER = String.raw`\d+[A-Z]{0,3}(?:\s?\(\w{1,5}\))*`;
+const SECTION_LIST = String.raw`${SECTION_NUMBER}(?:\s*(?:,|and|&|\/|or)\s*${SECTION_NUMBER})*`;
+const STATUTE_NAME = `${STATUTES.map(s => `(${s.pattern})`).join('|')}|(${OTHER_ACT})`;
+const SECTION_PATTERN = new RegExp(String.raw`\b(?:[Ss]ections?|[Ss]ecs?\.|[Ss]s?\.|u\/s\.?)\s*(${SECTION_LIST})\s*,?\s*(?:of\s+(?:the\s+)?)?(?:${STATUTE_NAME})(?![\w])`, 'g');
+const ARTICLE_PATTERN = new RegExp(String.raw`\b(?:[Aa]rticles?|[Aa]rts?\.)\s*(${SECTION_LIST})\s*,?\s*(?:of\s+(?:the\s+)?)?(?:Indian\s+)?Constitution(?:\s+of\s+India)?`, 'g');
+
+const CASE_PATTERNS: { pattern: RegExp; reporter: string; canonical: (m: RegExpMatchArray) => string }[] = [
+  { pattern: /\bA\.?\s?I\.?\s?R\.?\s*(\d{4})\s+(S\.?\s?C\.?|P\s?&\s?H|[A-Z][A-Za-z]{1,11}\.?)\s+(\d+)\b/g, reporter: 'All India Reporter', canonical: m => `AIR ${m[1]} ${m[2].replace(/[.\s]/g, '')} ${m[3]}` },
+  { pattern: /\(\s*(\d{4})\s*\)\s*(\d+)\s+S\.?\s?C\.?\s?C\.?(?:\s*\(\s*(Cri|Civ|L\s?&\s?S|Tax)\s*\))?\s+(\d+)\b/g, reporter: 'Supreme Court Cases', canonical: m => `(${m[1]}) ${m[2]} SCC${m[3] ? ` (${m[3].replace(/\s/g, '')})` : ''} ${m[4]}` },
+  { pattern: /\b(\d{4})\s+SCC\s*On\s?[Ll]ine\s+([A-Z][A-Za-z]{1,11}|P\s?&\s?H)\s+(\d+)\b/g, reporter: 'SCC OnLine', canonical: m => `${m[1]} SCC OnLine ${m[2].replace(/\s/g, '')} ${m[3]}` },
+  { pattern: /\[\s*(\d{4})\s*\]\s*(?:(\d+)\s+)?S\.?\s?C\.?\s?R\.?\s+(\d+)\b/g, reporter: 'Supreme Court Reports', canonical: m => `[${m[1]}] ${m[2] ? `${m[2]} ` : ''}SCR ${m[3]}` },
+  { pattern: /\b(\d{4})\s*:?\s*INSC\s*:?\s*(\d+)\b/g, reporter: 'Neutral citation, Supreme Court of India', canonical: m => `${m[1]} INSC ${m[2]}` },
+  { pattern: /\b(\d{4}):([A-Z]{2,8}(?:-[A-Z]{2,4})?):(\d+)(?:-DB)?\b/g, reporter: 'Neutral citation, High Court', canonical: m => `${m[1]}:${m[2]}:${m[3]}` },
+];
+
+const CONSTITUTION = 'Constitution of India';
+
+const normalizeSection = (section: string) => section.replace(/\s+/g, '');
+
+// Resolves an act's name as written (alias, abbreviation, with or without its year) to the title findAuthorities uses.
+const canonicalActName = (name: string) => {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (/^(?:the\s+)?(?:Indian\s+)?Constitution(?:\s+of\s+India)?$/i.test(trimmed)) return CONSTITUTION;
+  const known = STATUTES.find(s => new RegExp(`^(?:${s.pattern})$`).test(trimmed));
+  return known ? known.full : trimmed.replace(/,?\s*(\d{4})$/, ', $1');
+};
+
+const findAuthorities = (text: string): AuthorityMention[] => {
+  const mentions: AuthorityMention[] = [];
+  for (const { pattern, reporter, canonical } of CASE_PATTERNS) {
+    for (const m of text.matchAll(pattern)) {
+      const key = canonical(m);
+      mentions.push({ authority: { key, kind: 'case', label: key, title: `${key} (${reporter})` }, start: m.index!, end: m.index! + m[0].length });
+    }
+  }
+  for (const m of text.matchAll(SECTION_PATTERN)) {
+    const known = STATUTES.findIndex((_, i) => m[i + 2]);
+    const other = m[STATUTES.length + 2]?.replace(/\s+/g, ' ').replace(/,?\s*(\d{4})$/, ', $1');
+    const statute = known >= 0 ? STATUTES[known] : { short: other!, full: other! };
+    for (const section of m[1].split(/\s*(?:,|and|&|\/|or)\s*/).map(normalizeSection)) {
+      mentions.push({ authority: { key: `s. ${section}, ${statute.full}`, kind: 'statute', label: `s. ${section} ${statute.short}`, title: `Section ${section}, ${statute.full}`, act: statute.full, section }, start: m.index!, end: m.index! + m[0].length });
+    }
+  }
+  for (const m of text.matchAll(ARTICLE_PATTERN)) {
+    for (const article of m[1].split(/\s*(?:,|and|&|\/|or)\s*/).map(normalizeSection)) {
+      mentions.push({ authority: { key: `Art. ${article}, Constitution of India`, kind: 'statute', label: `Art. ${article} Constitution`, title: `Article ${article}, Constitution of India`, act: CONSTITUTION, section: article }, start: m.index!, end: m.index! + m[0].length });
+    }
+  }
+  return mentions.sort((a, b) => a.start - b.start);
+};
+
+// One entry per authority, in order of first mention.
+const extractAuthorities = (text: string): LegalAuthority[] => {
+  const byKey = new Map<string, LegalAuthority>();
+  for (const { authority } of findAuthorities(text)) if (!byKey.has(authority.key)) byKey.set(authority.key, authority);
+  return [...byKey.values()];
+};
+
+const mentionSnippet = (text: string, { start, end }: AuthorityMention, context = 80): AuthorityOccurrence['snippet'] => ({
+  before: (start > context ? '…' : '') + text.slice(Math.max(0, start - context), start).replace(/\s+/g, ' ').trimStart(),
+  match: text.slice(start, end),
+  after: text.slice(end, end + context).replace(/\s+/g, ' ').trimEnd() + (end + context < text.length ? '…' : ''),
+});
+
+const buildAuthorityIndex = (sessions: Session[], docs: ManagedDoc[], docTexts: Map<string, DocText>) => {
+  const index = new Map<string, AuthorityEntry>();
+  const record = (text: string, occurrence: Omit<AuthorityOccurrence, 'snippet'>) => {
+    for (const mention of findAuthorities(text)) {
+      const entry = index.get(mention.authority.key) || { authority: mention.authority, occurrences: [] };
+      entry.occurrences.push({ ...occurrence, snippet: mentionSnippet(text, mention) });
+      index.set(mention.authority.key, entry);
+    }
+  };
+  for (const session of sessions) {
+    for (const message of session.messages) {
+      if (!message.isError) record(message.text, { source: 'session', sourceId: session.id, messageId: message.id, page: null });
+    }
+  }
+  for (const doc of docs) {
+    const docText = docTexts.get(doc.id);
+    docText?.pages.forEach((text, i) => record(text, { source: 'document', sourceId: doc.id, page: docText.paginated ? i + 1 : null }));
+  }
+  return index;
+};
+
+// --- Citation Verification ---
+type VerificationStatus = 'verified' | 'not-found' | 'mismatched' | 'unchecked';
+
+interface AuthorityVerification {
+  status: VerificationStatus;
+  detail: string; // The indexed text, or why the authority could not be confirmed
+}
+
+interface LegalIndexLookup {
+  acts: Set<string>;
+  sections: Map<string, BareActSection>; // `${act}|${section}`
+  cases: Map<string, CaseRecord>; // By canonical citation, including parallel citations
+}
+
+const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  verified: 'Verified',
+  'not-found': 'Not found',
+  mismatched: 'Mismatched',
+  unchecked: 'Not indexed',
+};
+
+const canonicalCitation = (citation: string) => findAuthorities(citation).find(m => m.authority.kind === 'case')?.authority.key || citation.trim();
+
+// Accepts { name?, sections|acts: [...], cases: [...] }; throws with the first few problems so the user can fix the file.
+export const parseLegalIndex = (raw: unknown, fileName: string): LegalIndexSource => {
+  if (!isJsonObject(raw)) throw new Error('The file must contain a JSON object with "sections" and/or "cases" lists.');
+  const rawSections = raw.sections ?? raw.acts ?? [];
+  const rawCases = raw.cases ?? [];
+  const problems: string[] = [];
+  if (!Array.isArray(rawSections)) problems.push('"sections" must be a list');
+  if (!Array.isArray(rawCases)) problems.push('"cases" must be a list');
+  const sections: BareActSection[] = (Array.isArray(rawSections) ? rawSections : []).flatMap((item: unknown, i: number) => {
+    if (!isJsonObject(item) || typeof item.act !== 'string' || (typeof item.section !== 'string' && typeof item.section !== 'number')) {
+      problems.push(`section ${i + 1} needs an act and a section number`);
+      return [];
+    }
+    const replacedBy = isJsonObject(item.replacedBy) && typeof item.replacedBy.act === 'string' && item.replacedBy.section !== undefined
+      ? { act: canonicalActName(item.replacedBy.act), section: normalizeSection(String(item.replacedBy.section)) }
+      : undefined;
+    return [{ act: canonicalActName(item.act), section: normalizeSection(String(item.section)), heading: String(item.heading || ''), text: String(item.text || ''), ...(replacedBy && { replacedBy }) }];
+  });
+  const cases: CaseRecord[] = (Array.isArray(rawCases) ? rawCases : []).flatMap((item: unknown, i: number) => {
+    if (!isJsonObject(item) || typeof item.citation !== 'string' || typeof item.title !== 'string') {
+      problems.push(`case ${i + 1} needs a citation and a title`);
+      return [];
+    }
+    const parallel = Array.isArray(item.parallelCitations) ? item.parallelCitations : Array.isArray(item.parallel) ? item.parallel : [];
+    return [{ citation: canonicalCitation(item.citation), title: item.title.trim(), court: String(item.court || ''), date: String(item.date || ''), parallelCitations: parallel.map((c: unknown) => canonicalCitation(String(c))) }];
+  });
+  if (problems.length > 0) throw new Error(`Invalid legal index: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? '; ...' : ''}`);
+  if (sections.length === 0 && cases.length === 0) throw new Error('The file does not contain any sections or cases.');
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : fileName.replace(/\.json$/i, ''),
+    importedAt: new Date().toISOString(),
+    sections,
+    cases,
+  };
+};
+
+// Later imports win where two sources index the same section or case.
+const buildLegalIndexLookup = (sources: LegalIndexSource[]): LegalIndexLookup => {
+  const lookup: LegalIndexLookup = { acts: new Set(), sections: new Map(), cases: new Map() };
+  for (const source of [...sources].sort((a, b) => a.importedAt.localeCompare(b.importedAt))) {
+    for (const section of source.sections) {
+      lookup.acts.add(section.act);
+      lookup.sections.set(`${section.act}|${section.section}`, section);
+    }
+    for (const record of source.cases) {
+      for (const citation of [record.citation, ...record.parallelCitations]) lookup.cases.set(citation, record);
+    }
+  }
+  return lookup;
+};
+
+const sectionText = (section: BareActSection) => `${section.section}. ${section.heading}${section.text ? `\n\n${section.text.length > 600 ? section.text.slice(0, 600) + '…' : section.text}` : ''}`;
+
+// Words that say nothing about which case a party name refers to.
+const GENERIC_PARTY_WORDS = new Set(['state', 'union', 'india', 'others', 'another', 'anr', 'ors', 'the', 'and', 'ltd', 'limited', 'private', 'pvt', 'company', 'through', 'secretary', 'government', 'commissioner', 'republic']);
+
+const partyWords = (name: string) => name.toLowerCase().split(/[^a-z]+/).filter(w => w.length > 2 && !GENERIC_PARTY_WORDS.has(w));
+
+// `context` is the text just before the mention, where an answer names the case it is citing.
+const verifyAuthority = (authority: LegalAuthority, context: string, lookup: LegalIndexLookup): AuthorityVerification => {
+  if (authority.kind === 'statute') {
+    const { act = '', section = '' } = authority;
+    if (!lookup.acts.has(act)) return { status: 'unchecked', detail: `No bare act for the ${act} has been imported into the legal index.` };
+    const base = section.replace(/\(.*$/, '');
+    const record = lookup.sections.get(`${act}|${section}`) || lookup.sections.get(`${act}|${base}`);
+    if (!record) return { status: 'not-found', detail: `The imported ${act} has no ${act === CONSTITUTION ? 'Article' : 'Section'} ${section}.` };
+    // Imported bare acts can name the replacement themselves; otherwise the built-in concordance is used.
+    const replacedBy = record.replacedBy || (isRepealedCode(act) ? findEquivalent(act, record.section) : null);
+    if (replacedBy) {
+      const replacement = lookup.sections.get(`${replacedBy.act}|${replacedBy.section}`) || lookup.sections.get(`${replacedBy.act}|${baseSection(replacedBy.section)}`);
+      return {
+        status: 'mismatched',
+        detail: `The ${act} has been repealed. Section ${record.section} is now Section ${replacedBy.section} of the ${replacedBy.act}${replacement ? `:\n\n${sectionText(replacement)}` : '.'}`,
+      };
+    }
+    return { status: 'verified', detail: sectionText(record) };
+  }
+
+  if (lookup.cases.size === 0) return { status: 'unchecked', detail: 'No case list has been imported into the legal index.' };
+  const record = lookup.cases.get(authority.key);
+  if (!record) return { status: 'not-found', detail: `${authority.key} is not in the imported case list.` };
+  const described = `${record.title}${record.court ? `, ${record.court}` : ''}${record.date ? `, ${record.date}` : ''}`;
+  const named = context.slice(-200).match(/([A-Z][\w.&' -]{1,80}?)\s+(?:v\.?|vs\.?|versus)\s+([A-Z][\w&' -]{1,80}?)[\s,(]*(?:\(\d{4}\)|\[\d{4}\]|$)/);
+  if (named) {
+    // The first party may run back into the previous sentence ("... Act. In Maneka Gandhi").
+    const petitioner = named[1].split(/\.\s+(?=[A-Z])/).pop()!.replace(/^(?:In|See|Also|Cf\.?)\s+/, '').trim();
+    const respondent = named[2].trim();
+    const expected = partyWords(record.title);
+    const mentioned = new Set(partyWords(`${petitioner} ${respondent}`));
+    if (expected.length > 0 && mentioned.size > 0 && !expected.some(w => mentioned.has(w))) {
+      return { status: 'mismatched', detail: `The answer attributes this citation to ${petitioner} v. ${respondent}, but the case list has it as ${described}.` };
+    }
+  }
+  return { status: 'verified', detail: described };
+};
+
+const VerificationIcon = ({ status, size = 12 }: { status: VerificationStatus; size?: number }) => {
+  if (status === 'verified') return <ShieldCheck size={size} color="#2F855A" />;
+  if (status === 'mismatched') return <ShieldAlert size={size} color="#C05621" />;
+  if (status === 'not-found') return <ShieldX size={size} color="#C53030" />;
+  return <ShieldQuestion size={size} color="#A0AEC0" />;
+};
+
+// Each authority is checked where it is first mentioned, since that is where an answer names the case.
+const AuthorityChips = ({ text, index, lookup, onSelect }: { text: string; index: Map<string, AuthorityEntry>; lookup: LegalIndexLookup; onSelect: (key: string) => void }) => {
+  const checked = useMemo(() => {
+    const firstMentions = new Map<string, AuthorityMention>();
+    for (const mention of findAuthorities(text)) if (!firstMentions.has(mention.authority.key)) firstMentions.set(mention.authority.key, mention);
+    return [...firstMentions.values()].map(m => ({ authority: m.authority, verification: verifyAuthority(m.authority, text.slice(0, m.start), lookup) }));
+  }, [text, lookup]);
+  if (checked.length === 0) return null;
+  return (
+    <div className="authority-chips">
+      {checked.map(({ authority: a, verification }) => {
+        const count = index.get(a.key)?.occurrences.length || 0;
+        return (
+          <button
+            key={a.key}
+            className={`authority-chip ${a.kind} ${verification.status}`}
+            title={`${a.title} — ${VERIFICATION_LABELS[verification.status]}\n\n${verification.detail}\n\nCited ${count} ${count === 1 ? 'time' : 'times'} in your sessions and vault`}
+            onClick={() => onSelect(a.key)}
+          >
+            <VerificationIcon status={verification.status} /> {a.label}<EquivalentTag authority={a} />{count > 1 && <span>{count}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+// --- Criminal Code Concordance ---
+// Section equivalences between the repealed criminal codes and the 2023 codes that replaced them on 1 July 2024.
+// Only sections with a direct counterpart are listed; offences the new codes dropped (e.g. IPC s.377, s.497) have none.
+interface CodeConcordance {
+  oldAct: string;
+  oldShort: string;
+  newAct: string;
+  newShort: string;
+  rows: [oldSection: string, newSection: string, subject: string][];
+}
+
+interface SectionEquivalent {
+  act: string;
+  short: string;
+  section: string;
+  subject: string;
+}
+
+const NEW_CRIMINAL_CODES_FROM = '2024-07-01';
+
+const CODE_CONCORDANCES: CodeConcordance[] = [
+  {
+    oldAct: 'Indian Penal Code, 1860', oldShort: 'IPC', newAct: 'Bharatiya Nyaya Sanhita, 2023', newShort: 'BNS',
+    rows: [
+      ['34', '3(5)', 'Acts done in furtherance of common intention'],
+      ['120A', '61(1)', 'Criminal conspiracy (definition)'],
+      ['120B', '61(2)', 'Punishment of criminal conspiracy'],
+      ['121', '147', 'Waging war against the Government of India'],
+      ['124A', '152', 'Sedition / acts endangering sovereignty, unity and integrity of India'],
+      ['141', '189(1)', 'Unlawful assembly'],
+      ['147', '191(2)', 'Punishment for rioting'],
+      ['148', '191(3)', 'Rioting, armed with deadly weapon'],
+      ['149', '190', 'Common object of unlawful assembly'],
+      ['153A', '196(1)', 'Promoting enmity between groups'],
+      ['182', '217', 'False information to a public servant'],
+      ['186', '221', 'Obstructing a public servant in discharge of public functions'],
+      ['188', '223', 'Disobedience to an order duly promulgated by a public servant'],
+      ['193', '229(1)', 'Punishment for false evidence'],
+      ['201', '238', 'Causing disappearance of evidence'],
+      ['279', '281', 'Rash driving on a public way'],
+      ['292', '294', 'Sale of obscene books, etc.'],
+      ['294', '296', 'Obscene acts and songs'],
+      ['299', '100', 'Culpable homicide'],
+      ['300', '101', 'Murder'],
+      ['302', '103(1)', 'Punishment for murder'],
+      ['304', '105', 'Culpable homicide not amounting to murder'],
+      ['304A', '106(1)', 'Causing death by negligence'],
+      ['304B', '80', 'Dowry death'],
+      ['306', '108', 'Abetment of suicide'],
+      ['307', '109', 'Attempt to murder'],
+      ['308', '110', 'Attempt to commit culpable homicide'],
+      ['319', '114', 'Hurt'],
+      ['320', '116', 'Grievous hurt'],
+      ['323', '115(2)', 'Voluntarily causing hurt'],
+      ['324', '118(1)', 'Voluntarily causing hurt by dangerous weapons or means'],
+      ['325', '117(2)', 'Voluntarily causing grievous hurt'],
+      ['326', '118(2)', 'Voluntarily causing grievous hurt by dangerous weapons or means'],
+      ['326A', '124(1)', 'Voluntarily causing grievous hurt by use of acid'],
+      ['326B', '124(2)', 'Voluntarily throwing or attempting to throw acid'],
+      ['339', '126(1)', 'Wrongful restraint'],
+      ['340', '127(1)', 'Wrongful confinement'],
+      ['341', '126(2)', 'Punishment for wrongful restraint'],
+      ['342', '127(2)', 'Punishment for wrongful confinement'],
+      ['351', '130', 'Assault'],
+      ['352', '131', 'Punishment for assault or criminal force'],
+      ['353', '132', 'Assault or criminal force to deter a public servant'],
+      ['354', '74', 'Assault or criminal force to a woman with intent to outrage her modesty'],
+      ['354A', '75', 'Sexual harassment'],
+      ['354B', '76', 'Assault with intent to disrobe a woman'],
+      ['354C', '77', 'Voyeurism'],
+      ['354D', '78', 'Stalking'],
+      ['363', '137(2)', 'Punishment for kidnapping'],
+      ['364', '140(1)', 'Kidnapping or abducting in order to murder'],
+      ['364A', '140(2)', 'Kidnapping for ransom'],
+      ['366', '87', 'Kidnapping or abducting a woman to compel her marriage'],
+      ['370', '143', 'Trafficking of persons'],
+      ['375', '63', 'Rape'],
+      ['376', '64', 'Punishment for rape'],
+      ['376A', '66', 'Rape causing death or persistent vegetative state'],
+      ['376D', '70(1)', 'Gang rape'],
+      ['378', '303(1)', 'Theft'],
+      ['379', '303(2)', 'Punishment for theft'],
+      ['380', '305', 'Theft in a dwelling house'],
+      ['382', '307', 'Theft after preparation made for causing death or hurt'],
+      ['383', '308(1)', 'Extortion'],
+      ['384', '308(2)', 'Punishment for extortion'],
+      ['390', '309(1)', 'Robbery'],
+      ['391', '310(1)', 'Dacoity'],
+      ['392', '309(4)', 'Punishment for robbery'],
+      ['395', '310(2)', 'Punishment for dacoity'],
+      ['396', '310(3)', 'Dacoity with murder'],
+      ['397', '311', 'Robbery or dacoity with attempt to cause death or grievous hurt'],
+      ['403', '314', 'Dishonest misappropriation of property'],
+      ['405', '316(1)', 'Criminal breach of trust'],
+      ['406', '316(2)', 'Punishment for criminal breach of trust'],
+      ['409', '316(5)', 'Criminal breach of trust by a public servant, banker, merchant or agent'],
+      ['410', '317(1)', 'Stolen property'],
+      ['411', '317(2)', 'Dishonestly receiving stolen property'],
+      ['415', '318(1)', 'Cheating'],
+      ['417', '318(2)', 'Punishment for cheating'],
+      ['419', '319(2)', 'Cheating by personation'],
+      ['420', '318(4)', 'Cheating and dishonestly inducing delivery of property'],
+      ['425', '324(1)', 'Mischief'],
+      ['426', '324(2)', 'Punishment for mischief'],
+      ['441', '329(1)', 'Criminal trespass'],
+      ['447', '329(3)', 'Punishment for criminal trespass'],
+      ['448', '329(4)', 'Punishment for house-trespass'],
+      ['463', '336(1)', 'Forgery'],
+      ['465', '336(2)', 'Punishment for forgery'],
+      ['467', '338', 'Forgery of valuable security, will, etc.'],
+      ['468', '336(3)', 'Forgery for the purpose of cheating'],
+      ['471', '340(2)', 'Using as genuine a forged document'],
+      ['489A', '178', 'Counterfeiting currency notes or bank notes'],
+      ['494', '82(1)', 'Marrying again during the lifetime of a spouse'],
+      ['498A', '85', 'Cruelty by husband or his relatives'],
+      ['499', '356(1)', 'Defamation'],
+      ['500', '356(2)', 'Punishment for defamation'],
+      ['503', '351(1)', 'Criminal intimidation'],
+      ['506', '351(2)', 'Punishment for criminal intimidation'],
+      ['509', '79', 'Word, gesture or act intended to insult the modesty of a woman'],
+      ['511', '62', 'Attempting to commit offences'],
+    ],
+  },
+  {
+    oldAct: 'Code of Criminal Procedure, 1973', oldShort: 'CrPC', newAct: 'Bharatiya Nagarik Suraksha Sanhita, 2023', newShort: 'BNSS',
+    rows: [
+      ['41', '35', 'When police may arrest without warrant'],
+      ['41A', '35(3)', 'Notice of appearance before police officer'],
+      ['46', '43', 'Arrest how made'],
+      ['50', '47', 'Person arrested to be informed of grounds of arrest and right to bail'],
+      ['57', '58', 'Person arrested not to be detained more than twenty-four hours'],
+      ['91', '94', 'Summons to produce document or other thing'],
+      ['107', '126', 'Security for keeping the peace'],
+      ['110', '129', 'Security for good behaviour from habitual offenders'],
+      ['125', '144', 'Order for maintenance of wives, children and parents'],
+      ['144', '163', 'Urgent cases of nuisance or apprehended danger'],
+      ['145', '164', 'Dispute as to immovable property likely to cause breach of peace'],
+      ['154', '173', 'Information in cognizable cases (FIR)'],
+      ['155', '174', 'Information as to non-cognizable cases'],
+      ['156', '175', 'Police officer\'s power to investigate cognizable case'],
+      ['157', '176', 'Procedure for investigation'],
+      ['160', '179', 'Police officer\'s power to require attendance of witnesses'],
+      ['161', '180', 'Examination of witnesses by police'],
+      ['164', '183', 'Recording of confessions and statements'],
+      ['167', '187', 'Procedure when investigation cannot be completed in twenty-four hours'],
+      ['173', '193', 'Report of police officer on completion of investigation'],
+      ['174', '194', 'Police to enquire and report on suicide, etc.'],
+      ['190', '210', 'Cognizance of offences by Magistrates'],
+      ['197', '218', 'Prosecution of Judges and public servants'],
+      ['200', '223', 'Examination of complainant'],
+      ['202', '225', 'Postponement of issue of process'],
+      ['204', '227', 'Issue of process'],
+      ['207', '230', 'Supply to the accused of copy of police report and other documents'],
+      ['227', '250', 'Discharge (Sessions trial)'],
+      ['228', '251', 'Framing of charge (Sessions trial)'],
+      ['239', '262', 'Discharge (warrant case on police report)'],
+      ['245', '268', 'When accused shall be discharged (warrant case on complaint)'],
+      ['311', '348', 'Power to summon material witness or examine person present'],
+      ['313', '351', 'Power to examine the accused'],
+      ['319', '358', 'Power to proceed against other persons appearing to be guilty'],
+      ['320', '359', 'Compounding of offences'],
+      ['321', '360', 'Withdrawal from prosecution'],
+      ['357', '395', 'Order to pay compensation'],
+      ['357A', '396', 'Victim compensation scheme'],
+      ['372', '413', 'No appeal to lie unless otherwise provided'],
+      ['374', '415', 'Appeals from convictions'],
+      ['378', '419', 'Appeal in case of acquittal'],
+      ['386', '427', 'Powers of the Appellate Court'],
+      ['389', '430', 'Suspension of sentence pending the appeal; release of appellant on bail'],
+      ['397', '438', 'Calling for records to exercise powers of revision'],
+      ['401', '442', 'High Court\'s powers of revision'],
+      ['406', '446', 'Power of Supreme Court to transfer cases and appeals'],
+      ['407', '447', 'Power of High Court to transfer cases and appeals'],
+      ['436', '478', 'In what cases bail to be taken (bailable offences)'],
+      ['436A', '479', 'Maximum period for which an undertrial prisoner can be detained'],
+      ['437', '480', 'When bail may be taken in case of non-bailable offence'],
+      ['438', '482', 'Direction for grant of bail to person apprehending arrest (anticipatory bail)'],
+      ['439', '483', 'Special powers of High Court or Court of Session regarding bail'],
+      ['451', '497', 'Order for custody and disposal of property pending trial'],
+      ['457', '503', 'Procedure by police upon seizure of property'],
+      ['468', '514', 'Bar to taking cognizance after lapse of the period of limitation'],
+      ['482', '528', 'Saving of inherent powers of High Court'],
+    ],
+  },
+  {
+    oldAct: 'Indian Evidence Act, 1872', oldShort: 'Evidence Act', newAct: 'Bharatiya Sakshya Adhiniyam, 2023', newShort: 'BSA',
+    rows: [
+      ['3', '2', 'Definitions'],
+      ['8', '6', 'Motive, preparation and previous or subsequent conduct'],
+      ['17', '15', 'Admission defined'],
+      ['21', '19', 'Proof of admissions against persons making them'],
+      ['24', '22', 'Confession caused by inducement, threat or promise'],
+      ['25', '23(1)', 'Confession to police officer not to be proved'],
+      ['26', '23(2)', 'Confession by accused while in custody of police'],
+      ['27', '23(2)', 'How much of information received from accused may be proved (proviso)'],
+      ['32', '26', 'Statements by persons who cannot be called as witnesses (dying declaration)'],
+      ['45', '39', 'Opinions of experts'],
+      ['59', '54', 'Proof of facts by oral evidence'],
+      ['60', '55', 'Oral evidence must be direct'],
+      ['61', '56', 'Proof of contents of documents'],
+      ['62', '57', 'Primary evidence'],
+      ['63', '58', 'Secondary evidence'],
+      ['65', '60', 'Cases in which secondary evidence may be given'],
+      ['65A', '62', 'Special provisions as to evidence relating to electronic record'],
+      ['65B', '63', 'Admissibility of electronic records'],
+      ['101', '104', 'Burden of proof'],
+      ['102', '105', 'On whom burden of proof lies'],
+      ['103', '106', 'Burden of proof as to particular fact'],
+      ['105', '108', 'Burden of proving that case of accused comes within exceptions'],
+      ['106', '109', 'Burden of proving fact especially within knowledge'],
+      ['113A', '117', 'Presumption as to abetment of suicide by a married woman'],
+      ['113B', '118', 'Presumption as to dowry death'],
+      ['114', '119', 'Court may presume existence of certain facts'],
+      ['114A', '120', 'Presumption as to absence of consent in certain prosecutions for rape'],
+      ['115', '121', 'Estoppel'],
+      ['118', '124', 'Who may testify'],
+      ['133', '138', 'Accomplice'],
+      ['137', '142', 'Examination-in-chief, cross-examination and re-examination'],
+      ['138', '143', 'Order of examinations'],
+      ['141', '146', 'Leading questions'],
+      ['145', '148', 'Cross-examination as to previous statements in writing'],
+      ['154', '157', 'Question by party to his own witness'],
+      ['165', '168', 'Judge\'s power to put questions or order production'],
+    ],
+  },
+];
+
+const baseSection = (section: string) => section.replace(/\(.*$/, '');
+
+// Looks a section up in either direction; an unlisted sub-section falls back to its parent section.
+const findEquivalent = (act: string, section: string): SectionEquivalent | null => {
+  for (const concordance of CODE_CONCORDANCES) {
+    const fromOld = concordance.oldAct === act;
+    if (!fromOld && concordance.newAct !== act) continue;
+    const column = fromOld ? 0 : 1;
+    const row = concordance.rows.find(r => r[column] === section) || concordance.rows.find(r => baseSection(r[column]) === baseSection(section));
+    if (!row) return null;
+    return fromOld
+      ? { act: concordance.newAct, short: concordance.newShort, section: row[1], subject: row[2] }
+      : { act: concordance.oldAct, short: concordance.oldShort, section: row[0], subject: row[2] };
+  }
+  return null;
+};
+
+const isRepealedCode = (act?: string) => CODE_CONCORDANCES.some(c => c.oldAct === act);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = String.raw`(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?`;
+const DATE_PATTERNS: { pattern: RegExp; parts: (m: RegExpMatchArray) => [year: string, month: number, day: string] }[] = [
+  { pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g, parts: m => [m[1], Number(m[2]), m[3]] },
+  { pattern: /\b(\d{1,2})[./-](\d{1,2})[./-](\d{4})\b/g, parts: m => [m[3], Number(m[2]), m[1]] }, // Day first, as Indian documents write it
+  { pattern: new RegExp(String.raw`\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?${MONTH_NAME},?\s+(\d{4})\b`, 'gi'), parts: m => [m[3], MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, m[1]] },
+  { pattern: new RegExp(String.raw`\b${MONTH_NAME}\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b`, 'gi'), parts: m => [m[3], MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1, m[2]] },
+];
+
+// Dates of events mentioned in the text, skipping those in sentences about when a law came into force.
+const mentionedEventDates = (text: string) => text.split(/(?<=[.!?])\s+|\n+/)
+  .filter(sentence => !/into force|commence|effective from|w\.e\.f|notified|enacted|replac|repeal/i.test(sentence))
+  .flatMap(sentence => DATE_PATTERNS.flatMap(({ pattern, parts }) => [...sentence.matchAll(pattern)].map(m => {
+    const [year, month, day] = parts(m);
+    return month >= 1 && month <= 12 && Number(day) >= 1 && Number(day) <= 31 ? `${year}-${String(month).padStart(2, '0')}-${day.padStart(2, '0')}` : null;
+  })))
+  .filter((date): date is string => !!date);
+
+// An answer about events on or after 1 July 2024 should apply the new codes. Returns the repealed-code
+// sections it relies on when it cites nothing from the new ones.
+const repealedCodeWarning = (question: string, answer: string) => {
+  const authorities = extractAuthorities(answer).filter(a => a.kind === 'statute');
+  const repealed = authorities.filter(a => isRepealedCode(a.act));
+  if (repealed.length === 0 || authorities.some(a => CODE_CONCORDANCES.some(c => c.newAct === a.act))) return null;
+  const laterDates = mentionedEventDates(`${question}\n${answer}`).filter(date => date >= NEW_CRIMINAL_CODES_FROM).sort();
+  return laterDates.length > 0 ? { date: laterDates[0], repealed } : null;
+};
+
+const EquivalentTag = ({ authority }: { authority: LegalAuthority }) => {
+  const equivalent = isRepealedCode(authority.act) && authority.section ? findEquivalent(authority.act!, authority.section) : null;
+  if (!equivalent) return null;
+  return <span className="equivalent-tag" title={`Section ${equivalent.section}, ${equivalent.act}: ${equivalent.subject}`}>→ s. {equivalent.section} {equivalent.short}</span>;
+};
+
+// --- Drafting ---
+// Templates are HTML with {{key}} placeholders. Short fields stay live in the draft as <span data-field> elements,
+// so editing a value in the field panel updates every occurrence; multi-line fields are written into the text
+// once, where they are then edited like the rest of the document.
+type DraftFieldSource = 'matter.name' | 'matter.clientName' | 'matter.opposingParty' | 'matter.court' | 'matter.caseNumber'
+  | 'facts.firstParty' | 'facts.secondParty' | 'facts.amount' | 'facts.firstDate' | 'today';
+
+interface TemplateField {
+  key: string;
+  label: string;
+  type: 'text' | 'multiline' | 'date' | 'amount' | 'number';
+  source?: DraftFieldSource;
+  defaultValue?: string;
+  hint?: string;
+}
+
+interface DraftTemplate {
+  id: string;
+  name: string;
+  description: string;
+  fields: TemplateField[];
+  body: string;
+}
+
+const advocateFields = (): TemplateField[] => [
+  { key: 'advocateName', label: 'Advocate name', type: 'text' },
+  { key: 'advocateAddress', label: 'Advocate chamber address', type: 'text' },
+];
+
+const DRAFT_TEMPLATES: DraftTemplate[] = [
+  {
+    id: 'legal-notice',
+    name: 'Legal Notice',
+    description: 'General demand notice on behalf of a client, with a compliance period.',
+    fields: [
+      ...advocateFields(),
+      { key: 'noticeDate', label: 'Date of notice', type: 'date', source: 'today' },
+      { key: 'clientName', label: 'Client (sender)', type: 'text', source: 'matter.clientName' },
+      { key: 'clientAddress', label: 'Client address', type: 'text' },
+      { key: 'recipientName', label: 'Addressee', type: 'text', source: 'matter.opposingParty' },
+      { key: 'recipientAddress', label: 'Addressee address', type: 'text' },
+      { key: 'subject', label: 'Subject', type: 'text', hint: 'e.g., Recovery of outstanding dues under the agreement dated ...' },
+      { key: 'facts', label: 'Facts', type: 'multiline' },
+      { key: 'demand', label: 'Demand', type: 'multiline' },
+      { key: 'complianceDays', label: 'Days to comply', type: 'number', defaultValue: '15' },
+    ],
+    body: `<p style="text-align: right;">{{advocateName}}<br>Advocate<br>{{advocateAddress}}</p>
+<p style="text-align: right;">Date: {{noticeDate}}</p>
+<p><b>BY REGISTERED POST A.D. / SPEED POST / EMAIL</b></p>
+<p>To,<br>{{recipientName}}<br>{{recipientAddress}}</p>
+<p><b>Subject: Legal notice — {{subject}}</b></p>
+<p>Sir/Madam,</p>
+<p>Under instructions from and on behalf of my client, {{clientName}}, residing at {{clientAddress}} (hereinafter "my client"), I hereby serve upon you the following legal notice:</p>
+<p>{{facts}}</p>
+<p>In view of the above, I hereby call upon you to:</p>
+<p>{{demand}}</p>
+<p>within {{complianceDays}} days of receipt of this notice, failing which my client shall be constrained to initiate appropriate civil and/or criminal proceedings against you, at your risk as to costs and consequences.</p>
+<p>A copy of this notice has been retained in my office for record and further action.</p>
+<p style="text-align: right;">{{advocateName}}<br>Advocate for {{clientName}}</p>`,
+  },
+  {
+    id: 'ni-138-notice',
+    name: 'Section 138 NI Act Notice',
+    description: 'Statutory demand notice for a dishonoured cheque, to be sent within 30 days of the return memo.',
+    fields: [
+      ...advocateFields(),
+      { key: 'noticeDate', label: 'Date of notice', type: 'date', source: 'today' },
+      { key: 'payeeName', label: 'Payee (client)', type: 'text', source: 'matter.clientName' },
+      { key: 'payeeAddress', label: 'Payee address', type: 'text' },
+      { key: 'drawerName', label: 'Drawer of the cheque', type: 'text', source: 'matter.opposingParty' },
+      { key: 'drawerAddress', label: 'Drawer address', type: 'text' },
+      { key: 'liability', label: 'Debt or liability discharged by the cheque', type: 'text', hint: 'e.g., repayment of a friendly loan advanced on 1 March 2024' },
+      { key: 'chequeNumber', label: 'Cheque number', type: 'text' },
+      { key: 'chequeDate', label: 'Cheque date', type: 'date' },
+      { key: 'chequeAmount', label: 'Cheque amount', type: 'amount', source: 'facts.amount' },
+      { key: 'drawerBank', label: 'Drawn on (bank and branch)', type: 'text' },
+      { key: 'presentationDate', label: 'Date presented', type: 'date' },
+      { key: 'dishonourReason', label: 'Reason for return', type: 'text', defaultValue: 'Funds Insufficient' },
+      { key: 'memoDate', label: 'Return memo received on', type: 'date' },
+    ],
+    body: `<p style="text-align: right;">{{advocateName}}<br>Advocate<br>{{advocateAddress}}</p>
+<p style="text-align: right;">Date: {{noticeDate}}</p>
+<p><b>BY REGISTERED POST A.D. / SPEED POST</b></p>
+<p>To,<br>{{drawerName}}<br>{{drawerAddress}}</p>
+<p><b>Subject: Notice under Section 138 of the Negotiable Instruments Act, 1881 for dishonour of cheque no. {{chequeNumber}} dated {{chequeDate}}</b></p>
+<p>Sir/Madam,</p>
+<p>Under instructions from and on behalf of my client, {{payeeName}}, residing at {{payeeAddress}}, I hereby serve upon you the following notice:</p>
+<ol>
+<li>That towards {{liability}}, you issued cheque no. {{chequeNumber}} dated {{chequeDate}} for {{chequeAmount}}, drawn on {{drawerBank}}, in favour of my client, in discharge of a legally enforceable debt and liability.</li>
+<li>That on your assurance that the cheque would be honoured on presentation, my client presented the said cheque on {{presentationDate}}, but it was returned unpaid with the remark "{{dishonourReason}}", as intimated by the bank's return memo received by my client on {{memoDate}}.</li>
+<li>That the dishonour of the cheque constitutes an offence punishable under Section 138 of the Negotiable Instruments Act, 1881.</li>
+</ol>
+<p>I therefore call upon you to pay the said sum of {{chequeAmount}} to my client within 15 (fifteen) days of receipt of this notice, failing which my client shall be constrained to file a complaint under Sections 138 and 142 of the Negotiable Instruments Act, 1881 before the competent court, and to initiate such other proceedings as may be advised, entirely at your risk as to costs and consequences.</p>
+<p style="text-align: right;">{{advocateName}}<br>Advocate for {{payeeName}}</p>`,
+  },
+  {
+    id: 'reply-notice',
+    name: 'Reply to Legal Notice',
+    description: 'Point-wise reply denying the allegations in a notice received by the client.',
+    fields: [
+      ...advocateFields(),
+      { key: 'replyDate', label: 'Date of reply', type: 'date', source: 'today' },
+      { key: 'clientName', label: 'Client (noticee)', type: 'text', source: 'matter.clientName' },
+      { key: 'senderName', label: 'Sender of the notice', type: 'text', source: 'matter.opposingParty' },
+      { key: 'senderAdvocate', label: "Sender's advocate", type: 'text' },
+      { key: 'senderAddress', label: "Advocate's address", type: 'text' },
+      { key: 'noticeDate', label: 'Date of the notice received', type: 'date' },
+      { key: 'denials', label: 'Para-wise denials', type: 'multiline' },
+      { key: 'clientVersion', label: "Client's version of the facts", type: 'multiline' },
+    ],
+    body: `<p style="text-align: right;">{{advocateName}}<br>Advocate<br>{{advocateAddress}}</p>
+<p style="text-align: right;">Date: {{replyDate}}</p>
+<p>To,<br>{{senderAdvocate}}<br>{{senderAddress}}</p>
+<p><b>Subject: Reply to your legal notice dated {{noticeDate}} issued on behalf of {{senderName}}</b></p>
+<p>Sir/Madam,</p>
+<p>Under instructions from my client, {{clientName}}, I reply to your notice dated {{noticeDate}} as follows. At the outset, all allegations in the notice are denied except those specifically admitted here, and nothing is to be taken as admitted for want of specific denial.</p>
+<p>{{denials}}</p>
+<p>The true facts are as follows:</p>
+<p>{{clientVersion}}</p>
+<p>In view of the above, your client is not entitled to any of the reliefs claimed, and you are called upon to withdraw the notice. Should your client initiate proceedings, my client will defend them at your client's risk as to costs. My client reserves the right to take such action as may be advised.</p>
+<p style="text-align: right;">{{advocateName}}<br>Advocate for {{clientName}}</p>`,
+  },
+  {
+    id: 'affidavit',
+    name: 'Affidavit',
+    description: 'Affidavit in support of a pleading or application, with verification.',
+    fields: [
+      { key: 'court', label: 'Court', type: 'text', source: 'matter.court' },
+      { key: 'caseNumber', label: 'Case number', type: 'text', source: 'matter.caseNumber' },
+      { key: 'caseTitle', label: 'Case title', type: 'text', source: 'matter.name' },
+      { key: 'deponentName', label: 'Deponent', type: 'text', source: 'matter.clientName' },
+      { key: 'deponentParentage', label: 'S/o, D/o or W/o', type: 'text' },
+      { key: 'deponentAge', label: 'Age', type: 'number' },
+      { key: 'deponentAddress', label: 'Address', type: 'text' },
+      { key: 'statements', label: 'Statements on oath', type: 'multiline' },
+      { key: 'place', label: 'Place of verification', type: 'text' },
+      { key: 'verificationDate', label: 'Date of verification', type: 'date', source: 'today' },
+    ],
+    body: `<p style="text-align: center;"><b>IN THE {{court}}</b></p>
+<p style="text-align: center;">{{caseNumber}}</p>
+<p style="text-align: center;"><b>{{caseTitle}}</b></p>
+<p style="text-align: center;"><b><u>AFFIDAVIT</u></b></p>
+<p>I, {{deponentName}}, {{deponentParentage}}, aged about {{deponentAge}} years, residing at {{deponentAddress}}, do hereby solemnly affirm and state as under:</p>
+<p>{{statements}}</p>
+<p style="text-align: right;"><b>DEPONENT</b></p>
+<p style="text-align: center;"><b><u>VERIFICATION</u></b></p>
+<p>Verified at {{place}} on {{verificationDate}} that the contents of the above affidavit are true and correct to my knowledge and belief, no part of it is false and nothing material has been concealed therefrom.</p>
+<p style="text-align: right;"><b>DEPONENT</b></p>`,
+  },
+  {
+    id: 'vakalatnama',
+    name: 'Vakalatnama',
+    description: 'Authority appointing an advocate to appear and act in a case.',
+    fields: [
+      { key: 'court', label: 'Court', type: 'text', source: 'matter.court' },
+      { key: 'caseNumber', label: 'Case number', type: 'text', source: 'matter.caseNumber' },
+      { key: 'caseTitle', label: 'Case title', type: 'text', source: 'matter.name' },
+      { key: 'clientName', label: 'Client', type: 'text', source: 'matter.clientName' },
+      { key: 'clientRole', label: 'Client is the', type: 'text', hint: 'Petitioner, Respondent, Plaintiff, Accused, ...' },
+      { key: 'advocateName', label: 'Advocate name', type: 'text' },
+      { key: 'enrolmentNumber', label: 'Enrolment number', type: 'text' },
+      { key: 'advocateAddress', label: 'Advocate chamber address', type: 'text' },
+      { key: 'executionDate', label: 'Date', type: 'date', source: 'today' },
+    ],
+    body: `<p style="text-align: center;"><b>IN THE {{court}}</b></p>
+<p style="text-align: center;">{{caseNumber}}</p>
+<p style="text-align: center;"><b>{{caseTitle}}</b></p>
+<p style="text-align: center;"><b><u>VAKALATNAMA</u></b></p>
+<p>I/We, {{clientName}}, the {{clientRole}} in the above matter, do hereby appoint and retain {{advocateName}}, Advocate (Enrolment No. {{enrolmentNumber}}), {{advocateAddress}}, to appear, plead and act for me/us in the above matter and in all proceedings arising from it, including appeals, revisions and execution.</p>
+<p>I/We authorise the said Advocate to sign, file and verify pleadings, applications and affidavits; to withdraw or compromise the matter with my/our consent; to deposit and receive money and documents; and to engage any other advocate to act on my/our behalf. I/We agree to ratify all acts done by the Advocate in pursuance of this authority.</p>
+<p>I/We shall pay the fees agreed and shall not hold the Advocate responsible if the matter is decided against me/us in my/our absence for want of instructions.</p>
+<p>Executed on {{executionDate}}.</p>
+<p>Accepted:<br><br>{{advocateName}}<br>Advocate</p>
+<p style="text-align: right;">{{clientName}}<br>({{clientRole}})</p>`,
+  },
+  {
+    id: 'plaint',
+    name: 'Plaint (Skeleton)',
+    description: 'Basic civil suit under Order VII CPC, with jurisdiction, valuation and prayer.',
+    fields: [
+      { key: 'court', label: 'Court', type: 'text', source: 'matter.court' },
+      { key: 'suitNumber', label: 'Suit number', type: 'text', defaultValue: 'C.S. No. ____ of ____' },
+      { key: 'plaintiffName', label: 'Plaintiff', type: 'text', source: 'matter.clientName' },
+      { key: 'plaintiffAddress', label: 'Plaintiff address', type: 'text' },
+      { key: 'defendantName', label: 'Defendant', type: 'text', source: 'matter.opposingParty' },
+      { key: 'defendantAddress', label: 'Defendant address', type: 'text' },
+      { key: 'suitNature', label: 'Nature of suit', type: 'text', hint: 'e.g., recovery of money, permanent injunction' },
+      { key: 'facts', label: 'Facts', type: 'multiline' },
+      { key: 'causeDate', label: 'Cause of action arose on', type: 'date', source: 'facts.firstDate' },
+      { key: 'jurisdiction', label: 'Territorial and pecuniary jurisdiction', type: 'multiline' },
+      { key: 'valuation', label: 'Value of the suit', type: 'amount', source: 'facts.amount' },
+      { key: 'courtFee', label: 'Court fee paid', type: 'amount' },
+      { key: 'reliefs', label: 'Reliefs prayed for', type: 'multiline' },
+      { key: 'place', label: 'Place', type: 'text' },
+      { key: 'plaintDate', label: 'Date', type: 'date', source: 'today' },
+    ],
+    body: `<p style="text-align: center;"><b>IN THE {{court}}</b></p>
+<p style="text-align: center;">{{suitNumber}}</p>
+<p><b>IN THE MATTER OF:</b><br>{{plaintiffName}}, {{plaintiffAddress}} ... PLAINTIFF<br>VERSUS<br>{{defendantName}}, {{defendantAddress}} ... DEFENDANT</p>
+<p style="text-align: center;"><b>SUIT FOR {{suitNature}}</b></p>
+<p>The Plaintiff above named respectfully submits as under:</p>
+<p>{{facts}}</p>
+<p><b>Cause of action:</b> The cause of action for the present suit first arose on {{causeDate}} and continues to subsist.</p>
+<p><b>Jurisdiction:</b></p>
+<p>{{jurisdiction}}</p>
+<p><b>Limitation:</b> The suit is within the period of limitation prescribed under the Limitation Act, 1963.</p>
+<p><b>Valuation and court fee:</b> The suit is valued at {{valuation}} for the purposes of jurisdiction and court fee, and court fee of {{courtFee}} has been affixed.</p>
+<p><b>PRAYER</b></p>
+<p>In view of the above, the Plaintiff prays that this Hon'ble Court may be pleased to:</p>
+<p>{{reliefs}}</p>
+<p>and pass such other orders as this Hon'ble Court deems fit in the interest of justice.</p>
+<p style="text-align: right;">PLAINTIFF<br>Through Counsel</p>
+<p>Place: {{place}}<br>Date: {{plaintDate}}</p>
+<p style="text-align: center;"><b><u>VERIFICATION</u></b></p>
+<p>Verified at {{place}} on {{plaintDate}} that the contents of the above plaint are true to my knowledge, except those based on information received and believed to be true, and the last paragraph is the prayer to this Hon'ble Court.</p>
+<p style="text-align: right;">PLAINTIFF</p>`,
+  },
+  {
+    id: 'bail-application',
+    name: 'Bail Application (Skeleton)',
+    description: 'Regular bail under Section 483 BNSS (Section 439 CrPC) with grounds.',
+    fields: [
+      { key: 'court', label: 'Court', type: 'text', source: 'matter.court' },
+      { key: 'applicationNumber', label: 'Bail application number', type: 'text', defaultValue: 'Bail Application No. ____ of ____' },
+      { key: 'applicantName', label: 'Applicant (accused)', type: 'text', source: 'matter.clientName' },
+      { key: 'applicantParentage', label: 'S/o, D/o or W/o', type: 'text' },
+      { key: 'applicantAddress', label: 'Address', type: 'text' },
+      { key: 'firNumber', label: 'FIR number', type: 'text', source: 'matter.caseNumber' },
+      { key: 'policeStation', label: 'Police station', type: 'text' },
+      { key: 'offences', label: 'Offences alleged', type: 'text', hint: 'e.g., Sections 318(4) and 316(2) BNS' },
+      { key: 'arrestDate', label: 'Date of arrest', type: 'date' },
+      { key: 'facts', label: 'Brief facts', type: 'multiline' },
+      { key: 'grounds', label: 'Grounds for bail', type: 'multiline' },
+      { key: 'advocateName', label: 'Advocate name', type: 'text' },
+      { key: 'place', label: 'Place', type: 'text' },
+      { key: 'applicationDate', label: 'Date', type: 'date', source: 'today' },
+    ],
+    body: `<p style="text-align: center;"><b>IN THE {{court}}</b></p>
+<p style="text-align: center;">{{applicationNumber}}</p>
+<p><b>IN THE MATTER OF:</b><br>{{applicantName}}, {{applicantParentage}}, {{applicantAddress}} ... APPLICANT<br>VERSUS<br>State ... RESPONDENT</p>
+<p>FIR No. {{firNumber}}, Police Station {{policeStation}}<br>Under {{offences}}</p>
+<p style="text-align: center;"><b>APPLICATION UNDER SECTION 483 OF THE BHARATIYA NAGARIK SURAKSHA SANHITA, 2023 FOR GRANT OF REGULAR BAIL</b></p>
+<p>MOST RESPECTFULLY SHOWETH:</p>
+<p>That the Applicant was arrested on {{arrestDate}} in connection with the above FIR and is in judicial custody since then.</p>
+<p>{{facts}}</p>
+<p>That the Applicant seeks bail, inter alia, on the following grounds:</p>
+<p>{{grounds}}</p>
+<p>That the Applicant undertakes to abide by any conditions this Hon'ble Court may impose, to join the investigation and trial as and when required, and not to tamper with evidence or influence witnesses.</p>
+<p><b>PRAYER</b></p>
+<p>It is therefore most respectfully prayed that this Hon'ble Court may be pleased to release the Applicant on bail in FIR No. {{firNumber}}, Police Station {{policeStation}}, on such terms as it deems fit, in the interest of justice.</p>
+<p style="text-align: right;">APPLICANT<br>Through {{advocateName}}, Advocate</p>
+<p>Place: {{place}}<br>Date: {{applicationDate}}</p>`,
+  },
+];
+
+const MAX_DRAFT_VERSIONS = 50;
+
+const NUMBER_WORDS = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten', 'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS_WORDS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Indian numbering: 1,50,00,000 is "One Crore Fifty Lakh".
+const numberInWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+  const parts: string[] = [];
+  const groups: [number, string][] = [[10000000, 'Crore'], [100000, 'Lakh'], [1000, 'Thousand'], [100, 'Hundred']];
+  for (const [size, name] of groups) {
+    if (n >= size) {
+      parts.push(`${numberInWords(Math.floor(n / size))} ${name}`);
+      n %= size;
+    }
+  }
+  if (n > 0) parts.push(n < 20 ? NUMBER_WORDS[n] : `${TENS_WORDS[Math.floor(n / 10)]}${n % 10 ? ` ${NUMBER_WORDS[n % 10]}` : ''}`);
+  return parts.join(' ');
+};
+
+const RUPEE_PREFIX = /^\s*(rs\.?|inr|₹)\s*/i;
+
+// "500000" or "Rs. 5,00,000" -> "Rs. 5,00,000/- (Rupees Five Lakh only)". Returns the input unchanged if it is not a number.
+export const formatRupees = (value: string) => {
+  // The prefix goes first: the full stop in "Rs." would otherwise read as a decimal point.
+  const digits = value.replace(RUPEE_PREFIX, '').replace(/[^\d.]/g, '');
+  if (!/\d/.test(digits) || digits.split('.').length > 2) return value;
+  const amount = Number(digits);
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+  const figures = amount.toLocaleString('en-IN', { minimumFractionDigits: paise ? 2 : 0, maximumFractionDigits: 2 });
+  return `Rs. ${figures}/- (Rupees ${numberInWords(rupees)}${paise ? ` and Paise ${numberInWords(paise)}` : ''} only)`;
+};
+
+const formatFieldValue = (field: TemplateField, value: string) => {
+  if (!value.trim()) return '';
+  if (field.type === 'date' && ISO_DATE.test(value)) return formatDeadline(value, { day: 'numeric', month: 'long', year: 'numeric' });
+  if (field.type === 'amount') return formatRupees(value);
+  return value.trim();
+};
+
+const prefillField = (source: DraftFieldSource | undefined, matter?: Matter, facts?: KeyFacts) => {
+  switch (source) {
+    case 'matter.name': return matter?.name || '';
+    case 'matter.clientName': return matter?.clientName || '';
+    case 'matter.opposingParty': return matter?.opposingParty || '';
+    case 'matter.court': return matter?.court || '';
+    case 'matter.caseNumber': return matter?.caseNumber || '';
+    case 'facts.firstParty': return facts?.parties[0]?.name || '';
+    case 'facts.secondParty': return facts?.parties[1]?.name || '';
+    // Extracted amounts are free text ("INR 5,00,000"); keep just the figure so it can be written in words.
+    case 'facts.amount': return facts?.amounts[0]?.amount.replace(/[^\d.]/g, '').replace(/^\.+|\.+$/g, '') || '';
+    case 'facts.firstDate': return facts?.keyDates.find(d => ISO_DATE.test(d.date))?.date || '';
+    case 'today': return toIsoDate(new Date());
+    default: return '';
+  }
+};
+
+const fieldSpan = (field: TemplateField, value: string) => {
+  const display = formatFieldValue(field, value);
+  return `<span class="draft-field${display ? '' : ' empty'}" data-field="${field.key}" contenteditable="false">${escapeHtml(display || `[${field.label}]`)}</span>`;
+};
+
+// Live fields carry contenteditable="false", which the sanitizer would otherwise strip.
+const sanitizeDraftHtml = (html: string) => DOMPurify.sanitize(html, { ADD_ATTR: ['contenteditable'] });
+
+const renderTemplate = (template: DraftTemplate, values: Record<string, string>) => {
+  let html = template.body;
+  for (const field of template.fields.filter(f => f.type === 'multiline')) {
+    const paragraphs = (values[field.key] || '').split(/\n\s*\n|\n/).map(p => p.trim()).filter(Boolean);
+    const blank = `<mark>[${escapeHtml(field.label)}]</mark>`;
+    html = html
+      .split(`<p>{{${field.key}}}</p>`).join(paragraphs.length ? paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join('') : `<p>${blank}</p>`)
+      .split(`{{${field.key}}}`).join(paragraphs.length ? paragraphs.map(escapeHtml).join('<br>') : blank);
+  }
+  return html.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => {
+    const field = template.fields.find(f => f.key === key);
+    return field ? fieldSpan(field, values[key] || '') : placeholder;
+  }).replace(/>\n</g, '><');
+};
+
+const draftFileName = (draft: Draft, extension: string) =>
+  `${draft.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').substring(0, 60) || 'draft'}.${extension}`;
+
+const DOCX_ALIGNMENTS: Record<string, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justify: AlignmentType.JUSTIFIED,
+};
+
+const docxRunsFromHtml = (node: Node, style: RunStyle & { underline?: boolean } = {}): ParagraphChild[] => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').replace(/\s+/g, ' ');
+    return text ? [new TextRun({ text, bold: style.bold, italics: style.italics, strike: style.strike, ...(style.underline && { underline: {} }) })] : [];
+  }
+  if (!(node instanceof HTMLElement)) return [];
+  if (node.tagName === 'BR') return [new TextRun({ text: '', break: 1 })];
+  const weight = node.style.fontWeight;
+  const next = {
+    bold: style.bold || ['B', 'STRONG'].includes(node.tagName) || weight === 'bold' || Number(weight) >= 600,
+    italics: style.italics || ['I', 'EM'].includes(node.tagName) || node.style.fontStyle === 'italic',
+    underline: style.underline || node.tagName === 'U' || node.style.textDecoration.includes('underline'),
+    strike: style.strike || ['S', 'STRIKE', 'DEL'].includes(node.tagName),
+  };
+  return [...node.childNodes].flatMap(child => docxRunsFromHtml(child, next));
+};
+
+// Mirrors docxBlocks for the editor's HTML: block elements become paragraphs, keeping their alignment.
+const docxBlocksFromHtml = (parent: Element, numbering: { instance: number }): Paragraph[] => [...parent.childNodes].flatMap((node): Paragraph[] => {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent?.trim() ? [new Paragraph({ children: docxRunsFromHtml(node), spacing: { after: 120 } })] : [];
+  if (!(node instanceof HTMLElement)) return [];
+  const alignment = DOCX_ALIGNMENTS[node.style.textAlign];
+  const headingLevels: Record<string, (typeof HeadingLevel)[keyof typeof HeadingLevel]> = { H1: HeadingLevel.HEADING_1, H2: HeadingLevel.HEADING_2, H3: HeadingLevel.HEADING_3 };
+  if (headingLevels[node.tagName]) return [new Paragraph({ heading: headingLevels[node.tagName], alignment, children: docxRunsFromHtml(node) })];
+  if (node.tagName === 'UL' || node.tagName === 'OL') {
+    const instance = numbering.instance++;
+    return [...node.children].filter(li => li.tagName === 'LI').map(li => new Paragraph({
+      children: docxRunsFromHtml(li),
+      spacing: { after: 80 },
+      ...(node.tagName === 'OL' ? { numbering: { reference: 'memo-ordered', level: 0, instance } } : { bullet: { level: 0 } }),
+    }));
+  }
+  // Browsers wrap typed lines in <div>s; only those holding other blocks need to be opened up.
+  if (node.tagName === 'DIV' && [...node.children].some(child => /^(P|DIV|H[1-3]|UL|OL)$/.test(child.tagName))) return docxBlocksFromHtml(node, numbering);
+  return [new Paragraph({ alignment, children: docxRunsFromHtml(node), spacing: { after: 120 } })];
+});
+
+const htmlToDocx = (html: string) => docxDocument(docxBlocksFromHtml(new DOMParser().parseFromString(html, 'text/html').body, { instance: 0 }));
+
+// --- Streaming Helper ---
+// Accumulates a streamed response, reporting the text so far after every chunk. Aborting the signal
+// stops reading immediately (even mid-wait) and resolves with whatever text had arrived.
+const consumeStream = async (
+  streamPromise: Promise<AsyncGenerator<GenerateContentResponse>>,
+  signal: AbortSignal,
+  onText: (text: string) => void,
+) => {
+  const aborted = new Promise<null>(resolve => {
+    if (signal.aborted) resolve(null);
+    else signal.addEventListener('abort', () => resolve(null), { once: true });
+  });
+  let text = '';
+  let groundingMetadata: GroundingMetadata | undefined;
+
+  const stream = await Promise.race([streamPromise, aborted]);
+  if (stream) {
+    while (true) {
+      const next = await Promise.race([stream.next(), aborted]);
+      if (!next || next.done) break;
+      const chunk = next.value;
+      const chunkText = chunk.candidates?.[0]?.content?.parts?.map(p => p.text || '').join('') || '';
+      if (chunkText) {
+        text += chunkText;
+        onText(text);
+      }
+      groundingMetadata = chunk.candidates?.[0]?.groundingMetadata || groundingMetadata;
+    }
+    if (signal.aborted) stream.return(undefined).catch(() => {});
+  }
+  return { text, groundingMetadata, stopped: signal.aborted };
+};
+
+// --- Model Providers ---
+// Features never call a model SDK directly. They ask a ModelClient for a feature; the client looks up that
+// feature's model in the settings and hands the call to a provider, the only code that talks to a backend.
+const MODEL_FEATURES = ['research', 'vision', 'condense', 'summarize', 'analyze', 'vault', 'compare', 'facts', 'review', 'draft', 'embed', 'tts'] as const;
+type ModelFeature = typeof MODEL_FEATURES[number];
+type ModelProviderId = 'gemini' | 'mock';
+
+const MODEL_FEATURE_LABELS: Record<ModelFeature, string> = {
+  research: 'Legal research',
+  vision: 'Image analysis',
+  condense: 'Condensing long conversations',
+  summarize: 'Document summaries',
+  analyze: 'Document analysis',
+  vault: 'Questions to the vault',
+  compare: 'Comparison commentary',
+  facts: 'Key fact extraction',
+  review: 'Contract review',
+  draft: 'Drafting',
+  embed: 'Semantic ranking (embeddings)',
+  tts: 'Read aloud',
+};
+
+const DEFAULT_FEATURE_MODELS: Record<ModelFeature, string> = {
+  research: 'gemini-3-flash-preview',
+  vision: 'gemini-3-pro-preview',
+  condense: 'gemini-3-flash-preview',
+  summarize: 'gemini-3-pro-preview',
+  analyze: 'gemini-3-pro-preview',
+  vault: 'gemini-3-pro-preview',
+  compare: 'gemini-3-pro-preview',
+  facts: 'gemini-3-pro-preview',
+  review: 'gemini-3-pro-preview',
+  draft: 'gemini-3-pro-preview',
+  embed: 'text-embedding-004',
+  tts: 'gemini-2.5-flash-preview-tts',
+};
+
+const KNOWN_MODELS = ['gemini-3-pro-preview', 'gemini-3-flash-preview', 'gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite', 'text-embedding-004', 'gemini-2.5-flash-preview-tts'];
+
+// Features whose system instruction can be edited in Settings.
+type InstructionFeature = 'research' | 'vision';
+
+const DEFAULT_SYSTEM_INSTRUCTIONS: Record<InstructionFeature, string> = {
+  research: "You are Juris, a high-trust expert Indian AI Law Consultant. Your tone is authoritative, professional, and precise. Always cite sources from Indian statutes and case law. Provide source summaries when relevant.",
+  vision: "You are an expert legal assistant analyzing visual evidence. Describe the image and identify legally relevant objects, actions, or context. Be objective and precise.",
+};
+
+const SAFETY_CATEGORIES: { category: HarmCategory; label: string }[] = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, label: 'Harassment' },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, label: 'Hate speech' },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, label: 'Sexually explicit' },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, label: 'Dangerous content' },
+];
+
+const SAFETY_THRESHOLDS: { threshold: HarmBlockThreshold; label: string }[] = [
+  { threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE, label: 'Block low and above' },
+  { threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE, label: 'Block medium and above' },
+  { threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH, label: 'Block only high' },
+  { threshold: HarmBlockThreshold.BLOCK_NONE, label: 'Block none' },
+];
+
+interface ModelSettings {
+  provider: ModelProviderId;
+  models: Record<ModelFeature, string>;
+  instructions: Record<InstructionFeature, string>;
+  temperature: number | null; // null leaves each model at its own default
+  safety: Partial<Record<HarmCategory, HarmBlockThreshold>>; // Categories left out use the API's default
+}
+
+const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  provider: 'gemini',
+  models: DEFAULT_FEATURE_MODELS,
+  instructions: DEFAULT_SYSTEM_INSTRUCTIONS,
+  temperature: null,
+  safety: {},
+};
+
+declare global {
+  interface Window {
+    GEMINI_API_KEY?: string; // Injected into the page by the deployment, e.g. a Netlify snippet
+  }
+}
+
+// vite.config.ts inlines process.env.GEMINI_API_KEY at build time; served without that build, `process` does not exist.
+const BUILD_TIME_API_KEY: string = (() => {
+  try {
+    return process.env.GEMINI_API_KEY || '';
+  } catch {
+    return '';
+  }
+})();
+
+// ?provider=mock runs one page load against the offline mock, e.g. for automated UI tests, without touching settings.
+const PROVIDER_OVERRIDE: ModelProviderId | null = new URLSearchParams(window.location.search).get('provider') === 'mock' ? 'mock' : null;
+
+interface ModelCall {
+  feature: ModelFeature;
+  model: string;
+  contents: ContentListUnion;
+  config?: GenerateContentConfig;
+}
+
+interface ModelProvider {
+  generate: (call: ModelCall) => Promise<GenerateContentResponse>;
+  stream: (call: ModelCall) => Promise<AsyncGenerator<GenerateContentResponse>>;
+  embed: (call: ModelCall) => Promise<EmbedContentResponse>;
+}
+
+type ModelRequest = Omit<ModelCall, 'feature' | 'model'>;
+
+interface ModelClient {
+  generate: (feature: ModelFeature, request: ModelRequest) => Promise<GenerateContentResponse>;
+  stream: (feature: ModelFeature, request: ModelRequest) => Promise<AsyncGenerator<GenerateContentResponse>>;
+  embed: (feature: ModelFeature, contents: ContentListUnion) => Promise<EmbedContentResponse>;
+}
+
+const createGeminiProvider = (apiKey: string): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    generate: ({ model, contents, config }) => ai.models.generateContent({ model, contents, config }),
+    stream: ({ model, contents, config }) => ai.models.generateContentStream({ model, contents, config }),
+    embed: ({ model, contents }) => ai.models.embedContent({ model, contents }),
+  };
+};
+
+// A feature whose model or instruction was left blank uses its default.
+const modelFor = (models: Record<ModelFeature, string>, feature: ModelFeature) => models[feature]?.trim() || DEFAULT_FEATURE_MODELS[feature];
+
+const instructionFor = (settings: ModelSettings, feature: InstructionFeature) => settings.instructions[feature]?.trim() || DEFAULT_SYSTEM_INSTRUCTIONS[feature];
+
+// Temperature and safety apply to every text generation. Speech and embedding models take neither.
+const generationConfig = (settings: ModelSettings, feature: ModelFeature): GenerateContentConfig => {
+  if (feature === 'tts' || feature === 'embed') return {};
+  const safetySettings = Object.entries(settings.safety).map(([category, threshold]) => ({ category: category as HarmCategory, threshold }));
+  return {
+    ...(settings.temperature !== null && { temperature: settings.temperature }),
+    ...(safetySettings.length > 0 && { safetySettings }),
+  };
+};
+
+const routeModels = (provider: ModelProvider, settings: ModelSettings): ModelClient => ({
+  generate: (feature, request) => provider.generate({ ...request, feature, model: modelFor(settings.models, feature), config: { ...generationConfig(settings, feature), ...request.config } }),
+  stream: (feature, request) => provider.stream({ ...request, feature, model: modelFor(settings.models, feature), config: { ...generationConfig(settings, feature), ...request.config } }),
+  embed: (feature, contents) => provider.embed({ feature, model: modelFor(settings.models, feature), contents }),
+});
+
+// --- Offline Mock Provider ---
+// Answers every feature on this device from a fixed script, so the app can be developed and tested with no
+// network or API key. Replies depend only on the request, never on the clock or chance, so a test sees the
+// same reply every run. A test can pass its own replies for any feature to createMockProvider.
+interface MockReply {
+  text: string;
+  groundingMetadata?: GroundingMetadata;
+}
+
+type MockScript = Partial<Record<ModelFeature, MockReply>>;
+
+const MOCK_CHUNK_CHARS = 48;
+const MOCK_CHUNK_DELAY_MS = 15;
+const MOCK_EMBEDDING_SIZE = 64;
+
+const MOCK_SOURCES = [
+  { uri: 'https://www.indiacode.nic.in/', title: 'India Code: Digital Repository of All Central and State Acts' },
+  { uri: 'https://main.sci.gov.in/judgments', title: 'Supreme Court of India: Judgments' },
+  { uri: 'https://indiankanoon.org/', title: 'Indian Kanoon: Search engine for Indian law' },
+];
+
+// Flattens whatever shape of `contents` a feature passed into the text a model would read.
+const contentsToText = (contents: ContentListUnion): string => {
+  if (typeof contents === 'string') return contents;
+  if (Array.isArray(contents)) return contents.map(item => contentsToText(item as ContentListUnion)).join('\n\n');
+  if ('parts' in contents) return (contents.parts || []).map(p => contentsToText(p)).join('\n\n');
+  const part = contents as Part;
+  return part.text ?? (part.inlineData ? `[${part.inlineData.mimeType || 'file'} attachment]` : '');
+};
+
+// The last user turn, which is what a research answer should respond to.
+const lastUserText = (contents: ContentListUnion) => {
+  if (Array.isArray(contents)) {
+    const turns = contents.filter(item => typeof item === 'object' && 'parts' in item && (item as Content).role !== 'model');
+    if (turns.length > 0) return contentsToText(turns[turns.length - 1] as Content);
+  }
+  return contentsToText(contents);
+};
+
+const quotedName = (text: string) => text.match(/"([^"]+)"/)?.[1] || 'the document';
+
+const mockResearchReply = (question: string): MockReply => {
+  const topic = question.replace(/\s+/g, ' ').trim().slice(0, 120) || 'your question';
+  const sentences = [
+    `This is a scripted answer from the offline mock provider to the question "${topic}".`,
+    'The statutory position should be confirmed against the current text of the Act on India Code.',
+    'Binding precedent on the point is found in the judgments of the Supreme Court of India.',
+    'Lower court decisions applying that precedent can be traced through Indian Kanoon.',
+  ];
+  const text = `**Mock research answer**\n\n${sentences[0]}\n\n${sentences.slice(1).map(s => `- ${s}`).join('\n')}`;
+  // Segment offsets are UTF-8 byte offsets, as the live API reports them.
+  const encoder = new TextEncoder();
+  const groundingSupports = sentences.slice(1).map((sentence, i) => {
+    const start = text.indexOf(sentence);
+    return {
+      segment: { startIndex: encoder.encode(text.slice(0, start)).length, endIndex: encoder.encode(text.slice(0, start + sentence.length)).length, text: sentence },
+      groundingChunkIndices: [i],
+    };
+  });
+  return {
+    text,
+    groundingMetadata: { groundingChunks: MOCK_SOURCES.map(web => ({ web })), groundingSupports, webSearchQueries: [topic] },
+  };
+};
+
+const mockKeyFacts = (prompt: string) => {
+  const today = prompt.match(/Today's date is (\d{4}-\d{2}-\d{2})/)?.[1] || '2025-01-01';
+  const due = new Date(`${today}T00:00:00`);
+  due.setDate(due.getDate() + 14);
+  const dueDate = toIsoDate(due);
+  return {
+    parties: [{ name: 'Mock Petitioner', role: 'Petitioner' }, { name: 'Mock Respondent', role: 'Respondent' }],
+    keyDates: [{ date: dueDate, description: 'Reply to be filed (scripted by the mock provider)', isDeadline: true }],
+    obligations: [{ party: 'Mock Respondent', description: 'File a reply to the petition', dueDate }],
+    amounts: [{ amount: 'Rs. 1,00,000', description: 'Amount claimed (scripted by the mock provider)' }],
+    governingLaw: 'Laws of India; courts at New Delhi',
+  };
+};
+
+const MOCK_CATEGORY_KEYWORDS: [ClauseCategory, RegExp][] = [
+  ['indemnity', /indemnif/i],
+  ['limitation-of-liability', /liabilit/i],
+  ['termination', /terminat/i],
+  ['arbitration', /arbitra/i],
+  ['governing-law', /governing law|jurisdiction/i],
+  ['confidentiality', /confidential/i],
+  ['payment', /payment|invoice|fees/i],
+  ['intellectual-property', /intellectual property|copyright|patent/i],
+  ['force-majeure', /force majeure/i],
+  ['assignment', /assign/i],
+  ['non-compete', /non-compete|compet/i],
+  ['data-protection', /personal data|data protection/i],
+  ['notices', /notice/i],
+];
+
+// Scores on wording alone: one-sided phrases score high, so a review always shows a mix of risk levels.
+const mockContractReview = (prompt: string) => ({
+  clauses: [...prompt.slice(prompt.indexOf('CLAUSES')).matchAll(/^\[(\d+)\] (.*)$/gm)].map(([, index, text]) => {
+    const category = MOCK_CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] || 'other';
+    const isOneSided = /sole discretion|unlimited|without notice|irrevocabl|in no event/i.test(text);
+    return {
+      index: Number(index),
+      title: text.replace(/^(\d+(\.\d+)*\.?|\([a-z0-9]+\))\s+/i, '').split(/[.:;]/)[0].slice(0, 60),
+      category,
+      score: isOneSided ? 8 : category === 'other' ? 0 : 2,
+      issue: isOneSided ? 'One-sided wording (scripted by the mock provider).' : '',
+      fallback: isOneSided ? 'Each party shall act reasonably and give thirty days\' written notice.' : '',
+    };
+  }),
+});
+
+const mockTextReply = (feature: ModelFeature, prompt: string) => {
+  const name = quotedName(prompt);
+  switch (feature) {
+    case 'vision':
+      return '**Mock image analysis**\n\nThe image shows a document on a desk. No people or identifying marks are visible.';
+    case 'condense':
+      return 'Mock summary of the earlier discussion: the lawyer asked about the applicable statute and limitation, and Juris outlined the position.';
+    case 'summarize':
+      return `**Mock summary of ${name}**\n\n- The document sets out the parties' positions.\n- It relies on the applicable Indian statutes.\n- It asks the court for relief.`;
+    case 'analyze':
+      return `**Mock analysis of ${name}**\n\nTask received: ${prompt.match(/Task: (.*)/)?.[1] || 'analysis'}\n\n1. The document is internally consistent.\n2. No limitation issue is apparent on its face.`;
+    case 'vault':
+      return 'According to the first passage, the parties agreed the terms set out there [S1]. The second passage records the payment schedule [S2].';
+    case 'compare':
+      return 'Each listed change is scripted here by the mock provider. [C1] shifts risk to our client and should be resisted. Cosmetic changes need no comment.';
+    case 'draft':
+      return '1. That the Petitioner is a law-abiding citizen residing at [address].\n\n2. That the facts giving rise to this petition are set out below.';
+    default:
+      return `Mock reply for ${MODEL_FEATURE_LABELS[feature].toLowerCase()}.`;
+  }
+};
+
+const mockReply = (call: ModelCall, script: MockScript): MockReply => {
+  const scripted = script[call.feature];
+  if (scripted) return scripted;
+  const prompt = contentsToText(call.contents);
+  if (call.feature === 'research') return mockResearchReply(lastUserText(call.contents));
+  if (call.feature === 'facts') return { text: JSON.stringify(mockKeyFacts(prompt)) };
+  if (call.feature === 'review') return { text: JSON.stringify(mockContractReview(prompt)) };
+  return { text: mockTextReply(call.feature, prompt) };
+};
+
+// Half a second of a quiet 440 Hz tone as 16-bit mono PCM at 24 kHz, the format the live TTS model returns.
+const mockSpeech = () => {
+  const samples = new Int16Array(12000);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.round(Math.sin(2 * Math.PI * 440 * i / 24000) * 3000);
+  return bytesToBase64(new Uint8Array(samples.buffer));
+};
+
+// Hashed bag of words: texts sharing words get similar vectors, which is enough to exercise semantic ranking.
+const mockEmbedding = (text: string) => {
+  const vector = new Array(MOCK_EMBEDDING_SIZE).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+    vector[hash % MOCK_EMBEDDING_SIZE] += 1;
+  }
+  return vector;
+};
+
+const toResponse = (candidate: Record<string, unknown>) => Object.assign(new GenerateContentResponse(), { candidates: [{ finishReason: 'STOP', ...candidate }] });
+
+export const createMockProvider = (script: MockScript = {}): ModelProvider => ({
+  generate: async call => {
+    if (call.feature === 'tts') return toResponse({ content: { role: 'model', parts: [{ inlineData: { data: mockSpeech(), mimeType: 'audio/pcm;rate=24000' } }] } });
+    const { text, groundingMetadata } = mockReply(call, script);
+    return toResponse({ content: { role: 'model', parts: [{ text }] }, groundingMetadata });
+  },
+  stream: async call => {
+    const { text, groundingMetadata } = mockReply(call, script);
+    return (async function* () {
+      for (let i = 0; i < text.length; i += MOCK_CHUNK_CHARS) {
+        await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+        const isLast = i + MOCK_CHUNK_CHARS >= text.length;
+        // Like the live API, grounding arrives with the final chunk.
+        yield toResponse({ content: { role: 'model', parts: [{ text: text.slice(i, i + MOCK_CHUNK_CHARS) }] }, ...(isLast && { groundingMetadata }) });
+      }
+    })();
+  },
+  embed: async call => Object.assign(new EmbedContentResponse(), {
+    embeddings: (Array.isArray(call.contents) ? call.contents : [call.contents]).map(item => ({ values: mockEmbedding(contentsToText(item as ContentListUnion)) })),
+  }),
+});
+
+// --- PII Redaction ---
+// Every request passes through withRedaction before it leaves the browser. Identifiers and sensitive terms are
+// swapped for placeholders such as [PAN_2]; the same value always gets the same placeholder, so a conversation
+// stays coherent across turns, and the model's reply is restored before anything is shown or stored.
+const PII_KINDS = ['aadhaar', 'pan', 'phone', 'account', 'email'] as const;
+type PiiKind = typeof PII_KINDS[number];
+
+interface PiiDetector {
+  label: string;
+  placeholder: string;
+  pattern: RegExp;
+  group?: number; // Capture group holding the identifier when the pattern also matches surrounding words
+  isValid?: (value: string) => boolean;
+}
+
+// Aadhaar numbers carry a Verhoeff check digit, which rules out most other 12-digit numbers.
+const VERHOEFF_D = [[0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6], [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1], [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4], [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]];
+const VERHOEFF_P = [[0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2], [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1], [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]];
+const passesVerhoeff = (digits: string) => [...digits].reverse().reduce((c, digit, i) => VERHOEFF_D[c][VERHOEFF_P[i % 8][Number(digit)]], 0) === 0;
+
+// Applied in this order (after emails and sensitive terms), so an account number is not mistaken for a phone number.
+const PII_DETECTORS: Record<PiiKind, PiiDetector> = {
+  email: { label: 'Email addresses', placeholder: 'EMAIL', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  aadhaar: { label: 'Aadhaar numbers', placeholder: 'AADHAAR', pattern: /(?<!\d)[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}(?!\d)/g, isValid: value => passesVerhoeff(value.replace(/\D/g, '')) },
+  pan: { label: 'PAN', placeholder: 'PAN', pattern: /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/gi },
+  account: { label: 'Bank account numbers', placeholder: 'ACCOUNT', pattern: /\b(?:a\/c|acct?|account)\b\.?(?:\s*(?:no|number|num)\b\.?)?\s*[:#-]?\s*(\d(?:[ -]?\d){8,17})(?!\d)/gi, group: 1 },
+  phone: { label: 'Phone numbers', placeholder: 'PHONE', pattern: /(?<![\w+])(?:(?:\+|00)91[ -]?|0)?[6-9]\d{4}[ -]?\d{5}(?!\d)/g },
+};
+
+interface RedactionSettings {
+  enabled: boolean;
+  detectors: Record<PiiKind, boolean>;
+  partyNames: boolean; // Treat each matter's client and opposing party as sensitive terms
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  detectors: { aadhaar: true, pan: true, phone: true, account: true, email: true },
+  partyNames: true,
+};
+
+interface SensitiveTerm {
+  value: string;
+  placeholder: string; // Placeholder prefix, e.g. CLIENT
+}
+
+// Placeholder assignments, persisted so a value keeps its placeholder across sessions.
+interface PlaceholderMap {
+  byKey: Record<string, string>; // "PAN:ABCPE1234F" -> "[PAN_1]"
+  values: Record<string, string>; // "[PAN_1]" -> the value as first seen
+  counts: Record<string, number>;
+}
+
+interface RedactionHit {
+  placeholder: string;
+  value: string;
+}
+
+// One part of an outgoing request as it was (or would be) sent.
+interface OutgoingPart {
+  role: string;
+  text: string;
+  isNote?: boolean; // Describes an attachment rather than quoting text
+}
+
+interface OutgoingRequest {
+  id: string;
+  sentAt: string;
+  model: string;
+  kind: 'generate' | 'stream' | 'embed';
+  systemInstruction?: string;
+  parts: OutgoingPart[];
+  hits: RedactionHit[];
+}
+
+interface Redactor {
+  settings: RedactionSettings;
+  redact: (text: string, hits: RedactionHit[]) => string;
+  restore: (text: string, escape?: (value: string) => string) => string;
+  onSend: (request: OutgoingRequest) => void;
+}
+
+const MAX_OUTGOING_LOG = 20;
+const PLACEHOLDER = /\[[A-Z][A-Z_]*_\d+\]/g;
+const PARTIAL_PLACEHOLDER = /\[[A-Z_]*\d*$/; // A streamed chunk can end part-way through a placeholder
+
+export const emptyPlaceholderMap = (): PlaceholderMap => ({ byKey: {}, values: {}, counts: {} });
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const placeholderFor = (map: PlaceholderMap, prefix: string, key: string, value: string) => {
+  const mapKey = `${prefix}:${key}`;
+  if (!map.byKey[mapKey]) {
+    map.counts[prefix] = (map.counts[prefix] || 0) + 1;
+    map.byKey[mapKey] = `[${prefix}_${map.counts[prefix]}]`;
+    map.values[map.byKey[mapKey]] = value;
+  }
+  return map.byKey[mapKey];
+};
+
+const replaceDetected = (text: string, kind: PiiKind, record: (placeholder: string, value: string) => string, map: PlaceholderMap) => {
+  const detector = PII_DETECTORS[kind];
+  return text.replace(detector.pattern, (match, ...groups) => {
+    const value = detector.group ? groups[detector.group - 1] as string : match;
+    if (detector.isValid && !detector.isValid(value)) return match;
+    // Numbers are keyed on their digits (phones on the last ten) so formatting differences share a placeholder.
+    const key = kind === 'email' || kind === 'pan' ? value.toUpperCase() : value.replace(/\D/g, '').slice(kind === 'phone' ? -10 : 0);
+    return match.replace(value, record(placeholderFor(map, detector.placeholder, key, value), value));
+  });
+};
+
+// Terms are matched whole-word and case-insensitively, longest first so "Ravi Kumar" wins over "Ravi".
+export const redactText = (text: string, terms: SensitiveTerm[], settings: RedactionSettings, map: PlaceholderMap, hits: RedactionHit[]) => {
+  const record = (placeholder: string, value: string) => {
+    if (!hits.some(h => h.placeholder === placeholder)) hits.push({ placeholder, value });
+    return placeholder;
+  };
+  // Emails go first so a name inside an address does not leave the rest of the address behind.
+  let result = settings.detectors.email ? replaceDetected(text, 'email', record, map) : text;
+  for (const term of [...terms].sort((a, b) => b.value.length - a.value.length)) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(term.value)}(?![\\p{L}\\p{N}_])`, 'giu');
+    result = result.replace(pattern, match => record(placeholderFor(map, term.placeholder, term.value.toLowerCase(), term.value), match));
+  }
+  for (const kind of (['aadhaar', 'pan', 'account', 'phone'] as const).filter(k => settings.detectors[k])) {
+    result = replaceDetected(result, kind, record, map);
+  }
+  return result;
+};
+
+export const restorePlaceholders = (text: string, map: PlaceholderMap, escape: (value: string) => string = value => value) =>
+  text.replace(PLACEHOLDER, placeholder => placeholder in map.values ? escape(map.values[placeholder]) : placeholder);
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+// Grounding offsets count UTF-8 bytes of the text the model wrote; shift them past each restored value.
+const restoreByteOffset = (rawText: string, offset: number, restore: (text: string) => string) => {
+  let shift = 0;
+  let bytes = 0;
+  let last = 0;
+  for (const match of rawText.matchAll(PLACEHOLDER)) {
+    bytes += utf8Length(rawText.slice(last, match.index));
+    const length = utf8Length(match[0]);
+    if (bytes + length > offset) break;
+    shift += utf8Length(restore(match[0])) - length;
+    bytes += length;
+    last = match.index! + match[0].length;
+  }
+  return offset + shift;
+};
+
+const restoreGrounding = (metadata: GroundingMetadata | undefined, rawText: string, restore: (text: string) => string) => {
+  metadata?.groundingSupports?.forEach(({ segment }) => {
+    if (!segment) return;
+    if (segment.text) segment.text = restore(segment.text);
+    if (segment.startIndex !== undefined) segment.startIndex = restoreByteOffset(rawText, segment.startIndex, restore);
+    if (segment.endIndex !== undefined) segment.endIndex = restoreByteOffset(rawText, segment.endIndex, restore);
+  });
+};
+
+// Files cannot be redacted as they are, so readable documents go as their extracted text. Anything else
+// (images, scans without a text layer) is held back and the model is told so.
+const redactPart = async (part: Part, role: string, redactor: Redactor, hits: RedactionHit[], sent: OutgoingPart[]): Promise<Part> => {
+  if (part.text !== undefined) {
+    const text = redactor.settings.enabled ? redactor.redact(part.text, hits) : part.text;
+    sent.push({ role, text });
+    return { ...part, text };
+  }
+  if (part.inlineData) {
+    const { data = '', mimeType = '' } = part.inlineData;
+    if (!redactor.settings.enabled) {
+      sent.push({ role, text: `File (${mimeType || 'unknown type'}, ${formatBytes(data.length * 3 / 4)}) sent as is`, isNote: true });
+      return part;
+    }
+    let extracted: Omit<DocText, 'id'> | null = null;
+    try {
+      extracted = await extractDocumentText(new File([decode(data)], 'attachment', { type: mimeType }));
+    } catch (error) {
+      console.error("Attachment text extraction error:", error);
+    }
+    const fullText = extracted?.pages.join('\n\n').trim();
+    if (fullText) {
+      sent.push({ role, text: `File (${mimeType}) replaced by its extracted, redacted text`, isNote: true });
+      const text = `[Attached document. Its text was extracted and redacted before sending; identifiers appear as placeholders.]\n\n${redactor.redact(fullText, hits)}`;
+      sent.push({ role, text });
+      return { text };
+    }
+    const text = `[An attachment (${mimeType || 'unknown type'}) was withheld because its contents could not be checked for personal data.]`;
+    sent.push({ role, text: `File (${mimeType || 'unknown type'}) withheld: it has no readable text to redact`, isNote: true });
+    return { text };
+  }
+  return part;
+};
+
+const redactPartUnion = async (part: PartUnion, role: string, redactor: Redactor, hits: RedactionHit[], sent: OutgoingPart[]): Promise<PartUnion> =>
+  typeof part === 'string' ? (await redactPart({ text: part }, role, redactor, hits, sent)).text ?? '' : redactPart(part, role, redactor, hits, sent);
+
+const redactContent = async (content: ContentUnion, redactor: Redactor, hits: RedactionHit[], sent: OutgoingPart[]): Promise<ContentUnion> => {
+  if (Array.isArray(content)) {
+    const parts: PartUnion[] = [];
+    for (const part of content) parts.push(await redactPartUnion(part, 'user', redactor, hits, sent));
+    return parts;
+  }
+  if (typeof content !== 'string' && 'parts' in content) {
+    const parts: Part[] = [];
+    for (const part of content.parts || []) parts.push(await redactPart(part, content.role || 'user', redactor, hits, sent));
+    return { ...content, parts };
+  }
+  return redactPartUnion(content as PartUnion, 'user', redactor, hits, sent);
+};
+
+// Walks any shape the SDK accepts for `contents`, keeping that shape so the request means the same thing.
+const redactContents = async (contents: ContentListUnion, redactor: Redactor, hits: RedactionHit[], sent: OutgoingPart[]): Promise<ContentListUnion> => {
+  if (!Array.isArray(contents)) return redactContent(contents, redactor, hits, sent);
+  const redacted: ContentUnion[] = [];
+  for (const item of contents) redacted.push(await redactContent(item, redactor, hits, sent));
+  return redacted;
+};
+
+const prepareRequest = async (kind: OutgoingRequest['kind'], model: string, contents: ContentListUnion, systemInstruction: ContentUnion | undefined, redactor: Redactor) => {
+  const hits: RedactionHit[] = [];
+  const parts: OutgoingPart[] = [];
+  const redacted = await redactContents(contents, redactor, hits, parts);
+  const instruction = typeof systemInstruction === 'string' && redactor.settings.enabled ? redactor.redact(systemInstruction, hits) : systemInstruction;
+  const request: OutgoingRequest = {
+    id: Math.random().toString(36).substr(2, 9),
+    sentAt: new Date().toLocaleString(),
+    model,
+    kind,
+    systemInstruction: typeof instruction === 'string' ? instruction : undefined,
+    parts,
+    hits,
+  };
+  return { contents: redacted, systemInstruction: instruction, request };
+};
+
+const restoreResponse = (response: GenerateContentResponse, redactor: Redactor, isJson: boolean) => {
+  // Restored values inside a JSON reply must stay valid string content.
+  const escape = isJson ? (value: string) => JSON.stringify(value).slice(1, -1) : undefined;
+  response.candidates?.forEach(candidate => {
+    const rawText = candidate.content?.parts?.map(p => p.text || '').join('') || '';
+    restoreGrounding(candidate.groundingMetadata, rawText, text => redactor.restore(text));
+    candidate.content?.parts?.forEach(part => {
+      if (part.text) part.text = redactor.restore(part.text, escape);
+    });
+  });
+  return response;
+};
+
+// Re-emits a stream with placeholders restored, holding back any text that might be the start of one.
+async function* restoreStream(stream: AsyncGenerator<GenerateContentResponse>, redactor: Redactor) {
+  let rawText = '';
+  let emitted = '';
+  try {
+    for await (const chunk of stream) {
+      const candidate = chunk.candidates?.[0];
+      rawText += candidate?.content?.parts?.map(p => p.text || '').join('') || '';
+      const pending = rawText.match(PARTIAL_PLACEHOLDER);
+      const restored = redactor.restore(pending ? rawText.slice(0, pending.index) : rawText);
+      if (candidate?.content) candidate.content.parts = [{ text: restored.slice(emitted.length) }];
+      emitted = restored;
+      restoreGrounding(candidate?.groundingMetadata, rawText, text => redactor.restore(text));
+      yield chunk;
+    }
+    const rest = redactor.restore(rawText).slice(emitted.length);
+    if (rest) yield Object.assign(new GenerateContentResponse(), { candidates: [{ content: { role: 'model', parts: [{ text: rest }] } }] });
+  } finally {
+    stream.return(undefined).catch(() => {});
+  }
+}
+
+// Wraps a provider so every generate and embed call is redacted, logged and restored, whichever backend answers it.
+export const withRedaction = (provider: ModelProvider, redactor: Redactor): ModelProvider => ({
+  generate: async call => {
+    const { contents, systemInstruction, request } = await prepareRequest('generate', call.model, call.contents, call.config?.systemInstruction, redactor);
+    redactor.onSend(request);
+    const response = await provider.generate({ ...call, contents, ...(call.config && { config: { ...call.config, systemInstruction } }) });
+    return redactor.settings.enabled ? restoreResponse(response, redactor, call.config?.responseMimeType === 'application/json') : response;
+  },
+  stream: async call => {
+    const { contents, systemInstruction, request } = await prepareRequest('stream', call.model, call.contents, call.config?.systemInstruction, redactor);
+    redactor.onSend(request);
+    const stream = await provider.stream({ ...call, contents, ...(call.config && { config: { ...call.config, systemInstruction } }) });
+    return redactor.settings.enabled ? restoreStream(stream, redactor) : stream;
+  },
+  embed: async call => {
+    const { contents, request } = await prepareRequest('embed', call.model, call.contents, undefined, redactor);
+    redactor.onSend(request);
+    return provider.embed({ ...call, contents });
+  },
+});
+
+const OutgoingRequestView = ({ request }: { request: OutgoingRequest }) => (
+  <div className="outgoing-request">
+    <div className="facts-footnote" style={{ marginTop: 0 }}>
+      {request.model} • {request.kind === 'embed' ? 'embedding' : request.kind === 'stream' ? 'streamed generation' : 'generation'} • {request.hits.length} {request.hits.length === 1 ? 'value' : 'values'} redacted
+    </div>
+    {request.hits.length > 0 && (
+      <table className="concordance-table">
+        <thead><tr><th>Placeholder</th><th>Stays on this device</th></tr></thead>
+        <tbody>{request.hits.map(h => <tr key={h.placeholder}><td>{h.placeholder}</td><td>{h.value}</td></tr>)}</tbody>
+      </table>
+    )}
+    {request.systemInstruction && (
+      <div className="outgoing-part">
+        <small>System instruction</small>
+        <pre>{request.systemInstruction}</pre>
+      </div>
+    )}
+    {request.parts.map((part, i) => (
+      <div key={i} className={`outgoing-part ${part.isNote ? 'note' : ''}`}>
+        <small>{part.role}</small>
+        {part.isNote ? <div>{part.text}</div> : <pre>{part.text}</pre>}
+      </div>
+    ))}
+  </div>
+);
+
+// --- Research Profiles ---
+// A profile bundles a forum, practice area and house style for research answers. The search tool takes no
+// site filter, so official sources steer grounding through the instruction, and are flagged in the sources rail.
+const SCC_CITATION_STYLE = 'Cite cases by name with the SCC or SCC OnLine citation, adding the neutral citation (e.g. 2023 INSC 123) where one exists; cite statutes by section and full Act name with year.';
+const MEMO_ANSWER_FORMAT = 'Short answer first, then the governing provisions, the leading authorities and their application, and finally any open questions or risks.';
+
+export const DEFAULT_RESEARCH_PROFILES: ResearchProfile[] = [
+  {
+    id: 'general',
+    name: 'General Indian law',
+    jurisdiction: 'India, all courts',
+    practiceArea: 'General practice',
+    authorities: 'Central and State Acts and Rules as amended, Supreme Court judgments, then judgments of the relevant High Court.',
+    citationStyle: SCC_CITATION_STYLE,
+    answerFormat: MEMO_ANSWER_FORMAT,
+    officialSources: ['indiacode.nic.in', 'sci.gov.in', 'egazette.gov.in'],
+  },
+  {
+    id: 'supreme-court',
+    name: 'Supreme Court of India',
+    jurisdiction: 'Supreme Court of India',
+    practiceArea: 'Constitutional, civil and criminal appeals, SLPs and writ petitions under Article 32',
+    authorities: 'Constitution Bench and larger Bench decisions first; note when a point is referred to or pending before a larger Bench. The Supreme Court Rules, 2013 for procedure.',
+    citationStyle: SCC_CITATION_STYLE,
+    answerFormat: MEMO_ANSWER_FORMAT,
+    officialSources: ['sci.gov.in', 'main.sci.gov.in', 'indiacode.nic.in'],
+  },
+  {
+    id: 'delhi-hc',
+    name: 'Delhi High Court',
+    jurisdiction: 'High Court of Delhi',
+    practiceArea: 'Commercial, intellectual property and writ matters',
+    authorities: 'Supreme Court judgments, then Division Bench and Single Judge decisions of the Delhi High Court; the Delhi High Court (Original Side) Rules, 2018 and the Commercial Courts Act, 2015.',
+    citationStyle: `${SCC_CITATION_STYLE} For Delhi High Court judgments also give the neutral citation (e.g. 2024:DHC:1234).`,
+    answerFormat: MEMO_ANSWER_FORMAT,
+    officialSources: ['delhihighcourt.nic.in', 'sci.gov.in', 'indiacode.nic.in'],
+  },
+  {
+    id: 'bombay-hc',
+    name: 'Bombay High Court',
+    jurisdiction: 'High Court of Judicature at Bombay',
+    practiceArea: 'Commercial, arbitration and writ matters',
+    authorities: 'Supreme Court judgments, then Division Bench and Single Judge decisions of the Bombay High Court; the Bombay High Court (Original Side) Rules and Maharashtra State Acts.',
+    citationStyle: `${SCC_CITATION_STYLE} For Bombay High Court judgments also give the neutral citation (e.g. 2024:BHC-OS:1234).`,
+    answerFormat: MEMO_ANSWER_FORMAT,
+    officialSources: ['bombayhighcourt.nic.in', 'sci.gov.in', 'indiacode.nic.in'],
+  },
+  {
+    id: 'nclt',
+    name: 'NCLT / NCLAT',
+    jurisdiction: 'National Company Law Tribunal and National Company Law Appellate Tribunal',
+    practiceArea: 'Insolvency and company law',
+    authorities: 'The Insolvency and Bankruptcy Code, 2016 and IBBI Regulations, the Companies Act, 2013 and NCLT Rules, 2016; Supreme Court and NCLAT decisions.',
+    citationStyle: `${SCC_CITATION_STYLE} Cite NCLAT decisions by Company Appeal (AT) (Insolvency) number and date.`,
+    answerFormat: 'Short answer first, then the Code or Act provisions, the applicable regulations and circulars, the leading decisions, and the practical steps and timelines.',
+    officialSources: ['nclt.gov.in', 'nclat.nic.in', 'ibbi.gov.in', 'mca.gov.in'],
+  },
+  {
+    id: 'ncdrc',
+    name: 'NCDRC (consumer)',
+    jurisdiction: 'National Consumer Disputes Redressal Commission and State and District Commissions',
+    practiceArea: 'Consumer protection',
+    authorities: 'The Consumer Protection Act, 2019 and its Rules and Regulations (the 1986 Act for older complaints); Supreme Court and NCDRC decisions.',
+    citationStyle: `${SCC_CITATION_STYLE} Cite NCDRC orders by case type and number, parties and date.`,
+    answerFormat: 'Short answer first, then pecuniary and territorial jurisdiction and limitation, the substantive position with authorities, and the relief that can be claimed.',
+    officialSources: ['ncdrc.nic.in', 'e-jagriti.gov.in', 'consumeraffairs.nic.in'],
+  },
+  {
+    id: 'itat',
+    name: 'ITAT (direct tax)',
+    jurisdiction: 'Income Tax Appellate Tribunal',
+    practiceArea: 'Direct tax',
+    authorities: 'The Income-tax Act, 1961 (or the Income-tax Act, 2025 for tax years from 1 April 2026), the Income-tax Rules, CBDT circulars and notifications; Supreme Court, jurisdictional High Court and ITAT Special Bench decisions.',
+    citationStyle: 'Cite cases by name with the ITR or Taxmann citation and the ITA number for Tribunal orders; cite provisions by section of the Act.',
+    answerFormat: 'Short answer first, then the provisions, binding and persuasive authorities (noting the jurisdictional High Court), and the assessment year consequences.',
+    officialSources: ['itat.gov.in', 'incometaxindia.gov.in', 'egazette.gov.in'],
+  },
+  {
+    id: 'england-wales',
+    name: 'Foreign law: England & Wales',
+    jurisdiction: 'England and Wales',
+    practiceArea: 'Commercial law',
+    authorities: 'UK statutes as amended, UK Supreme Court and House of Lords decisions, then the Court of Appeal and High Court. Note where Indian courts treat the English position as persuasive.',
+    citationStyle: 'OSCOLA: neutral citation first (e.g. [2023] UKSC 12), then the law report; statutes by short title and section.',
+    answerFormat: MEMO_ANSWER_FORMAT,
+    officialSources: ['legislation.gov.uk', 'supremecourt.uk', 'caselaw.nationalarchives.gov.uk', 'bailii.org'],
+  },
+];
+
+const DEFAULT_PROFILE_ID = DEFAULT_RESEARCH_PROFILES[0].id;
+
+const describeResearchProfile = (profile: ResearchProfile) => [
+  `RESEARCH PROFILE: ${profile.name}. Where this profile differs from the instructions above, follow the profile.`,
+  profile.jurisdiction && `Jurisdiction and forum: ${profile.jurisdiction}. Answer as the law stands before this forum, and distinguish authority binding on it from merely persuasive authority.`,
+  profile.practiceArea && `Practice area: ${profile.practiceArea}.`,
+  profile.authorities && `Preferred authorities: ${profile.authorities}`,
+  profile.citationStyle && `Citation style: ${profile.citationStyle}`,
+  profile.answerFormat && `Answer format: ${profile.answerFormat}`,
+  profile.officialSources.length > 0 && `When searching the web, look first to this forum's official sources (${profile.officialSources.join(', ')}), for example with site: searches, and prefer them over commentary, blogs and news. Say so when an answer rests only on secondary sources.`,
+].filter(Boolean).join('\n');
+
+// Grounding links are usually redirects, so the title (which the API sets to the source's domain) is checked too.
+const isOfficialSource = (citation: Citation, profile: ResearchProfile) => {
+  const haystack = `${citation.web?.title || ''} ${citation.web?.uri || ''}`.toLowerCase();
+  return profile.officialSources.some(domain => domain && haystack.includes(domain.toLowerCase()));
+};
+
+// --- Conversation Helpers ---
+const HISTORY_CHAR_BUDGET = 24000;
+const RECENT_MESSAGES_TO_KEEP = 6;
+
+// Attachments are replayed inline as base64 on every turn, so they count at their encoded size.
+const estimateHistorySize = (history: Message[], attachments: Map<string, File>) => history.reduce((total, m) => {
+  const file = m.fileName ? attachments.get(m.id) : undefined;
+  return total + m.text.length + (file ? Math.ceil(file.size / 3) * 4 : 0);
+}, 0);
+
+// Replays the session as alternating user/model turns; consecutive turns from the same role are merged.
+const buildConversationContents = async (history: Message[], attachments: Map<string, File>, contextSummary?: string) => {
+  const contents: Content[] = [];
+  const pushTurn = (role: 'user' | 'model', parts: Part[]) => {
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) last.parts!.push(...parts);
+    else contents.push({ role, parts });
+  };
+
+  if (contextSummary) {
+    pushTurn('user', [{ text: `Summary of our earlier discussion in this research session:\n${contextSummary}` }]);
+    pushTurn('model', [{ text: 'Understood. I will continue the consultation with that context in mind.' }]);
+  }
+
+  for (const m of history) {
+    if (m.isError || (contents.length === 0 && m.role === 'model')) continue;
+    const parts: Part[] = [];
+    if (m.text) parts.push({ text: m.text });
+    if (m.fileName) {
+      const file = attachments.get(m.id);
+      parts.push(file ? await fileToGenerativePart(file) : { text: `[Attachment "${m.fileName}" was shared earlier but is no longer available.]` });
+    }
+    if (parts.length > 0) pushTurn(m.role, parts);
+  }
+  return contents;
+};
+
+const summarizeConversation = async (ai: ModelClient, previousSummary: string | undefined, history: Message[]) => {
+  const transcript = history
+    .filter(m => !m.isError)
+    .map(m => `${m.role === 'user' ? 'Lawyer' : 'Juris'}: ${m.text}${m.fileName ? ` [attached: ${m.fileName}]` : ''}`)
+    .join('\n\n');
+  const response = await ai.generate('condense', {
+    contents: { parts: [{ text: `Condense the following legal research conversation into a brief factual summary. Preserve the facts of the matter, statutes, sections, case names, dates and any conclusions reached.${previousSummary ? `\n\nExisting summary:\n${previousSummary}` : ''}\n\nConversation:\n${transcript}` }] },
+  });
+  // An empty summary would silently drop the turns it was meant to cover.
+  if (!response.text) throw new Error('The model returned an empty summary.');
+  return response.text;
+};
+
+const JurisApp = () => {
+  const [activeTab, setActiveTab] = useState<'research' | 'documents' | 'deadlines' | 'drafting' | 'history'>('research');
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [userInput, setUserInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [citations, setCitations] = useState<Citation[]>([]);
+  const [showAllSources, setShowAllSources] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [loadingMessage, setLoadingMessage] = useState('Juris is thinking...');
+  const [isListening, setIsListening] = useState(false);
+  const [isConfigured, setIsConfigured] = useState(true);
+  
+  // Data Persistence
+  const [managedDocs, setManagedDocs] = useState<ManagedDoc[]>([]);
+  const [sessionHistory, setSessionHistory] = useState<Session[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [matters, setMatters] = useState<Matter[]>([]);
+
+  // Matter State
+  const [activeMatterId, setActiveMatterId] = useState<string | null>(null); // null shows every matter
+  const [isManagingMatters, setIsManagingMatters] = useState(false);
+  const [matterDraft, setMatterDraft] = useState<Matter | null>(null);
+
+  // Research Profile State
+  const [researchProfiles, setResearchProfiles] = useState<ResearchProfile[]>(DEFAULT_RESEARCH_PROFILES);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [isManagingProfiles, setIsManagingProfiles] = useState(false);
+  const [profileDraft, setProfileDraft] = useState<ResearchProfile | null>(null);
+
+  // Document Vault State
+  const [docSearchTerm, setDocSearchTerm] = useState('');
+  const [isUploadingDocs, setIsUploadingDocs] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [viewingDoc, setViewingDoc] = useState<ManagedDoc | null>(null);
+  const [viewingPage, setViewingPage] = useState<number | null>(null);
+  const [docTexts, setDocTexts] = useState<Map<string, DocText>>(new Map());
+  const [indexingDocIds, setIndexingDocIds] = useState<Set<string>>(new Set());
+
+  // Ask the Vault State
+  const [isAskingVault, setIsAskingVault] = useState(false);
+  const [vaultQuestion, setVaultQuestion] = useState('');
+  const [vaultAnswer, setVaultAnswer] = useState('');
+  const [vaultPassages, setVaultPassages] = useState<VaultPassage[]>([]);
+  const [isQueryingVault, setIsQueryingVault] = useState(false);
+  const [useSemanticRanking, setUseSemanticRanking] = useState(false);
+  const [comparisons, setComparisons] = useState<DocComparison[]>([]);
+  const [isComparingDocs, setIsComparingDocs] = useState(false);
+  const [comparisonSelection, setComparisonSelection] = useState({ baseDocId: '', revisedDocId: '' });
+  const [activeComparisonId, setActiveComparisonId] = useState<string | null>(null);
+  const [comparisonCommentary, setComparisonCommentary] = useState(''); // Streams here; saved on the comparison once finished
+  const [isCommentingOnComparison, setIsCommentingOnComparison] = useState(false);
+  const [showUnchangedClauses, setShowUnchangedClauses] = useState(false);
+  const [factsDocId, setFactsDocId] = useState<string | null>(null);
+  const [isExtractingFacts, setIsExtractingFacts] = useState(false);
+  const [factsError, setFactsError] = useState('');
+  const [selectedProposalIds, setSelectedProposalIds] = useState<Set<string>>(new Set());
+  const [reviewDocId, setReviewDocId] = useState<string | null>(null);
+  const [reviewTab, setReviewTab] = useState<'clauses' | 'playbook'>('clauses');
+  const [isReviewingContract, setIsReviewingContract] = useState(false);
+  const [reviewError, setReviewError] = useState('');
+  const [reviewSort, setReviewSort] = useState<{ key: 'index' | 'category' | 'score'; descending: boolean }>({ key: 'index', descending: false });
+  const [reviewRiskFilter, setReviewRiskFilter] = useState<'all' | 'high' | 'medium' | 'low'>('all');
+  const [expandedClauseIndex, setExpandedClauseIndex] = useState<number | null>(null);
+  const [playbook, setPlaybook] = useState<ContractPlaybook>(DEFAULT_PLAYBOOK);
+  const [deadlineView, setDeadlineView] = useState<'month' | 'week' | 'agenda'>('month');
+  const [calendarDate, setCalendarDate] = useState(() => toIsoDate(new Date()));
+  const [deadlineMatterFilter, setDeadlineMatterFilter] = useState('');
+  const [deadlineDocFilter, setDeadlineDocFilter] = useState('');
+  const [showCompletedDeadlines, setShowCompletedDeadlines] = useState(false);
+  const [isLimitationOpen, setIsLimitationOpen] = useState(false);
+  const [limitationTab, setLimitationTab] = useState<'calculator' | 'calendar'>('calculator');
+  const [limitationRuleId, setLimitationRuleId] = useState(LIMITATION_RULES[0].id);
+  const [limitationInput, setLimitationInput] = useState<LimitationInput>({ startDate: '', copyAppliedOn: '', copyReadyOn: '' });
+  const [limitationTaskDocId, setLimitationTaskDocId] = useState('');
+  const [courtCalendar, setCourtCalendar] = useState<CourtCalendar>(DEFAULT_COURT_CALENDAR);
+  const [holidayDraft, setHolidayDraft] = useState({ label: '', start: '', end: '' });
+  const [managingTasksForDoc, setManagingTasksForDoc] = useState<ManagedDoc | null>(null);
+  const [analyzingDoc, setAnalyzingDoc] = useState<ManagedDoc | null>(null);
+  const [analysisPrompt, setAnalysisPrompt] = useState('');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisResult, setAnalysisResult] = useState('');
+  const [newTaskText, setNewTaskText] = useState('');
+  const [newTaskDeadline, setNewTaskDeadline] = useState('');
+  const [newTaskRecurrence, setNewTaskRecurrence] = useState<TaskRecurrence | ''>('');
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isNotificationCentreOpen, setIsNotificationCentreOpen] = useState(false);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(() => 'Notification' in window ? Notification.permission : 'denied');
+  const [reminderClock, setReminderClock] = useState(() => Date.now());
+  const [summarizingDoc, setSummarizingDoc] = useState<ManagedDoc | null>(null);
+  const [summaryResult, setSummaryResult] = useState('');
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [vaultStorageError, setVaultStorageError] = useState('');
+
+  // Redaction State
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(DEFAULT_REDACTION_SETTINGS);
+  const [outgoingLog, setOutgoingLog] = useState<OutgoingRequest[]>([]); // This session only; never persisted
+  const [isPrivacyOpen, setIsPrivacyOpen] = useState(false);
+  const [privacyTab, setPrivacyTab] = useState<'settings' | 'test' | 'log'>('settings');
+  const [redactionTestText, setRedactionTestText] = useState('');
+  const [chatPreview, setChatPreview] = useState<OutgoingRequest | null>(null);
+  const [isPreviewingChat, setIsPreviewingChat] = useState(false);
+
+  // Model Provider State
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(DEFAULT_MODEL_SETTINGS);
+  const [apiKey, setApiKey] = useState(''); // Entered in Settings; takes precedence over a deployment key
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [settingsTab, setSettingsTab] = useState<'key' | 'models' | 'instructions' | 'generation'>('key');
+  const [showApiKey, setShowApiKey] = useState(false);
+  const [apiKeyTest, setApiKeyTest] = useState<{ status: 'idle' | 'testing' | 'ok' | 'error'; message: string }>({ status: 'idle', message: '' });
+  const activeProvider = PROVIDER_OVERRIDE || modelSettings.provider;
+
+  // Workspace Lock State
+  const [workspaceLock, setWorkspaceLock] = useState<WorkspaceLock | null>(loadWorkspaceLock);
+  // Nothing is persisted until the workspace is 'ready', so saving can never overwrite data not yet loaded.
+  const [workspaceStatus, setWorkspaceStatus] = useState<'locked' | 'loading' | 'ready'>(() => loadWorkspaceLock() ? 'locked' : 'loading');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState('');
+  const [workspaceLoadError, setWorkspaceLoadError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isLockSettingsOpen, setIsLockSettingsOpen] = useState(false);
+  const [lockForm, setLockForm] = useState({ current: '', next: '', confirm: '' });
+  const [lockFormError, setLockFormError] = useState('');
+  const [isRekeying, setIsRekeying] = useState(false);
+
+  // Drafting State
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null);
+  const [draftSetup, setDraftSetup] = useState<{ templateId: string; matterId: string; sourceDocId: string; values: Record<string, string> } | null>(null);
+  const [viewingVersionId, setViewingVersionId] = useState<string | null>(null);
+  const [draftInstruction, setDraftInstruction] = useState('');
+  const [draftSuggestion, setDraftSuggestion] = useState('');
+  const [isDraftingSection, setIsDraftingSection] = useState(false);
+  const [draftEditorRevision, setDraftEditorRevision] = useState(0); // Bumped to reload the editor from the stored HTML
+
+  // Audio State
+  const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  // UI State
+  const [isCitationRailVisible, setIsCitationRailVisible] = useState(true);
+  const [highlightedCitation, setHighlightedCitation] = useState<string | null>(null);
+  const [exportingSession, setExportingSession] = useState<Session | null>(null);
+  const [authorityFocus, setAuthorityFocus] = useState<{ key?: string; docId?: string } | null>(null); // Neither set lists every authority
+  const [legalSources, setLegalSources] = useState<LegalIndexSource[]>([]);
+  const [isLegalIndexOpen, setIsLegalIndexOpen] = useState(false);
+  const [legalIndexError, setLegalIndexError] = useState('');
+  const [isConcordanceOpen, setIsConcordanceOpen] = useState(false);
+  const [concordanceCode, setConcordanceCode] = useState(0); // Index into CODE_CONCORDANCES
+  const [concordanceQuery, setConcordanceQuery] = useState('');
+
+  // Workspace Backup State
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; backup: WorkspaceBackup | null; error: string } | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+  const [conflictStrategy, setConflictStrategy] = useState<ConflictStrategy>('keep-existing');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isMobileNavVisible, setIsMobileNavVisible] = useState(false);
+  
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const docUploadInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const recognitionRef = useRef<any>(null);
+  const docViewerFrameRef = useRef<HTMLIFrameElement>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const legalIndexInputRef = useRef<HTMLInputElement>(null);
+  const attachmentsRef = useRef<Map<string, File>>(new Map()); // Chat attachments by message id, for replaying history
+  const attachmentsLoadRef = useRef<Promise<void>>(Promise.resolve()); // Settles once an opened session's attachments are read from the vault
+  const chatStreamRef = useRef<AbortController | null>(null);
+  const chatSessionEpochRef = useRef(0); // Bumped whenever the open conversation changes, so a reply in flight stays with its own session
+  const summaryStreamRef = useRef<AbortController | null>(null);
+  const analysisStreamRef = useRef<AbortController | null>(null);
+  const vaultStreamRef = useRef<AbortController | null>(null);
+  const comparisonStreamRef = useRef<AbortController | null>(null);
+  const draftStreamRef = useRef<AbortController | null>(null);
+  const placeholderMapRef = useRef<PlaceholderMap>(emptyPlaceholderMap());
+  const workspaceKeyRef = useRef<CryptoKey | null>(null); // Held in memory only, and dropped on lock
+  const storedValuesRef = useRef<Map<string, string>>(new Map()); // Plain JSON last saved under each encrypted key, for re-keying
+  const storageWriteSeqRef = useRef<Map<string, number>>(new Map());
+  const pendingStorageWritesRef = useRef<Set<Promise<void>>>(new Set());
+  const rekeyRef = useRef<Promise<void> | null>(null); // Set while a re-key runs; encrypted saves and vault access wait for it
+  const pendingVaultOpsRef = useRef<Set<Promise<unknown>>>(new Set());
+  const lastActivityRef = useRef(Date.now());
+  const draftEditorRef = useRef<HTMLDivElement>(null);
+  const draftSelectionRef = useRef<Range | null>(null); // Last caret or selection inside the editor, for inserting AI text
+  const embeddingCacheRef = useRef<Map<string, number[]>>(new Map());
+
+  // --- Initial Setup ---
+  useEffect(() => {
+    audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+
+    if (!loadWorkspaceLock()) loadWorkspace(null).catch(error => {
+      console.error("Workspace load error:", error);
+      setWorkspaceLoadError("Your saved workspace could not be read, so nothing you do now will be saved. Reload the page to try again.");
+    });
+    loadLegalSources()
+      .then(setLegalSources)
+      .catch(error => console.error("Legal index load error:", error));
+  }, []);
+
+  // Reads every persisted slice, decrypting with the given key. A value that fails to decrypt rejects before
+  // any state is set; the workspace then never becomes ready, so nothing is saved over the stored data. A slice
+  // that decrypts but does not parse is logged and replaced by its default, so the rest still loads.
+  const loadWorkspace = async (key: CryptoKey | null) => {
+    // Staged copies wait safely for the next load, so a vault that cannot be opened now does not stop the workspace.
+    await settleVaultRekey().catch(error => console.error("Vault re-key settle error:", error));
+    const decrypted = new Map<string, string>();
+    for (const name of ENCRYPTED_STORAGE_KEYS) {
+      const saved = localStorage.getItem(name);
+      if (saved !== null) decrypted.set(name, await decryptText(key, saved));
+    }
+    const readItem = (name: string) => decrypted.has(name) ? decrypted.get(name)! : localStorage.getItem(name);
+    const readJson = <T,>(name: string, fallback: T): T => {
+      const saved = readItem(name);
+      if (saved === null) return fallback;
+      try {
+        return JSON.parse(saved) ?? fallback;
+      } catch (error) {
+        console.error(`Stored ${name} could not be read:`, error);
+        return fallback;
+      }
+    };
+    workspaceKeyRef.current = key;
+    storedValuesRef.current = decrypted;
+
+    // Documents are saved without their File, which lives in the vault.
+    const savedDocs = readJson<Omit<ManagedDoc, 'file'>[] | null>('juris_docs', null);
+    const savedSessions = readJson<Session[]>('juris_history', []);
+    setSessionHistory(savedSessions);
+    if (savedDocs) {
+        // Saved object URLs died with the previous page; fresh ones are minted once the files are restored.
+        const parsedDocs: ManagedDoc[] = savedDocs.map(d => ({...d, url: '', file: null}));
+        setManagedDocs(parsedDocs);
+        restoreVaultFiles(parsedDocs.map(d => d.id), savedSessions.flatMap(s => s.messages.map(m => attachmentVaultId(m.id))));
+    } else {
+        refreshStorageUsage();
+    }
+    const savedMatters = readJson<Matter[]>('juris_matters', []);
+    setMatters(savedMatters);
+    const savedActiveMatter = readItem('juris_active_matter');
+    if (savedMatters.some(m => m.id === savedActiveMatter)) setActiveMatterId(savedActiveMatter);
+    setComparisons(readJson<DocComparison[]>('juris_comparisons', []));
+    setNotifications(readJson<AppNotification[]>('juris_notifications', []));
+    setDrafts(readJson<Draft[]>('juris_drafts', []));
+    setCourtCalendar(readJson('juris_court_calendar', DEFAULT_COURT_CALENDAR));
+    setRedactionSettings({ ...DEFAULT_REDACTION_SETTINGS, ...readJson<Partial<RedactionSettings>>('juris_redaction', {}) });
+    placeholderMapRef.current = readJson('juris_placeholders', emptyPlaceholderMap());
+    setPlaybook(readJson('juris_playbook', DEFAULT_PLAYBOOK));
+    // An empty list, however it was saved, would leave research with no profile to answer under.
+    const storedProfiles = readJson<ResearchProfile[]>('juris_profiles', []);
+    const savedProfiles = storedProfiles.length > 0 ? storedProfiles : DEFAULT_RESEARCH_PROFILES;
+    setResearchProfiles(savedProfiles);
+    const savedActiveProfile = readItem('juris_active_profile');
+    if (savedProfiles.some(p => p.id === savedActiveProfile)) setActiveProfileId(savedActiveProfile!);
+    else setActiveProfileId(savedProfiles[0].id);
+    const parsed = readJson<ModelSettings | null>('juris_models', null);
+    if (parsed) {
+      setModelSettings({
+        ...DEFAULT_MODEL_SETTINGS,
+        ...parsed,
+        models: { ...DEFAULT_FEATURE_MODELS, ...parsed.models },
+        instructions: { ...DEFAULT_SYSTEM_INSTRUCTIONS, ...parsed.instructions },
+      });
+    }
+    setApiKey(readItem('juris_api_key') || '');
+    setWorkspaceStatus('ready');
+  };
+
+  // All persistence goes through here. Encrypted keys are sealed asynchronously, so a write that finishes
+  // after a newer one for the same key is dropped. During a re-key, encrypted values are only remembered; the
+  // re-key writes them under whichever key it leaves in place.
+  const storeItem = (name: string, value: string | null) => {
+    if (workspaceStatus !== 'ready') return;
+    const isEncrypted = ENCRYPTED_STORAGE_KEYS.includes(name);
+    if (isEncrypted) {
+      if (value === null) storedValuesRef.current.delete(name);
+      else storedValuesRef.current.set(name, value);
+      if (rekeyRef.current && value !== null) return;
+    }
+    const seq = (storageWriteSeqRef.current.get(name) || 0) + 1;
+    storageWriteSeqRef.current.set(name, seq);
+    const key = isEncrypted ? workspaceKeyRef.current : null;
+    if (value === null) localStorage.removeItem(name);
+    else if (!key) localStorage.setItem(name, value);
+    else {
+      const write: Promise<void> = encryptText(key, value)
+        .then(sealed => { if (storageWriteSeqRef.current.get(name) === seq) localStorage.setItem(name, sealed); })
+        .catch(error => console.error("Workspace encryption error:", error))
+        .finally(() => { pendingStorageWritesRef.current.delete(write); });
+      pendingStorageWritesRef.current.add(write);
+    }
+  };
+
+  useEffect(() => {
+    const docsToSave = managedDocs.map(({ file, ...rest }) => rest);
+    storeItem('juris_docs', JSON.stringify(docsToSave));
+  }, [managedDocs]);
+
+  useEffect(() => {
+    storeItem('juris_history', JSON.stringify(sessionHistory));
+  }, [sessionHistory]);
+
+  useEffect(() => {
+    storeItem('juris_matters', JSON.stringify(matters));
+  }, [matters]);
+
+  useEffect(() => {
+    storeItem('juris_comparisons', JSON.stringify(comparisons));
+  }, [comparisons]);
+
+  useEffect(() => {
+    storeItem('juris_notifications', JSON.stringify(notifications));
+  }, [notifications]);
+
+  useEffect(() => {
+    storeItem('juris_court_calendar', JSON.stringify(courtCalendar));
+  }, [courtCalendar]);
+
+  useEffect(() => {
+    storeItem('juris_drafts', JSON.stringify(drafts));
+  }, [drafts]);
+
+  useEffect(() => {
+    storeItem('juris_playbook', JSON.stringify(playbook));
+  }, [playbook]);
+
+  useEffect(() => {
+    storeItem('juris_redaction', JSON.stringify(redactionSettings));
+  }, [redactionSettings]);
+
+  useEffect(() => {
+    storeItem('juris_models', JSON.stringify(modelSettings));
+  }, [modelSettings]);
+
+  useEffect(() => {
+    storeItem('juris_api_key', apiKey.trim() || null);
+  }, [apiKey]);
+
+  // The editor is uncontrolled so typing keeps the caret; its HTML is only replaced when a draft is opened or restored.
+  useEffect(() => {
+    const draft = drafts.find(d => d.id === activeDraftId);
+    const html = draft?.versions.find(v => v.id === viewingVersionId)?.html ?? draft?.html;
+    if (draftEditorRef.current && html !== undefined) draftEditorRef.current.innerHTML = sanitizeDraftHtml(html);
+    draftSelectionRef.current = null;
+  }, [activeDraftId, draftEditorRevision, viewingVersionId, activeTab]);
+
+  // The offline mock needs no key, and settings may load after this first runs (e.g. once unlocked).
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const configured = activeProvider === 'mock' || !!resolveApiKey();
+      if (!configured) console.error("Configuration Error: no API key in Settings, window.GEMINI_API_KEY or the build.");
+      setIsConfigured(configured);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [activeProvider, apiKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setReminderClock(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Activity only stamps a time; a slow interval decides when to lock, so pointer moves stay cheap.
+  useEffect(() => {
+    const minutes = workspaceLock?.autoLockMinutes;
+    if (workspaceStatus !== 'ready' || !minutes) return;
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    const events = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+    markActive();
+    events.forEach(name => window.addEventListener(name, markActive, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= minutes * 60 * 1000) lockWorkspace();
+    }, 15 * 1000);
+    return () => {
+      events.forEach(name => window.removeEventListener(name, markActive));
+      clearInterval(timer);
+    };
+  }, [workspaceStatus, workspaceLock?.autoLockMinutes]);
+
+  // Delivers reminders that have come due. Recording them on their tasks re-runs this effect, which
+  // then finds nothing new to send.
+  useEffect(() => {
+    const now = new Date(reminderClock);
+    const delivered: AppNotification[] = [];
+    const keysByTask = new Map<string, string[]>();
+    for (const doc of managedDocs) {
+      for (const task of doc.tasks) {
+        const reminder = pendingReminder(task, now);
+        if (!reminder) continue;
+        keysByTask.set(`${doc.id}/${task.id}`, reminder.keys);
+        delivered.push({
+          id: Math.random().toString(36).substr(2, 9),
+          docId: doc.id,
+          taskId: task.id,
+          title: task.text,
+          body: `${reminder.body} • ${doc.name}`,
+          kind: reminder.kind,
+          createdAt: now.toISOString(),
+          isRead: false,
+        });
+      }
+    }
+    if (delivered.length === 0) return;
+
+    setManagedDocs(docs => docs.map(d => d.tasks.some(t => keysByTask.has(`${d.id}/${t.id}`)) ? {
+      ...d,
+      tasks: d.tasks.map(t => {
+        const keys = keysByTask.get(`${d.id}/${t.id}`);
+        return keys ? { ...t, notified: [...new Set([...(t.notified || []), ...keys])] } : t;
+      }),
+    } : d));
+    setNotifications(prev => [...delivered.reverse(), ...prev].slice(0, MAX_NOTIFICATIONS));
+    if ('Notification' in window && Notification.permission === 'granted') {
+      // A backlog after the app was closed for a while becomes one summary instead of a burst of popups.
+      const popups = delivered.length > 3
+        ? [{ id: 'juris-reminders', title: 'Juris deadline reminders', body: `${delivered.length} deadlines need attention` }]
+        : delivered;
+      popups.forEach(n => {
+        const popup = new Notification(n.title, { body: n.body, tag: n.id });
+        popup.onclick = () => {
+          window.focus();
+          setIsNotificationCentreOpen(true);
+        };
+      });
+    }
+  }, [managedDocs, reminderClock]);
+
+  useEffect(() => {
+    storeItem('juris_active_matter', activeMatterId);
+  }, [activeMatterId]);
+
+  useEffect(() => {
+    storeItem('juris_profiles', JSON.stringify(researchProfiles));
+  }, [researchProfiles]);
+
+  useEffect(() => {
+    storeItem('juris_active_profile', activeProfileId);
+  }, [activeProfileId]);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, isLoading]);
+
+  useEffect(() => {
+    if (highlightedCitation) {
+      document.getElementById(`citation-${highlightedCitation}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [highlightedCitation]);
+
+  useEffect(() => {
+    if (textareaRef.current) {
+        textareaRef.current.style.height = 'auto';
+        textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`;
+    }
+  }, [userInput]);
+
+  // Speech Recognition Init
+  useEffect(() => {
+    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    if (SpeechRecognition) {
+      recognitionRef.current = new SpeechRecognition();
+      recognitionRef.current.continuous = true;
+      recognitionRef.current.interimResults = true;
+      recognitionRef.current.onresult = (event: any) => {
+        const transcript = Array.from(event.results).map((result: any) => result[0].transcript).join('');
+        setUserInput(transcript);
+      };
+      recognitionRef.current.onend = () => setIsListening(false);
+    }
+  }, []);
+
+  // --- Handlers ---
+  // A key entered in Settings wins; otherwise the deployment's, injected into the page or inlined at build time.
+  const resolveApiKey = (): string => apiKey.trim() || window.GEMINI_API_KEY || BUILD_TIME_API_KEY;
+
+  const prepareForApiCall = () => {
+    let provider: ModelProvider;
+    if (activeProvider === 'mock') {
+      provider = createMockProvider();
+    } else {
+      const key = resolveApiKey();
+      if (!key) {
+          throw new Error("API key not found. Enter one in Settings or set GEMINI_API_KEY for the deployment.");
+      }
+      provider = createGeminiProvider(key);
+    }
+    return routeModels(withRedaction(provider, buildRedactor()), modelSettings);
+  };
+
+  const openSettings = (tab: typeof settingsTab = 'key') => {
+    setSettingsTab(tab);
+    setApiKeyTest({ status: 'idle', message: '' });
+    setIsSettingsOpen(true);
+    setIsMobileNavVisible(false);
+  };
+
+  // Sends one short request to the research model, so a wrong model name shows up here too. The test goes
+  // through redaction like any other request and appears in the Sent log.
+  const handleTestApiKey = async () => {
+    const key = resolveApiKey();
+    if (!key) {
+      setApiKeyTest({ status: 'error', message: 'Enter an API key first.' });
+      return;
+    }
+    setApiKeyTest({ status: 'testing', message: '' });
+    try {
+      const ai = routeModels(withRedaction(createGeminiProvider(key), buildRedactor()), modelSettings);
+      await ai.generate('research', { contents: 'Reply with the single word OK.' });
+      setApiKeyTest({ status: 'ok', message: `The key works: ${modelFor(modelSettings.models, 'research')} replied.` });
+    } catch (error) {
+      console.error("API key test error:", error);
+      setApiKeyTest({ status: 'error', message: (error instanceof Error ? error.message : String(error)).slice(0, 300) });
+    }
+  };
+
+  const handleResetSettings = () => {
+    if (!window.confirm("Reset the provider, models, system instructions, temperature and safety settings to their defaults? Your API key is kept.")) return;
+    setModelSettings(DEFAULT_MODEL_SETTINGS);
+  };
+
+  // Every matter's terms apply to every request: a document or question may mention any client.
+  const sensitiveTerms = useMemo(() => matters.flatMap(m => [
+    ...(m.sensitiveTerms || []).map(value => ({ value, placeholder: 'TERM' })),
+    ...(redactionSettings.partyNames ? [{ value: m.clientName, placeholder: 'CLIENT' }, { value: m.opposingParty, placeholder: 'OPPOSING_PARTY' }] : []),
+  ]).filter(t => t.value.trim().length >= 2).map(t => ({ ...t, value: t.value.trim() })), [matters, redactionSettings.partyNames]);
+
+  const buildRedactor = (): Redactor => ({
+    settings: redactionSettings,
+    redact: (text, hits) => redactText(text, sensitiveTerms, redactionSettings, placeholderMapRef.current, hits),
+    restore: (text, escape) => restorePlaceholders(text, placeholderMapRef.current, escape),
+    onSend: request => {
+      storeItem('juris_placeholders', JSON.stringify(placeholderMapRef.current));
+      setOutgoingLog(prev => [request, ...prev].slice(0, MAX_OUTGOING_LOG));
+    },
+  });
+
+  const handleForgetPlaceholders = () => {
+    if (!window.confirm("Forget every placeholder assignment? Values will get new placeholders from now on, and placeholders in earlier replies that were not restored can no longer be.")) return;
+    placeholderMapRef.current = emptyPlaceholderMap();
+    storeItem('juris_placeholders', null);
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspaceLock || !unlockPassphrase) return;
+    setIsUnlocking(true);
+    setUnlockError('');
+    try {
+      const key = await unlockWorkspaceKey(workspaceLock, unlockPassphrase);
+      if (!key) {
+        setUnlockError("Incorrect passphrase.");
+        return;
+      }
+      await loadWorkspace(key);
+      setUnlockPassphrase('');
+    } catch (error) {
+      console.error("Unlock error:", error);
+      setUnlockError("The passphrase is correct, but some stored data could not be decrypted. It may have been damaged.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  // Reloading is the surest way to drop every decrypted value held in memory, from state to attachments and
+  // object URLs. The fresh page opens at the unlock screen.
+  const lockWorkspace = async () => {
+    await rekeyRef.current?.catch(() => {});
+    await Promise.all(pendingStorageWritesRef.current);
+    window.location.reload();
+  };
+
+  // Vault reads and writes take the key through here, so a re-key never runs alongside one.
+  const withVaultKey = async <T,>(action: (key: CryptoKey | null) => Promise<T>) => {
+    while (rekeyRef.current) await rekeyRef.current.catch(() => {});
+    const op = action(workspaceKeyRef.current);
+    pendingVaultOpsRef.current.add(op);
+    try {
+      return await op;
+    } finally {
+      pendingVaultOpsRef.current.delete(op);
+    }
+  };
+
+  // Setting, changing and removing the passphrase all re-write stored data under the new key, or none. The vault
+  // is copied under the new key first; the new lock, every encrypted value and the marker that the copies are due
+  // to be swapped in are then saved together, so a failure or reload before that point leaves the old key in charge.
+  const rekeyWorkspace = async (lock: WorkspaceLock | null, key: CryptoKey | null) => {
+    const oldKey = workspaceKeyRef.current;
+    let written = new Map(storedValuesRef.current);
+    const rekey = (async () => {
+      await Promise.all(pendingStorageWritesRef.current);
+      await Promise.allSettled(pendingVaultOpsRef.current);
+      try {
+        await stageVaultRekey(oldKey, key);
+      } catch (error) {
+        await settleStagedVault(false).catch(cleanupError => console.error("Vault staging cleanup error:", cleanupError));
+        throw error;
+      }
+      const values = new Map(storedValuesRef.current);
+      const sealed = await Promise.all([...values].map(async ([name, value]) => [name, key ? await encryptText(key, value) : value] as const));
+      // Nothing from here to the swap awaits, so the page cannot close part-way through the commit.
+      const names = [...sealed.map(([name]) => name), LOCK_STORAGE_KEY];
+      const previous = names.map(name => [name, localStorage.getItem(name)] as const);
+      try {
+        sealed.forEach(([name, value]) => { if (storedValuesRef.current.has(name)) localStorage.setItem(name, value); });
+        if (lock) localStorage.setItem(LOCK_STORAGE_KEY, JSON.stringify(lock));
+        else localStorage.removeItem(LOCK_STORAGE_KEY);
+        localStorage.setItem(VAULT_STAGED_STORAGE_KEY, '1');
+      } catch (error) {
+        previous.forEach(([name, value]) => value === null ? localStorage.removeItem(name) : localStorage.setItem(name, value));
+        localStorage.removeItem(VAULT_STAGED_STORAGE_KEY);
+        await settleStagedVault(false).catch(cleanupError => console.error("Vault staging cleanup error:", cleanupError));
+        throw error;
+      }
+      workspaceKeyRef.current = key;
+      written = values;
+      setWorkspaceLock(lock);
+      // The re-key has taken effect; a swap that fails here is finished on the next load.
+      await settleVaultRekey().catch(error => console.error("Vault swap error:", error));
+    })();
+    rekeyRef.current = rekey;
+    try {
+      await rekey;
+    } finally {
+      rekeyRef.current = null;
+      // Values saved while the re-key ran go out now, under the key it left in place.
+      storedValuesRef.current.forEach((value, name) => { if (written.get(name) !== value) storeItem(name, value); });
+      refreshStorageUsage();
+    }
+  };
+
+  const openLockSettings = () => {
+    setLockForm({ current: '', next: '', confirm: '' });
+    setLockFormError('');
+    setIsLockSettingsOpen(true);
+    setIsMobileNavVisible(false);
+  };
+
+  const handleSavePassphrase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lockForm.next.length < MIN_PASSPHRASE_LENGTH) {
+      setLockFormError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (lockForm.next !== lockForm.confirm) {
+      setLockFormError("The new passphrases do not match.");
+      return;
+    }
+    setIsRekeying(true);
+    setLockFormError('');
+    try {
+      if (workspaceLock && !await unlockWorkspaceKey(workspaceLock, lockForm.current)) {
+        setLockFormError("The current passphrase is incorrect.");
+        return;
+      }
+      const { lock, key } = await createWorkspaceLock(lockForm.next, workspaceLock?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES);
+      await rekeyWorkspace(lock, key);
+      setIsLockSettingsOpen(false);
+    } catch (error) {
+      console.error("Workspace encryption error:", error);
+      setLockFormError("The workspace could not be re-encrypted. Please try again.");
+    } finally {
+      setIsRekeying(false);
+    }
+  };
+
+  const handleRemovePassphrase = async () => {
+    if (!workspaceLock) return;
+    if (!window.confirm("Remove the passphrase? Your research, documents and tasks will be stored unencrypted on this device.")) return;
+    setIsRekeying(true);
+    setLockFormError('');
+    try {
+      if (!await unlockWorkspaceKey(workspaceLock, lockForm.current)) {
+        setLockFormError("The current passphrase is incorrect.");
+        return;
+      }
+      await rekeyWorkspace(null, null);
+      setIsLockSettingsOpen(false);
+    } catch (error) {
+      console.error("Workspace decryption error:", error);
+      setLockFormError("The workspace could not be decrypted. Please try again.");
+    } finally {
+      setIsRekeying(false);
+    }
+  };
+
+  const handleAutoLockChange = (autoLockMinutes: number) => {
+    if (!workspaceLock) return;
+    const lock = { ...workspaceLock, autoLockMinutes };
+    localStorage.setItem(LOCK_STORAGE_KEY, JSON.stringify(lock));
+    setWorkspaceLock(lock);
+  };
+
+  const refreshStorageUsage = async () => {
+    if (!navigator.storage?.estimate) return;
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      setStorageUsage({ usage, quota });
+    } catch (error) {
+      console.error("Storage estimate error:", error);
+    }
+  };
+
+  const indexDocument = async (docId: string, file: File) => {
+    setIndexingDocIds(prev => new Set(prev).add(docId));
+    try {
+      const extracted = await extractDocumentText(file);
+      if (extracted) {
+        const docText: DocText = { id: docId, ...extracted };
+        setDocTexts(prev => new Map(prev).set(docId, docText));
+        await withVaultKey(key => saveDocText(docText, key));
+      }
+    } catch (error) {
+      console.error(`Text extraction error for ${file.name}:`, error);
+    } finally {
+      setIndexingDocIds(prev => {
+        const next = new Set(prev);
+        next.delete(docId);
+        return next;
+      });
+    }
+  };
+
+  // One at a time: PDF parsing is heavy and would otherwise stall the UI during a batch upload.
+  const indexDocuments = async (docs: { id: string; file: File | null }[]) => {
+    for (const d of docs) if (d.file) await indexDocument(d.id, d.file);
+  };
+
+  const restoreVaultFiles = async (docIds: string[], attachmentIds: string[]) => {
+    const indexed = new Set<string>();
+    try {
+      const texts = await withVaultKey(loadAllDocTexts);
+      for (const text of texts) {
+        if (docIds.includes(text.id)) indexed.add(text.id);
+        else await deleteDocText(text.id);
+      }
+      setDocTexts(new Map(texts.filter(t => indexed.has(t.id)).map(t => [t.id, t])));
+    } catch (error) {
+      console.error("Text index restore error:", error);
+    }
+
+    const restored = new Map<string, File>();
+    try {
+      for (const id of await listVaultFileIds()) {
+        // Drop bytes whose document or chat message no longer exists, e.g. after localStorage was cleared.
+        // Attachments are only read when their session is opened.
+        if (isAttachmentVaultId(id)) {
+          if (!attachmentIds.includes(id)) await deleteVaultFile(id);
+          continue;
+        }
+        if (!docIds.includes(id)) {
+          await deleteVaultFile(id);
+          continue;
+        }
+        const file = await withVaultKey(key => loadVaultFile(id, key));
+        if (file) restored.set(id, file);
+      }
+      setManagedDocs(docs => docs.map(d => {
+        const file = restored.get(d.id);
+        return file ? { ...d, file, url: URL.createObjectURL(file) } : d;
+      }));
+    } catch (error) {
+      console.error("Vault restore error:", error);
+    }
+    refreshStorageUsage();
+    // Documents stored before text indexing existed are indexed on first load.
+    await indexDocuments([...restored].filter(([id]) => !indexed.has(id)).map(([id, file]) => ({ id, file })));
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+  };
+
+  // Sources grouped by the answer they support. Sessions saved before per-message citations fall back
+  // to the single session-level list.
+  const citationGroups = useMemo(() => {
+    const current = sessionHistory.find(s => s.id === currentSessionId);
+    if (current && !isInActiveMatter(current.matterId)) return [];
+    const groups = messages.flatMap((m, i) => {
+      if (m.role !== 'model' || !m.citations?.length) return [];
+      const question = messages.slice(0, i).reverse().find(prev => prev.role === 'user');
+      const label = question?.text ? question.text.substring(0, 60) + (question.text.length > 60 ? '...' : '') : (question?.fileName || 'Research answer');
+      return [{ messageId: m.id, label, citations: m.citations }];
+    });
+    if (groups.length === 0 && citations.length > 0) return [{ messageId: 'session', label: '', citations }];
+    return groups;
+  }, [messages, citations, sessionHistory, currentSessionId, activeMatterId]);
+
+  const focusCitation = (messageId: string, index: number) => {
+    const citation = messages.find(m => m.id === messageId)?.citations?.[index];
+    if (citation && !citation.web) setShowAllSources(true);
+    setIsCitationRailVisible(true);
+    setHighlightedCitation(`${messageId}-${index}`);
+  };
+
+  const toggleListening = () => {
+    if (isListening) recognitionRef.current?.stop();
+    else {
+      setUserInput('');
+      recognitionRef.current?.start();
+      setIsListening(true);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) setSelectedFile(e.target.files[0]);
+  };
+
+  const handleMultiFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      const files = e.target.files;
+      setIsUploadingDocs(true);
+      setUploadProgress(0);
+      setVaultStorageError('');
+
+      const newManagedDocs: ManagedDoc[] = [];
+      const unsavedNames: string[] = [];
+      for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        const fileURL = URL.createObjectURL(file);
+        const id = Math.random().toString(36).substr(2, 9);
+        try {
+          await withVaultKey(key => saveVaultFile(id, file, key));
+        } catch (error) {
+          if (isQuotaError(error)) unsavedNames.push(file.name);
+          else console.error("Vault save error:", error);
+        }
+        newManagedDocs.push({
+          id,
+          name: file.name,
+          url: fileURL,
+          type: file.type,
+          date: new Date().toLocaleDateString(),
+          tasks: [],
+          file: file,
+          matterId: activeMatterId || undefined,
+        });
+        
+        setUploadProgress(Math.round(((i + 1) / files.length) * 100));
+      }
+      
+      setManagedDocs(prev => [...prev, ...newManagedDocs]);
+      if (unsavedNames.length > 0) {
+        setVaultStorageError(`Browser storage is full. ${unsavedNames.join(', ')} can be used in this session but will not survive a reload. Delete unused documents to free space.`);
+      }
+      refreshStorageUsage();
+      setTimeout(() => setIsUploadingDocs(false), 500);
+      indexDocuments(newManagedDocs);
+    }
+  };
+
+  const handleDeleteDoc = (doc: ManagedDoc) => {
+    setManagedDocs(prev => prev.filter(x => x.id !== doc.id));
+    // A comparison stays listed against its other document until that one is deleted too.
+    const remainingIds = new Set(managedDocs.filter(x => x.id !== doc.id).map(x => x.id));
+    setComparisons(prev => prev.filter(c => remainingIds.has(c.baseDocId) || remainingIds.has(c.revisedDocId)));
+    setDrafts(prev => prev.map(d => d.sourceDocId === doc.id ? { ...d, sourceDocId: undefined } : d));
+    if (doc.url) URL.revokeObjectURL(doc.url);
+    setDocTexts(prev => {
+      const next = new Map(prev);
+      next.delete(doc.id);
+      return next;
+    });
+    Promise.all([deleteVaultFile(doc.id), deleteDocText(doc.id)])
+      .catch(error => console.error("Vault delete error:", error))
+      .finally(refreshStorageUsage);
+  };
+
+  const openDocAtPage = (doc: ManagedDoc, page: number | null = null) => {
+    setViewingDoc(doc);
+    setViewingPage(page);
+  };
+
+  const openAuthorityOccurrence = (occurrence: AuthorityOccurrence) => {
+    const session = occurrence.source === 'session' && sessionHistory.find(s => s.id === occurrence.sourceId);
+    const doc = occurrence.source === 'document' && managedDocs.find(d => d.id === occurrence.sourceId);
+    setAuthorityFocus(null);
+    if (session) loadSession(session);
+    if (doc) openDocAtPage(doc, occurrence.page);
+  };
+
+  // A reply still streaming is stopped and saved to the session it was asked in, not the one opened next.
+  const leaveChatSession = () => {
+    chatSessionEpochRef.current++;
+    chatStreamRef.current?.abort();
+  };
+
+  const startNewSession = () => {
+    leaveChatSession();
+    setMessages([]);
+    setCitations([]);
+    setCurrentSessionId(null);
+    setActiveTab('research');
+    setIsMobileNavVisible(false);
+  };
+
+  const handleClearChat = () => {
+    if (window.confirm("Are you sure you want to clear this entire conversation? This cannot be undone.")) {
+      leaveChatSession();
+      setMessages([]);
+      setCitations([]);
+      setCurrentSessionId(null);
+    }
+  };
+
+  // Attachments sent before a reload are read back from the vault, so follow-up questions still carry them.
+  const loadSessionAttachments = async (session: Session) => {
+    for (const m of session.messages) {
+      if (!m.fileName || attachmentsRef.current.has(m.id)) continue;
+      try {
+        const file = await withVaultKey(key => loadVaultFile(attachmentVaultId(m.id), key));
+        if (file) attachmentsRef.current.set(m.id, file);
+      } catch (error) {
+        console.error("Attachment restore error:", error);
+      }
+    }
+  };
+
+  const loadSession = (session: Session) => {
+    if (session.id !== currentSessionId) leaveChatSession();
+    attachmentsLoadRef.current = loadSessionAttachments(session);
+    setMessages(session.messages);
+    setCitations(session.citations);
+    setHighlightedCitation(null);
+    setCurrentSessionId(session.id);
+    if (session.profileId && researchProfiles.some(p => p.id === session.profileId)) setActiveProfileId(session.profileId);
+    setActiveTab('research');
+    setIsMobileNavVisible(false);
+  };
+
+  const deleteSession = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (window.confirm("Delete this session from history?")) {
+      const attachmentIds = sessionHistory.find(s => s.id === id)?.messages.filter(m => m.fileName).map(m => m.id) || [];
+      setSessionHistory(prev => prev.filter(s => s.id !== id));
+      if (currentSessionId === id) startNewSession();
+      attachmentIds.forEach(messageId => attachmentsRef.current.delete(messageId));
+      Promise.all(attachmentIds.map(messageId => deleteVaultFile(attachmentVaultId(messageId))))
+        .catch(error => console.error("Vault delete error:", error))
+        .finally(refreshStorageUsage);
+    }
+  };
+
+  // The live chat as a session, whether or not it has been archived yet.
+  const getActiveSession = (): Session => {
+    const saved = sessionHistory.find(s => s.id === currentSessionId);
+    const firstQuestion = messages.find(m => m.role === 'user');
+    return {
+      id: currentSessionId || 'unsaved',
+      title: saved?.title || firstQuestion?.text.substring(0, 40) || firstQuestion?.fileName || 'Legal Consultation',
+      date: saved?.date || new Date().toLocaleString(),
+      citations: saved?.citations || citations,
+      messages,
+      matterId: saved ? saved.matterId : (activeMatterId || undefined),
+      profileId: saved?.profileId || activeProfileId,
+    };
+  };
+
+  const handleExportSession = async (session: Session, format: 'md' | 'docx' | 'pdf') => {
+    const memo = buildResearchMemo(session, matters.find(m => m.id === session.matterId));
+    const markdown = memoToMarkdown(memo);
+    try {
+      if (format === 'md') downloadBlob(new Blob([markdown], { type: 'text/markdown' }), memoFileName(memo, 'md'));
+      else if (format === 'docx') downloadBlob(await Packer.toBlob(markdownToDocx(markdown)), memoFileName(memo, 'docx'));
+      else printMarkdown(markdown, memo.title);
+      setExportingSession(null);
+    } catch (error) {
+      console.error("Export error:", error);
+      alert("The research memo could not be exported.");
+    }
+  };
+
+  const handleBackupWorkspace = async () => {
+    setIsBackingUp(true);
+    try {
+      const documents: BackupDocument[] = await Promise.all(managedDocs.map(async ({ file, url, ...meta }) => ({
+        ...meta,
+        fileData: file ? await toBackupFileData(file) : null,
+      })));
+      // Attachments are read from the vault one at a time, as they are not held in memory for closed sessions.
+      const sessions: BackupSession[] = [];
+      for (const session of sessionHistory) {
+        const messages: BackupMessage[] = [];
+        for (const m of session.messages) {
+          const file = m.fileName ? await withVaultKey(key => loadVaultFile(attachmentVaultId(m.id), key)) : null;
+          messages.push(file ? { ...m, fileData: await toBackupFileData(file) } : m);
+        }
+        sessions.push({ ...session, messages });
+      }
+      const backup: WorkspaceBackup = {
+        format: WORKSPACE_BACKUP_FORMAT,
+        version: WORKSPACE_BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        matters,
+        sessions,
+        documents,
+        comparisons,
+        courtCalendar,
+        drafts,
+        playbook,
+        profiles: researchProfiles,
+      };
+      downloadBlob(new Blob([JSON.stringify(backup)], { type: 'application/json' }), `juris-workspace-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (error) {
+      console.error("Backup error:", error);
+      alert("The workspace backup could not be created.");
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleImportLegalIndex = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setLegalIndexError('');
+    for (const file of files) {
+      try {
+        const source = parseLegalIndex(JSON.parse(await file.text()), file.name);
+        await saveLegalSource(source);
+        setLegalSources(prev => [...prev, source]);
+      } catch (error) {
+        console.error("Legal index import error:", error);
+        const message = error instanceof SyntaxError ? 'The file is not valid JSON.'
+          : isQuotaError(error) ? 'Browser storage is full.'
+          : (error as Error).message;
+        setLegalIndexError(`${file.name}: ${message}`);
+      }
+    }
+    refreshStorageUsage();
+  };
+
+  const handleDeleteLegalSource = async (source: LegalIndexSource) => {
+    if (!window.confirm(`Remove "${source.name}" from the legal index?`)) return;
+    try {
+      await deleteLegalSource(source.id);
+      setLegalSources(prev => prev.filter(s => s.id !== source.id));
+      refreshStorageUsage();
+    } catch (error) {
+      console.error("Legal index delete error:", error);
+      setLegalIndexError(`"${source.name}" could not be removed.`);
+    }
+  };
+
+  const handleRestoreFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const backup = migrateWorkspaceBackup(JSON.parse(await file.text()));
+      setPendingRestore({ fileName: file.name, backup, error: '' });
+    } catch (error) {
+      const message = error instanceof SyntaxError ? 'The file is not valid JSON.' : (error as Error).message;
+      setPendingRestore({ fileName: file.name, backup: null, error: message });
+    }
+    setRestoreMode('merge');
+    setConflictStrategy('keep-existing');
+  };
+
+  const handleApplyRestore = async () => {
+    const backup = pendingRestore?.backup;
+    if (!backup) return;
+    const replace = restoreMode === 'replace';
+    if (replace && !window.confirm("Replace the entire workspace? All current research sessions, documents, tasks and drafts will be removed.")) return;
+
+    setIsRestoring(true);
+    const writtenFileIds: string[] = [];
+    try {
+      const existingMatterIds = new Set(replace ? [] : matters.map(m => m.id));
+      const existingSessionIds = new Set(replace ? [] : sessionHistory.map(s => s.id));
+      const existingDocIds = new Set(replace ? [] : managedDocs.map(d => d.id));
+      const existingComparisonIds = new Set(replace ? [] : comparisons.map(c => c.id));
+      const existingHolidayIds = new Set(replace ? [] : courtCalendar.holidays.map(h => h.id));
+      const existingDraftIds = new Set(replace ? [] : drafts.map(d => d.id));
+      const existingProfileIds = new Set(replace ? [] : researchProfiles.map(p => p.id));
+      const newId = () => Math.random().toString(36).substr(2, 9);
+      // Returns the item to import under its final id, or null when the existing copy wins. A copy kept alongside
+      // the existing one also renews the ids of its nested records, which would otherwise duplicate the original's.
+      const resolveConflict = <T extends { id: string },>(item: T, existingIds: Set<string>, renewChildren: (copy: T) => T = copy => copy): T | null => {
+        if (!existingIds.has(item.id) || conflictStrategy === 'use-imported') return item;
+        if (conflictStrategy === 'keep-both') return renewChildren({ ...item, id: newId() });
+        return null;
+      };
+      const renewTasks = (tasks: Task[]) => tasks.map(t => ({ ...t, id: newId() }));
+
+      // Matters copied under a new id take their imported documents and sessions with them.
+      const matterIdMap = new Map<string, string>();
+      const importedMatters = backup.matters.flatMap(m => {
+        const resolved = resolveConflict(m, existingMatterIds);
+        if (resolved) matterIdMap.set(m.id, resolved.id);
+        return resolved || [];
+      });
+      const remapMatter = <T extends { matterId?: string },>(item: T): T => item.matterId && matterIdMap.has(item.matterId) ? { ...item, matterId: matterIdMap.get(item.matterId) } : item;
+
+      // Most backups carry the same built-in profiles as this workspace, so unchanged copies are not imported again.
+      const profileIdMap = new Map<string, string>();
+      const importedProfiles = backup.profiles.flatMap(p => {
+        const existing = researchProfiles.find(x => x.id === p.id);
+        const resolved = !replace && existing && JSON.stringify(existing) === JSON.stringify(p) ? null : resolveConflict(p, existingProfileIds);
+        if (resolved) profileIdMap.set(p.id, resolved.id);
+        return resolved || [];
+      });
+
+      // Every file is decoded before anything is written, so a corrupt backup fails without touching the vault.
+      // Attachments are keyed by message id, so they follow messages copied under a new id.
+      const decodedAttachments: { id: string; file: File }[] = [];
+      const importedSessions: Session[] = backup.sessions.flatMap(s => resolveConflict(s, existingSessionIds, copy => ({ ...copy, messages: copy.messages.map(m => ({ ...m, id: newId() })) })) || []).map(remapMatter).map(s => ({
+        ...s,
+        profileId: s.profileId && (profileIdMap.get(s.profileId) || s.profileId),
+        messages: s.messages.map(({ fileData, ...m }) => {
+          if (fileData) decodedAttachments.push({ id: attachmentVaultId(m.id), file: fromBackupFileData(fileData) });
+          return m;
+        }),
+      }));
+      const docIdMap = new Map<string, string>();
+      const decodedDocs = backup.documents.flatMap(backupDoc => {
+        const resolved = resolveConflict(remapMatter(backupDoc), existingDocIds, copy => ({
+          ...copy,
+          tasks: renewTasks(copy.tasks),
+          keyFacts: copy.keyFacts && { ...copy.keyFacts, pendingTasks: renewTasks(copy.keyFacts.pendingTasks) },
+        }));
+        if (!resolved) return [];
+        docIdMap.set(backupDoc.id, resolved.id);
+        const { fileData, ...meta } = resolved;
+        const file = fileData && fromBackupFileData(fileData);
+        return [{ meta, file }];
+      });
+
+      const importedDocs: ManagedDoc[] = [];
+      const docsToIndex: { id: string; file: File }[] = [];
+      const unsavedNames: string[] = [];
+      for (const { meta, file: importedFile } of decodedDocs) {
+        const existing = managedDocs.find(d => d.id === meta.id);
+        let file = replace ? null : existing?.file || null;
+        if (importedFile) {
+          file = importedFile;
+          docsToIndex.push({ id: meta.id, file });
+          try {
+            await withVaultKey(key => saveVaultFile(meta.id, file, key));
+            writtenFileIds.push(meta.id);
+          } catch (error) {
+            if (!isQuotaError(error)) throw error;
+            unsavedNames.push(meta.name);
+          }
+        }
+        if (existing?.url && existing.file !== file) URL.revokeObjectURL(existing.url);
+        importedDocs.push({ ...meta, file, url: file ? (existing?.file === file ? existing.url : URL.createObjectURL(file)) : '' });
+      }
+      let unsavedAttachments = 0;
+      for (const { id, file } of decodedAttachments) {
+        try {
+          await withVaultKey(key => saveVaultFile(id, file, key));
+          writtenFileIds.push(id);
+        } catch (error) {
+          if (!isQuotaError(error)) throw error;
+          unsavedAttachments++;
+        }
+      }
+
+      // Comparisons follow their documents when those are copied under a new id.
+      const importedComparisons = backup.comparisons.flatMap(c => resolveConflict(c, existingComparisonIds) || []).map(c => ({
+        ...c,
+        baseDocId: docIdMap.get(c.baseDocId) || c.baseDocId,
+        revisedDocId: docIdMap.get(c.revisedDocId) || c.revisedDocId,
+      }));
+
+      const importedDrafts = backup.drafts.flatMap(d => resolveConflict(d, existingDraftIds, copy => ({ ...copy, versions: copy.versions.map(v => ({ ...v, id: newId() })) })) || []).map(remapMatter).map(d => ({
+        ...d,
+        sourceDocId: d.sourceDocId && (docIdMap.get(d.sourceDocId) || d.sourceDocId),
+      }));
+
+      const importedMatterIds = new Set(importedMatters.map(m => m.id));
+      const importedSessionIds = new Set(importedSessions.map(s => s.id));
+      const importedDocIds = new Set(importedDocs.map(d => d.id));
+      const importedComparisonIds = new Set(importedComparisons.map(c => c.id));
+      const importedDraftIds = new Set(importedDrafts.map(d => d.id));
+
+      // Replacing only clears out the old vault once everything in the backup has been imported.
+      if (replace) {
+        const reindexedIds = new Set(docsToIndex.map(d => d.id));
+        const keptFileIds = new Set([...reindexedIds, ...writtenFileIds]);
+        managedDocs.forEach(d => d.url && URL.revokeObjectURL(d.url));
+        for (const id of await listVaultFileIds()) if (!keptFileIds.has(id)) await deleteVaultFile(id);
+        for (const d of managedDocs) if (!reindexedIds.has(d.id)) await deleteDocText(d.id);
+        setDocTexts(new Map());
+      }
+
+      // Merging keeps this workspace's closed weekdays and adds the backup's holidays.
+      const importedHolidays = backup.courtCalendar.holidays.flatMap(h => resolveConflict(h, existingHolidayIds) || []);
+      const importedHolidayIds = new Set(importedHolidays.map(h => h.id));
+      setMatters(prev => replace ? importedMatters : [...prev.filter(m => !importedMatterIds.has(m.id)), ...importedMatters]);
+      if (replace) setActiveMatterId(null);
+      setSessionHistory(prev => replace ? importedSessions : [...importedSessions, ...prev.filter(s => !importedSessionIds.has(s.id))]);
+      setManagedDocs(prev => replace ? importedDocs : [...prev.filter(d => !importedDocIds.has(d.id)), ...importedDocs]);
+      setComparisons(prev => replace ? importedComparisons : [...importedComparisons, ...prev.filter(c => !importedComparisonIds.has(c.id))]);
+      setCourtCalendar(prev => replace ? backup.courtCalendar : { ...prev, holidays: [...prev.holidays.filter(h => !importedHolidayIds.has(h.id)), ...importedHolidays] });
+      // The playbook is a single setting, so merging only takes the imported one when imported copies win conflicts.
+      if (replace || conflictStrategy === 'use-imported') setPlaybook(backup.playbook);
+      const importedProfileIds = new Set(importedProfiles.map(p => p.id));
+      if (replace) {
+        const profiles = importedProfiles.length > 0 ? importedProfiles : DEFAULT_RESEARCH_PROFILES;
+        setResearchProfiles(profiles);
+        if (!profiles.some(p => p.id === activeProfileId)) setActiveProfileId(profiles[0].id);
+      } else setResearchProfiles(prev => [...prev.filter(p => !importedProfileIds.has(p.id)), ...importedProfiles]);
+      setDrafts(prev => replace ? importedDrafts : [...importedDrafts, ...prev.filter(d => !importedDraftIds.has(d.id))]);
+      if (replace || (activeDraftId && importedDraftIds.has(activeDraftId))) openDraft(null);
+      if (replace || (currentSessionId && importedSessionIds.has(currentSessionId))) startNewSession();
+      if (unsavedNames.length > 0) {
+        setVaultStorageError(`Browser storage is full. ${unsavedNames.join(', ')} can be used in this session but will not survive a reload. Delete unused documents to free space.`);
+      } else if (unsavedAttachments > 0) {
+        setVaultStorageError(`Browser storage is full. ${unsavedAttachments} chat attachment${unsavedAttachments === 1 ? ' was' : 's were'} not restored. Delete unused documents to free space.`);
+      }
+      setPendingRestore(null);
+      refreshStorageUsage();
+      indexDocuments(docsToIndex);
+    } catch (error) {
+      console.error("Restore error:", error);
+      // Files written for documents or messages this workspace never had would otherwise sit in the vault unreferenced.
+      const existingFileIds = new Set([...managedDocs.map(d => d.id), ...sessionHistory.flatMap(s => s.messages.map(m => attachmentVaultId(m.id)))]);
+      const orphanIds = writtenFileIds.filter(id => !existingFileIds.has(id));
+      Promise.all(orphanIds.map(deleteVaultFile)).catch(cleanupError => console.error("Vault delete error:", cleanupError)).finally(refreshStorageUsage);
+      setPendingRestore(prev => prev && { ...prev, error: "The workspace could not be restored. Your existing data may be partially updated; please check the Document Vault." });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const restoreConflicts = useMemo(() => {
+    const backup = pendingRestore?.backup;
+    if (!backup) return { matters: 0, sessions: 0, documents: 0 };
+    return {
+      matters: backup.matters.filter(m => matters.some(x => x.id === m.id)).length,
+      sessions: backup.sessions.filter(s => sessionHistory.some(x => x.id === s.id)).length,
+      documents: backup.documents.filter(d => managedDocs.some(x => x.id === d.id)).length,
+    };
+  }, [pendingRestore, matters, sessionHistory, managedDocs]);
+
+  const activeMatter = matters.find(m => m.id === activeMatterId);
+  const isInActiveMatter = (matterId?: string) => !activeMatterId || matterId === activeMatterId;
+  const matterName = (matterId?: string) => matters.find(m => m.id === matterId)?.name;
+
+  const handleSelectMatter = (matterId: string | null) => {
+    setActiveMatterId(matterId);
+    // An open conversation from another matter would leak its context and citations into this one.
+    const current = sessionHistory.find(s => s.id === currentSessionId);
+    if (matterId && current && current.matterId !== matterId) {
+      leaveChatSession();
+      setMessages([]);
+      setCitations([]);
+      setCurrentSessionId(null);
+    }
+    setIsMobileNavVisible(false);
+  };
+
+  const activeProfile = researchProfiles.find(p => p.id === activeProfileId) || researchProfiles[0];
+
+  // The open session follows the profile, so reopening it later resumes under the same forum.
+  const handleSelectProfile = (profileId: string) => {
+    setActiveProfileId(profileId);
+    setSessionHistory(prev => prev.map(s => s.id === currentSessionId ? { ...s, profileId } : s));
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileDraft || !profileDraft.name.trim()) return;
+    const profile = { ...profileDraft, name: profileDraft.name.trim(), officialSources: profileDraft.officialSources.map(d => d.trim()).filter(Boolean) };
+    setResearchProfiles(prev => prev.some(p => p.id === profile.id) ? prev.map(p => p.id === profile.id ? profile : p) : [...prev, profile]);
+    setProfileDraft(null);
+  };
+
+  const handleDeleteProfile = (profile: ResearchProfile) => {
+    if (researchProfiles.length <= 1) return;
+    if (!window.confirm(`Delete the research profile "${profile.name}"? Sessions researched under it will open with whichever profile is active.`)) return;
+    const remaining = researchProfiles.filter(p => p.id !== profile.id);
+    setResearchProfiles(remaining);
+    if (activeProfileId === profile.id) setActiveProfileId(remaining[0].id);
+  };
+
+  const handleRestoreDefaultProfiles = () => {
+    if (!window.confirm("Restore the built-in research profiles? Any changes you made to them will be lost; your own profiles are kept.")) return;
+    const builtInIds = new Set(DEFAULT_RESEARCH_PROFILES.map(p => p.id));
+    setResearchProfiles(prev => [...DEFAULT_RESEARCH_PROFILES, ...prev.filter(p => !builtInIds.has(p.id))]);
+  };
+
+  const handleSaveMatter = () => {
+    if (!matterDraft || !matterDraft.name.trim()) return;
+    const terms = (matterDraft.sensitiveTerms || []).map(t => t.trim()).filter(Boolean);
+    const matter = { ...matterDraft, name: matterDraft.name.trim(), sensitiveTerms: terms.length > 0 ? terms : undefined };
+    setMatters(prev => prev.some(m => m.id === matter.id) ? prev.map(m => m.id === matter.id ? matter : m) : [...prev, matter]);
+    setMatterDraft(null);
+  };
+
+  const handleDeleteMatter = (matter: Matter) => {
+    if (!window.confirm(`Delete the matter "${matter.name}"? Its documents, sessions and tasks are kept but will no longer be assigned to a matter.`)) return;
+    setMatters(prev => prev.filter(m => m.id !== matter.id));
+    setManagedDocs(prev => prev.map(d => d.matterId === matter.id ? { ...d, matterId: undefined } : d));
+    setSessionHistory(prev => prev.map(s => s.matterId === matter.id ? { ...s, matterId: undefined } : s));
+    setDrafts(prev => prev.map(d => d.matterId === matter.id ? { ...d, matterId: undefined } : d));
+    if (activeMatterId === matter.id) setActiveMatterId(null);
+  };
+
+  const assignDocToMatter = (docId: string, matterId: string) => {
+    setManagedDocs(prev => prev.map(d => d.id === docId ? { ...d, matterId: matterId || undefined } : d));
+  };
+
+  const assignSessionToMatter = (sessionId: string, matterId: string) => {
+    setSessionHistory(prev => prev.map(s => s.id === sessionId ? { ...s, matterId: matterId || undefined } : s));
+  };
+
+  const handleTextToSpeech = async (message: Message) => {
+    if (playingAudioId === message.id) {
+        audioSourceRef.current?.stop();
+        setPlayingAudioId(null);
+        return;
+    }
+    
+    try {
+        const ai = prepareForApiCall();
+        setPlayingAudioId(message.id);
+        const response = await ai.generate('tts', {
+            contents: [{ parts: [{ text: message.text }] }],
+            config: { responseModalities: [Modality.AUDIO] },
+        });
+
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (base64Audio && audioContextRef.current) {
+            const audioBuffer = await decodeAudioData(decode(base64Audio), audioContextRef.current, 24000, 1);
+            const source = audioContextRef.current.createBufferSource();
+            source.buffer = audioBuffer;
+            source.connect(audioContextRef.current.destination);
+            source.start();
+            source.onended = () => setPlayingAudioId(null);
+            audioSourceRef.current = source;
+        }
+    } catch (error) {
+        console.error("TTS Error:", error);
+        setPlayingAudioId(null);
+    }
+  };
+
+  const handleSummarizeDocument = async (doc: ManagedDoc) => {
+      if (!doc.file) {
+        alert("File data is not available for summarization. Please re-upload the document.");
+        return;
+      }
+      
+      try {
+        const ai = prepareForApiCall();
+        setSummarizingDoc(doc);
+        setIsSummarizing(true);
+        setSummaryResult('');
+
+        const controller = new AbortController();
+        summaryStreamRef.current = controller;
+
+        const parts = [
+          { text: `You are a legal expert. Provide a concise, professional summary of the following document: "${doc.name}". Focus on the key legal points, arguments, and outcomes.` },
+          await fileToGenerativePart(doc.file)
+        ];
+        const result = await consumeStream(ai.stream('summarize', {
+          contents: { parts }
+        }), controller.signal, setSummaryResult);
+        if (!result.text && !result.stopped) setSummaryResult('No summary could be generated.');
+      } catch (error) {
+        console.error("Summarization error:", error);
+        setSummaryResult("An error occurred while generating the summary.");
+      } finally {
+        summaryStreamRef.current = null;
+        setIsSummarizing(false);
+      }
+    };
+
+  const closeSummary = () => {
+    summaryStreamRef.current?.abort();
+    setSummarizingDoc(null);
+  };
+  
+  const handleAnalyzeDocument = async () => {
+    if (!analysisPrompt || !analyzingDoc?.file) return;
+
+    try {
+        const ai = prepareForApiCall();
+        setIsAnalyzing(true);
+        setAnalysisResult('');
+        const controller = new AbortController();
+        analysisStreamRef.current = controller;
+
+        const parts = [
+            { text: `Context: You are analyzing a legal document named "${analyzingDoc.name}". Task: ${analysisPrompt}` },
+            await fileToGenerativePart(analyzingDoc.file)
+        ];
+        const result = await consumeStream(ai.stream('analyze', {
+            contents: { parts }
+        }), controller.signal, setAnalysisResult);
+        if (!result.text && !result.stopped) setAnalysisResult('No result found.');
+    } catch (error) {
+        console.error("Analysis error:", error);
+        setAnalysisResult("An error occurred during analysis.");
+    } finally {
+        analysisStreamRef.current = null;
+        setIsAnalyzing(false);
+    }
+  };
+
+  const closeAnalysis = () => {
+    analysisStreamRef.current?.abort();
+    setAnalyzingDoc(null);
+    setAnalysisResult('');
+    setAnalysisPrompt('');
+  };
+
+  const handleAskVault = async () => {
+    if (!vaultQuestion.trim()) return;
+    try {
+      const ai = prepareForApiCall();
+      setIsQueryingVault(true);
+      setVaultAnswer('');
+      setVaultPassages([]);
+      const controller = new AbortController();
+      vaultStreamRef.current = controller;
+
+      const scopedTexts = managedDocs.filter(d => isInActiveMatter(d.matterId) && docTexts.has(d.id)).map(d => docTexts.get(d.id)!);
+      let ranked = rankPassagesLexically(buildRetrievalIndex(scopedTexts), vaultQuestion);
+      if (useSemanticRanking && ranked.length > 0) {
+        ranked = await rerankWithEmbeddings(ai, vaultQuestion, ranked.slice(0, SEMANTIC_CANDIDATES), embeddingCacheRef.current);
+      }
+      const passages = ranked.slice(0, PASSAGES_PER_ANSWER).map(r => r.passage);
+      setVaultPassages(passages);
+      if (passages.length === 0) {
+        setVaultAnswer('No passages in the vault match this question. Try different wording, or check that the relevant documents have finished indexing.');
+        return;
+      }
+
+      const docName = (docId: string) => managedDocs.find(d => d.id === docId)?.name || 'Unknown document';
+      const context = passages.map((p, i) => `[S${i + 1}] ${passageLabel(p, docName(p.docId))}\n${p.text}`).join('\n\n');
+      const result = await consumeStream(ai.stream('vault', {
+        contents: { parts: [{ text: `Passages from the document vault:\n\n${context}\n\nQuestion: ${vaultQuestion}` }] },
+        config: {
+          systemInstruction: "You are Juris, an expert Indian legal assistant answering questions about the user's own case documents. Answer using only the numbered passages provided. Cite every statement with the label of the passage it comes from, e.g. [S2]. If the passages do not contain the answer, say so plainly rather than guessing.",
+        },
+      }), controller.signal, setVaultAnswer);
+      if (!result.text && !result.stopped) setVaultAnswer('No answer could be generated.');
+    } catch (error) {
+      console.error("Vault question error:", error);
+      setVaultAnswer("An error occurred while searching the vault.");
+    } finally {
+      vaultStreamRef.current = null;
+      setIsQueryingVault(false);
+    }
+  };
+
+  const closeVaultQuestion = () => {
+    vaultStreamRef.current?.abort();
+    setIsAskingVault(false);
+  };
+
+  const openComparisons = (docId = '') => {
+    setComparisonSelection({ baseDocId: docId, revisedDocId: '' });
+    setActiveComparisonId(null);
+    setComparisonCommentary('');
+    setIsComparingDocs(true);
+  };
+
+  const handleGenerateCommentary = async (comparison: DocComparison) => {
+    const labels = changeLabels(comparison.changes);
+    if (labels.size === 0) return;
+    try {
+      const ai = prepareForApiCall();
+      setIsCommentingOnComparison(true);
+      setComparisonCommentary('');
+      const controller = new AbortController();
+      comparisonStreamRef.current = controller;
+
+      const changeList = comparison.changes.filter(c => labels.has(c)).map(c => describeChange(c, labels.get(c)!)).join('\n\n');
+      const result = await consumeStream(ai.stream('compare', {
+        contents: { parts: [{ text: `Original document: "${comparison.baseName}"\nRevised draft: "${comparison.revisedName}"\n\nChanges between them:\n\n${changeList}` }] },
+        config: {
+          systemInstruction: "You are Juris, an expert Indian contracts lawyer reviewing a revised draft received from the other side. For each substantive change, explain its legal effect, which party it favours and any risk it introduces, citing the change label, e.g. [C3]. Group purely cosmetic changes (renumbering, typography, reordering without effect) into a single short note at the end. Do not discuss changes that are not listed.",
+        },
+      }), controller.signal, setComparisonCommentary);
+      if (result.text) setComparisons(prev => prev.map(c => c.id === comparison.id ? { ...c, commentary: result.text } : c));
+      else if (!result.stopped) setComparisonCommentary('No commentary could be generated.');
+    } catch (error) {
+      console.error("Comparison commentary error:", error);
+      setComparisonCommentary("An error occurred while generating the commentary.");
+    } finally {
+      comparisonStreamRef.current = null;
+      setIsCommentingOnComparison(false);
+    }
+  };
+
+  const handleCompareDocuments = () => {
+    const { baseDocId, revisedDocId } = comparisonSelection;
+    const base = docTexts.get(baseDocId), revised = docTexts.get(revisedDocId);
+    if (!base || !revised || baseDocId === revisedDocId) return;
+    const comparison: DocComparison = {
+      id: Math.random().toString(36).substr(2, 9),
+      baseDocId,
+      revisedDocId,
+      baseName: managedDocs.find(d => d.id === baseDocId)?.name || 'Original',
+      revisedName: managedDocs.find(d => d.id === revisedDocId)?.name || 'Revised',
+      createdAt: new Date().toLocaleString(),
+      changes: compareDocuments(base, revised),
+      commentary: '',
+    };
+    setComparisons(prev => [comparison, ...prev]);
+    setActiveComparisonId(comparison.id);
+    setShowUnchangedClauses(false);
+    if (isConfigured) handleGenerateCommentary(comparison);
+  };
+
+  const openSavedComparison = (comparison: DocComparison) => {
+    setActiveComparisonId(comparison.id);
+    setComparisonCommentary('');
+    setShowUnchangedClauses(false);
+  };
+
+  const handleDeleteComparison = (comparison: DocComparison) => {
+    if (!window.confirm(`Delete the comparison of "${comparison.baseName}" and "${comparison.revisedName}"?`)) return;
+    setComparisons(prev => prev.filter(c => c.id !== comparison.id));
+  };
+
+  const handleExportComparison = async (comparison: DocComparison, format: 'md' | 'docx' | 'pdf') => {
+    const matterId = managedDocs.find(d => d.id === comparison.revisedDocId || d.id === comparison.baseDocId)?.matterId;
+    const markdown = comparisonToMarkdown(comparison, matters.find(m => m.id === matterId));
+    try {
+      if (format === 'md') downloadBlob(new Blob([markdown], { type: 'text/markdown' }), comparisonFileName(comparison, 'md'));
+      else if (format === 'docx') downloadBlob(await Packer.toBlob(markdownToDocx(markdown)), comparisonFileName(comparison, 'docx'));
+      else printMarkdown(markdown, `Redline: ${comparison.baseName} / ${comparison.revisedName}`);
+    } catch (error) {
+      console.error("Comparison export error:", error);
+      alert("The comparison could not be exported.");
+    }
+  };
+
+  const closeComparisons = () => {
+    comparisonStreamRef.current?.abort();
+    setIsComparingDocs(false);
+  };
+
+  const handleAddTask = (docId: string) => {
+    if (!newTaskText) return;
+    const newTask: Task = {
+        id: Math.random().toString(36).substr(2, 9),
+        text: newTaskText,
+        deadline: newTaskDeadline,
+        isComplete: false,
+        ...(newTaskRecurrence && newTaskDeadline && { recurrence: newTaskRecurrence }),
+    };
+    // FIX: Spread the tasks array from the document, not the document itself.
+    setManagedDocs(docs => docs.map(d => d.id === docId ? {...d, tasks: [...d.tasks, newTask]} : d));
+    setNewTaskText('');
+    setNewTaskDeadline('');
+    setNewTaskRecurrence('');
+  };
+
+  const toggleTask = (docId: string, taskId: string) => {
+    setManagedDocs(docs => docs.map(d => {
+      const task = d.id === docId && d.tasks.find(t => t.id === taskId);
+      if (!task) return d;
+      const tasks = d.tasks.map(t => t.id === taskId ? {...t, isComplete: !t.isComplete} : t);
+      // Completing a recurring task schedules the next occurrence, unless ticking it again already did.
+      if (!task.isComplete && task.recurrence && task.deadline) {
+        const recurrenceDay = task.recurrenceDay ?? parseIsoDate(task.deadline).getDate();
+        const deadline = nextOccurrence(task.deadline, task.recurrence, recurrenceDay);
+        if (!d.tasks.some(t => t.text === task.text && t.deadline === deadline)) {
+          tasks.push({ ...task, id: Math.random().toString(36).substr(2, 9), deadline, recurrenceDay, isComplete: false, snoozedUntil: undefined, notified: undefined });
+        }
+      }
+      return { ...d, tasks };
+    }));
+  };
+
+  const updateTask = (docId: string, taskId: string, changes: Partial<Task>) => {
+    setManagedDocs(docs => docs.map(d => d.id === docId ? { ...d, tasks: d.tasks.map(t => t.id === taskId ? { ...t, ...changes } : t) } : d));
+  };
+
+  const toggleReminder = (docId: string, task: Task, days: number) => {
+    const current = task.reminders ?? DEFAULT_TASK_REMINDERS;
+    updateTask(docId, task.id, { reminders: current.includes(days) ? current.filter(d => d !== days) : [...current, days].sort((a, b) => b - a) });
+  };
+
+  const snoozeTask = (docId: string, taskId: string, option: 'hour' | 'tomorrow' | 'week') => {
+    updateTask(docId, taskId, { snoozedUntil: snoozeUntil(option).toISOString() });
+  };
+
+  const enableBrowserNotifications = async () => {
+    if (!('Notification' in window)) return;
+    setNotificationPermission(await Notification.requestPermission());
+  };
+
+  // Alerts stay highlighted while the centre is open and count as read once it is closed.
+  const closeNotificationCentre = () => {
+    setIsNotificationCentreOpen(false);
+    setNotifications(prev => prev.some(n => !n.isRead) ? prev.map(n => ({ ...n, isRead: true })) : prev);
+  };
+
+  const openTasksForDoc = (docId: string) => {
+    const doc = managedDocs.find(d => d.id === docId);
+    if (!doc) return;
+    closeNotificationCentre();
+    setManagingTasksForDoc(doc);
+  };
+
+  const deleteTask = (docId: string, taskId: string) => {
+    setManagedDocs(docs => docs.map(d => d.id === docId ? { ...d, tasks: d.tasks.filter(t => t.id !== taskId) } : d));
+  };
+  
+  const handleExtractKeyFacts = async (doc: ManagedDoc) => {
+    if (!doc.file) return;
+    try {
+      const ai = prepareForApiCall();
+      setIsExtractingFacts(true);
+      setFactsError('');
+      const response = await ai.generate('facts', {
+        contents: { parts: [
+          { text: `Extract the key facts from the legal document "${doc.name}". Today's date is ${toIsoDate(new Date())}; resolve relative periods such as "within 15 days of receipt" to a calendar date only where the document fixes the starting point.` },
+          await fileToGenerativePart(doc.file),
+        ] },
+        config: {
+          systemInstruction: "You are Juris, an expert Indian legal assistant. Report only facts stated in the document. Never guess a date, party or amount that the document does not give.",
+          responseMimeType: 'application/json',
+          responseSchema: KEY_FACTS_SCHEMA,
+        },
+      });
+      const facts = parseKeyFacts(response.text || '');
+      const keyFacts: KeyFacts = { ...facts, extractedAt: new Date().toLocaleString(), pendingTasks: proposeTasks(facts, doc.tasks) };
+      setManagedDocs(docs => docs.map(d => d.id === doc.id ? { ...d, keyFacts } : d));
+      setSelectedProposalIds(new Set(keyFacts.pendingTasks.map(t => t.id)));
+    } catch (error) {
+      console.error("Key fact extraction error:", error);
+      setFactsError("The key facts could not be extracted from this document.");
+    } finally {
+      setIsExtractingFacts(false);
+    }
+  };
+
+  const openContractReview = (doc: ManagedDoc) => {
+    setReviewDocId(doc.id);
+    setReviewTab('clauses');
+    setReviewError('');
+    setReviewRiskFilter('all');
+    setExpandedClauseIndex(null);
+  };
+
+  const handleReviewContract = async (doc: ManagedDoc) => {
+    const docText = docTexts.get(doc.id);
+    if (!docText) return;
+    const allClauses = splitForReview(docText);
+    const clauses = allClauses.slice(0, MAX_REVIEW_CLAUSES);
+    if (clauses.length === 0) {
+      setReviewError("No clauses could be found in this document's text.");
+      return;
+    }
+    try {
+      const ai = prepareForApiCall();
+      setIsReviewingContract(true);
+      setReviewError('');
+      const response = await ai.generate('review', {
+        contents: { parts: [{ text: [
+          `Review the contract "${doc.name}" acting for: ${playbook.perspective || 'our client'}.`,
+          `Return one entry for every clause below, using its number in square brackets as the index. Classify it, score it against the playbook position for its category, explain any departure, and for a score of 4 or more propose replacement wording that meets the preferred position or at least the fallback.`,
+          `PLAYBOOK\n\n${describePlaybook(playbook)}`,
+          `CLAUSES\n\n${clauses.map((c, i) => `[${i + 1}] ${c}`).join('\n\n')}`,
+        ].join('\n\n') }] },
+        config: {
+          systemInstruction: "You are Juris, an expert Indian contracts lawyer. Judge each clause only on its own wording and the playbook. Definitions, recitals and signature blocks score 0 unless they shift risk. Where no playbook position covers a clause, score it on ordinary Indian commercial practice. Replacement wording must be ready to insert into the contract, in the same drafting style.",
+          responseMimeType: 'application/json',
+          responseSchema: CONTRACT_REVIEW_SCHEMA,
+        },
+      });
+      const riskReview = parseContractReview(response.text || '', clauses, playbook, allClauses.length > clauses.length);
+      setManagedDocs(docs => docs.map(d => d.id === doc.id ? { ...d, riskReview } : d));
+    } catch (error) {
+      console.error("Contract review error:", error);
+      setReviewError("The contract could not be reviewed.");
+    } finally {
+      setIsReviewingContract(false);
+    }
+  };
+
+  const sortReviewBy = (key: 'index' | 'category' | 'score') => {
+    setReviewSort(prev => prev.key === key ? { key, descending: !prev.descending } : { key, descending: key === 'score' });
+  };
+
+  const handleExportReview = async (doc: ManagedDoc, format: 'csv' | 'docx' | 'pdf') => {
+    if (!doc.riskReview) return;
+    const matter = matters.find(m => m.id === doc.matterId);
+    try {
+      if (format === 'csv') downloadBlob(new Blob(['\uFEFF' + reviewToCsv(reviewRows)], { type: 'text/csv' }), reviewFileName(doc.name, 'csv'));
+      else if (format === 'docx') downloadBlob(await Packer.toBlob(markdownToDocx(reviewToMarkdown(doc.name, doc.riskReview, reviewRows, matter))), reviewFileName(doc.name, 'docx'));
+      else printMarkdown(reviewToMarkdown(doc.name, doc.riskReview, reviewRows, matter), `Contract Review: ${doc.name}`);
+    } catch (error) {
+      console.error("Review export error:", error);
+      alert("The contract review could not be exported.");
+    }
+  };
+
+  const updatePlaybookPosition = (category: ClauseCategory, changes: Partial<PlaybookPosition>) => {
+    setPlaybook(prev => ({ ...prev, positions: prev.positions.map(p => p.category === category ? { ...p, ...changes } : p) }));
+  };
+
+  const addPlaybookPosition = (category: ClauseCategory) => {
+    const position = DEFAULT_PLAYBOOK.positions.find(p => p.category === category) || { category, preferred: '', fallback: '', redFlags: '', required: false };
+    setPlaybook(prev => ({ ...prev, positions: [...prev.positions, position] }));
+  };
+
+  const removePlaybookPosition = (category: ClauseCategory) => {
+    setPlaybook(prev => ({ ...prev, positions: prev.positions.filter(p => p.category !== category) }));
+  };
+
+  const resetPlaybook = () => {
+    if (window.confirm("Replace your playbook with the default positions?")) setPlaybook(DEFAULT_PLAYBOOK);
+  };
+
+  const openKeyFacts = (doc: ManagedDoc) => {
+    setFactsDocId(doc.id);
+    setFactsError('');
+    setSelectedProposalIds(new Set(doc.keyFacts?.pendingTasks.map(t => t.id)));
+    if (!doc.keyFacts) handleExtractKeyFacts(doc);
+  };
+
+  // Accepted proposals join the document's tasks; the rest are rejected. Either way they leave the pending list.
+  const resolveProposedTasks = (docId: string, acceptedIds: Set<string>) => {
+    setManagedDocs(docs => docs.map(d => {
+      if (d.id !== docId || !d.keyFacts) return d;
+      const accepted = d.keyFacts.pendingTasks.filter(t => acceptedIds.has(t.id));
+      return { ...d, tasks: [...d.tasks, ...accepted], keyFacts: { ...d.keyFacts, pendingTasks: [] } };
+    }));
+    setSelectedProposalIds(new Set());
+  };
+
+  const handleExportDeadlines = () => {
+    if (deadlineEntries.length === 0) return;
+    const ics = buildIcsCalendar(deadlineEntries, matterName);
+    downloadBlob(new Blob([ics], { type: 'text/calendar' }), `juris-deadlines-${toIsoDate(new Date())}.ics`);
+  };
+
+  const moveCalendar = (direction: -1 | 1) => {
+    if (deadlineView === 'week') setCalendarDate(date => addDays(date, 7 * direction));
+    else setCalendarDate(date => {
+      const d = parseIsoDate(date);
+      return toIsoDate(new Date(d.getFullYear(), d.getMonth() + direction, 1));
+    });
+  };
+
+  const openLimitationCalculator = () => {
+    setLimitationTab('calculator');
+    setLimitationTaskDocId(prev => prev || deadlineDocFilter);
+    setIsLimitationOpen(true);
+    setIsMobileNavVisible(false);
+  };
+
+  const handleAddLimitationTask = (result: LimitationResult) => {
+    if (!limitationTaskDocId) return;
+    const task: Task = {
+      id: Math.random().toString(36).substr(2, 9),
+      text: `Last day: ${result.rule.description} (${result.rule.provision})`,
+      deadline: result.lastDate,
+      isComplete: false,
+    };
+    setManagedDocs(docs => docs.map(d => d.id === limitationTaskDocId ? { ...d, tasks: [...d.tasks, task] } : d));
+    alert(`Task added to ${managedDocs.find(d => d.id === limitationTaskDocId)?.name}.`);
+  };
+
+  // Quotes the computation into the chat box so the answer can rely on (and cite) the exact dates.
+  const handleCiteLimitation = (result: LimitationResult) => {
+    const summary = limitationSummary(result);
+    setUserInput(prev => prev.trim() ? `${prev.trim()}\n\n${summary}` : `${summary}\n\n`);
+    setIsLimitationOpen(false);
+    setActiveTab('research');
+    setTimeout(() => textareaRef.current?.focus(), 0);
+  };
+
+  const toggleClosedWeekday = (weekday: number) => {
+    setCourtCalendar(prev => ({
+      ...prev,
+      closedWeekdays: prev.closedWeekdays.includes(weekday) ? prev.closedWeekdays.filter(d => d !== weekday) : [...prev.closedWeekdays, weekday].sort(),
+    }));
+  };
+
+  const handleAddHoliday = () => {
+    const end = holidayDraft.end || holidayDraft.start;
+    if (!holidayDraft.label.trim() || !holidayDraft.start || end < holidayDraft.start) return;
+    const holiday: CourtHoliday = { id: Math.random().toString(36).substr(2, 9), label: holidayDraft.label.trim(), start: holidayDraft.start, end };
+    setCourtCalendar(prev => ({ ...prev, holidays: [...prev.holidays, holiday].sort((a, b) => a.start.localeCompare(b.start)) }));
+    setHolidayDraft({ label: '', start: '', end: '' });
+  };
+
+  const handleDeleteHoliday = (id: string) => {
+    setCourtCalendar(prev => ({ ...prev, holidays: prev.holidays.filter(h => h.id !== id) }));
+  };
+
+  // Fields with a source are refilled when the matter or document changes; values the source lacks are kept.
+  const prefillDraftValues = (template: DraftTemplate, matterId: string, sourceDocId: string, current: Record<string, string>) => {
+    const matter = matters.find(m => m.id === matterId);
+    const facts = managedDocs.find(d => d.id === sourceDocId)?.keyFacts;
+    return Object.fromEntries(template.fields.map(f => [f.key, prefillField(f.source, matter, facts) || current[f.key] || f.defaultValue || '']));
+  };
+
+  const startDraftSetup = (templateId: string) => {
+    const template = DRAFT_TEMPLATES.find(t => t.id === templateId)!;
+    const matterId = activeMatterId || '';
+    setDraftSetup({ templateId, matterId, sourceDocId: '', values: prefillDraftValues(template, matterId, '', {}) });
+  };
+
+  const changeDraftSetupSource = (changes: { matterId?: string; sourceDocId?: string }) => {
+    if (!draftSetup) return;
+    const next = { ...draftSetup, ...changes };
+    const template = DRAFT_TEMPLATES.find(t => t.id === next.templateId)!;
+    setDraftSetup({ ...next, values: prefillDraftValues(template, next.matterId, next.sourceDocId, draftSetup.values) });
+  };
+
+  const handleCreateDraft = () => {
+    if (!draftSetup) return;
+    const template = DRAFT_TEMPLATES.find(t => t.id === draftSetup.templateId)!;
+    const matter = matters.find(m => m.id === draftSetup.matterId);
+    const html = renderTemplate(template, draftSetup.values);
+    const now = new Date().toISOString();
+    const draft: Draft = {
+      id: Math.random().toString(36).substr(2, 9),
+      title: `${template.name}${matter ? ` — ${matter.name}` : ''}`,
+      templateId: template.id,
+      matterId: draftSetup.matterId || undefined,
+      sourceDocId: draftSetup.sourceDocId || undefined,
+      values: draftSetup.values,
+      html,
+      versions: [{ id: Math.random().toString(36).substr(2, 9), savedAt: now, label: 'Created from template', html }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    setDrafts(prev => [draft, ...prev]);
+    setDraftSetup(null);
+    openDraft(draft.id);
+  };
+
+  const openDraft = (draftId: string | null) => {
+    draftStreamRef.current?.abort();
+    setActiveDraftId(draftId);
+    setViewingVersionId(null);
+    setDraftSuggestion('');
+    setDraftInstruction('');
+  };
+
+  const updateDraft = (draftId: string, changes: Partial<Draft>) => {
+    setDrafts(prev => prev.map(d => d.id === draftId ? { ...d, ...changes, updatedAt: new Date().toISOString() } : d));
+  };
+
+  const handleDraftInput = () => {
+    if (activeDraftId && draftEditorRef.current && !viewingVersionId) updateDraft(activeDraftId, { html: draftEditorRef.current.innerHTML });
+  };
+
+  const rememberDraftSelection = () => {
+    const selection = document.getSelection();
+    if (selection?.rangeCount && draftEditorRef.current?.contains(selection.getRangeAt(0).commonAncestorContainer)) {
+      draftSelectionRef.current = selection.getRangeAt(0).cloneRange();
+    }
+  };
+
+  const formatDraft = (command: string, value?: string) => {
+    draftEditorRef.current?.focus();
+    document.execCommand(command, false, value);
+    handleDraftInput();
+  };
+
+  // Live fields are patched in place so the rest of the user's edits are untouched.
+  const handleDraftFieldChange = (draft: Draft, field: TemplateField, value: string) => {
+    const display = formatFieldValue(field, value);
+    draftEditorRef.current?.querySelectorAll<HTMLElement>(`[data-field="${field.key}"]`).forEach(el => {
+      el.textContent = display || `[${field.label}]`;
+      el.classList.toggle('empty', !display);
+    });
+    updateDraft(draft.id, { values: { ...draft.values, [field.key]: value }, ...(draftEditorRef.current && { html: draftEditorRef.current.innerHTML }) });
+  };
+
+  const saveDraftVersion = (draft: Draft, label: string) => {
+    const html = draftEditorRef.current && !viewingVersionId ? draftEditorRef.current.innerHTML : draft.html;
+    if (draft.versions[0]?.html === html) return;
+    const version: DraftVersion = { id: Math.random().toString(36).substr(2, 9), savedAt: new Date().toISOString(), label, html };
+    updateDraft(draft.id, { html, versions: [version, ...draft.versions].slice(0, MAX_DRAFT_VERSIONS) });
+  };
+
+  const handleSaveDraftVersion = (draft: Draft) => {
+    const label = window.prompt("Label for this version (optional):", '');
+    if (label === null) return;
+    saveDraftVersion(draft, label.trim() || 'Saved manually');
+  };
+
+  const restoreDraftVersion = (draft: Draft, version: DraftVersion) => {
+    if (!window.confirm(`Restore the version from ${new Date(version.savedAt).toLocaleString()}? The current text is kept in the history.`)) return;
+    const current: DraftVersion = { id: Math.random().toString(36).substr(2, 9), savedAt: new Date().toISOString(), label: 'Before restoring an earlier version', html: draft.html };
+    const versions = draft.versions[0]?.html === draft.html ? draft.versions : [current, ...draft.versions].slice(0, MAX_DRAFT_VERSIONS);
+    updateDraft(draft.id, { html: version.html, versions });
+    setViewingVersionId(null);
+    setDraftEditorRevision(r => r + 1);
+  };
+
+  const handleDraftSection = async (draft: Draft) => {
+    if (!draftInstruction.trim()) return;
+    const template = DRAFT_TEMPLATES.find(t => t.id === draft.templateId);
+    const matter = matters.find(m => m.id === draft.matterId);
+    const facts = managedDocs.find(d => d.id === draft.sourceDocId)?.keyFacts;
+    const selected = draftSelectionRef.current?.toString().trim() || '';
+    const fieldLines = (template?.fields || []).filter(f => draft.values[f.key]?.trim()).map(f => `- ${f.label}: ${formatFieldValue(f, draft.values[f.key])}`);
+    const context = [
+      `Document: ${template?.name || 'Legal document'} titled "${draft.title}"`,
+      matter && `Matter: ${matter.name}${[matter.clientName && `client ${matter.clientName}`, matter.opposingParty && `opposing party ${matter.opposingParty}`, matter.court && `before ${matter.court}`, matter.caseNumber].filter(Boolean).map(x => `, ${x}`).join('')}`,
+      fieldLines.length > 0 && `Details filled in:\n${fieldLines.join('\n')}`,
+      facts && `Facts extracted from the source document:\n${JSON.stringify({ parties: facts.parties, keyDates: facts.keyDates, obligations: facts.obligations, amounts: facts.amounts, governingLaw: facts.governingLaw })}`,
+      `Current draft:\n${(draftEditorRef.current?.innerText || '').slice(0, 15000)}`,
+      selected && `The passage to rewrite is:\n${selected}`,
+      `Instruction: ${draftInstruction.trim()}`,
+    ].filter(Boolean).join('\n\n');
+
+    try {
+      const ai = prepareForApiCall();
+      setIsDraftingSection(true);
+      setDraftSuggestion('');
+      const controller = new AbortController();
+      draftStreamRef.current = controller;
+      const result = await consumeStream(ai.stream('draft', {
+        contents: { parts: [{ text: context }] },
+        config: {
+          systemInstruction: "You are Juris, a senior Indian advocate drafting pleadings, notices and applications. Write only the passage requested, in formal Indian court drafting style, ready to paste into the document: numbered paragraphs where the document uses them, no headings unless asked, no commentary before or after. Use only facts given in the context; where a fact is missing, insert a bracketed placeholder such as [date of agreement]. For events on or after 1 July 2024 cite the BNS, BNSS and BSA rather than the IPC, CrPC and Evidence Act.",
+        },
+      }), controller.signal, setDraftSuggestion);
+      if (!result.text && !result.stopped) setDraftSuggestion('No text could be drafted.');
+    } catch (error) {
+      console.error("Drafting error:", error);
+      setDraftSuggestion("An error occurred while drafting this section.");
+    } finally {
+      draftStreamRef.current = null;
+      setIsDraftingSection(false);
+    }
+  };
+
+  // Replaces the remembered selection (or inserts at the caret); without one the text is appended.
+  const insertDraftSuggestion = (draft: Draft) => {
+    const editor = draftEditorRef.current;
+    if (!editor || !draftSuggestion) return;
+    saveDraftVersion(draft, 'Before inserting AI-drafted text');
+    editor.focus();
+    const selection = document.getSelection();
+    const range = draftSelectionRef.current;
+    if (selection && range) {
+      selection.removeAllRanges();
+      selection.addRange(range);
+      document.execCommand('insertHTML', false, renderMarkdown(draftSuggestion));
+    } else {
+      editor.insertAdjacentHTML('beforeend', renderMarkdown(draftSuggestion));
+    }
+    handleDraftInput();
+    setDraftSuggestion('');
+    setDraftInstruction('');
+  };
+
+  const handleExportDraft = async (draft: Draft, format: 'docx' | 'pdf') => {
+    const html = draftEditorRef.current && !viewingVersionId ? draftEditorRef.current.innerHTML : draft.html;
+    const blanks = new DOMParser().parseFromString(html, 'text/html').querySelectorAll('.draft-field.empty, mark').length;
+    if (blanks > 0 && !window.confirm(`${blanks} ${blanks === 1 ? 'placeholder is' : 'placeholders are'} still blank. Export anyway?`)) return;
+    if (format === 'pdf') {
+      printHtml(html, draft.title);
+      return;
+    }
+    try {
+      downloadBlob(await Packer.toBlob(htmlToDocx(html)), draftFileName(draft, 'docx'));
+    } catch (error) {
+      console.error("Draft export error:", error);
+      alert("The draft could not be exported.");
+    }
+  };
+
+  const handleDeleteDraft = (draft: Draft) => {
+    if (!window.confirm(`Delete the draft "${draft.title}" and its version history?`)) return;
+    setDrafts(prev => prev.filter(d => d.id !== draft.id));
+    if (activeDraftId === draft.id) openDraft(null);
+  };
+
+  const handlePrintDoc = () => {
+    if (docViewerFrameRef.current?.contentWindow) {
+      docViewerFrameRef.current.contentWindow.focus();
+      docViewerFrameRef.current.contentWindow.print();
+    }
+  };
+
+  // Images have no text to redact, so with redaction on they would be withheld and the vision model would see nothing.
+  const isImageWithheld = !!selectedFile?.type.startsWith('image/') && redactionSettings.enabled;
+
+  // Shared by sending and previewing, so the preview shows exactly what a send would.
+  const buildChatRequest = async (history: Message[], attachments: Map<string, File>, contextSummary: string | undefined, isImageAnalysis: boolean) => ({
+    feature: (isImageAnalysis ? 'vision' : 'research') as ModelFeature,
+    contents: await buildConversationContents(history, attachments, contextSummary),
+    config: {
+      systemInstruction: isImageAnalysis ? instructionFor(modelSettings, 'vision') : `${instructionFor(modelSettings, 'research')}\n\n${describeResearchProfile(activeProfile)}`,
+      tools: isImageAnalysis ? [] : [{ googleSearch: {} }],
+    },
+  });
+
+  const handlePreviewChat = async () => {
+    if (!userInput.trim() && !selectedFile) return;
+    const currentSession = sessionHistory.find(s => s.id === currentSessionId);
+    const pending: Message = { id: 'preview', role: 'user', text: userInput, fileName: selectedFile?.name };
+    setIsPreviewingChat(true);
+    await attachmentsLoadRef.current;
+    const attachments = new Map(attachmentsRef.current);
+    if (selectedFile) attachments.set(pending.id, selectedFile);
+    try {
+      const params = await buildChatRequest([...messages, pending].slice(currentSession?.summarizedCount || 0), attachments, currentSession?.contextSummary, !!selectedFile?.type.startsWith('image/'));
+      const { request } = await prepareRequest('stream', modelFor(modelSettings.models, params.feature), params.contents, params.config.systemInstruction, buildRedactor());
+      setChatPreview(request);
+    } catch (error) {
+      console.error("Request preview error:", error);
+      alert("The request preview could not be built.");
+    } finally {
+      setIsPreviewingChat(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!userInput.trim() && !selectedFile) || isLoading || isImageWithheld) return;
+    
+    let ai;
+    try {
+        ai = prepareForApiCall();
+    } catch (error) {
+        // This should not be reached if isConfigured state is handled correctly, but it's a good safeguard.
+        console.error(error);
+        setIsConfigured(false);
+        return;
+    }
+    
+    if (isListening) recognitionRef.current?.stop();
+
+    const currentInput = userInput;
+    const currentFile = selectedFile;
+    let fileURL = '';
+
+    if (currentFile) fileURL = URL.createObjectURL(currentFile);
+    
+    const userMessage: Message = { 
+        id: Math.random().toString(36).substr(2, 9),
+        role: 'user', 
+        text: currentInput,
+        fileName: currentFile?.name,
+        fileURL: fileURL || undefined,
+        fileStatus: currentFile ? 'Analyzing...' : undefined
+    };
+    
+    const newMessages = [...messages, userMessage];
+    setMessages(newMessages);
+    setIsLoading(true);
+    setUserInput('');
+    setSelectedFile(null);
+
+    if (currentFile) {
+      attachmentsRef.current.set(userMessage.id, currentFile);
+      withVaultKey(key => saveVaultFile(attachmentVaultId(userMessage.id), currentFile, key))
+        .catch(error => {
+          console.error("Attachment save error:", error);
+          if (isQuotaError(error)) alert(`Browser storage is full. ${currentFile.name} can be used in this session but will not be sent with follow-up questions after a reload.`);
+        })
+        .finally(refreshStorageUsage);
+    }
+
+    const epoch = chatSessionEpochRef.current;
+    const isStillOpen = () => chatSessionEpochRef.current === epoch;
+    const sessionId = currentSessionId || Math.random().toString(36).substr(2, 9);
+    const controller = new AbortController();
+    chatStreamRef.current = controller;
+
+    try {
+        const currentSession = sessionHistory.find(s => s.id === currentSessionId);
+        let contextSummary = currentSession?.contextSummary;
+        await attachmentsLoadRef.current;
+        let summarizedCount = currentSession?.summarizedCount || 0;
+
+        // Fold older turns into a running summary once the live history outgrows the budget.
+        const cutoff = newMessages.length - RECENT_MESSAGES_TO_KEEP;
+        if (cutoff > summarizedCount && estimateHistorySize(newMessages.slice(summarizedCount), attachmentsRef.current) > HISTORY_CHAR_BUDGET) {
+            setLoadingMessage('Condensing earlier discussion...');
+            // Turns are only folded away once they are in the summary; if condensing fails the full history is sent.
+            try {
+                contextSummary = await summarizeConversation(ai, contextSummary, newMessages.slice(summarizedCount, cutoff));
+                summarizedCount = cutoff;
+            } catch (error) {
+                console.error("Context summarization error:", error);
+            }
+            setLoadingMessage('Juris is thinking...');
+        }
+
+        const request = await buildChatRequest(newMessages.slice(summarizedCount), attachmentsRef.current, contextSummary, !!currentFile?.type.startsWith('image/'));
+
+        const modelMessageId = Math.random().toString(36).substr(2, 9);
+
+        const result = await consumeStream(ai.stream(request.feature, request), controller.signal, text => isStillOpen() && setMessages(prev => prev.some(m => m.id === modelMessageId)
+            ? prev.map(m => m.id === modelMessageId ? { ...m, text } : m)
+            : [...prev, { id: modelMessageId, role: 'model', text }]));
+
+      const groundingChunks: Citation[] = result.groundingMetadata?.groundingChunks || [];
+      // A response stopped before its first token leaves only the question in the transcript.
+      const modelMessage: Message = {
+        id: modelMessageId,
+        role: 'model',
+        text: result.text,
+        isStopped: result.stopped || undefined,
+        citations: groundingChunks,
+        groundingSupports: resolveCitationSupports(result.text, result.groundingMetadata?.groundingSupports),
+      };
+      const finalMessages = result.text ? [...newMessages, modelMessage] : newMessages;
+      if (isStillOpen()) setMessages(finalMessages);
+
+      const sessionTitle = currentInput ? currentInput.substring(0, 40) + '...' : (currentFile?.name || 'Legal Consultation');
+      const updatedSession: Session = {
+        id: sessionId,
+        title: sessionTitle,
+        date: new Date().toLocaleString(),
+        messages: finalMessages,
+        citations: dedupeCitations([...(currentSession?.citations || []), ...groundingChunks]),
+        contextSummary,
+        summarizedCount,
+        matterId: currentSession ? currentSession.matterId : (activeMatterId || undefined),
+        profileId: activeProfileId
+      };
+
+      if (currentSessionId) {
+        setSessionHistory(prev => prev.map(s => s.id === sessionId ? updatedSession : s));
+      } else {
+        setSessionHistory(prev => [updatedSession, ...prev]);
+        if (isStillOpen()) setCurrentSessionId(sessionId);
+      }
+      if (isStillOpen()) setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, fileStatus: 'Ready for Review' } : m));
+
+    } catch (error) {
+      console.error(error);
+      if (isStillOpen()) {
+        setMessages(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), role: 'model', text: "An error occurred. This could be due to an invalid API key or a network issue. Please check your key in the settings and try again.", isError: true }]);
+        setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, fileStatus: 'Error' } : m));
+      }
+    } finally {
+      if (chatStreamRef.current === controller) chatStreamRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleStopResponse = () => {
+    chatStreamRef.current?.abort();
+  };
+  
+  const handleTabClick = (tab: 'research' | 'documents' | 'deadlines' | 'drafting' | 'history') => {
+    setActiveTab(tab);
+    setIsMobileNavVisible(false);
+  }
+
+  const filteredDocs = useMemo(() => managedDocs.filter(doc => isInActiveMatter(doc.matterId) && doc.name.toLowerCase().includes(docSearchTerm.toLowerCase())), [managedDocs, docSearchTerm, activeMatterId]);
+  const contentResults = useMemo(() => {
+    if (!docSearchTerm.trim()) return [];
+    const scopedDocs = new Map(managedDocs.filter(d => isInActiveMatter(d.matterId)).map(d => [d.id, d]));
+    const indexes = [...scopedDocs.keys()].flatMap(id => docTexts.has(id) ? [buildSearchIndex(docTexts.get(id)!)] : []);
+    const grouped = new Map<string, SearchHit[]>();
+    for (const hit of searchVault(indexes, docSearchTerm)) grouped.set(hit.docId, [...(grouped.get(hit.docId) || []), hit]);
+    return [...grouped].map(([docId, hits]) => ({ doc: scopedDocs.get(docId)!, hits }));
+  }, [docTexts, docSearchTerm, managedDocs, activeMatterId]);
+  const vaultScope = useMemo(() => {
+    const scopedDocs = managedDocs.filter(d => isInActiveMatter(d.matterId));
+    const indexed = scopedDocs.filter(d => docTexts.has(d.id)).length;
+    return { indexed, unindexed: scopedDocs.length - indexed };
+  }, [managedDocs, docTexts, activeMatterId]);
+  const factsDoc = managedDocs.find(d => d.id === factsDocId);
+  // The test works on a copy of the placeholder map so trying text out does not assign placeholders.
+  const redactionTest = useMemo(() => {
+    const hits: RedactionHit[] = [];
+    const map: PlaceholderMap = JSON.parse(JSON.stringify(placeholderMapRef.current));
+    return { text: redactText(redactionTestText, sensitiveTerms, redactionSettings, map, hits), hits };
+  }, [redactionTestText, sensitiveTerms, redactionSettings]);
+  const reviewDoc = managedDocs.find(d => d.id === reviewDocId);
+  const reviewRows = useMemo(() => {
+    const clauses = (reviewDoc?.riskReview?.clauses || []).filter(c => reviewRiskFilter === 'all' || riskLevel(c.score) === reviewRiskFilter);
+    const compare = (a: ClauseReview, b: ClauseReview) =>
+      reviewSort.key === 'score' ? a.score - b.score
+      : reviewSort.key === 'category' ? CLAUSE_CATEGORY_LABELS[a.category].localeCompare(CLAUSE_CATEGORY_LABELS[b.category])
+      : 0;
+    return [...clauses].sort((a, b) => (compare(a, b) || a.index - b.index) * (reviewSort.descending ? -1 : 1));
+  }, [reviewDoc, reviewSort, reviewRiskFilter]);
+  const today = toIsoDate(new Date());
+  const overdueCount = useMemo(() => managedDocs
+    .filter(d => isInActiveMatter(d.matterId))
+    .reduce((count, d) => count + d.tasks.filter(t => isOverdue(t, today)).length, 0), [managedDocs, activeMatterId, today]);
+  const deadlineDocs = useMemo(() => managedDocs.filter(d => isInActiveMatter(d.matterId) && (!deadlineMatterFilter || d.matterId === deadlineMatterFilter)), [managedDocs, activeMatterId, deadlineMatterFilter]);
+  const deadlineEntries = useMemo(() => deadlineDocs
+    .filter(doc => !deadlineDocFilter || doc.id === deadlineDocFilter)
+    .flatMap(doc => doc.tasks.filter(task => task.deadline && (showCompletedDeadlines || !task.isComplete)).map(task => ({ task, doc })))
+    .sort((a, b) => a.task.deadline.localeCompare(b.task.deadline)), [deadlineDocs, deadlineDocFilter, showCompletedDeadlines]);
+  const deadlinesByDate = useMemo(() => {
+    const byDate = new Map<string, DeadlineEntry[]>();
+    deadlineEntries.forEach(entry => byDate.set(entry.task.deadline, [...(byDate.get(entry.task.deadline) || []), entry]));
+    return byDate;
+  }, [deadlineEntries]);
+  const taskAlerts = useMemo(() => {
+    const open = managedDocs
+      .filter(doc => isInActiveMatter(doc.matterId))
+      .flatMap(doc => doc.tasks.filter(task => task.deadline && !task.isComplete).map(task => ({ task, doc })))
+      .sort((a, b) => a.task.deadline.localeCompare(b.task.deadline));
+    return {
+      missed: open.filter(e => e.task.deadline < today),
+      upcoming: open.filter(e => e.task.deadline >= today && e.task.deadline <= addDays(today, 6)),
+    };
+  }, [managedDocs, activeMatterId, today]);
+  const unreadNotificationCount = notifications.filter(n => !n.isRead).length;
+  const taskDoc = managingTasksForDoc && (managedDocs.find(d => d.id === managingTasksForDoc.id) || managingTasksForDoc);
+  const undatedTaskCount = deadlineDocs.filter(doc => !deadlineDocFilter || doc.id === deadlineDocFilter).reduce((n, doc) => n + doc.tasks.filter(t => !t.deadline && !t.isComplete).length, 0);
+  const activeComparison = comparisons.find(c => c.id === activeComparisonId);
+  const activeChangeLabels = useMemo(() => changeLabels(activeComparison?.changes || []), [activeComparison]);
+  const comparableDocs = useMemo(() => managedDocs.filter(d => isInActiveMatter(d.matterId) && docTexts.has(d.id)), [managedDocs, docTexts, activeMatterId]);
+  const listedComparisons = useMemo(() => {
+    const { baseDocId, revisedDocId } = comparisonSelection;
+    const scopedIds = new Set(managedDocs.filter(d => isInActiveMatter(d.matterId)).map(d => d.id));
+    return comparisons.filter(c => [c.baseDocId, c.revisedDocId].some(id => baseDocId || revisedDocId ? id === baseDocId || id === revisedDocId : scopedIds.has(id)));
+  }, [comparisons, comparisonSelection, managedDocs, activeMatterId]);
+  const citedVaultLabels = useMemo(() => new Set([...vaultAnswer.matchAll(/\[S(\d+)\]/g)].map(m => Number(m[1]))), [vaultAnswer]);
+  const scopedSessions = useMemo(() => sessionHistory.filter(s => isInActiveMatter(s.matterId)), [sessionHistory, activeMatterId]);
+  const scopedDrafts = useMemo(() => drafts.filter(d => isInActiveMatter(d.matterId)), [drafts, activeMatterId]);
+  const activeDraft = drafts.find(d => d.id === activeDraftId);
+  const activeDraftTemplate = DRAFT_TEMPLATES.find(t => t.id === activeDraft?.templateId);
+  const viewingVersion = activeDraft?.versions.find(v => v.id === viewingVersionId);
+  const draftSetupTemplate = DRAFT_TEMPLATES.find(t => t.id === draftSetup?.templateId);
+  const authorityIndex = useMemo(
+    () => buildAuthorityIndex(scopedSessions, managedDocs.filter(d => isInActiveMatter(d.matterId)), docTexts),
+    [scopedSessions, managedDocs, docTexts, activeMatterId]
+  );
+  const listedAuthorities = useMemo(() => {
+    if (!authorityFocus || authorityFocus.key) return [];
+    const docText = authorityFocus.docId && docTexts.get(authorityFocus.docId);
+    const keys = docText ? extractAuthorities(docText.pages.join('\n')).map(a => a.key) : [...authorityIndex.keys()];
+    return keys.flatMap(key => authorityIndex.get(key) || [])
+      .sort((a, b) => a.authority.kind.localeCompare(b.authority.kind) || b.occurrences.length - a.occurrences.length || a.authority.key.localeCompare(b.authority.key));
+  }, [authorityFocus, authorityIndex, docTexts]);
+  const focusedAuthority = authorityFocus?.key ? authorityIndex.get(authorityFocus.key) : undefined;
+  const repealedCodeWarnings = useMemo(() => {
+    const warnings = new Map<string, NonNullable<ReturnType<typeof repealedCodeWarning>>>();
+    messages.forEach((m, i) => {
+      if (m.role !== 'model' || !m.text || m.isError) return;
+      const question = messages.slice(0, i).reverse().find(prev => prev.role === 'user');
+      const warning = repealedCodeWarning(question?.text || '', m.text);
+      if (warning) warnings.set(m.id, warning);
+    });
+    return warnings;
+  }, [messages]);
+  // Repealed-code sections in vault documents (FIRs, charge sheets) with their new equivalents.
+  const docOldCodeSections = useMemo(() => new Map([...docTexts.values()].map(docText => [
+    docText.id,
+    extractAuthorities(docText.pages.join('\n')).filter(a => isRepealedCode(a.act) && findEquivalent(a.act!, a.section!)),
+  ])), [docTexts]);
+  const concordanceRows = useMemo(() => {
+    const query = concordanceQuery.trim().toLowerCase();
+    const rows = CODE_CONCORDANCES[concordanceCode].rows;
+    if (!query) return rows;
+    // A bare number matches section numbers on either side; anything else searches the subjects.
+    return /^\d/.test(query)
+      ? rows.filter(([oldSection, newSection]) => [oldSection, newSection].some(section => section.toLowerCase() === query || baseSection(section).toLowerCase() === query))
+      : rows.filter(([, , subject]) => subject.toLowerCase().includes(query));
+  }, [concordanceCode, concordanceQuery]);
+  const legalIndexLookup = useMemo(() => buildLegalIndexLookup(legalSources), [legalSources]);
+  const focusedVerification = useMemo(() => {
+    const occurrence = focusedAuthority?.occurrences.find(o => o.source === 'session') || focusedAuthority?.occurrences[0];
+    return focusedAuthority && occurrence ? verifyAuthority(focusedAuthority.authority, occurrence.snippet.before, legalIndexLookup) : null;
+  }, [focusedAuthority, legalIndexLookup]);
+
+  const limitationRule = LIMITATION_RULES.find(r => r.id === limitationRuleId) || LIMITATION_RULES[0];
+  const limitationResult = useMemo(
+    () => ISO_DATE.test(limitationInput.startDate) ? computeLimitation(limitationRule, limitationInput, courtCalendar) : null,
+    [limitationRule, limitationInput, courtCalendar]
+  );
+  const limitationCourtDaysLeft = limitationResult && limitationResult.lastDate >= today ? countCourtDays(today, limitationResult.lastDate, courtCalendar) : null;
+
+  return (
+    <div className="juris-container">
+      <style>{`
+        /* --- Main App Styles --- */
+        .juris-container { display: flex; height: 100vh; width: 100vw; background-color: var(--bg-light); color: var(--text-main); position: relative; overflow: hidden; }
+        
+        .sidebar { width: 280px; background: linear-gradient(180deg, #2c3e50 0%, #34495e 100%); color: #ECF0F1; display: flex; flex-direction: column; flex-shrink: 0; box-shadow: var(--shadow-md); z-index: 100;}
+        .logo-section { padding: 2rem 1.5rem; border-bottom: 1px solid rgba(212, 175, 55, 0.2); }
+        .logo-placeholder { display: flex; align-items: center; gap: 0.75rem; }
+        .logo-symbol { font-size: 2rem; background: linear-gradient(45deg, var(--brand-gold), #FFF); -webkit-background-clip: text; -webkit-text-fill-color: transparent; font-family: var(--font-serif); }
+        .logo-brand { font-family: var(--font-serif); font-weight: 700; letter-spacing: 0.05em; font-size: 1.4rem; color: white; }
+        
+        .nav-list { flex: 1; padding: 1.5rem 1rem; }
+        .nav-link { display: flex; align-items: center; gap: 0.75rem; padding: 0.85rem 1rem; border-radius: 0.5rem; color: #BDC3C7; transition: 0.2s; cursor: pointer; margin-bottom: 0.5rem; font-size: 0.95rem; }
+        .nav-link:hover { background: #34495e; color: white; }
+        .nav-link.active { background: var(--brand-gold); color: var(--brand-navy); font-weight: 600; box-shadow: 0 4px 12px rgba(212, 175, 55, 0.3); }
+
+        .sidebar-actions { padding: 0 1rem 1.5rem; }
+        .clear-btn { width: 100%; display: flex; align-items: center; gap: 0.5rem; padding: 0.75rem 1rem; border-radius: 0.5rem; color: #FC8181; border: 1px solid rgba(252, 129, 129, 0.2); background: transparent; cursor: pointer; transition: 0.2s; font-size: 0.9rem; margin-top: 0.5rem; }
+        .clear-btn:hover { background: rgba(252, 129, 129, 0.1); border-color: #FC8181; }
+
+        .sidebar-btn { width: 100%; display: flex; align-items: center; gap: 0.5rem; padding: 0.75rem 1rem; border-radius: 0.5rem; color: #BDC3C7; border: 1px solid rgba(189, 195, 199, 0.2); background: transparent; cursor: pointer; transition: 0.2s; font-size: 0.9rem; margin-top: 0.5rem; }
+        .sidebar-btn:hover { background: rgba(255, 255, 255, 0.05); border-color: #BDC3C7; color: white; }
+        .sidebar-btn:disabled { opacity: 0.6; cursor: wait; }
+
+        .new-chat-btn { margin: 1.5rem; border: 1px solid var(--brand-gold); color: var(--brand-gold); padding: 0.75rem; border-radius: 0.5rem; text-align: center; display: flex; align-items: center; justify-content: center; gap: 0.5rem; cursor: pointer; transition: 0.2s; font-weight: 600; font-size: 0.9rem; background: transparent; }
+        .new-chat-btn:hover { background: rgba(212, 175, 55, 0.1); }
+
+        .matter-switcher { padding: 0 1.5rem; }
+        .matter-switcher label { display: flex; align-items: center; gap: 0.4rem; font-size: 0.7rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; color: #95A5A6; margin-bottom: 0.4rem; }
+        .matter-switcher select { width: 100%; padding: 0.6rem 0.75rem; border-radius: 0.5rem; border: 1px solid rgba(212, 175, 55, 0.3); background: rgba(0, 0, 0, 0.15); color: #ECF0F1; font-size: 0.85rem; cursor: pointer; }
+        .matter-switcher select option { color: var(--text-main); }
+        .matter-details { font-size: 0.7rem; color: #BDC3C7; margin-top: 0.4rem; line-height: 1.4; }
+        .matter-select { border: 1px solid var(--border-color); border-radius: 4px; background: white; font-size: 0.7rem; color: #4A5568; padding: 0.1rem 0.25rem; max-width: 12rem; }
+        .matter-list { padding: 1rem 1.5rem; }
+        .matter-row { display: flex; align-items: center; justify-content: space-between; gap: 1rem; padding: 0.75rem 0; border-bottom: 1px solid var(--border-color); }
+        .matter-row small { display: block; color: #718096; font-size: 0.75rem; }
+        .matter-form { padding: 1rem 1.5rem 1.5rem; display: grid; grid-template-columns: 1fr 1fr; gap: 0.75rem; }
+        .matter-form label { display: grid; gap: 0.25rem; font-size: 0.75rem; font-weight: 600; color: #4A5568; }
+        .matter-form input { padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; font-size: 0.85rem; }
+        .matter-form .full-width { grid-column: 1 / -1; }
+
+        .main-content { flex: 1; display: flex; flex-direction: column; overflow: hidden; position: relative; }
+        .view-header { height: 4.5rem; background: rgba(255,255,255,0.8); backdrop-filter: blur(8px); border-bottom: 1px solid var(--border-color); display: flex; align-items: center; justify-content: space-between; padding: 0 2rem; z-index: 5; }
+        .view-header h2 { font-family: var(--font-serif); font-size: 1.25rem; color: var(--brand-navy); margin: 0; }
+
+        .chat-area { flex: 1; overflow-y: auto; padding: 2.5rem 2rem; background: linear-gradient(to bottom, #F8F9FA, #FFFFFF); }
+        .msg-wrap { max-width: 52rem; margin: 0 auto 2.5rem; display: flex; gap: 1.25rem; }
+        .msg-wrap.user { flex-direction: row-reverse; }
+        .avatar { width: 2.5rem; height: 2.5rem; border-radius: 0.5rem; display: flex; align-items: center; justify-content: center; flex-shrink: 0; }
+        .avatar.model { background: white; color: var(--brand-navy); border: 1px solid var(--border-color); }
+        .avatar.user { background: var(--brand-gold); color: var(--brand-navy); font-weight: 700; font-size: 0.8rem; }
+        .bubble { padding: 1.25rem 1.5rem; border-radius: 0.75rem; font-size: 0.95rem; line-height: 1.6; position: relative; max-width: 85%; }
+        .user .bubble { background: var(--brand-navy); color: var(--text-light); border-top-right-radius: 0; box-shadow: var(--shadow-md); }
+        .model .bubble { background: var(--bg-main); border: 1px solid var(--border-color); border-top-left-radius: 0; box-shadow: var(--shadow-sm); }
+        
+        .input-bar { padding: 1.5rem 2rem; background: rgba(255,255,255,0.7); backdrop-filter: blur(10px); border-top: 1px solid var(--border-color); }
+        .input-box-wrapper { max-width: 52rem; margin: 0 auto; position: relative; }
+        .input-textarea { width: 100%; border: 1px solid var(--border-color); border-radius: 1rem; padding: 1rem 7.5rem 1rem 1.25rem; font-size: 1rem; outline: none; transition: 0.2s; resize: none; min-height: 60px; }
+        .input-textarea:focus { border-color: var(--brand-gold); box-shadow: 0 0 0 4px rgba(212, 175, 55, 0.1); }
+        .input-textarea:disabled { background: #F8F9FA; cursor: not-allowed; }
+        
+        .input-actions { position: absolute; right: 0.75rem; top: 0.75rem; display: flex; gap: 0.5rem; }
+        .action-btn { padding: 0.6rem; border-radius: 0.75rem; background: transparent; border: none; cursor: pointer; color: var(--text-muted); transition: 0.2s; display: flex; align-items: center; justify-content: center; }
+        .action-btn:hover { color: var(--brand-navy); background: #F0F2F5; }
+        .action-btn:disabled { opacity: 0.5; cursor: not-allowed; }
+        .action-btn.active-mic { color: white; background: #E53E3E; animation: mic-pulse 1.5s infinite; }
+        @keyframes mic-pulse { 0% { box-shadow: 0 0 0 0 rgba(229, 62, 62, 0.4); } 70% { box-shadow: 0 0 0 10px rgba(229, 62, 62, 0); } 100% { box-shadow: 0 0 0 0 rgba(229, 62, 62, 0); } }
+
+        .send-btn { background: var(--brand-navy); color: white; border-radius: 0.75rem; padding: 0.6rem 0.8rem; border: none; cursor: pointer; transition: 0.2s; }
+        .send-btn:hover { background: #000; transform: translateY(-1px); }
+        .send-btn.stop-btn { background: #E53E3E; }
+        .send-btn.stop-btn:hover { background: #C53030; }
+        .stopped-note { font-size: 0.75rem; color: #A0AEC0; font-style: italic; margin-top: 0.5rem; }
+        
+        .config-error-bar { padding: 1rem 2rem; background: #FFF5F5; border-top: 1px solid #FED7D7; }
+        .config-error-content { max-width: 52rem; margin: 0 auto; display: flex; align-items: center; gap: 1rem; color: #C53030; font-size: 0.9rem; }
+        .config-error-content strong { color: #9B2C2C; }
+
+        .right-rail { width: 340px; border-left: 1px solid var(--border-color); background: var(--bg-main); display: flex; flex-direction: column; flex-shrink: 0; transition: margin-right 0.3s ease-in-out, transform 0.3s ease-in-out; }
+        .right-rail.hidden { margin-right: -340px; }
+        .rail-toggle-btn { position: fixed; top: 50%; right: 340px; transform: translate(50%, -50%); z-index: 20; background: white; border: 1px solid var(--border-color); width: 28px; height: 28px; border-radius: 50%; display: flex; align-items: center; justify-content: center; cursor: pointer; box-shadow: var(--shadow-sm); color: var(--text-muted); transition: right 0.3s ease-in-out, opacity 0.3s; }
+        .rail-toggle-btn:hover { color: var(--brand-navy); border-color: var(--brand-gold); }
+        .rail-toggle-btn.hidden { right: 0px; }
+
+        .rail-header { padding: 1.5rem; border-bottom: 1px solid var(--border-color); font-weight: 700; font-family: var(--font-serif); font-size: 1.1rem; color: var(--brand-navy); }
         .citation-list { flex: 1; overflow-y: auto; padding: 1.5rem; }
         .citation-card { padding: 1rem; border: 1px solid var(--border-color); border-radius: 0.75rem; margin-bottom: 1rem; transition: 0.2s; background: white; }
         .citation-card:hover { border-color: var(--brand-gold); box-shadow: var(--shadow-sm); transform: translateY(-2px); }
         .card-title { font-size: 0.85rem; font-weight: 700; margin-bottom: 0.5rem; color: var(--brand-navy); display: flex; align-items: flex-start; gap: 0.5rem; }
+        .citation-card.highlighted { border-color: var(--brand-gold); background: #FFFDF9; box-shadow: 0 0 0 3px rgba(212, 175, 55, 0.25); }
+        .official-source-tag { margin-left: auto; flex-shrink: 0; display: inline-flex; align-items: center; gap: 0.2rem; padding: 0.05rem 0.4rem; border-radius: 999px; background: #F0FFF4; color: #276749; font-size: 0.65rem; font-weight: 600; }
+        .profile-switcher { display: flex; align-items: center; gap: 0.35rem; font-size: 0.75rem; color: #4A5568; }
+        .citation-number { flex-shrink: 0; min-width: 1.25rem; height: 1.25rem; border-radius: 4px; background: var(--brand-navy); color: white; font-size: 0.65rem; display: flex; align-items: center; justify-content: center; }
+        .citation-group { margin-bottom: 1.5rem; }
+        .citation-group-label { font-size: 0.7rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; color: #718096; margin-bottom: 0.75rem; }
+        .footnote-marker { color: var(--brand-gold); font-weight: 700; font-size: 0.7rem; cursor: pointer; margin-left: 1px; }
+        .footnote-marker:hover { text-decoration: underline; }
+
+        .markdown-body { word-wrap: break-word; }
+        .markdown-body h1, .markdown-body h2, .markdown-body h3, .markdown-body h4 { font-family: var(--font-serif); color: var(--brand-navy); margin: 1.25rem 0 0.5rem; line-height: 1.3; }
+        .markdown-body h1 { font-size: 1.3rem; }
+        .markdown-body h2 { font-size: 1.15rem; }
+        .markdown-body h3 { font-size: 1.05rem; }
+        .markdown-body h4 { font-size: 0.95rem; }
+        .markdown-body p { margin: 0 0 0.75rem; }
+        .markdown-body ul, .markdown-body ol { margin: 0 0 0.75rem; padding-left: 1.5rem; }
+        .markdown-body li { margin-bottom: 0.25rem; }
+        .markdown-body strong { color: var(--brand-gold); }
+        .markdown-body a { color: #3182CE; }
+        .markdown-body blockquote { margin: 0 0 0.75rem; padding: 0.5rem 1rem; border-left: 3px solid var(--brand-gold); background: #FFFDF9; color: #4A5568; }
+        .markdown-body code { background: #F0F2F5; padding: 0.1rem 0.3rem; border-radius: 3px; font-size: 0.85em; }
+        .markdown-body pre { background: #F7FAFC; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+        .markdown-body pre code { background: none; padding: 0; }
+        .markdown-body table { border-collapse: collapse; margin: 0 0 0.75rem; font-size: 0.85rem; display: block; overflow-x: auto; }
+        .markdown-body th, .markdown-body td { border: 1px solid var(--border-color); padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+        .markdown-body th { background: #F7FAFC; color: var(--brand-navy); }
+        .markdown-body hr { border: none; border-top: 1px solid var(--border-color); margin: 1rem 0; }
+        .md-section { position: relative; }
+        .md-section > div > :first-child { margin-top: 0; }
+        .md-section > div > :last-child { margin-bottom: 0; }
+        .md-section + .md-section { margin-top: 0.75rem; }
+        .md-copy-btn { position: absolute; top: 0; right: -0.75rem; opacity: 0; background: white; border: 1px solid var(--border-color); border-radius: 4px; padding: 0.2rem; cursor: pointer; color: var(--text-muted); display: flex; transition: opacity 0.2s; }
+        .md-section:hover .md-copy-btn { opacity: 1; }
+        .md-copy-btn:hover { color: var(--brand-navy); border-color: var(--brand-gold); }
         
         .history-item { padding: 1.25rem; border: 1px solid var(--border-color); background: white; border-radius: 0.75rem; margin-bottom: 1rem; cursor: pointer; transition: 0.2s; position: relative; }
         .history-item:hover { border-color: var(--brand-gold); background: #FFFDF9; box-shadow: var(--shadow-sm); }
@@ -603,395 +6568,2333 @@ const JurisApp = () => {
         .link-style { color: var(--brand-gold); text-decoration: none; font-weight: 600; }
         .link-style:hover { text-decoration: underline; }
 
-        .mobile-nav-toggle, .mobile-citations-toggle { display: none; }
-        .mobile-overlay { display: none; }
+        .mobile-nav-toggle, .mobile-citations-toggle { display: none; }
+        .mobile-overlay { display: none; }
+
+        /* --- Additional Styles --- */
+        .header-actions { display: flex; align-items: center; gap: 1rem; }
+        .modal-overlay { position: fixed; top: 0; left: 0; width: 100%; height: 100%; background: rgba(0,0,0,0.5); display: flex; align-items: center; justify-content: center; z-index: 1000; backdrop-filter: blur(4px); }
+        .modal-content { background: white; border-radius: 0.75rem; box-shadow: var(--shadow-md); max-height: 90vh; overflow-y: auto; }
+        .modal-header { display: flex; justify-content: space-between; align-items: center; padding: 1rem 1.5rem; border-bottom: 1px solid var(--border-color); }
+        .modal-header h3 { margin: 0; font-family: var(--font-serif); color: var(--brand-navy); }
+        .close-modal { background: none; border: none; cursor: pointer; padding: 0.5rem; color: var(--text-muted); }
+        .file-status-pill { display: inline-flex; align-items: center; gap: 0.5rem; background: #F0F2F5; border-radius: 1rem; padding: 0.25rem 0.75rem; font-size: 0.75rem; margin-top: 0.75rem; }
+        .tts-button { position: absolute; bottom: 0.5rem; right: 0.5rem; background: #F0F2F5; border: none; border-radius: 50%; width: 28px; height: 28px; display: flex; align-items: center; justify-content: center; cursor: pointer; color: var(--text-muted); }
+        .tts-button:hover { background: #E2E8F0; }
+        .tts-button .playing { color: var(--brand-accent); }
+        .vault-container { padding: 2rem; overflow-y: auto; flex: 1; }
+        .nav-badge { margin-left: auto; background: #E53E3E; color: white; border-radius: 1rem; min-width: 1.25rem; padding: 0 0.35rem; font-size: 0.7rem; font-weight: 700; text-align: center; line-height: 1.25rem; }
+        .deadline-toolbar { display: flex; align-items: center; gap: 1rem; flex-wrap: wrap; margin-bottom: 1rem; }
+        .deadline-views { display: flex; border: 1px solid var(--border-color); border-radius: 0.5rem; overflow: hidden; }
+        .deadline-views button { background: white; border: none; padding: 0.45rem 0.9rem; font-size: 0.8rem; cursor: pointer; color: #4A5568; }
+        .deadline-views button + button { border-left: 1px solid var(--border-color); }
+        .deadline-views button.active { background: var(--brand-navy); color: white; }
+        .deadline-nav { display: flex; align-items: center; gap: 0.25rem; }
+        .deadline-nav strong { margin-left: 0.5rem; font-family: var(--font-serif); color: var(--brand-navy); }
+        .deadline-filters { display: flex; align-items: center; gap: 0.75rem; margin-left: auto; font-size: 0.8rem; }
+        .deadline-filters select { padding: 0.4rem; border: 1px solid var(--border-color); border-radius: 4px; font-size: 0.8rem; max-width: 12rem; }
+        .deadline-summary { display: flex; gap: 1.5rem; font-size: 0.8rem; color: #4A5568; margin-bottom: 1rem; }
+        .deadline-summary span { display: flex; align-items: center; gap: 0.35rem; }
+        .deadline-summary .overdue { color: #C53030; font-weight: 600; }
+        .calendar-grid { display: grid; grid-template-columns: repeat(7, 1fr); border: 1px solid var(--border-color); border-radius: 0.5rem; overflow: hidden; background: var(--border-color); gap: 1px; }
+        .calendar-weekday { background: #F7FAFC; padding: 0.4rem; font-size: 0.7rem; font-weight: 700; text-transform: uppercase; color: #718096; text-align: center; }
+        .calendar-day { background: white; min-height: 6.5rem; padding: 0.35rem; display: flex; flex-direction: column; gap: 0.2rem; min-width: 0; }
+        .calendar-grid.week .calendar-day { min-height: 20rem; }
+        .calendar-day.outside { background: #FAFAFA; }
+        .calendar-day.outside .calendar-date { color: #CBD5E0; }
+        .calendar-day.today { box-shadow: inset 0 0 0 2px var(--brand-gold); }
+        .calendar-date { font-size: 0.75rem; font-weight: 600; color: #4A5568; }
+        .deadline-chip { font-size: 0.7rem; padding: 0.15rem 0.35rem; border-radius: 3px; background: #EBF8FF; color: #2C5282; border-left: 3px solid #3182CE; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; cursor: pointer; }
+        .deadline-chip.overdue { background: #FFF5F5; color: #9B2C2C; border-left-color: #E53E3E; }
+        .deadline-chip.complete { background: #F7FAFC; color: #A0AEC0; border-left-color: #CBD5E0; text-decoration: line-through; }
+        .deadline-doc { font-size: 0.65rem; color: #A0AEC0; margin: 0.1rem 0 0.3rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .agenda { display: grid; gap: 1rem; }
+        .agenda-day { background: white; border: 1px solid var(--border-color); border-radius: 0.5rem; }
+        .agenda-date { padding: 0.6rem 0.75rem; font-size: 0.8rem; font-weight: 700; color: var(--brand-navy); background: #F7FAFC; border-bottom: 1px solid var(--border-color); border-radius: 0.5rem 0.5rem 0 0; }
+        .agenda-date.overdue { color: #C53030; }
+        .agenda-day .task-item:last-child { border-bottom: none; }
+        .vault-actions { display: flex; gap: 1rem; margin-bottom: 1.5rem; }
+        .search-input { width: 100%; border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 0.75rem 1rem 0.75rem 2.5rem; font-size: 0.9rem; }
+        .upload-indicator { margin-bottom: 1.5rem; }
+        .storage-meter { margin-bottom: 1.5rem; }
+        .indexing-note { display: flex; align-items: center; gap: 0.5rem; font-size: 0.75rem; color: #718096; margin-bottom: 1rem; }
+        .content-results { margin-top: 2rem; }
+        .content-results-header { font-size: 0.7rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; color: #718096; margin-bottom: 0.75rem; }
+        .content-result { background: white; border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 1rem; margin-bottom: 1rem; }
+        .content-result-title { display: flex; align-items: center; gap: 0.5rem; font-weight: 600; font-size: 0.9rem; cursor: pointer; margin-bottom: 0.5rem; }
+        .content-result-title small { font-weight: 400; color: #718096; font-size: 0.75rem; }
+        .content-snippet { display: flex; gap: 0.75rem; font-size: 0.8rem; color: #4A5568; line-height: 1.5; padding: 0.5rem; border-radius: 4px; cursor: pointer; }
+        .content-snippet:hover { background: #FFFDF9; }
+        .content-snippet mark { background: rgba(212, 175, 55, 0.35); color: inherit; padding: 0 1px; border-radius: 2px; }
+        .snippet-page { flex-shrink: 0; font-weight: 700; color: var(--brand-navy); font-size: 0.7rem; padding-top: 0.1rem; }
+        .passage-list { margin-top: 1.5rem; }
+        .passage-card { border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 0.75rem; margin-bottom: 0.5rem; cursor: pointer; transition: 0.2s; }
+        .passage-card:hover { border-color: var(--brand-gold); }
+        .passage-card.cited { border-left: 3px solid var(--brand-gold); }
+        .passage-title { display: flex; align-items: center; gap: 0.5rem; font-size: 0.8rem; font-weight: 600; color: var(--brand-navy); margin-bottom: 0.35rem; }
+        .passage-title .citation-number { min-width: 1.75rem; }
+        .passage-text { font-size: 0.75rem; color: #4A5568; line-height: 1.5; }
+        .comparison-badge { background: var(--brand-navy); }
+        .comparison-picker { display: grid; grid-template-columns: 1fr 1fr; gap: 0.75rem; }
+        .comparison-picker label { display: grid; gap: 0.25rem; font-size: 0.75rem; font-weight: 600; color: #4A5568; }
+        .comparison-panel { padding: 1rem 1.5rem 1.5rem; }
+        .comparison-toolbar { display: flex; align-items: center; gap: 0.75rem; flex-wrap: wrap; margin-bottom: 1rem; font-size: 0.8rem; }
+        .comparison-summary { flex: 1; color: #4A5568; font-weight: 600; }
+        .comparison-commentary { background: #FFFDF9; border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 1rem; margin-bottom: 1rem; font-size: 0.9rem; line-height: 1.6; }
+        .redline { border: 1px solid var(--border-color); border-radius: 0.5rem; overflow: hidden; }
+        .redline-row { display: grid; grid-template-columns: 1fr 1fr; border-top: 1px solid var(--border-color); font-size: 0.8rem; line-height: 1.6; }
+        .redline-row.redline-head { border-top: none; background: #F7FAFC; font-weight: 700; color: var(--brand-navy); }
+        .redline-row > div { padding: 0.6rem 0.85rem; }
+        .redline-cell + .redline-cell, .redline-head > div + div { border-left: 1px solid var(--border-color); }
+        .redline-row.unchanged { color: #A0AEC0; }
+        .redline-row.moved { background: #EBF8FF; }
+        .redline-label { grid-column: 1 / -1; padding-bottom: 0 !important; font-size: 0.65rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; color: #718096; }
+        .redline del { background: #FED7D7; color: #9B2C2C; }
+        .redline ins { background: #C6F6D5; color: #22543D; text-decoration: none; }
+        .redline-note { display: block; color: #3182CE; font-size: 0.7rem; margin-top: 0.25rem; }
+        .facts-panel { padding: 1.5rem; display: grid; gap: 1.25rem; }
+        .facts-section .content-results-header { margin-bottom: 0.5rem; }
+        .facts-row { display: grid; grid-template-columns: 10rem 1fr; gap: 1rem; padding: 0.4rem 0; border-bottom: 1px solid var(--border-color); font-size: 0.85rem; }
+        .facts-row strong { color: var(--brand-navy); }
+        .facts-row small { color: #718096; }
+        .model-row { align-items: center; grid-template-columns: 14rem 1fr; }
+        .model-row input, .model-row select { padding: 0.4rem 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; font-size: 0.85rem; }
+        .model-row input { font-family: monospace; }
+        .api-key-field { display: flex; align-items: center; gap: 0.5rem; }
+        .api-key-field input { flex: 1; padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; font-size: 0.85rem; font-family: monospace; }
+        .api-key-ok { color: #276749; }
+        .temperature-field { display: flex; align-items: center; gap: 0.75rem; margin-top: 0.5rem; }
+        .temperature-field input { flex: 1; }
+        .facts-text { font-size: 0.85rem; }
+        .facts-empty { font-size: 0.8rem; color: #A0AEC0; }
+        .facts-tag { margin-left: 0.5rem; font-size: 0.65rem; font-weight: 700; text-transform: uppercase; color: #C53030; background: #FFF5F5; border-radius: 3px; padding: 0.05rem 0.3rem; }
+        .proposed-tasks { background: #FFFDF9; border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 1rem; }
+        .facts-footnote { font-size: 0.7rem; color: #A0AEC0; font-style: italic; }
+        .content-more { font-size: 0.75rem; color: #A0AEC0; padding: 0.25rem 0.5rem; }
+        .vault-alert { display: flex; align-items: center; gap: 0.75rem; padding: 0.75rem 1rem; margin-bottom: 1.5rem; background: #FFF5F5; border: 1px solid #FED7D7; border-radius: 0.5rem; color: #C53030; font-size: 0.85rem; }
+        .progress-bar { width: 100%; background: #E2E8F0; border-radius: 4px; height: 8px; overflow: hidden; }
+        .progress-fill { width: 0%; height: 100%; background: var(--brand-accent); transition: width 0.3s; }
+        .doc-list-grid { display: grid; gap: 1rem; }
+        .doc-item { display: flex; align-items: center; justify-content: space-between; background: white; padding: 1rem; border: 1px solid var(--border-color); border-radius: 0.5rem; }
+        .task-badge { position: absolute; top: -4px; right: -4px; background: #E53E3E; color: white; border-radius: 50%; width: 16px; height: 16px; font-size: 10px; display: flex; align-items: center; justify-content: center; font-weight: bold; }
+        .delete-btn { position: absolute; right: 1rem; top: 50%; transform: translateY(-50%); color: #A0AEC0; }
+        .delete-btn:hover { color: #E53E3E; }
+        .export-btn { position: absolute; right: 3.25rem; top: 50%; transform: translateY(-50%); color: #A0AEC0; border: none; background: transparent; cursor: pointer; }
+        .export-btn:hover { color: var(--brand-navy); }
+        .header-btn { display: flex; align-items: center; gap: 0.4rem; background: white; border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 0.4rem 0.75rem; font-size: 0.8rem; font-weight: 600; color: var(--brand-navy); cursor: pointer; transition: 0.2s; }
+        .header-btn:hover { border-color: var(--brand-gold); }
+        .export-options { padding: 1.5rem; display: grid; gap: 0.75rem; }
+        .export-option { display: flex; align-items: center; gap: 1rem; padding: 1rem; border: 1px solid var(--border-color); border-radius: 0.5rem; background: white; cursor: pointer; text-align: left; transition: 0.2s; }
+        .export-option:hover { border-color: var(--brand-gold); background: #FFFDF9; }
+        .export-option small { display: block; color: #718096; font-size: 0.75rem; margin-top: 0.15rem; }
+        .restore-panel { padding: 1.5rem; display: grid; gap: 1rem; font-size: 0.9rem; }
+        .authority-chips { display: flex; flex-wrap: wrap; gap: 0.35rem; margin-top: 0.75rem; }
+        .authority-chip { display: inline-flex; align-items: center; gap: 0.3rem; border: 1px solid var(--border-color); background: #F7FAFC; color: var(--brand-navy); border-radius: 1rem; padding: 0.15rem 0.6rem; font-size: 0.75rem; cursor: pointer; }
+        .authority-chip.case { border-color: rgba(212, 175, 55, 0.5); background: #FFFDF5; }
+        .authority-chip:hover { border-color: var(--brand-navy); }
+        .authority-chip span { background: var(--brand-navy); color: white; border-radius: 1rem; padding: 0 0.35rem; font-size: 0.65rem; font-weight: 700; }
+        .authority-chip.verified { border-color: #9AE6B4; }
+        .authority-chip.mismatched { border-color: #F6AD55; background: #FFFAF0; }
+        .authority-chip.not-found { border-color: #FEB2B2; background: #FFF5F5; }
+        .verification-panel { border: 1px solid var(--border-color); border-left-width: 3px; border-radius: 0.5rem; padding: 0.75rem 1rem; }
+        .verification-panel.verified { border-left-color: #38A169; }
+        .verification-panel.mismatched { border-left-color: #DD6B20; }
+        .verification-panel.not-found { border-left-color: #E53E3E; }
+        .verification-panel .content-results-header { margin-bottom: 0.35rem; }
+        .verification-text { font-size: 0.85rem; color: #2D3748; white-space: pre-wrap; line-height: 1.5; }
+        .equivalent-tag { color: #2F855A; font-weight: 600; margin-left: 0.25rem; }
+        .repealed-code-warning { display: flex; gap: 0.5rem; align-items: flex-start; margin-top: 0.75rem; padding: 0.6rem 0.75rem; border-radius: 0.5rem; background: #FFFAF0; border: 1px solid #F6AD55; color: #7B341E; font-size: 0.8rem; line-height: 1.5; }
+        .repealed-code-warning svg { flex-shrink: 0; margin-top: 0.1rem; }
+        .doc-old-code { display: flex; flex-wrap: wrap; align-items: center; gap: 0.5rem; margin-top: 0.25rem; font-size: 0.7rem; color: #4A5568; }
+        .concordance-table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+        .concordance-table th { text-align: left; font-size: 0.7rem; text-transform: uppercase; color: #718096; padding: 0.4rem 0.5rem; border-bottom: 2px solid var(--border-color); position: sticky; top: -1.5rem; background: white; }
+        .concordance-table td { padding: 0.4rem 0.5rem; border-bottom: 1px solid var(--border-color); }
+        .concordance-table td:nth-child(-n+2) { font-weight: 600; color: var(--brand-navy); white-space: nowrap; }
+        .matter-form select, .matter-form textarea { padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; font-size: 0.85rem; font-family: inherit; background: white; }
+        .matter-form small, .draft-field-input small { font-weight: 400; color: #718096; }
+        .redaction-status { color: #276749; }
+        .redaction-status.off { color: #C05621; border-color: #FBD38D; }
+        .lock-screen { position: fixed; inset: 0; z-index: 2000; background: var(--brand-navy); display: flex; align-items: center; justify-content: center; padding: 1rem; }
+        .lock-card { background: white; border-radius: 0.75rem; box-shadow: var(--shadow-md); padding: 2rem; width: 100%; max-width: 380px; display: grid; gap: 0.75rem; justify-items: center; text-align: center; }
+        .lock-card h2 { margin: 0; font-family: var(--font-serif); color: var(--brand-navy); }
+        .lock-card p { margin: 0; font-size: 0.85rem; color: #4A5568; }
+        .lock-card input { width: 100%; box-sizing: border-box; padding: 0.6rem; border: 1px solid var(--border-color); border-radius: 4px; font-size: 0.9rem; }
+        .lock-card .primary-btn, .lock-card .vault-alert { width: 100%; box-sizing: border-box; margin: 0; text-align: left; }
+        .outgoing-request { display: grid; gap: 0.75rem; }
+        .outgoing-part { border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 0.5rem 0.75rem; font-size: 0.8rem; background: #F7FAFC; }
+        .outgoing-part.note { background: #FFFAF0; color: #744210; }
+        .outgoing-part small { display: block; font-size: 0.65rem; font-weight: 700; text-transform: uppercase; color: #718096; margin-bottom: 0.25rem; }
+        .outgoing-part pre, pre.outgoing-part { margin: 0; white-space: pre-wrap; word-break: break-word; font-family: inherit; max-height: 320px; overflow-y: auto; }
+        .review-toolbar { display: flex; flex-wrap: wrap; align-items: flex-end; gap: 0.5rem; }
+        .review-toolbar label { display: grid; gap: 0.25rem; flex: 1; min-width: 200px; font-size: 0.75rem; font-weight: 600; color: #4A5568; }
+        .review-toolbar .primary-btn { padding: 0.5rem 1rem; }
+        .review-summary { display: flex; flex-wrap: wrap; align-items: center; gap: 0.5rem; }
+        .review-missing { display: flex; align-items: center; gap: 0.35rem; font-size: 0.8rem; color: #C05621; }
+        .risk-badge { display: inline-block; min-width: 1.75rem; text-align: center; padding: 0.1rem 0.5rem; border-radius: 999px; font-size: 0.75rem; font-weight: 700; text-transform: capitalize; }
+        .risk-badge.high { background: #FED7D7; color: #9B2C2C; }
+        .risk-badge.medium { background: #FEEBC8; color: #9C4221; }
+        .risk-badge.low { background: #C6F6D5; color: #22543D; }
+        .review-table { width: 100%; border-collapse: collapse; font-size: 0.8rem; }
+        .review-table th { text-align: left; font-size: 0.7rem; text-transform: uppercase; color: #718096; padding: 0.4rem 0.5rem; border-bottom: 2px solid var(--border-color); position: sticky; top: -1.5rem; background: white; white-space: nowrap; }
+        .review-table th.sortable { cursor: pointer; }
+        .review-table th svg { vertical-align: middle; margin-left: 0.2rem; }
+        .review-table td { padding: 0.5rem; border-bottom: 1px solid var(--border-color); vertical-align: top; }
+        .review-table tbody tr { cursor: pointer; }
+        .review-table tbody tr:hover, .review-table tr.expanded { background: #F7FAFC; }
+        .review-table td:nth-child(6) { font-family: 'Times New Roman', serif; font-size: 0.85rem; }
+        .review-clause-text td { background: #FFFDF7; white-space: pre-wrap; color: #4A5568; cursor: default; }
+        .playbook-position { border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 0.75rem 1rem; display: grid; gap: 0.5rem; }
+        .playbook-position-header { display: flex; align-items: center; gap: 0.75rem; }
+        .playbook-position-header strong { flex: 1; color: var(--brand-navy); }
+        .template-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 1rem; margin-top: 0.75rem; }
+        .template-card { display: grid; gap: 0.4rem; align-content: start; padding: 1rem; background: white; border: 1px solid var(--border-color); border-radius: 0.75rem; cursor: pointer; transition: 0.2s; }
+        .template-card:hover { border-color: var(--brand-gold); }
+        .template-card strong { color: var(--brand-navy); font-size: 0.9rem; }
+        .template-card p { margin: 0; font-size: 0.75rem; color: #718096; }
+        .draft-workspace { flex: 1; display: flex; overflow: hidden; }
+        .draft-main { flex: 1; display: flex; flex-direction: column; min-width: 0; }
+        .draft-titlebar { display: flex; align-items: center; gap: 0.5rem; padding: 0.75rem 1.5rem; border-bottom: 1px solid var(--border-color); background: white; }
+        .draft-title { flex: 1; min-width: 0; border: none; font-size: 1rem; font-weight: 700; color: var(--brand-navy); padding: 0.25rem; }
+        .draft-toolbar { display: flex; flex-wrap: wrap; align-items: center; gap: 0.15rem; padding: 0.4rem 1.5rem; border-bottom: 1px solid var(--border-color); background: #FAFAFA; }
+        .draft-toolbar button { min-width: 30px; height: 30px; display: flex; align-items: center; justify-content: center; border: none; background: transparent; border-radius: 4px; cursor: pointer; color: var(--brand-navy); font-weight: 700; }
+        .draft-toolbar button:hover { background: #EDF2F7; }
+        .draft-toolbar span { width: 1px; height: 20px; background: var(--border-color); margin: 0 0.35rem; }
+        .draft-version-banner { display: flex; align-items: center; gap: 0.75rem; padding: 0.5rem 1.5rem; background: #FFFAF0; border-bottom: 1px solid #FBD38D; font-size: 0.8rem; color: #744210; }
+        .draft-scroll { flex: 1; overflow-y: auto; padding: 2rem; background: #EDF2F7; }
+        .draft-page { max-width: 800px; min-height: 1000px; margin: 0 auto; padding: 3.5rem 4rem; background: white; box-shadow: 0 1px 4px rgba(0,0,0,0.1); font-family: 'Times New Roman', serif; font-size: 12pt; line-height: 1.6; color: #1A202C; outline: none; }
+        .draft-page.readonly { background: #FFFDF7; }
+        .draft-page h2 { font-size: 13pt; text-align: center; }
+        .draft-field { background: #EBF8FF; border-radius: 2px; padding: 0 2px; }
+        .draft-field.empty, .draft-page mark { background: #FEFCBF; color: #975A16; }
+        .draft-side { width: 320px; flex-shrink: 0; overflow-y: auto; border-left: 1px solid var(--border-color); background: white; padding: 1rem 1.25rem; }
+        .draft-side section { display: grid; gap: 0.6rem; padding-bottom: 1.25rem; margin-bottom: 1.25rem; border-bottom: 1px solid var(--border-color); }
+        .draft-side h4 { margin: 0; font-size: 0.7rem; text-transform: uppercase; letter-spacing: 0.05em; color: #718096; }
+        .draft-field-input { display: grid; gap: 0.25rem; font-size: 0.75rem; font-weight: 600; color: #4A5568; }
+        .draft-field-input input { padding: 0.4rem 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; font-size: 0.8rem; }
+        .draft-instruction { min-height: 80px; padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; font-family: inherit; font-size: 0.8rem; resize: vertical; }
+        .draft-suggestion { max-height: 300px; overflow-y: auto; padding: 0.75rem; background: #F7FAFC; border: 1px solid var(--border-color); border-radius: 4px; font-size: 0.8rem; }
+        .draft-version { display: grid; gap: 0.1rem; padding: 0.5rem 0.6rem; border-radius: 4px; cursor: pointer; font-size: 0.8rem; }
+        .draft-version:hover { background: #F7FAFC; }
+        .draft-version.active { background: #FFFAF0; box-shadow: inset 3px 0 0 var(--brand-gold); }
+        .draft-version strong { color: var(--brand-navy); font-weight: 600; }
+        .draft-version small { color: #718096; font-size: 0.7rem; }
+        @media (max-width: 1024px) { .draft-workspace { flex-direction: column; overflow-y: auto; } .draft-side { width: auto; border-left: none; border-top: 1px solid var(--border-color); } .draft-page { padding: 2rem; } }
+        .authority-panel { padding: 1.5rem; display: grid; gap: 1.25rem; max-height: 70vh; overflow-y: auto; }
+        .authority-panel .snippet-page { width: 9rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .limitation-panel { padding: 1.5rem; display: grid; gap: 1.25rem; }
+        .limitation-panel select, .holiday-form input { padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; font-size: 0.85rem; }
+        .limitation-result { border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 1rem; display: grid; gap: 0.75rem; }
+        .limitation-date { display: grid; gap: 0.15rem; }
+        .limitation-date small { font-size: 0.7rem; font-weight: 700; text-transform: uppercase; color: #718096; }
+        .limitation-date strong { font-family: var(--font-serif); font-size: 1.4rem; color: var(--brand-navy); }
+        .limitation-date span { font-size: 0.8rem; color: #4A5568; }
+        .limitation-date span.overdue { color: #C53030; font-weight: 600; }
+        .limitation-steps { margin: 0; padding-left: 1.25rem; font-size: 0.85rem; line-height: 1.6; color: #2D3748; }
+        .limitation-actions { display: flex; gap: 0.5rem; flex-wrap: wrap; align-items: center; justify-content: flex-end; }
+        .weekday-options { display: flex; gap: 1rem; flex-wrap: wrap; }
+        .holiday-form { display: grid; grid-template-columns: 1fr auto auto auto; gap: 0.5rem; margin-bottom: 0.75rem; }
+        .restore-summary { background: #F7FAFC; border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 0.75rem 1rem; font-size: 0.85rem; color: #4A5568; line-height: 1.6; }
+        .restore-option { display: flex; align-items: flex-start; gap: 0.5rem; cursor: pointer; }
+        .restore-option small { display: block; color: #718096; font-size: 0.75rem; }
+        .restore-panel select { width: 100%; padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; }
+        .primary-btn { background: var(--brand-navy); color: white; border: none; padding: 0.75rem 1rem; border-radius: 4px; cursor: pointer; display: flex; align-items: center; justify-content: center; gap: 0.5rem; }
+        .primary-btn:disabled { opacity: 0.6; cursor: not-allowed; }
+        .citation-meta { font-size: 0.7rem; color: #718096; word-break: break-all; margin-bottom: 0.5rem; }
+        .citation-actions { display: flex; gap: 0.5rem; margin-top: 0.75rem; }
+        .cite-action-btn { background: none; border: 1px solid var(--border-color); color: #4A5568; font-size: 0.7rem; padding: 0.25rem 0.5rem; border-radius: 4px; cursor: pointer; display: flex; align-items: center; gap: 0.25rem; text-decoration: none; }
+        .doc-viewer { display: flex; flex-direction: column; width: 80vw; max-width: 1200px; height: 90vh; }
+        .viewer-controls { display: flex; gap: 0.5rem; }
+        .viewer-controls button { background: #F0F2F5; border: none; padding: 0.5rem; border-radius: 4px; cursor: pointer; }
+        .doc-viewer iframe { flex: 1; border: none; }
+        .task-manager { padding: 1.5rem; }
+        .task-list { max-height: 40vh; overflow-y: auto; margin-bottom: 1rem; }
+        .task-item { display: flex; align-items: center; gap: 0.75rem; padding: 0.75rem; border-bottom: 1px solid var(--border-color); }
+        .task-item.complete p { text-decoration: line-through; color: #A0AEC0; }
+        .task-details { flex: 1; }
+        .task-details p { margin: 0; font-size: 0.9rem; }
+        .task-details small { color: #718096; }
+        .delete-task { color: #A0AEC0; background: none; border: none; cursor: pointer; }
+        .task-settings { display: flex; align-items: center; flex-wrap: wrap; gap: 0.3rem; margin-top: 0.35rem; }
+        .reminder-chip { border: 1px solid var(--border-color); background: white; color: #A0AEC0; border-radius: 1rem; font-size: 0.65rem; padding: 0.1rem 0.45rem; cursor: pointer; }
+        .reminder-chip.active { border-color: var(--brand-gold); background: #FFFDF9; color: var(--brand-navy); font-weight: 600; }
+        .snoozed-note { display: flex; align-items: center; gap: 0.25rem; }
+        .add-task-form select { padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; }
+        .notification-centre { padding: 1.5rem; display: grid; gap: 1.25rem; }
+        .alert-row { display: flex; align-items: center; gap: 0.75rem; padding: 0.6rem 0.5rem; border-bottom: 1px solid var(--border-color); font-size: 0.85rem; }
+        .alert-row small { color: #718096; font-size: 0.7rem; }
+        .alert-row.overdue .alert-title { color: #C53030; }
+        .alert-row.read { opacity: 0.65; }
+        .alert-title { font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .add-task-form { display: flex; gap: 0.5rem; }
+        .add-task-form input { flex: 1; padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; }
+        .add-task-form button { background: var(--brand-navy); color: white; border: none; padding: 0.5rem 1rem; border-radius: 4px; cursor: pointer; }
+        .analysis-manager { padding: 1.5rem; }
+        .analysis-manager textarea { width: 100%; padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; margin-bottom: 1rem; }
+        .analysis-manager button { background: var(--brand-navy); color: white; border: none; padding: 0.75rem 1rem; border-radius: 4px; cursor: pointer; width: 100%; display: flex; align-items: center; justify-content: center; gap: 0.5rem; }
+        .analysis-result { margin-top: 1.5rem; }
+        .analysis-manager button.stop-stream-btn, .stop-stream-btn { background: #E53E3E; color: white; border: none; padding: 0.5rem 1rem; border-radius: 4px; cursor: pointer; display: flex; align-items: center; justify-content: center; gap: 0.5rem; }
+        .animate-spin { animation: spin 1s linear infinite; }
+        @keyframes spin { from { transform: rotate(0deg); } to { transform: rotate(360deg); } }
+
+        /* --- Mobile Responsive Styles --- */
+        @media (max-width: 768px) {
+            .sidebar { position: fixed; top: 0; left: 0; height: 100%; transform: translateX(-100%); transition: transform 0.3s ease-in-out; }
+            .sidebar.mobile-visible { transform: translateX(0); }
+            
+            .right-rail { position: fixed; top: 0; right: 0; height: 100%; width: 300px; transform: translateX(100%); z-index: 100; border-left: none; box-shadow: var(--shadow-md); margin-right: 0 !important; }
+            .right-rail.hidden { transform: translateX(100%); }
+            .right-rail.mobile-visible { transform: translateX(0); }
+            
+            .rail-toggle-btn { display: none; }
+
+            .view-header { padding: 0 1rem; }
+            .view-header h2 { font-size: 1.1rem; }
+            .mobile-nav-toggle, .mobile-citations-toggle { display: block; background: none; border: none; cursor: pointer; color: var(--brand-navy); padding: 0.5rem; }
+
+            .header-actions { display: none; } /* Hide desktop AI Engine text */
+            .deadline-filters { margin-left: 0; flex-wrap: wrap; }
+            .calendar-day { min-height: 4rem; }
+            .deadline-chip { font-size: 0.6rem; }
+            .main-content { transition: filter 0.3s ease-in-out; }
+
+            .mobile-overlay { position: fixed; top: 0; left: 0; width: 100%; height: 100%; background: rgba(0,0,0,0.4); z-index: 99; display: block; }
+
+            .chat-area { padding: 1.5rem 1rem; }
+            .bubble { max-width: 90%; font-size: 0.9rem; }
+            .input-bar { padding: 1rem; }
+            .input-textarea { padding-right: 6.5rem; }
+            
+            .modal-content { width: calc(100vw - 2rem); max-height: calc(100vh - 2rem); }
+            .doc-viewer { width: 100vw; height: 100vh; max-width: 100%; max-height: 100%; border-radius: 0; }
+        }
+      `}</style>
+      
+      {workspaceStatus === 'locked' && workspaceLock && (
+        <div className="lock-screen">
+          <form className="lock-card" onSubmit={handleUnlock}>
+            <LockKeyhole size={36} color="var(--brand-gold)" />
+            <h2>Workspace locked</h2>
+            <p>Enter your passphrase to decrypt your research, documents and tasks.</p>
+            <input type="password" value={unlockPassphrase} onChange={e => setUnlockPassphrase(e.target.value)} placeholder="Passphrase" autoComplete="current-password" autoFocus />
+            {unlockError && <div className="vault-alert"><AlertTriangle size={18} /> {unlockError}</div>}
+            <button type="submit" className="primary-btn" disabled={!unlockPassphrase || isUnlocking}>
+              {isUnlocking ? <><Loader2 size={16} className="animate-spin" /> Unlocking...</> : <><KeyRound size={16} /> Unlock</>}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {(isMobileNavVisible || (isCitationRailVisible && window.innerWidth <= 768)) && <div className="mobile-overlay" onClick={() => { setIsMobileNavVisible(false); setIsCitationRailVisible(false); }}></div>}
+
+      {/* SIDEBAR */}
+      <aside className={`sidebar ${isMobileNavVisible ? 'mobile-visible' : ''}`}>
+        <div className="logo-section" onClick={startNewSession} style={{cursor: 'pointer'}}>
+          <div className="logo-placeholder">
+            <span className="logo-symbol">⚜</span>
+            <span className="logo-brand">JURIS</span>
+          </div>
+        </div>
+        
+        <div className="new-chat-btn" onClick={startNewSession}>
+          <Plus size={18} /> New Research Session
+        </div>
+
+        <div className="matter-switcher">
+          <label><Briefcase size={14} /> Matter</label>
+          <select value={activeMatterId || ''} onChange={e => e.target.value === '__manage' ? setIsManagingMatters(true) : handleSelectMatter(e.target.value || null)}>
+            <option value="">All matters</option>
+            {matters.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+            <option value="__manage">Manage matters...</option>
+          </select>
+          {activeMatter && (
+            <div className="matter-details">
+              {[activeMatter.clientName, activeMatter.caseNumber, activeMatter.court].filter(Boolean).join(' • ') || 'No matter details recorded'}
+            </div>
+          )}
+        </div>
+
+        <nav className="nav-list">
+          <div className={`nav-link ${activeTab === 'research' ? 'active' : ''}`} onClick={() => handleTabClick('research')}>
+            <Search size={20} /> Legal Research
+          </div>
+          <div className={`nav-link ${activeTab === 'documents' ? 'active' : ''}`} onClick={() => handleTabClick('documents')}>
+            <FileText size={20} /> Document Vault
+          </div>
+          <div className={`nav-link ${activeTab === 'deadlines' ? 'active' : ''}`} onClick={() => handleTabClick('deadlines')}>
+            <CalendarDays size={20} /> Deadlines
+            {overdueCount > 0 && <span className="nav-badge" title={`${overdueCount} overdue`}>{overdueCount}</span>}
+          </div>
+          <div className={`nav-link ${activeTab === 'drafting' ? 'active' : ''}`} onClick={() => handleTabClick('drafting')}>
+            <PenLine size={20} /> Drafting
+          </div>
+          <div className={`nav-link ${activeTab === 'history' ? 'active' : ''}`} onClick={() => handleTabClick('history')}>
+            <History size={20} /> Research History
+          </div>
+        </nav>
+
+        <div className="sidebar-actions">
+          <button className="clear-btn" onClick={handleClearChat}>
+            <Trash2 size={18} /> Clear Conversation
+          </button>
+          <button className="sidebar-btn" onClick={openLimitationCalculator}>
+            <Calculator size={18} /> Limitation Calculator
+          </button>
+          <button className="sidebar-btn" onClick={() => { setIsConcordanceOpen(true); setIsMobileNavVisible(false); }}>
+            <ArrowLeftRight size={18} /> IPC / BNS Concordance
+          </button>
+          <button className="sidebar-btn" onClick={() => { setLegalIndexError(''); setIsLegalIndexOpen(true); }}>
+            <Landmark size={18} /> Legal Index
+          </button>
+          <button className="sidebar-btn" onClick={() => { setPrivacyTab('settings'); setIsPrivacyOpen(true); setIsMobileNavVisible(false); }}>
+            <Lock size={18} /> Privacy & Redaction
+          </button>
+          <button className="sidebar-btn" onClick={() => openSettings()}>
+            <Settings size={18} /> Settings
+          </button>
+          <button className="sidebar-btn" onClick={openLockSettings}>
+            <KeyRound size={18} /> Workspace Lock
+          </button>
+          <button className="sidebar-btn" onClick={handleBackupWorkspace} disabled={isBackingUp}>
+            {isBackingUp ? <Loader2 size={18} className="animate-spin" /> : <DatabaseBackup size={18} />} Back Up Workspace
+          </button>
+          <button className="sidebar-btn" onClick={() => restoreInputRef.current?.click()}>
+            <ArchiveRestore size={18} /> Restore Workspace
+          </button>
+          <input type="file" ref={restoreInputRef} style={{display: 'none'}} accept=".json,application/json" onChange={handleRestoreFileChosen} />
+        </div>
+
+        <div style={{padding: '1.5rem', borderTop: '1px solid rgba(212, 175, 55, 0.2)'}}>
+          <div style={{display: 'flex', alignItems: 'center', justifyContent: 'space-between'}}>
+              <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem'}}>
+                <div style={{width: '2.5rem', height: '2.5rem', borderRadius: '4px', background: 'var(--brand-gold)', color: 'var(--brand-navy)', display: 'flex', alignItems: 'center', justifyContent: 'center', fontWeight: 'bold', fontSize: '0.9rem'}}>LP</div>
+                <div>
+                  <div style={{fontSize: '0.85rem', fontWeight: 600}}>Legal Professional</div>
+                  <div style={{fontSize: '0.7rem', color: '#BDC3C7'}}>AI-Powered Consultant</div>
+                </div>
+              </div>
+          </div>
+        </div>
+      </aside>
+
+      {/* MAIN */}
+      <main className="main-content">
+        <header className="view-header">
+           <button className="mobile-nav-toggle" onClick={() => setIsMobileNavVisible(true)}><Menu size={24} /></button>
+          <h2>
+            {activeTab === 'research' && 'Legal Analysis'}
+            {activeTab === 'documents' && 'Document Management'}
+            {activeTab === 'deadlines' && 'Deadlines & Calendar'}
+            {activeTab === 'drafting' && 'Drafting'}
+            {activeTab === 'history' && 'Archived Research'}
+          </h2>
+          <div className="header-actions">
+            {activeMatter && (
+              <div style={{fontSize: '0.75rem', color: '#4A5568', display: 'flex', alignItems: 'center', gap: '0.35rem'}}>
+                <Briefcase size={14} /> {activeMatter.name}
+              </div>
+            )}
+            <label className="profile-switcher" title={[activeProfile.jurisdiction, activeProfile.practiceArea].filter(Boolean).join(' • ')}>
+              <Landmark size={14} />
+              <select className="matter-select" value={activeProfile.id} onChange={e => e.target.value === '__manage' ? setIsManagingProfiles(true) : handleSelectProfile(e.target.value)}>
+                {researchProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                <option value="__manage">Manage profiles...</option>
+              </select>
+            </label>
+            <button className="header-btn" style={{ position: 'relative' }} onClick={() => setIsNotificationCentreOpen(true)} title="Notifications">
+              <Bell size={16} />
+              {unreadNotificationCount > 0 && <span className="task-badge">{unreadNotificationCount > 9 ? '9+' : unreadNotificationCount}</span>}
+            </button>
+            {activeTab === 'research' && messages.length > 0 && (
+              <button className="header-btn" onClick={() => setExportingSession(getActiveSession())}>
+                <FileDown size={16} /> Export Memo
+              </button>
+            )}
+            {workspaceLock && (
+              <button className="header-btn" onClick={lockWorkspace} title="Lock the workspace now">
+                <LockKeyhole size={14} /> Lock
+              </button>
+            )}
+            <button className={`header-btn redaction-status ${redactionSettings.enabled ? '' : 'off'}`} onClick={() => { setPrivacyTab('settings'); setIsPrivacyOpen(true); }} title="Privacy & Redaction">
+              {redactionSettings.enabled ? <ShieldCheck size={14} /> : <ShieldAlert size={14} />} {redactionSettings.enabled ? 'Redaction on' : 'Redaction off'}
+            </button>
+            <div style={{fontSize: '0.75rem', color: 'var(--brand-accent)', fontWeight: 600, display: 'flex', alignItems: 'center', gap: '0.5rem'}}>
+              <div style={{width: 8, height: 8, borderRadius: '50%', background: 'var(--brand-accent)'}}></div> {activeProvider === 'mock' ? 'OFFLINE MOCK ENGINE' : 'AI ENGINE ACTIVE'}
+            </div>
+          </div>
+          <button className="mobile-citations-toggle" onClick={() => setIsCitationRailVisible(true)}><Library size={24} /></button>
+        </header>
+        {workspaceLoadError && (
+          <div className="config-error-bar" style={{ borderTop: 'none', borderBottom: '1px solid #FED7D7' }}>
+            <div className="config-error-content">
+              <AlertTriangle size={32} />
+              <div><strong>Workspace Not Loaded</strong><br />{workspaceLoadError}</div>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'research' ? (
+          <>
+            <div className="chat-area">
+              {messages.length === 0 && !isLoading && (
+                <div style={{display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', height: '100%', opacity: 0.3, textAlign: 'center', padding: '1rem'}}>
+                    <Scale size={80} strokeWidth={1} style={{marginBottom: '1rem'}} />
+                    <p style={{fontFamily: 'var(--font-serif)', fontSize: '1.25rem'}}>High-Fidelity AI Jurisprudence Engine</p>
+                </div>
+              )}
+              {messages.map((m) => (
+                <div key={m.id} className={`msg-wrap ${m.role}`}>
+                  <div className={`avatar ${m.role}`}>
+                    {m.role === 'model' ? <Scale size={18} /> : 'LP'}
+                  </div>
+                  <div className="bubble">
+                    {m.role === 'model' ? (
+                      <div style={{paddingBottom: '1rem'}}>
+                        <MarkdownContent text={m.text} citations={m.citations} supports={m.groundingSupports} onCitationClick={index => focusCitation(m.id, index)} />
+                        {repealedCodeWarnings.has(m.id) && !(isLoading && m.id === messages[messages.length - 1].id) && (
+                          <div className="repealed-code-warning">
+                            <AlertTriangle size={16} />
+                            <span>
+                              This answer concerns events on or after {formatDeadline(repealedCodeWarnings.get(m.id)!.date)}, but cites only the repealed codes. From 1 July 2024 the BNS, BNSS and BSA apply:{' '}
+                              {repealedCodeWarnings.get(m.id)!.repealed.map(a => {
+                                const equivalent = findEquivalent(a.act!, a.section!);
+                                return `${a.label} → ${equivalent ? `s. ${equivalent.section} ${equivalent.short}` : 'no direct equivalent'}`;
+                              }).join('; ')}.
+                            </span>
+                          </div>
+                        )}
+                        {!(isLoading && m.id === messages[messages.length - 1].id) && <AuthorityChips text={m.text} index={authorityIndex} lookup={legalIndexLookup} onSelect={key => setAuthorityFocus({ key })} />}
+                      </div>
+                    ) : (
+                      <div style={{whiteSpace: 'pre-wrap'}}>{m.text}</div>
+                    )}
+                    {m.isStopped && <div className="stopped-note">Response stopped before completion.</div>}
+                    {m.fileName && (
+                      <div className="file-status-pill">
+                        {m.fileURL?.includes('blob:http') && m.fileName.match(/\.(jpeg|jpg|png|gif)$/i) ? <FileImage size={14} /> : <FileText size={14} />}
+                        <span style={{fontWeight: 600}}>{m.fileName}</span>
+                        <span className={`status-${m.fileStatus?.split(' ')[0]}`}>{m.fileStatus}</span>
+                      </div>
+                    )}
+                    {m.role === 'model' && m.text && (
+                        <button className="tts-button" onClick={() => handleTextToSpeech(m)} title="Read Aloud">
+                            <AudioWaveform size={16} className={playingAudioId === m.id ? 'playing' : ''} />
+                        </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {isLoading && messages[messages.length - 1]?.role !== 'model' && (
+                <div className="msg-wrap model">
+                  <div className="avatar model"><Scale size={18} /></div>
+                  <div className="bubble" style={{display: 'flex', alignItems: 'center', gap: '1rem'}}>
+                    <Loader2 size={16} className="animate-spin" /> {loadingMessage}
+                  </div>
+                </div>
+              )}
+              <div ref={chatEndRef} />
+            </div>
+            
+            {!isConfigured && (
+              <div className="config-error-bar">
+                <div className="config-error-content">
+                  <AlertTriangle size={32} />
+                  <div>
+                    <strong>Configuration Error: API Key Not Found</strong>
+                    <br />
+                    Enter your Gemini API key in <a href="#" onClick={e => { e.preventDefault(); openSettings('key'); }}>Settings</a>, or set <strong>GEMINI_API_KEY</strong> in Netlify site settings under <strong>Environment variables</strong> and <strong>Snippet Injection</strong>, then redeploy.
+                  </div>
+                </div>
+              </div>
+            )}
+            <div className="input-bar">
+              <div className="input-box-wrapper">
+                {selectedFile && (
+                  <div style={{background: '#F7FAFC', border: '1px solid #E2E8F0', padding: '0.5rem 1rem', borderRadius: '0.75rem', marginBottom: '0.75rem', fontSize: '0.85rem', display: 'flex', alignItems: 'center', justifyContent: 'space-between'}}>
+                    <div style={{display: 'flex', alignItems: 'center', gap: '0.5rem'}}>
+                      {selectedFile.type.startsWith('image/') ? <FileImage size={16} color="var(--brand-navy)" /> : <FileText size={16} color="var(--brand-navy)" />}
+                      <span style={{fontWeight: 600}}>{selectedFile.name}</span> 
+                      {isImageWithheld
+                        ? <span style={{color: '#C53030'}}>Not sent while redaction is on: images cannot be checked for personal data. <a href="#" onClick={e => { e.preventDefault(); setPrivacyTab('settings'); setIsPrivacyOpen(true); }}>Privacy settings</a></span>
+                        : <span style={{color: '#718096', fontStyle: 'italic'}}>(Analysis Pending)</span>}
+                    </div>
+                    <X size={16} style={{cursor: 'pointer'}} onClick={() => setSelectedFile(null)} />
+                  </div>
+                )}
+                <form onSubmit={handleSubmit}>
+                  <input type="file" ref={fileInputRef} onChange={handleFileChange} style={{display: 'none'}} accept="image/*,application/pdf,text/*,.docx,.doc" />
+                  <textarea 
+                    ref={textareaRef}
+                    value={userInput}
+                    onChange={(e) => setUserInput(e.target.value)}
+                    onKeyDown={e => { if(e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmit(e); } }}
+                    className="input-textarea"
+                    placeholder={!isConfigured ? "Application is not configured." : (isListening ? "Listening..." : "Analyze a case, statute, or upload a document/image...")}
+                    rows={1}
+                    disabled={!isConfigured}
+                  />
+                  <div className="input-actions">
+                    <button type="button" className="action-btn" title="Attach Document/Image" onClick={() => fileInputRef.current?.click()} disabled={!isConfigured}>
+                      <Paperclip size={20} />
+                    </button>
+                    <button type="button" className="action-btn" title="Preview what will be sent" onClick={handlePreviewChat} disabled={(!userInput.trim() && !selectedFile) || isPreviewingChat}>
+                      {isPreviewingChat ? <Loader2 size={20} className="animate-spin" /> : <Eye size={20} />}
+                    </button>
+                    <button type="button" className={`action-btn ${isListening ? 'active-mic' : ''}`} title="Voice Command" onClick={toggleListening} disabled={!isConfigured}>
+                      {isListening ? <Mic size={20} /> : <MicOff size={20} />}
+                    </button>
+                    {isLoading ? (
+                      <button type="button" className="send-btn stop-btn" title="Stop Response" onClick={handleStopResponse}>
+                        <StopCircle size={18} />
+                      </button>
+                    ) : (
+                      <button type="submit" className="send-btn" disabled={(!userInput.trim() && !selectedFile) || !isConfigured || isImageWithheld} title={isImageWithheld ? 'Turn redaction off to analyse images' : undefined}>
+                        <Send size={18} />
+                      </button>
+                    )}
+                  </div>
+                </form>
+              </div>
+            </div>
+          </>
+        ) : activeTab === 'documents' ? (
+          <div className="vault-container">
+            <div className="vault-actions">
+              <div style={{position: 'relative', flex: 1}}>
+                <Search size={18} style={{position: 'absolute', left: '0.85rem', top: '0.85rem', color: '#A0AEC0'}} />
+                <input type="text" className="search-input" placeholder='Search names and contents — "exact phrase", AND, OR, NOT' value={docSearchTerm} onChange={e => setDocSearchTerm(e.target.value)} />
+              </div>
+              <button className="new-chat-btn" style={{margin: 0, padding: '0 1.5rem'}} onClick={() => setIsAskingVault(true)} disabled={!isConfigured}>
+                <FileSearch size={16} /> Ask the Vault
+              </button>
+              <button className="new-chat-btn" style={{margin: 0, padding: '0 1.5rem'}} onClick={() => setAuthorityFocus({})}>
+                <Landmark size={16} /> Authorities
+              </button>
+              <button className="new-chat-btn" style={{margin: 0, padding: '0 1.5rem'}} onClick={() => docUploadInputRef.current?.click()}>
+                <Download size={16} /> Batch Upload
+              </button>
+              <input type="file" multiple ref={docUploadInputRef} style={{display: 'none'}} onChange={handleMultiFileUpload} />
+            </div>
+
+            {storageUsage && storageUsage.quota > 0 && (
+              <div className="storage-meter">
+                <div style={{display: 'flex', justifyContent: 'space-between', fontSize: '0.75rem', color: '#718096', marginBottom: '0.35rem'}}>
+                  <span>Vault storage</span>
+                  <span>{formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used</span>
+                </div>
+                <div className="progress-bar">
+                  <div className="progress-fill" style={{width: `${Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)}%`}}></div>
+                </div>
+              </div>
+            )}
 
-        /* --- Additional Styles --- */
-        .header-actions { display: flex; align-items: center; gap: 1rem; }
-        .modal-overlay { position: fixed; top: 0; left: 0; width: 100%; height: 100%; background: rgba(0,0,0,0.5); display: flex; align-items: center; justify-content: center; z-index: 1000; backdrop-filter: blur(4px); }
-        .modal-content { background: white; border-radius: 0.75rem; box-shadow: var(--shadow-md); max-height: 90vh; overflow-y: auto; }
-        .modal-header { display: flex; justify-content: space-between; align-items: center; padding: 1rem 1.5rem; border-bottom: 1px solid var(--border-color); }
-        .modal-header h3 { margin: 0; font-family: var(--font-serif); color: var(--brand-navy); }
-        .close-modal { background: none; border: none; cursor: pointer; padding: 0.5rem; color: var(--text-muted); }
-        .file-status-pill { display: inline-flex; align-items: center; gap: 0.5rem; background: #F0F2F5; border-radius: 1rem; padding: 0.25rem 0.75rem; font-size: 0.75rem; margin-top: 0.75rem; }
-        .tts-button { position: absolute; bottom: 0.5rem; right: 0.5rem; background: #F0F2F5; border: none; border-radius: 50%; width: 28px; height: 28px; display: flex; align-items: center; justify-content: center; cursor: pointer; color: var(--text-muted); }
-        .tts-button:hover { background: #E2E8F0; }
-        .tts-button .playing { color: var(--brand-accent); }
-        .vault-container { padding: 2rem; overflow-y: auto; flex: 1; }
-        .vault-actions { display: flex; gap: 1rem; margin-bottom: 1.5rem; }
-        .search-input { width: 100%; border: 1px solid var(--border-color); border-radius: 0.5rem; padding: 0.75rem 1rem 0.75rem 2.5rem; font-size: 0.9rem; }
-        .upload-indicator { margin-bottom: 1.5rem; }
-        .progress-bar { width: 100%; background: #E2E8F0; border-radius: 4px; height: 8px; overflow: hidden; }
-        .progress-fill { width: 0%; height: 100%; background: var(--brand-accent); transition: width 0.3s; }
-        .doc-list-grid { display: grid; gap: 1rem; }
-        .doc-item { display: flex; align-items: center; justify-content: space-between; background: white; padding: 1rem; border: 1px solid var(--border-color); border-radius: 0.5rem; }
-        .task-badge { position: absolute; top: -4px; right: -4px; background: #E53E3E; color: white; border-radius: 50%; width: 16px; height: 16px; font-size: 10px; display: flex; align-items: center; justify-content: center; font-weight: bold; }
-        .delete-btn { position: absolute; right: 1rem; top: 50%; transform: translateY(-50%); color: #A0AEC0; }
-        .delete-btn:hover { color: #E53E3E; }
-        .citation-meta { font-size: 0.7rem; color: #718096; word-break: break-all; margin-bottom: 0.5rem; }
-        .citation-actions { display: flex; gap: 0.5rem; margin-top: 0.75rem; }
-        .cite-action-btn { background: none; border: 1px solid var(--border-color); color: #4A5568; font-size: 0.7rem; padding: 0.25rem 0.5rem; border-radius: 4px; cursor: pointer; display: flex; align-items: center; gap: 0.25rem; text-decoration: none; }
-        .doc-viewer { display: flex; flex-direction: column; width: 80vw; max-width: 1200px; height: 90vh; }
-        .viewer-controls { display: flex; gap: 0.5rem; }
-        .viewer-controls button { background: #F0F2F5; border: none; padding: 0.5rem; border-radius: 4px; cursor: pointer; }
-        .doc-viewer iframe { flex: 1; border: none; }
-        .task-manager { padding: 1.5rem; }
-        .task-list { max-height: 40vh; overflow-y: auto; margin-bottom: 1rem; }
-        .task-item { display: flex; align-items: center; gap: 0.75rem; padding: 0.75rem; border-bottom: 1px solid var(--border-color); }
-        .task-item.complete p { text-decoration: line-through; color: #A0AEC0; }
-        .task-details { flex: 1; }
-        .task-details p { margin: 0; font-size: 0.9rem; }
-        .task-details small { color: #718096; }
-        .delete-task { color: #A0AEC0; background: none; border: none; cursor: pointer; }
-        .add-task-form { display: flex; gap: 0.5rem; }
-        .add-task-form input { flex: 1; padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; }
-        .add-task-form button { background: var(--brand-navy); color: white; border: none; padding: 0.5rem 1rem; border-radius: 4px; cursor: pointer; }
-        .analysis-manager { padding: 1.5rem; }
-        .analysis-manager textarea { width: 100%; padding: 0.5rem; border: 1px solid var(--border-color); border-radius: 4px; margin-bottom: 1rem; }
-        .analysis-manager button { background: var(--brand-navy); color: white; border: none; padding: 0.75rem 1rem; border-radius: 4px; cursor: pointer; width: 100%; display: flex; align-items: center; justify-content: center; gap: 0.5rem; }
-        .analysis-result { margin-top: 1.5rem; }
-        .animate-spin { animation: spin 1s linear infinite; }
-        @keyframes spin { from { transform: rotate(0deg); } to { transform: rotate(360deg); } }
+            {vaultStorageError && (
+              <div className="vault-alert">
+                <AlertTriangle size={18} />
+                <span style={{flex: 1}}>{vaultStorageError}</span>
+                <X size={16} style={{cursor: 'pointer'}} onClick={() => setVaultStorageError('')} />
+              </div>
+            )}
 
-        /* --- Mobile Responsive Styles --- */
-        @media (max-width: 768px) {
-            .sidebar { position: fixed; top: 0; left: 0; height: 100%; transform: translateX(-100%); transition: transform 0.3s ease-in-out; }
-            .sidebar.mobile-visible { transform: translateX(0); }
-            
-            .right-rail { position: fixed; top: 0; right: 0; height: 100%; width: 300px; transform: translateX(100%); z-index: 100; border-left: none; box-shadow: var(--shadow-md); margin-right: 0 !important; }
-            .right-rail.hidden { transform: translateX(100%); }
-            .right-rail.mobile-visible { transform: translateX(0); }
-            
-            .rail-toggle-btn { display: none; }
+            {indexingDocIds.size > 0 && (
+              <div className="indexing-note">
+                <Loader2 size={14} className="animate-spin" /> Indexing text of {indexingDocIds.size} {indexingDocIds.size === 1 ? 'document' : 'documents'} for search...
+              </div>
+            )}
+
+            {isUploadingDocs && (
+              <div className="upload-indicator">
+                <div style={{display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', fontWeight: 600}}>
+                  <span>SYNCHRONIZING REPOSITORY...</span>
+                  <span>{uploadProgress}%</span>
+                </div>
+                <div className="progress-bar">
+                  <div className="progress-fill" style={{width: `${uploadProgress}%`}}></div>
+                </div>
+              </div>
+            )}
+
+            <div className="doc-list-grid">
+              {filteredDocs.map(d => {
+                const incompleteTasks = d.tasks?.filter(t => !t.isComplete).length || 0;
+                const comparisonCount = comparisons.filter(c => c.baseDocId === d.id || c.revisedDocId === d.id).length;
+                return (
+                  <div key={d.id} className="doc-item">
+                    <div style={{display: 'flex', alignItems: 'center', gap: '1rem', flex: 1}}>
+                        <div style={{padding: '0.5rem', background: '#F7FAFC', borderRadius: '4px', cursor: 'pointer'}} onClick={() => openDocAtPage(d)}>
+                            <FileText size={24} color="var(--brand-navy)" />
+                        </div>
+                        <div style={{flex: 1}}>
+                            <div style={{fontWeight: 600, fontSize: '0.9rem', cursor: 'pointer'}} onClick={() => openDocAtPage(d)}>{d.name}</div>
+                            <div style={{fontSize: '0.7rem', color: '#718096', display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap'}}>
+                              <span>{d.date} • {d.type.split('/')[1]?.toUpperCase() || 'DOCUMENT'}</span>
+                              {matters.length > 0 && (
+                                <select className="matter-select" value={d.matterId || ''} onChange={e => assignDocToMatter(d.id, e.target.value)} title="Assign to matter">
+                                  <option value="">No matter</option>
+                                  {matters.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                </select>
+                              )}
+                            </div>
+                            {!!docOldCodeSections.get(d.id)?.length && (
+                              <div className="doc-old-code">
+                                <ArrowLeftRight size={12} />
+                                {docOldCodeSections.get(d.id)!.map(a => <span key={a.key}>{a.label}<EquivalentTag authority={a} /></span>)}
+                              </div>
+                            )}
+                        </div>
+                    </div>
+                    <div style={{display: 'flex', gap: '0.5rem', alignItems: 'center'}}>
+                       <button className="action-btn" title={d.file ? "Get AI Summary" : "Re-upload to summarize"} onClick={() => handleSummarizeDocument(d)} disabled={!d.file || !isConfigured} >
+                        <BookOpenText size={18} />
+                      </button>
+                      <button className="action-btn" title={d.file ? "Analyze with Gemini" : "Re-upload to analyze"} onClick={() => setAnalyzingDoc(d)} disabled={!d.file || !isConfigured}>
+                        <Sparkles size={18} />
+                      </button>
+                      <button className="action-btn" title={d.keyFacts ? "Key Facts" : d.file ? "Extract Key Facts" : "Re-upload to extract key facts"} onClick={() => openKeyFacts(d)} disabled={!d.keyFacts && (!d.file || !isConfigured)} style={{position: 'relative'}}>
+                        <ClipboardList size={18} />
+                        {(d.keyFacts?.pendingTasks.length || 0) > 0 && <span className="task-badge comparison-badge">{d.keyFacts!.pendingTasks.length}</span>}
+                      </button>
+                      <button className="action-btn" title={d.riskReview || docTexts.has(d.id) ? "Contract Review" : "Text not available for review"} onClick={() => openContractReview(d)} disabled={!d.riskReview && !docTexts.has(d.id)}>
+                        <Gauge size={18} />
+                      </button>
+                      <button className="action-btn" title={docTexts.has(d.id) ? "Authorities Cited" : "Text not available"} onClick={() => setAuthorityFocus({ docId: d.id })} disabled={!docTexts.has(d.id)}>
+                        <Landmark size={18} />
+                      </button>
+                      <button className="action-btn" title={docTexts.has(d.id) ? "Compare Versions" : "Text not available for comparison"} onClick={() => openComparisons(d.id)} disabled={!docTexts.has(d.id) && comparisonCount === 0} style={{position: 'relative'}}>
+                        <GitCompare size={18} />
+                        {comparisonCount > 0 && <span className="task-badge comparison-badge">{comparisonCount}</span>}
+                      </button>
+                      <button className="action-btn" title="Manage Tasks" onClick={() => setManagingTasksForDoc(d)} style={{position: 'relative'}}>
+                        <ListTodo size={18} />
+                        {incompleteTasks > 0 && <span className="task-badge">{incompleteTasks}</span>}
+                      </button>
+                      <button className="action-btn" style={{color: '#FC8181'}} title="Delete" onClick={() => handleDeleteDoc(d)}><Trash2 size={18} /></button>
+                    </div>
+                  </div>
+                );
+              })}
+              {filteredDocs.length === 0 && contentResults.length === 0 && <div style={{textAlign: 'center', padding: '4rem', opacity: 0.2}}>No records found in current index.</div>}
+            </div>
+
+            {contentResults.length > 0 && (
+              <div className="content-results">
+                <div className="content-results-header">Matches in document text</div>
+                {contentResults.map(({ doc, hits }) => (
+                  <div key={doc.id} className="content-result">
+                    <div className="content-result-title" onClick={() => openDocAtPage(doc, hits[0].paginated ? hits[0].page : null)}>
+                      <FileText size={16} color="var(--brand-navy)" /> {doc.name}
+                      <small>{hits.length} {hits[0].paginated ? (hits.length === 1 ? 'page' : 'pages') : 'match'}</small>
+                    </div>
+                    {hits.slice(0, 5).map(hit => (
+                      <div key={hit.page} className="content-snippet" onClick={() => openDocAtPage(doc, hit.paginated ? hit.page : null)}>
+                        {hit.paginated && <span className="snippet-page">p. {hit.page}</span>}
+                        <span>{hit.snippet.map((part, i) => part.highlight ? <mark key={i}>{part.text}</mark> : <React.Fragment key={i}>{part.text}</React.Fragment>)}</span>
+                      </div>
+                    ))}
+                    {hits.length > 5 && <div className="content-more">and {hits.length - 5} more pages</div>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : activeTab === 'deadlines' ? (
+          <div className="vault-container">
+            <div className="deadline-toolbar">
+              <div className="deadline-views">
+                {(['month', 'week', 'agenda'] as const).map(view => (
+                  <button key={view} className={deadlineView === view ? 'active' : ''} onClick={() => setDeadlineView(view)}>{view[0].toUpperCase() + view.slice(1)}</button>
+                ))}
+              </div>
+              {deadlineView !== 'agenda' && (
+                <div className="deadline-nav">
+                  <button className="action-btn" onClick={() => moveCalendar(-1)} title="Previous"><ChevronLeft size={18} /></button>
+                  <button className="header-btn" onClick={() => setCalendarDate(today)}>Today</button>
+                  <button className="action-btn" onClick={() => moveCalendar(1)} title="Next"><ChevronRight size={18} /></button>
+                  <strong>
+                    {deadlineView === 'month'
+                      ? formatDeadline(calendarDate, { month: 'long', year: 'numeric' })
+                      : `${formatDeadline(startOfWeek(calendarDate), { day: 'numeric', month: 'short' })} – ${formatDeadline(addDays(startOfWeek(calendarDate), 6))}`}
+                  </strong>
+                </div>
+              )}
+              <div className="deadline-filters">
+                {!activeMatterId && matters.length > 0 && (
+                  <select value={deadlineMatterFilter} onChange={e => { setDeadlineMatterFilter(e.target.value); setDeadlineDocFilter(''); }}>
+                    <option value="">All matters</option>
+                    {matters.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                  </select>
+                )}
+                <select value={deadlineDocFilter} onChange={e => setDeadlineDocFilter(e.target.value)}>
+                  <option value="">All documents</option>
+                  {deadlineDocs.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+                <label className="restore-option" style={{ alignItems: 'center' }}>
+                  <input type="checkbox" checked={showCompletedDeadlines} onChange={e => setShowCompletedDeadlines(e.target.checked)} /> Completed
+                </label>
+                <button className="header-btn" onClick={handleExportDeadlines} disabled={deadlineEntries.length === 0} title="Download an .ics file for Outlook, Google Calendar or Apple Calendar">
+                  <Download size={14} /> Export .ics
+                </button>
+                <button className="header-btn" onClick={openLimitationCalculator} title="Compute a limitation period or appeal deadline">
+                  <Calculator size={14} /> Limitation
+                </button>
+              </div>
+            </div>
+
+            <div className="deadline-summary">
+              <span className={overdueCount > 0 ? 'overdue' : ''}><AlertTriangle size={14} /> {deadlineEntries.filter(e => isOverdue(e.task, today)).length} overdue</span>
+              <span><Clock size={14} /> {deadlineEntries.filter(e => !e.task.isComplete && e.task.deadline >= today && e.task.deadline <= addDays(today, 6)).length} due in the next 7 days</span>
+              {undatedTaskCount > 0 && <span>{undatedTaskCount} open {undatedTaskCount === 1 ? 'task has' : 'tasks have'} no deadline</span>}
+            </div>
+
+            {deadlineView === 'month' && (
+              <div className="calendar-grid">
+                {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map(day => <div key={day} className="calendar-weekday">{day}</div>)}
+                {monthGridDays(calendarDate).map(day => {
+                  const entries = deadlinesByDate.get(day) || [];
+                  const inMonth = day.slice(0, 7) === calendarDate.slice(0, 7);
+                  return (
+                    <div key={day} className={`calendar-day ${inMonth ? '' : 'outside'} ${day === today ? 'today' : ''}`}>
+                      <div className="calendar-date">{parseIsoDate(day).getDate()}</div>
+                      {entries.slice(0, 3).map(entry => <DeadlineChip key={entry.task.id} entry={entry} today={today} onOpen={setManagingTasksForDoc} />)}
+                      {entries.length > 3 && (
+                        <div className="content-more" style={{ cursor: 'pointer' }} onClick={() => { setCalendarDate(day); setDeadlineView('week'); }}>+{entries.length - 3} more</div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {deadlineView === 'week' && (
+              <div className="calendar-grid week">
+                {Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(calendarDate), i)).map(day => (
+                  <div key={day} className={`calendar-day ${day === today ? 'today' : ''}`}>
+                    <div className="calendar-date">{formatDeadline(day, { weekday: 'short', day: 'numeric', month: 'short' })}</div>
+                    {(deadlinesByDate.get(day) || []).map(entry => (
+                      <div key={entry.task.id}>
+                        <DeadlineChip entry={entry} today={today} onOpen={setManagingTasksForDoc} />
+                        <div className="deadline-doc">{entry.doc.name}</div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {deadlineView === 'agenda' && (
+              deadlineEntries.length === 0 ? (
+                <div style={{textAlign: 'center', padding: '6rem', opacity: 0.2}}>
+                  <CalendarDays size={64} style={{marginBottom: '1rem'}} />
+                  <p>No deadlines recorded.</p>
+                </div>
+              ) : (
+                <div className="agenda">
+                  {[...deadlinesByDate].map(([day, entries]) => (
+                    <div key={day} className="agenda-day">
+                      <div className={`agenda-date ${entries.some(e => isOverdue(e.task, today)) ? 'overdue' : ''}`}>
+                        {formatDeadline(day, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}
+                        {day === today && <span className="facts-tag" style={{ color: 'var(--brand-navy)', background: '#FFFDF9' }}>Today</span>}
+                        {entries.some(e => isOverdue(e.task, today)) && <span className="facts-tag">Overdue</span>}
+                      </div>
+                      {entries.map(({ task, doc }) => (
+                        <div key={task.id} className={`task-item ${task.isComplete ? 'complete' : ''}`}>
+                          <input type="checkbox" checked={task.isComplete} onChange={() => toggleTask(doc.id, task.id)} />
+                          <div className="task-details">
+                            <p>{task.text}</p>
+                            <small style={{ cursor: 'pointer' }} onClick={() => setManagingTasksForDoc(doc)}>
+                              {doc.name}{matterName(doc.matterId) && ` • ${matterName(doc.matterId)}`}
+                            </small>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+        ) : activeTab === 'drafting' ? (
+          activeDraft ? (
+            <div className="draft-workspace">
+              <div className="draft-main">
+                <div className="draft-titlebar">
+                  <button className="action-btn" onClick={() => openDraft(null)} title="Back to drafts"><ChevronLeft size={18} /></button>
+                  <input className="draft-title" value={activeDraft.title} onChange={e => updateDraft(activeDraft.id, { title: e.target.value })} />
+                  <button className="header-btn" onClick={() => handleSaveDraftVersion(activeDraft)} disabled={!!viewingVersion}><Save size={14} /> Save Version</button>
+                  <button className="header-btn" onClick={() => handleExportDraft(activeDraft, 'docx')}><Download size={14} /> Word</button>
+                  <button className="header-btn" onClick={() => handleExportDraft(activeDraft, 'pdf')}><FileDown size={14} /> PDF</button>
+                  <button className="action-btn" style={{ color: '#FC8181' }} onClick={() => handleDeleteDraft(activeDraft)} title="Delete draft"><Trash2 size={16} /></button>
+                </div>
+                {viewingVersion ? (
+                  <div className="draft-version-banner">
+                    <History size={16} />
+                    <span style={{ flex: 1 }}>Viewing "{viewingVersion.label}" from {new Date(viewingVersion.savedAt).toLocaleString()}</span>
+                    <button className="header-btn" onClick={() => restoreDraftVersion(activeDraft, viewingVersion)}>Restore</button>
+                    <button className="header-btn" onClick={() => setViewingVersionId(null)}>Back to Current</button>
+                  </div>
+                ) : (
+                  <div className="draft-toolbar" onMouseDown={e => e.preventDefault()}>
+                    <button onClick={() => formatDraft('undo')} title="Undo"><Undo2 size={16} /></button>
+                    <button onClick={() => formatDraft('redo')} title="Redo"><Redo2 size={16} /></button>
+                    <span />
+                    <button onClick={() => formatDraft('formatBlock', 'h2')} title="Heading"><Heading2 size={16} /></button>
+                    <button onClick={() => formatDraft('formatBlock', 'p')} title="Paragraph">¶</button>
+                    <button onClick={() => formatDraft('bold')} title="Bold"><Bold size={16} /></button>
+                    <button onClick={() => formatDraft('italic')} title="Italic"><Italic size={16} /></button>
+                    <button onClick={() => formatDraft('underline')} title="Underline"><Underline size={16} /></button>
+                    <span />
+                    <button onClick={() => formatDraft('insertUnorderedList')} title="Bulleted list"><List size={16} /></button>
+                    <button onClick={() => formatDraft('insertOrderedList')} title="Numbered list"><ListOrdered size={16} /></button>
+                    <span />
+                    <button onClick={() => formatDraft('justifyLeft')} title="Align left"><AlignLeft size={16} /></button>
+                    <button onClick={() => formatDraft('justifyCenter')} title="Centre"><AlignCenter size={16} /></button>
+                    <button onClick={() => formatDraft('justifyRight')} title="Align right"><AlignRight size={16} /></button>
+                    <button onClick={() => formatDraft('justifyFull')} title="Justify"><AlignJustify size={16} /></button>
+                  </div>
+                )}
+                <div className="draft-scroll">
+                  <div
+                    ref={draftEditorRef}
+                    className={`draft-page ${viewingVersion ? 'readonly' : ''}`}
+                    contentEditable={!viewingVersion}
+                    suppressContentEditableWarning
+                    onInput={handleDraftInput}
+                    onMouseUp={rememberDraftSelection}
+                    onKeyUp={rememberDraftSelection}
+                    onBlur={rememberDraftSelection}
+                  />
+                </div>
+              </div>
+
+              <aside className="draft-side">
+                {activeDraftTemplate && activeDraftTemplate.fields.length > 0 && (
+                  <section>
+                    <h4>Fields</h4>
+                    {activeDraftTemplate.fields.filter(f => f.type !== 'multiline').map(field => (
+                      <label key={field.key} className="draft-field-input">
+                        {field.label}
+                        <input
+                          type={field.type === 'date' ? 'date' : 'text'}
+                          inputMode={field.type === 'amount' || field.type === 'number' ? 'decimal' : undefined}
+                          value={activeDraft.values[field.key] || ''}
+                          disabled={!!viewingVersion}
+                          onChange={e => handleDraftFieldChange(activeDraft, field, e.target.value)}
+                        />
+                        {field.type === 'amount' && activeDraft.values[field.key]?.trim() && <small>{formatRupees(activeDraft.values[field.key])}</small>}
+                      </label>
+                    ))}
+                  </section>
+                )}
+
+                <section>
+                  <h4>AI Drafting</h4>
+                  <p className="facts-footnote" style={{ marginTop: 0 }}>Select a passage to rewrite it, or place the cursor where the new text should go.</p>
+                  <textarea
+                    className="draft-instruction"
+                    placeholder="e.g. Draft the grounds for bail stressing parity with the co-accused"
+                    value={draftInstruction}
+                    onChange={e => setDraftInstruction(e.target.value)}
+                    disabled={isDraftingSection || !!viewingVersion}
+                  />
+                  {isDraftingSection ? (
+                    <button className="stop-stream-btn" onClick={() => draftStreamRef.current?.abort()}><Loader2 size={16} className="animate-spin" /> Drafting... <StopCircle size={16} /> Stop</button>
+                  ) : (
+                    <button className="primary-btn" onClick={() => handleDraftSection(activeDraft)} disabled={!draftInstruction.trim() || !!viewingVersion || !isConfigured}><Sparkles size={14} /> Draft Section</button>
+                  )}
+                  {draftSuggestion && (
+                    <>
+                      <div className="draft-suggestion"><MarkdownContent text={draftSuggestion} /></div>
+                      {!isDraftingSection && (
+                        <div style={{ display: 'flex', gap: '0.5rem' }}>
+                          <button className="primary-btn" onClick={() => insertDraftSuggestion(activeDraft)} disabled={!!viewingVersion}>Insert</button>
+                          <button className="header-btn" onClick={() => setDraftSuggestion('')}>Discard</button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </section>
+
+                <section>
+                  <h4>Version History</h4>
+                  {activeDraft.versions.length === 0 && <p className="facts-empty">No saved versions yet.</p>}
+                  {activeDraft.versions.map(version => (
+                    <div key={version.id} className={`draft-version ${version.id === viewingVersionId ? 'active' : ''}`} onClick={() => setViewingVersionId(version.id === viewingVersionId ? null : version.id)}>
+                      <strong>{version.label}</strong>
+                      <small>{new Date(version.savedAt).toLocaleString()}</small>
+                    </div>
+                  ))}
+                </section>
+              </aside>
+            </div>
+          ) : (
+            <div className="vault-container">
+              <div className="content-results-header">Templates</div>
+              <div className="template-grid">
+                {DRAFT_TEMPLATES.map(template => (
+                  <div key={template.id} className="template-card" onClick={() => startDraftSetup(template.id)}>
+                    <FileText size={20} color="var(--brand-gold)" />
+                    <strong>{template.name}</strong>
+                    <p>{template.description}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="content-results-header" style={{ marginTop: '2rem' }}>{activeMatter ? `Drafts in ${activeMatter.name}` : 'Drafts'}</div>
+              {scopedDrafts.length === 0 ? (
+                <p className="facts-empty">No drafts yet. Choose a template above to start one.</p>
+              ) : (
+                scopedDrafts.map(d => (
+                  <div key={d.id} className="history-item" onClick={() => openDraft(d.id)}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+                      <PenLine size={20} color="var(--brand-gold)" />
+                      <div>
+                        <div style={{ fontWeight: 700, fontSize: '1rem', color: 'var(--brand-navy)', marginBottom: '0.25rem' }}>{d.title}</div>
+                        <div style={{ fontSize: '0.75rem', color: '#718096' }}>
+                          {DRAFT_TEMPLATES.find(t => t.id === d.templateId)?.name} • Edited {new Date(d.updatedAt).toLocaleString()} • {d.versions.length} {d.versions.length === 1 ? 'version' : 'versions'}
+                          {matterName(d.matterId) && ` • ${matterName(d.matterId)}`}
+                        </div>
+                      </div>
+                    </div>
+                    <button className="delete-btn" style={{ border: 'none', background: 'transparent', cursor: 'pointer' }} onClick={e => { e.stopPropagation(); handleDeleteDraft(d); }}><Trash2 size={18} /></button>
+                  </div>
+                ))
+              )}
+            </div>
+          )
+        ) : ( // History Tab
+          <div className="vault-container">
+            {scopedSessions.length === 0 ? (
+              <div style={{textAlign: 'center', padding: '6rem', opacity: 0.2}}>
+                <History size={64} style={{marginBottom: '1rem'}} />
+                <p>History archive is empty.</p>
+              </div>
+            ) : (
+              scopedSessions.map(s => (
+                <div key={s.id} className="history-item" onClick={() => loadSession(s)}>
+                  <div style={{display: 'flex', alignItems: 'center', gap: '1rem'}}>
+                    <Clock size={20} color="var(--brand-gold)" />
+                    <div>
+                      <div style={{fontWeight: 700, fontSize: '1rem', color: 'var(--brand-navy)', marginBottom: '0.25rem'}}>{s.title}</div>
+                      <div style={{fontSize: '0.75rem', color: '#718096', display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap'}}>
+                        <span>{s.date} • {s.messages.length} exchanges</span>
+                        {matters.length > 0 && (
+                          <select className="matter-select" value={s.matterId || ''} onClick={e => e.stopPropagation()} onChange={e => assignSessionToMatter(s.id, e.target.value)} title="Assign to matter">
+                            <option value="">No matter</option>
+                            {matters.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                          </select>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <button className="export-btn" title="Export Memo" onClick={(e) => { e.stopPropagation(); setExportingSession(s); }}><FileDown size={18} /></button>
+                  <button className="delete-btn" style={{border: 'none', background: 'transparent', cursor: 'pointer'}} onClick={(e) => deleteSession(s.id, e)}><Trash2 size={18} /></button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </main>
 
-            .view-header { padding: 0 1rem; }
-            .view-header h2 { font-size: 1.1rem; }
-            .mobile-nav-toggle, .mobile-citations-toggle { display: block; background: none; border: none; cursor: pointer; color: var(--brand-navy); padding: 0.5rem; }
+      {/* CITATIONS RAIL */}
+      {activeTab === 'research' && (
+        <>
+            <aside className={`right-rail ${!isCitationRailVisible ? (window.innerWidth > 768 ? 'hidden' : '') : 'mobile-visible'}`}>
+                <div className="rail-header">GROUNDING SOURCES</div>
+                <div className="citation-list">
+                    {citationGroups.length === 0 ? (
+                    <div style={{textAlign: 'center', padding: '4rem 1rem', opacity: 0.2, fontSize: '0.85rem'}}>
+                        Legal citations and evidentiary sources will appear here as they are generated.
+                    </div>
+                    ) : (
+                        citationGroups.map(group => (
+                        <div key={group.messageId} className="citation-group">
+                            {group.label && <div className="citation-group-label">{group.label}</div>}
+                            {group.citations.map((c, index) => ({ c, index })).filter(({ c }) => showAllSources || !!c.web).map(({ c, index }) => {
+                            const cardId = `${group.messageId}-${index}`;
+                            return (
+                            <div key={cardId} id={`citation-${cardId}`} className={`citation-card ${highlightedCitation === cardId ? 'highlighted' : ''}`}>
+                                <div className="card-title">
+                                <span className="citation-number">{index + 1}</span>
+                                {c.web ? <Globe size={14} color="#3182CE" /> : <ListFilter size={14} color="#A0AEC0" />}
+                                {c.web?.title || 'Grounding Reference'}
+                                {isOfficialSource(c, activeProfile) && <span className="official-source-tag" title={`An official source for ${activeProfile.name}`}><ShieldCheck size={10} /> Official</span>}
+                                </div>
+                                {c.web?.uri && <div className="citation-meta">{c.web.uri}</div>}
+                                <div style={{fontSize: '0.75rem', color: '#4A5568', lineHeight: 1.4}}>
+                                {c.text ? c.text.substring(0, 120) + '...' : "Authoritative legal background and interpretative context supporting the current analysis."}
+                                </div>
+                                {c.web && (
+                                <div className="citation-actions">
+                                    <button className="cite-action-btn" onClick={() => copyToClipboard(c.web?.uri || '')}>
+                                    <Copy size={12} /> Copy Link
+                                    </button>
+                                    <a href={c.web.uri} target="_blank" rel="noreferrer" className="cite-action-btn">
+                                    <ExternalLink size={12} /> External Link
+                                    </a>
+                                </div>
+                                )}
+                            </div>
+                            );
+                            })}
+                        </div>
+                        ))
+                    )}
+                </div>
+            </aside>
+            <button 
+                className={`rail-toggle-btn ${!isCitationRailVisible ? 'hidden' : ''}`}
+                onClick={() => setIsCitationRailVisible(!isCitationRailVisible)}
+                title={isCitationRailVisible ? "Hide Citations" : "Show Citations"}
+            >
+                {isCitationRailVisible ? <ChevronRight size={18} /> : <ChevronLeft size={18} />}
+            </button>
+        </>
+      )}
 
-            .header-actions { display: none; } /* Hide desktop AI Engine text */
-            .main-content { transition: filter 0.3s ease-in-out; }
+      {/* MODALS */}
+      {isAskingVault && (
+        <div className="modal-overlay" onClick={closeVaultQuestion}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '760px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Ask the Vault{activeMatter ? `: ${activeMatter.name}` : ''}</h3>
+              <button className="close-modal" onClick={closeVaultQuestion}><X size={20} /></button>
+            </div>
+            <div className="analysis-manager">
+              <p style={{ fontSize: '0.9rem', color: '#4A5568', marginTop: 0 }}>
+                Ask a question across {vaultScope.indexed} indexed {vaultScope.indexed === 1 ? 'document' : 'documents'}. Only the most relevant passages are sent to the model.
+                {vaultScope.unindexed > 0 && <><br /><small style={{ color: '#A0AEC0' }}>{vaultScope.unindexed} {vaultScope.unindexed === 1 ? 'document has' : 'documents have'} no searchable text (images, legacy formats, or still indexing) and will be skipped.</small></>}
+              </p>
+              <textarea value={vaultQuestion} onChange={e => setVaultQuestion(e.target.value)} placeholder="e.g., Which agreements have an arbitration clause seated in Mumbai?" rows={3}></textarea>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', color: '#4A5568', marginBottom: '1rem' }}>
+                <input type="checkbox" checked={useSemanticRanking} onChange={e => setUseSemanticRanking(e.target.checked)} />
+                Semantic re-ranking (uses embeddings to catch passages phrased differently from the question)
+              </label>
+              {isQueryingVault
+                ? <button className="stop-stream-btn" onClick={() => vaultStreamRef.current?.abort()}><Loader2 size={16} className="animate-spin" /> Searching... <StopCircle size={16} /> Stop</button>
+                : <button onClick={handleAskVault} disabled={!vaultQuestion.trim() || !isConfigured}><FileSearch size={16} /> Ask</button>}
+              {vaultAnswer && (
+                <div className="analysis-result">
+                  <div className="bubble model" style={{ maxWidth: '100%' }}><MarkdownContent text={vaultAnswer} /></div>
+                </div>
+              )}
+              {vaultPassages.length > 0 && (
+                <div className="passage-list">
+                  <div className="content-results-header">Passages used</div>
+                  {vaultPassages.map((p, i) => {
+                    const doc = managedDocs.find(d => d.id === p.docId);
+                    return (
+                      <div key={p.id} className={`passage-card ${citedVaultLabels.has(i + 1) ? 'cited' : ''}`} onClick={() => doc && openDocAtPage(doc, p.paginated ? p.page : null)}>
+                        <div className="passage-title"><span className="citation-number">S{i + 1}</span> {passageLabel(p, doc?.name || 'Unknown document')}</div>
+                        <div className="passage-text">{p.text.substring(0, 220)}{p.text.length > 220 ? '…' : ''}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      {viewingDoc && <div className="modal-overlay" onClick={() => setViewingDoc(null)}><div className="modal-content doc-viewer" onClick={e => e.stopPropagation()}><div className="modal-header"><h3>{viewingDoc.name}</h3><div className="viewer-controls"><button onClick={() => alert("Search is a WIP feature.")}><Search size={16} /> Search</button><button onClick={() => alert("Zoom is a WIP feature.")}><ZoomIn size={16} /></button><button onClick={() => alert("Zoom is a WIP feature.")}><ZoomOut size={16} /></button><button onClick={handlePrintDoc}><Printer size={16} /> Print</button></div><button className="close-modal" onClick={() => setViewingDoc(null)}><X size={20} /></button></div>{viewingDoc.url ? <iframe key={viewingPage ?? 0} ref={docViewerFrameRef} src={viewingPage ? `${viewingDoc.url}#page=${viewingPage}` : viewingDoc.url} title={viewingDoc.name} /> : <div style={{flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#718096'}}>The file for this document is not stored in this browser. Please re-upload it.</div>}</div></div>}
+      {taskDoc && (
+        <div className="modal-overlay" onClick={() => setManagingTasksForDoc(null)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+              <h3>Tasks for: {taskDoc.name}{matterName(taskDoc.matterId) && <small style={{display: 'block', fontFamily: 'var(--font-sans)', fontSize: '0.75rem', color: '#718096', fontWeight: 400}}>Matter: {matterName(taskDoc.matterId)}</small>}</h3>
+              <button className="close-modal" onClick={() => setManagingTasksForDoc(null)}><X size={20} /></button>
+            </div>
+            <div className="task-manager">
+              <div className="task-list">
+                {taskDoc.tasks.length === 0 && <p style={{textAlign: 'center', color: '#718096', fontSize: '0.9rem'}}>No tasks for this document.</p>}
+                {taskDoc.tasks.map(task => (
+                  <div key={task.id} className={`task-item ${task.isComplete ? 'complete' : ''}`}>
+                    <input type="checkbox" checked={task.isComplete} onChange={() => toggleTask(taskDoc.id, task.id)} />
+                    <div className="task-details">
+                      <p>{task.text}</p>
+                      {task.deadline && <small>Due: {task.deadline}{task.recurrence && ` • Repeats ${RECURRENCE_LABELS[task.recurrence].toLowerCase()}`}</small>}
+                      {task.deadline && !task.isComplete && (
+                        <div className="task-settings">
+                          <Bell size={12} color="#A0AEC0" />
+                          {REMINDER_OPTIONS.map(days => (
+                            <button key={days} className={`reminder-chip ${(task.reminders ?? DEFAULT_TASK_REMINDERS).includes(days) ? 'active' : ''}`} onClick={() => toggleReminder(taskDoc.id, task, days)} title={reminderLabel(days)}>
+                              {days === 0 ? 'Morning of' : `${days}d`}
+                            </button>
+                          ))}
+                          <select className="matter-select" value={task.recurrence || ''} onChange={e => updateTask(taskDoc.id, task.id, { recurrence: (e.target.value || undefined) as TaskRecurrence | undefined })} title="Repeat">
+                            <option value="">Does not repeat</option>
+                            {Object.entries(RECURRENCE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                          </select>
+                          {task.snoozedUntil && new Date(task.snoozedUntil).getTime() > reminderClock && (
+                            <small className="snoozed-note"><AlarmClock size={12} /> Snoozed until {new Date(task.snoozedUntil).toLocaleString()}</small>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <button className="delete-task" onClick={() => deleteTask(taskDoc.id, task.id)}><Trash2 size={16} /></button>
+                  </div>
+                ))}
+              </div>
+              <div className="add-task-form">
+                <input type="text" placeholder="New task..." value={newTaskText} onChange={e => setNewTaskText(e.target.value)} />
+                <input type="date" value={newTaskDeadline} onChange={e => setNewTaskDeadline(e.target.value)} />
+                <select value={newTaskRecurrence} onChange={e => setNewTaskRecurrence(e.target.value as TaskRecurrence | '')} disabled={!newTaskDeadline} title="Repeat">
+                  <option value="">Once</option>
+                  {Object.entries(RECURRENCE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <button onClick={() => handleAddTask(taskDoc.id)}>Add Task</button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+      {draftSetup && draftSetupTemplate && (
+        <div className="modal-overlay" onClick={() => setDraftSetup(null)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '680px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>{draftSetupTemplate.name}</h3>
+              <button className="close-modal" onClick={() => setDraftSetup(null)}><X size={20} /></button>
+            </div>
+            <div className="matter-form">
+              <label>Matter
+                <select value={draftSetup.matterId} onChange={e => changeDraftSetupSource({ matterId: e.target.value, sourceDocId: '' })}>
+                  <option value="">No matter</option>
+                  {matters.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+              </label>
+              <label>Facts from document
+                <select value={draftSetup.sourceDocId} onChange={e => changeDraftSetupSource({ sourceDocId: e.target.value })}>
+                  <option value="">None</option>
+                  {managedDocs.filter(d => d.keyFacts && (!draftSetup.matterId || d.matterId === draftSetup.matterId)).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+              </label>
+              {draftSetupTemplate.fields.map(field => (
+                <label key={field.key} className={field.type === 'multiline' ? 'full-width' : ''}>
+                  {field.label}
+                  {field.type === 'multiline' ? (
+                    <textarea rows={4} value={draftSetup.values[field.key] || ''} placeholder={field.hint} onChange={e => setDraftSetup({ ...draftSetup, values: { ...draftSetup.values, [field.key]: e.target.value } })} />
+                  ) : (
+                    <input
+                      type={field.type === 'date' ? 'date' : 'text'}
+                      inputMode={field.type === 'amount' || field.type === 'number' ? 'decimal' : undefined}
+                      value={draftSetup.values[field.key] || ''}
+                      placeholder={field.hint}
+                      onChange={e => setDraftSetup({ ...draftSetup, values: { ...draftSetup.values, [field.key]: e.target.value } })}
+                    />
+                  )}
+                  {field.type === 'amount' && draftSetup.values[field.key]?.trim() && <small>{formatRupees(draftSetup.values[field.key])}</small>}
+                </label>
+              ))}
+              <p className="facts-footnote full-width" style={{ margin: 0 }}>Blank fields stay highlighted in the draft and can be filled in later.</p>
+              <button className="primary-btn full-width" onClick={handleCreateDraft}><PenLine size={16} /> Create Draft</button>
+            </div>
+          </div>
+        </div>
+      )}
 
-            .mobile-overlay { position: fixed; top: 0; left: 0; width: 100%; height: 100%; background: rgba(0,0,0,0.4); z-index: 99; display: block; }
+      {isLimitationOpen && (
+        <div className="modal-overlay" onClick={() => setIsLimitationOpen(false)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '720px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Limitation Calculator</h3>
+              <div className="deadline-views">
+                <button className={limitationTab === 'calculator' ? 'active' : ''} onClick={() => setLimitationTab('calculator')}>Calculator</button>
+                <button className={limitationTab === 'calendar' ? 'active' : ''} onClick={() => setLimitationTab('calendar')}>Court Calendar</button>
+              </div>
+              <button className="close-modal" onClick={() => setIsLimitationOpen(false)}><X size={20} /></button>
+            </div>
+            {limitationTab === 'calculator' ? (
+              <div className="limitation-panel">
+                <div className="matter-form" style={{ padding: 0 }}>
+                  <label className="full-width">Proceeding
+                    <select value={limitationRuleId} onChange={e => setLimitationRuleId(e.target.value)}>
+                      {Object.values(LIMITATION_CATEGORIES).map(category => (
+                        <optgroup key={category} label={category}>
+                          {LIMITATION_RULES.filter(r => r.category === category).map(r => (
+                            <option key={r.id} value={r.id}>{r.provision} — {r.description} ({formatPeriod(r.period)})</option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="full-width">{limitationRule.startsFrom}
+                    <input type="date" value={limitationInput.startDate} onChange={e => setLimitationInput({ ...limitationInput, startDate: e.target.value })} />
+                  </label>
+                  {limitationRule.copyExclusion && (
+                    <>
+                      <label>Certified copy applied for<input type="date" value={limitationInput.copyAppliedOn} onChange={e => setLimitationInput({ ...limitationInput, copyAppliedOn: e.target.value })} /></label>
+                      <label>Certified copy ready<input type="date" value={limitationInput.copyReadyOn} onChange={e => setLimitationInput({ ...limitationInput, copyReadyOn: e.target.value })} /></label>
+                    </>
+                  )}
+                </div>
 
-            .chat-area { padding: 1.5rem 1rem; }
-            .bubble { max-width: 90%; font-size: 0.9rem; }
-            .input-bar { padding: 1rem; }
-            .input-textarea { padding-right: 6.5rem; }
-            
-            .modal-content { width: calc(100vw - 2rem); max-height: calc(100vh - 2rem); }
-            .doc-viewer { width: 100vw; height: 100vh; max-width: 100%; max-height: 100%; border-radius: 0; }
-        }
-      `}</style>
-      
-      {(isMobileNavVisible || (isCitationRailVisible && window.innerWidth <= 768)) && <div className="mobile-overlay" onClick={() => { setIsMobileNavVisible(false); setIsCitationRailVisible(false); }}></div>}
+                {limitationResult ? (
+                  <div className="limitation-result">
+                    <div className="limitation-date">
+                      <small>Last date</small>
+                      <strong>{formatDeadline(limitationResult.lastDate, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}</strong>
+                      <span className={limitationResult.lastDate < today ? 'overdue' : ''}>
+                        {limitationCourtDaysLeft === null
+                          ? `Expired ${daysBetween(limitationResult.lastDate, today)} days ago`
+                          : `${daysBetween(today, limitationResult.lastDate)} calendar days • ${limitationCourtDaysLeft} court working ${limitationCourtDaysLeft === 1 ? 'day' : 'days'} left`}
+                      </span>
+                    </div>
+                    <ol className="limitation-steps">
+                      {limitationResult.steps.map((step, i) => <li key={i}>{step}</li>)}
+                    </ol>
+                    {limitationResult.notes.map((note, i) => <div key={i} className="facts-footnote">{note}</div>)}
+                    <div className="limitation-actions">
+                      <select className="matter-select" value={limitationTaskDocId} onChange={e => setLimitationTaskDocId(e.target.value)}>
+                        <option value="">Choose a document...</option>
+                        {managedDocs.filter(d => isInActiveMatter(d.matterId)).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                      </select>
+                      <button className="header-btn" onClick={() => handleAddLimitationTask(limitationResult)} disabled={!limitationTaskDocId}><ListTodo size={14} /> Add as Task</button>
+                      <button className="primary-btn" onClick={() => handleCiteLimitation(limitationResult)}><Send size={14} /> Cite in Chat</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="facts-empty">Enter the starting date to compute the last day for filing.</div>
+                )}
+                <div className="facts-footnote">
+                  Computed from the Limitation Act, 1963 and your court calendar ({courtCalendar.holidays.length} holidays and vacations recorded). Check the starting point and any special statute before relying on the date.
+                </div>
+              </div>
+            ) : (
+              <div className="limitation-panel">
+                <div>
+                  <div className="content-results-header">Weekly closures</div>
+                  <div className="weekday-options">
+                    {WEEKDAY_NAMES.map((name, weekday) => (
+                      <label key={name} className="restore-option">
+                        <input type="checkbox" checked={courtCalendar.closedWeekdays.includes(weekday)} onChange={() => toggleClosedWeekday(weekday)} /> {name.slice(0, 3)}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <div className="content-results-header">Holidays and vacations</div>
+                  <div className="holiday-form">
+                    <input value={holidayDraft.label} onChange={e => setHolidayDraft({ ...holidayDraft, label: e.target.value })} placeholder="e.g., Summer vacation" />
+                    <input type="date" value={holidayDraft.start} onChange={e => setHolidayDraft({ ...holidayDraft, start: e.target.value })} title="First day" />
+                    <input type="date" value={holidayDraft.end} min={holidayDraft.start} onChange={e => setHolidayDraft({ ...holidayDraft, end: e.target.value })} title="Last day (leave blank for a single day)" />
+                    <button className="primary-btn" onClick={handleAddHoliday} disabled={!holidayDraft.label.trim() || !holidayDraft.start}><Plus size={14} /> Add</button>
+                  </div>
+                  {courtCalendar.holidays.length === 0 ? (
+                    <div className="facts-empty">No holidays recorded. Add your court's notified holidays and vacations so periods expiring on them are extended.</div>
+                  ) : courtCalendar.holidays.map(h => (
+                    <div key={h.id} className="alert-row">
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <div className="alert-title">{h.label}</div>
+                        <small>{h.start === h.end ? formatDeadline(h.start) : `${formatDeadline(h.start)} to ${formatDeadline(h.end)} (${daysBetween(h.start, h.end) + 1} days)`}</small>
+                      </div>
+                      <button className="action-btn" style={{ color: '#FC8181' }} title="Delete" onClick={() => handleDeleteHoliday(h.id)}><Trash2 size={16} /></button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
 
-      {/* SIDEBAR */}
-      <aside className={`sidebar ${isMobileNavVisible ? 'mobile-visible' : ''}`}>
-        <div className="logo-section" onClick={startNewSession} style={{cursor: 'pointer'}}>
-          <div className="logo-placeholder">
-            <span className="logo-symbol">⚜</span>
-            <span className="logo-brand">JURIS</span>
+      {authorityFocus && (
+        <div className="modal-overlay" onClick={() => setAuthorityFocus(null)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '720px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>
+                {focusedAuthority ? focusedAuthority.authority.title
+                  : authorityFocus.docId ? `Authorities in ${managedDocs.find(d => d.id === authorityFocus.docId)?.name}`
+                  : `Authorities${activeMatter ? `: ${activeMatter.name}` : ''}`}
+              </h3>
+              <button className="close-modal" onClick={() => setAuthorityFocus(null)}><X size={20} /></button>
+            </div>
+            <div className="authority-panel">
+              {focusedVerification && (
+                <div className={`verification-panel ${focusedVerification.status}`}>
+                  <div className="content-results-header" style={{ display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+                    <VerificationIcon status={focusedVerification.status} size={14} /> {VERIFICATION_LABELS[focusedVerification.status]}
+                  </div>
+                  <div className="verification-text">{focusedVerification.detail}</div>
+                </div>
+              )}
+              {authorityFocus.key ? (
+                !focusedAuthority ? (
+                  <div className="facts-empty">{authorityFocus.key} is not cited anywhere in {activeMatter ? 'this matter' : 'your sessions or vault'}.</div>
+                ) : (['session', 'document'] as const).map(source => {
+                  const occurrences = focusedAuthority.occurrences.filter(o => o.source === source);
+                  return occurrences.length > 0 && (
+                    <div key={source}>
+                      <div className="content-results-header">{source === 'session' ? 'Research sessions' : 'Document vault'} ({occurrences.length})</div>
+                      {occurrences.map((o, i) => (
+                        <div key={i} className="content-snippet" onClick={() => openAuthorityOccurrence(o)}>
+                          <span className="snippet-page">
+                            {source === 'session' ? sessionHistory.find(s => s.id === o.sourceId)?.title : managedDocs.find(d => d.id === o.sourceId)?.name}
+                            {o.page && `, p. ${o.page}`}
+                          </span>
+                          <span>{o.snippet.before}<mark>{o.snippet.match}</mark>{o.snippet.after}</span>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })
+              ) : listedAuthorities.length === 0 ? (
+                <div className="facts-empty">No case citations or statutory references were found.</div>
+              ) : (['case', 'statute'] as const).map(kind => {
+                const entries = listedAuthorities.filter(e => e.authority.kind === kind);
+                return entries.length > 0 && (
+                  <div key={kind}>
+                    <div className="content-results-header">{kind === 'case' ? 'Cases' : 'Statutes'} ({entries.length})</div>
+                    <div className="authority-chips">
+                      {entries.map(({ authority, occurrences }) => (
+                        <button key={authority.key} className={`authority-chip ${kind}`} title={authority.title} onClick={() => setAuthorityFocus({ key: authority.key })}>
+                          {kind === 'case' ? <Gavel size={12} /> : <BookOpenText size={12} />} {authority.label}<EquivalentTag authority={authority} /><span>{occurrences.length}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
           </div>
         </div>
-        
-        <div className="new-chat-btn" onClick={startNewSession}>
-          <Plus size={18} /> New Research Session
+      )}
+
+      {isConcordanceOpen && (
+        <div className="modal-overlay" onClick={() => setIsConcordanceOpen(false)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '760px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Criminal Code Concordance</h3>
+              <div className="deadline-views">
+                {CODE_CONCORDANCES.map((c, i) => (
+                  <button key={c.newShort} className={concordanceCode === i ? 'active' : ''} onClick={() => setConcordanceCode(i)}>{c.oldShort} ↔ {c.newShort}</button>
+                ))}
+              </div>
+              <button className="close-modal" onClick={() => setIsConcordanceOpen(false)}><X size={20} /></button>
+            </div>
+            <div className="authority-panel">
+              <div style={{ position: 'relative' }}>
+                <Search size={16} style={{ position: 'absolute', left: '0.75rem', top: '0.7rem', color: '#A0AEC0' }} />
+                <input className="search-input" style={{ paddingTop: '0.6rem', paddingBottom: '0.6rem' }} value={concordanceQuery} onChange={e => setConcordanceQuery(e.target.value)} placeholder={`Section number (${CODE_CONCORDANCES[concordanceCode].oldShort} or ${CODE_CONCORDANCES[concordanceCode].newShort}) or subject, e.g. "cheating"`} autoFocus />
+              </div>
+              <table className="concordance-table">
+                <thead>
+                  <tr>
+                    <th>{CODE_CONCORDANCES[concordanceCode].oldShort}</th>
+                    <th>{CODE_CONCORDANCES[concordanceCode].newShort}</th>
+                    <th>Subject</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {concordanceRows.map(([oldSection, newSection, subject]) => (
+                    <tr key={`${oldSection}-${newSection}`}>
+                      <td>{oldSection}</td>
+                      <td>{newSection}</td>
+                      <td>{subject}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {concordanceRows.length === 0 && <div className="facts-empty">No mapping found. The section may have no direct equivalent in the new code.</div>}
+              <div className="facts-footnote">
+                The {CODE_CONCORDANCES[concordanceCode].newAct} replaced the {CODE_CONCORDANCES[concordanceCode].oldAct} on 1 July 2024. Offences committed before that date remain governed by the old code.
+              </div>
+            </div>
+          </div>
         </div>
+      )}
 
-        <nav className="nav-list">
-          <div className={`nav-link ${activeTab === 'research' ? 'active' : ''}`} onClick={() => handleTabClick('research')}>
-            <Search size={20} /> Legal Research
+      {isLegalIndexOpen && (
+        <div className="modal-overlay" onClick={() => setIsLegalIndexOpen(false)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '640px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Legal Index</h3>
+              <button className="close-modal" onClick={() => setIsLegalIndexOpen(false)}><X size={20} /></button>
+            </div>
+            <div className="authority-panel">
+              <div className="facts-footnote" style={{ fontStyle: 'normal' }}>
+                Statute sections and cases cited in answers are checked against the bare acts and case lists imported here.
+                Import JSON files of the form {'{ "name", "sections": [{ "act", "section", "heading", "text", "replacedBy": { "act", "section" } }], "cases": [{ "citation", "title", "court", "date", "parallelCitations" }] }'}.
+              </div>
+              {legalIndexError && (
+                <div className="vault-alert">
+                  <AlertTriangle size={18} />
+                  <span style={{ flex: 1 }}>{legalIndexError}</span>
+                  <X size={16} style={{ cursor: 'pointer' }} onClick={() => setLegalIndexError('')} />
+                </div>
+              )}
+              {legalSources.length === 0 ? (
+                <div className="facts-empty">Nothing imported yet. Until a bare act or case list is imported, citations are shown as not indexed.</div>
+              ) : legalSources.map(source => (
+                <div key={source.id} className="alert-row">
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div className="alert-title">{source.name}</div>
+                    <small>
+                      {[...new Set(source.sections.map(s => s.act))].join(', ') || 'No bare acts'} • {source.sections.length} sections • {source.cases.length} cases • Imported {new Date(source.importedAt).toLocaleDateString()}
+                    </small>
+                  </div>
+                  <button className="action-btn" style={{ color: '#FC8181' }} title="Remove" onClick={() => handleDeleteLegalSource(source)}><Trash2 size={16} /></button>
+                </div>
+              ))}
+              <button className="primary-btn" onClick={() => legalIndexInputRef.current?.click()}>
+                <Plus size={16} /> Import Index File
+              </button>
+              <input type="file" multiple ref={legalIndexInputRef} style={{ display: 'none' }} accept=".json,application/json" onChange={handleImportLegalIndex} />
+            </div>
           </div>
-          <div className={`nav-link ${activeTab === 'documents' ? 'active' : ''}`} onClick={() => handleTabClick('documents')}>
-            <FileText size={20} /> Document Vault
+        </div>
+      )}
+
+      {isNotificationCentreOpen && (
+        <div className="modal-overlay" onClick={closeNotificationCentre}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '560px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Notifications</h3>
+              <button className="close-modal" onClick={closeNotificationCentre}><X size={20} /></button>
+            </div>
+            <div className="notification-centre">
+              {notificationPermission !== 'granted' && (
+                <div className="restore-summary" style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                  <Bell size={18} />
+                  <span style={{ flex: 1 }}>
+                    {notificationPermission === 'denied'
+                      ? 'Browser notifications are blocked for Juris. Reminders will still be listed here while the app is open.'
+                      : 'Allow browser notifications to be alerted about deadlines while Juris is open in another tab.'}
+                  </span>
+                  {notificationPermission === 'default' && <button className="header-btn" onClick={enableBrowserNotifications}>Enable</button>}
+                </div>
+              )}
+              {([['Missed deadlines', taskAlerts.missed], ['Due in the next 7 days', taskAlerts.upcoming]] as const).map(([heading, entries]) => (
+                <div key={heading}>
+                  <div className="content-results-header">{heading}</div>
+                  {entries.length === 0 ? <div className="facts-empty">Nothing here.</div> : entries.map(({ task, doc }) => (
+                    <div key={`${doc.id}/${task.id}`} className={`alert-row ${task.deadline < today ? 'overdue' : ''}`}>
+                      <div style={{ flex: 1, minWidth: 0, cursor: 'pointer' }} onClick={() => openTasksForDoc(doc.id)}>
+                        <div className="alert-title">{task.text}</div>
+                        <small>
+                          {formatDeadline(task.deadline)} • {doc.name}
+                          {task.snoozedUntil && new Date(task.snoozedUntil).getTime() > reminderClock && ` • Snoozed until ${new Date(task.snoozedUntil).toLocaleString()}`}
+                        </small>
+                      </div>
+                      <select className="matter-select" value="" onChange={e => e.target.value && snoozeTask(doc.id, task.id, e.target.value as 'hour' | 'tomorrow' | 'week')} title="Snooze reminders">
+                        <option value="">Snooze...</option>
+                        <option value="hour">1 hour</option>
+                        <option value="tomorrow">Tomorrow morning</option>
+                        <option value="week">1 week</option>
+                      </select>
+                      <button className="action-btn" title="Mark as done" onClick={() => toggleTask(doc.id, task.id)}><Check size={16} /></button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+              <div>
+                <div className="content-results-header" style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <span>Recent alerts</span>
+                  {notifications.length > 0 && <span className="link-style" style={{ cursor: 'pointer', textTransform: 'none' }} onClick={() => setNotifications([])}>Clear</span>}
+                </div>
+                {notifications.length === 0 ? <div className="facts-empty">No reminders have been sent yet.</div> : notifications.slice(0, 20).map(n => (
+                  <div key={n.id} className={`alert-row ${n.isRead ? 'read' : ''} ${n.kind === 'missed' ? 'overdue' : ''}`} style={{ cursor: 'pointer' }} onClick={() => openTasksForDoc(n.docId)}>
+                    {n.kind === 'missed' ? <AlertTriangle size={16} color="#E53E3E" /> : <Bell size={16} color="var(--brand-gold)" />}
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div className="alert-title">{n.title}</div>
+                      <small>{n.body}</small>
+                    </div>
+                    <small>{new Date(n.createdAt).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}</small>
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
-          <div className={`nav-link ${activeTab === 'history' ? 'active' : ''}`} onClick={() => handleTabClick('history')}>
-            <History size={20} /> Research History
+        </div>
+      )}
+      {analyzingDoc && <div className="modal-overlay" onClick={closeAnalysis}><div className="modal-content" onClick={e => e.stopPropagation()} style={{maxWidth: '600px'}}><div className="modal-header"><h3>Analyze: {analyzingDoc.name}</h3><button className="close-modal" onClick={closeAnalysis}><X size={20} /></button></div><div className="analysis-manager"><p style={{fontSize: '0.9rem', color: '#4A5568', marginTop: 0}}>What would you like to know about this document?</p>{docTexts.has(analyzingDoc.id) && <p className="facts-footnote" style={{marginTop: 0}}>Reviewing a contract? <a href="#" onClick={e => { e.preventDefault(); const doc = analyzingDoc; closeAnalysis(); openContractReview(doc); }}>Run a clause-by-clause risk review</a> against your playbook instead.</p>}<textarea value={analysisPrompt} onChange={e => setAnalysisPrompt(e.target.value)} placeholder="e.g., Summarize the key arguments in this document." rows={3}></textarea>{isAnalyzing ? <button className="stop-stream-btn" onClick={() => analysisStreamRef.current?.abort()}><Loader2 size={16} className="animate-spin" /> Analyzing... <StopCircle size={16} /> Stop</button> : <button onClick={handleAnalyzeDocument} disabled={!analysisPrompt || !isConfigured}><Sparkles size={16}/> Analyze</button>}{analysisResult && <div className="analysis-result"><h4>Analysis Result:</h4><div className="bubble model" style={{maxWidth: '100%'}}><MarkdownContent text={analysisResult} /></div></div>}</div></div></div>}
+      {exportingSession && (
+        <div className="modal-overlay" onClick={() => setExportingSession(null)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '480px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Export Research Memo</h3>
+              <button className="close-modal" onClick={() => setExportingSession(null)}>
+                <X size={20} />
+              </button>
+            </div>
+            <div className="export-options">
+              <p style={{ margin: 0, fontSize: '0.85rem', color: '#4A5568' }}>{exportingSession.title} • {exportingSession.messages.filter(m => m.role === 'user').length} questions</p>
+              <button className="export-option" onClick={() => handleExportSession(exportingSession, 'docx')}>
+                <FileText size={20} color="var(--brand-navy)" />
+                <div><strong>Word Document (.docx)</strong><small>Editable memo for briefs and filings</small></div>
+              </button>
+              <button className="export-option" onClick={() => handleExportSession(exportingSession, 'pdf')}>
+                <Printer size={20} color="var(--brand-navy)" />
+                <div><strong>PDF</strong><small>Print-ready layout; choose "Save as PDF" in the print dialog</small></div>
+              </button>
+              <button className="export-option" onClick={() => handleExportSession(exportingSession, 'md')}>
+                <FileDown size={20} color="var(--brand-navy)" />
+                <div><strong>Markdown (.md)</strong><small>Plain text with formatting marks</small></div>
+              </button>
+            </div>
           </div>
-        </nav>
-
-        <div className="sidebar-actions">
-          <button className="clear-btn" onClick={handleClearChat}>
-            <Trash2 size={18} /> Clear Conversation
-          </button>
         </div>
+      )}
+      {isComparingDocs && (
+        <div className="modal-overlay" onClick={closeComparisons}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: activeComparison ? '1100px' : '600px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>{activeComparison ? 'Redline' : 'Compare Documents'}</h3>
+              <button className="close-modal" onClick={closeComparisons}><X size={20} /></button>
+            </div>
+            {activeComparison ? (
+              <div className="comparison-panel">
+                <div className="comparison-toolbar">
+                  <button className="header-btn" onClick={() => { comparisonStreamRef.current?.abort(); setActiveComparisonId(null); }}>
+                    <ChevronLeft size={14} /> Comparisons
+                  </button>
+                  <span className="comparison-summary">{summarizeChanges(activeComparison.changes)}</span>
+                  <label className="restore-option">
+                    <input type="checkbox" checked={showUnchangedClauses} onChange={e => setShowUnchangedClauses(e.target.checked)} /> Show unchanged clauses
+                  </label>
+                  <button className="header-btn" onClick={() => handleExportComparison(activeComparison, 'md')}><FileDown size={14} /> Markdown</button>
+                  <button className="header-btn" onClick={() => handleExportComparison(activeComparison, 'docx')}><FileDown size={14} /> Word</button>
+                  <button className="header-btn" onClick={() => handleExportComparison(activeComparison, 'pdf')}><Printer size={14} /> PDF</button>
+                </div>
 
-        <div style={{padding: '1.5rem', borderTop: '1px solid rgba(212, 175, 55, 0.2)'}}>
-          <div style={{display: 'flex', alignItems: 'center', justifyContent: 'space-between'}}>
-              <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem'}}>
-                <div style={{width: '2.5rem', height: '2.5rem', borderRadius: '4px', background: 'var(--brand-gold)', color: 'var(--brand-navy)', display: 'flex', alignItems: 'center', justifyContent: 'center', fontWeight: 'bold', fontSize: '0.9rem'}}>LP</div>
+                {activeChangeLabels.size > 0 && (
+                  <div className="comparison-commentary">
+                    <div className="content-results-header" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                      <span>Commentary</span>
+                      {isCommentingOnComparison ? (
+                        <button className="stop-stream-btn" onClick={() => comparisonStreamRef.current?.abort()}><StopCircle size={14} /> Stop</button>
+                      ) : (
+                        <button className="header-btn" onClick={() => handleGenerateCommentary(activeComparison)} disabled={!isConfigured}>
+                          <Sparkles size={14} /> {activeComparison.commentary ? 'Regenerate' : 'Generate'}
+                        </button>
+                      )}
+                    </div>
+                    {isCommentingOnComparison && !comparisonCommentary ? (
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: '#718096', fontSize: '0.85rem' }}><Loader2 size={16} className="animate-spin" /> Reviewing the changes...</div>
+                    ) : (comparisonCommentary || activeComparison.commentary) ? (
+                      <MarkdownContent text={comparisonCommentary || activeComparison.commentary} />
+                    ) : (
+                      <div style={{ color: '#A0AEC0', fontSize: '0.85rem' }}>No commentary has been generated for this comparison.</div>
+                    )}
+                  </div>
+                )}
+
+                <div className="redline">
+                  <div className="redline-row redline-head">
+                    <div>Original: {activeComparison.baseName}</div>
+                    <div>Revised: {activeComparison.revisedName}</div>
+                  </div>
+                  {activeComparison.changes.map((change, i) => {
+                    const label = activeChangeLabels.get(change);
+                    if (!label && !showUnchangedClauses) return null;
+                    return (
+                      <div key={i} className={`redline-row ${change.kind}`}>
+                        {label && <div className="redline-label">{label} • {change.kind}</div>}
+                        <div className="redline-cell"><RedlineSide change={change} side="base" /></div>
+                        <div className="redline-cell"><RedlineSide change={change} side="revised" /></div>
+                      </div>
+                    );
+                  })}
+                  {activeChangeLabels.size === 0 && !showUnchangedClauses && (
+                    <div style={{ textAlign: 'center', padding: '2rem', color: '#A0AEC0', fontSize: '0.85rem' }}>The two documents contain the same clauses.</div>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="restore-panel">
+                {comparableDocs.length < 2 ? (
+                  <div className="restore-summary">Comparison needs two documents whose text has been extracted (PDF, DOCX or text files){activeMatter ? ' in this matter' : ''}.</div>
+                ) : (
+                  <>
+                    <div className="comparison-picker">
+                      <label>
+                        Original
+                        <select value={comparisonSelection.baseDocId} onChange={e => setComparisonSelection(prev => ({ ...prev, baseDocId: e.target.value }))}>
+                          <option value="">Select a document</option>
+                          {comparableDocs.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                        </select>
+                      </label>
+                      <label>
+                        Revised draft
+                        <select value={comparisonSelection.revisedDocId} onChange={e => setComparisonSelection(prev => ({ ...prev, revisedDocId: e.target.value }))}>
+                          <option value="">Select a document</option>
+                          {comparableDocs.filter(d => d.id !== comparisonSelection.baseDocId).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                        </select>
+                      </label>
+                    </div>
+                    <button className="primary-btn" onClick={handleCompareDocuments} disabled={!comparisonSelection.baseDocId || !comparisonSelection.revisedDocId || comparisonSelection.baseDocId === comparisonSelection.revisedDocId}>
+                      <GitCompare size={16} /> Compare
+                    </button>
+                  </>
+                )}
                 <div>
-                  <div style={{fontSize: '0.85rem', fontWeight: 600}}>Legal Professional</div>
-                  <div style={{fontSize: '0.7rem', color: '#BDC3C7'}}>AI-Powered Consultant</div>
+                  <div className="content-results-header">Saved comparisons</div>
+                  {listedComparisons.length === 0 ? (
+                    <div style={{ color: '#A0AEC0', fontSize: '0.85rem' }}>No comparisons have been saved{comparisonSelection.baseDocId || comparisonSelection.revisedDocId ? ' for the selected documents' : ''}.</div>
+                  ) : listedComparisons.map(c => (
+                    <div key={c.id} className="passage-card" onClick={() => openSavedComparison(c)} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                      <div style={{ flex: 1 }}>
+                        <div className="passage-title"><GitCompare size={14} /> {c.baseName} → {c.revisedName}</div>
+                        <div className="passage-text">{c.createdAt} • {summarizeChanges(c.changes)}</div>
+                      </div>
+                      <button className="delete-task" title="Delete comparison" onClick={e => { e.stopPropagation(); handleDeleteComparison(c); }}><Trash2 size={16} /></button>
+                    </div>
+                  ))}
                 </div>
               </div>
+            )}
           </div>
         </div>
-      </aside>
-
-      {/* MAIN */}
-      <main className="main-content">
-        <header className="view-header">
-           <button className="mobile-nav-toggle" onClick={() => setIsMobileNavVisible(true)}><Menu size={24} /></button>
-          <h2>
-            {activeTab === 'research' && 'Legal Analysis'}
-            {activeTab === 'documents' && 'Document Management'}
-            {activeTab === 'history' && 'Archived Research'}
-          </h2>
-          <div className="header-actions">
-            <div style={{fontSize: '0.75rem', color: 'var(--brand-accent)', fontWeight: 600, display: 'flex', alignItems: 'center', gap: '0.5rem'}}>
-              <div style={{width: 8, height: 8, borderRadius: '50%', background: 'var(--brand-accent)'}}></div> AI ENGINE ACTIVE
+      )}
+      {reviewDoc && (
+        <div className="modal-overlay" onClick={() => !isReviewingContract && setReviewDocId(null)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '1100px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Contract Review: {reviewDoc.name}</h3>
+              <div className="deadline-views">
+                <button className={reviewTab === 'clauses' ? 'active' : ''} onClick={() => setReviewTab('clauses')}>Clauses</button>
+                <button className={reviewTab === 'playbook' ? 'active' : ''} onClick={() => setReviewTab('playbook')}>Playbook</button>
+              </div>
+              <button className="close-modal" onClick={() => setReviewDocId(null)} disabled={isReviewingContract}><X size={20} /></button>
             </div>
+            {reviewTab === 'clauses' ? (
+              <div className="facts-panel">
+                <div className="review-toolbar">
+                  <label>Acting for
+                    <input className="search-input" value={playbook.perspective} onChange={e => setPlaybook({ ...playbook, perspective: e.target.value })} placeholder="e.g. Customer, Licensor, Employer" disabled={isReviewingContract} />
+                  </label>
+                  <button className="primary-btn" onClick={() => handleReviewContract(reviewDoc)} disabled={isReviewingContract || !docTexts.has(reviewDoc.id) || !isConfigured} title={docTexts.has(reviewDoc.id) ? undefined : 'Re-upload the document to review it again'}>
+                    {isReviewingContract ? <Loader2 size={16} className="animate-spin" /> : <Gauge size={16} />} {reviewDoc.riskReview ? 'Review Again' : 'Review Contract'}
+                  </button>
+                  {reviewDoc.riskReview && !isReviewingContract && (
+                    <>
+                      <select className="matter-select" value={reviewRiskFilter} onChange={e => setReviewRiskFilter(e.target.value as typeof reviewRiskFilter)}>
+                        <option value="all">All risks</option>
+                        <option value="high">High only</option>
+                        <option value="medium">Medium only</option>
+                        <option value="low">Low only</option>
+                      </select>
+                      <button className="header-btn" onClick={() => handleExportReview(reviewDoc, 'csv')}><Download size={14} /> CSV</button>
+                      <button className="header-btn" onClick={() => handleExportReview(reviewDoc, 'docx')}><FileDown size={14} /> Word</button>
+                      <button className="header-btn" onClick={() => handleExportReview(reviewDoc, 'pdf')}><Printer size={14} /> PDF</button>
+                    </>
+                  )}
+                </div>
+                {reviewError && (
+                  <div className="vault-alert" style={{ marginBottom: 0 }}>
+                    <AlertTriangle size={18} />
+                    <span>{reviewError}</span>
+                  </div>
+                )}
+                {isReviewingContract ? (
+                  <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', minHeight: '200px' }}>
+                    <Loader2 size={32} className="animate-spin" />
+                    <p style={{ marginTop: '1rem', color: '#718096' }}>Classifying clauses and scoring them against your playbook...</p>
+                  </div>
+                ) : !reviewDoc.riskReview ? (
+                  <div className="facts-empty">
+                    The contract is split into clauses, each classified and scored from 0 (meets your playbook) to 10 (unacceptable), with fallback wording for risky ones. Check whose side you act for, then run the review.
+                  </div>
+                ) : (
+                  <>
+                    <div className="review-summary">
+                      {(['high', 'medium', 'low'] as const).map(level => (
+                        <span key={level} className={`risk-badge ${level}`}>{reviewDoc.riskReview!.clauses.filter(c => riskLevel(c.score) === level).length} {level}</span>
+                      ))}
+                      {reviewDoc.riskReview.missing.length > 0 && (
+                        <span className="review-missing"><AlertTriangle size={14} /> No clause on {reviewDoc.riskReview.missing.map(c => CLAUSE_CATEGORY_LABELS[c].toLowerCase()).join(', ')}</span>
+                      )}
+                    </div>
+                    <table className="review-table">
+                      <thead>
+                        <tr>
+                          {([['index', '#'], ['title', 'Clause'], ['category', 'Category'], ['score', 'Risk'], ['issue', 'Issue'], ['fallback', 'Suggested fallback']] as const).map(([key, label]) => (
+                            key === 'index' || key === 'category' || key === 'score' ? (
+                              <th key={key} className="sortable" onClick={() => sortReviewBy(key)}>
+                                {label}{reviewSort.key === key && (reviewSort.descending ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+                              </th>
+                            ) : <th key={key}>{label}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {reviewRows.map(clause => (
+                          <React.Fragment key={clause.index}>
+                            <tr className={expandedClauseIndex === clause.index ? 'expanded' : ''} onClick={() => setExpandedClauseIndex(expandedClauseIndex === clause.index ? null : clause.index)}>
+                              <td>{clause.index}</td>
+                              <td><strong>{clause.title}</strong></td>
+                              <td>{CLAUSE_CATEGORY_LABELS[clause.category]}</td>
+                              <td><span className={`risk-badge ${riskLevel(clause.score)}`}>{clause.score}</span></td>
+                              <td>{clause.issue || <span className="facts-empty">Meets playbook</span>}</td>
+                              <td>{clause.fallback}</td>
+                            </tr>
+                            {expandedClauseIndex === clause.index && (
+                              <tr className="review-clause-text"><td colSpan={6}>{clause.text}</td></tr>
+                            )}
+                          </React.Fragment>
+                        ))}
+                        {reviewRows.length === 0 && <tr><td colSpan={6} className="facts-empty">No clauses at this risk level.</td></tr>}
+                      </tbody>
+                    </table>
+                    <div className="facts-footnote">
+                      Reviewed {reviewDoc.riskReview.reviewedAt} acting for {reviewDoc.riskReview.perspective}.
+                      {reviewDoc.riskReview.truncated && ` Only the first ${MAX_REVIEW_CLAUSES} clauses were reviewed.`} Click a row to read the clause. Verify every assessment against the contract before advising on it.
+                    </div>
+                  </>
+                )}
+              </div>
+            ) : (
+              <div className="facts-panel">
+                <div className="review-toolbar">
+                  <select className="matter-select" value="" onChange={e => e.target.value && addPlaybookPosition(e.target.value as ClauseCategory)}>
+                    <option value="">Add a position...</option>
+                    {CLAUSE_CATEGORIES.filter(c => !playbook.positions.some(p => p.category === c)).map(c => <option key={c} value={c}>{CLAUSE_CATEGORY_LABELS[c]}</option>)}
+                  </select>
+                  <button className="header-btn" onClick={resetPlaybook}><Repeat size={14} /> Reset to Defaults</button>
+                </div>
+                {playbook.positions.map(position => (
+                  <div key={position.category} className="playbook-position">
+                    <div className="playbook-position-header">
+                      <strong>{CLAUSE_CATEGORY_LABELS[position.category]}</strong>
+                      <label className="restore-option">
+                        <input type="checkbox" checked={position.required} onChange={e => updatePlaybookPosition(position.category, { required: e.target.checked })} /> Required
+                      </label>
+                      <button className="action-btn" style={{ color: '#FC8181' }} title="Remove position" onClick={() => removePlaybookPosition(position.category)}><Trash2 size={16} /></button>
+                    </div>
+                    <div className="matter-form" style={{ padding: 0 }}>
+                      <label className="full-width">Preferred position<textarea rows={2} value={position.preferred} onChange={e => updatePlaybookPosition(position.category, { preferred: e.target.value })} /></label>
+                      <label>Acceptable fallback<textarea rows={3} value={position.fallback} onChange={e => updatePlaybookPosition(position.category, { fallback: e.target.value })} /></label>
+                      <label>Red flags<textarea rows={3} value={position.redFlags} onChange={e => updatePlaybookPosition(position.category, { redFlags: e.target.value })} /></label>
+                    </div>
+                  </div>
+                ))}
+                <div className="facts-footnote">Changes apply to the next review. Existing reviews keep the scores they were given.</div>
+              </div>
+            )}
           </div>
-          <button className="mobile-citations-toggle" onClick={() => setIsCitationRailVisible(true)}><Library size={24} /></button>
-        </header>
-
-        {activeTab === 'research' ? (
-          <>
-            <div className="chat-area">
-              {messages.length === 0 && !isLoading && (
-                <div style={{display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', height: '100%', opacity: 0.3, textAlign: 'center', padding: '1rem'}}>
-                    <Scale size={80} strokeWidth={1} style={{marginBottom: '1rem'}} />
-                    <p style={{fontFamily: 'var(--font-serif)', fontSize: '1.25rem'}}>High-Fidelity AI Jurisprudence Engine</p>
+        </div>
+      )}
+      {factsDoc && (
+        <div className="modal-overlay" onClick={() => !isExtractingFacts && setFactsDocId(null)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '720px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Key Facts: {factsDoc.name}</h3>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                {factsDoc.keyFacts && !isExtractingFacts && (
+                  <button className="header-btn" onClick={() => handleExtractKeyFacts(factsDoc)} disabled={!factsDoc.file || !isConfigured} title={factsDoc.file ? 'Extract again' : 'Re-upload to extract again'}>
+                    <Sparkles size={14} /> Re-extract
+                  </button>
+                )}
+                <button className="close-modal" onClick={() => setFactsDocId(null)} disabled={isExtractingFacts}><X size={20} /></button>
+              </div>
+            </div>
+            <div className="facts-panel">
+              {factsError && (
+                <div className="vault-alert" style={{ marginBottom: 0 }}>
+                  <AlertTriangle size={18} />
+                  <span>{factsError}</span>
                 </div>
               )}
-              {messages.map((m) => (
-                <div key={m.id} className={`msg-wrap ${m.role}`}>
-                  <div className={`avatar ${m.role}`}>
-                    {m.role === 'model' ? <Scale size={18} /> : 'LP'}
+              {isExtractingFacts ? (
+                <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', minHeight: '200px' }}>
+                  <Loader2 size={32} className="animate-spin" />
+                  <p style={{ marginTop: '1rem', color: '#718096' }}>Reading parties, dates and obligations...</p>
+                </div>
+              ) : factsDoc.keyFacts && (
+                <>
+                  <div className="facts-section">
+                    <div className="content-results-header">Parties</div>
+                    {factsDoc.keyFacts.parties.length === 0 ? <div className="facts-empty">None identified</div> : factsDoc.keyFacts.parties.map((p, i) => (
+                      <div key={i} className="facts-row"><strong>{p.name}</strong><span>{p.role}</span></div>
+                    ))}
                   </div>
-                  <div className="bubble">
-                    <div style={{whiteSpace: 'pre-wrap', paddingBottom: m.role === 'model' ? '1rem' : '0' }}>
-                      {m.text.split(/(\*\*.*?\*\*)/).map((p, j) => p.startsWith('**') ? <strong key={j} style={{color: 'var(--brand-gold)'}}>{p.slice(2,-2)}</strong> : p)}
-                    </div>
-                    {m.fileName && (
-                      <div className="file-status-pill">
-                        {m.fileURL?.includes('blob:http') && m.fileName.match(/\.(jpeg|jpg|png|gif)$/i) ? <FileImage size={14} /> : <FileText size={14} />}
-                        <span style={{fontWeight: 600}}>{m.fileName}</span>
-                        <span className={`status-${m.fileStatus?.split(' ')[0]}`}>{m.fileStatus}</span>
+                  <div className="facts-section">
+                    <div className="content-results-header">Key dates</div>
+                    {factsDoc.keyFacts.keyDates.length === 0 ? <div className="facts-empty">None identified</div> : factsDoc.keyFacts.keyDates.map((d, i) => (
+                      <div key={i} className="facts-row"><strong>{d.date || 'Undated'}</strong><span>{d.description}{d.isDeadline && <span className="facts-tag">Deadline</span>}</span></div>
+                    ))}
+                  </div>
+                  <div className="facts-section">
+                    <div className="content-results-header">Obligations</div>
+                    {factsDoc.keyFacts.obligations.length === 0 ? <div className="facts-empty">None identified</div> : factsDoc.keyFacts.obligations.map((o, i) => (
+                      <div key={i} className="facts-row"><strong>{o.party || 'Unspecified party'}</strong><span>{o.description}{o.dueDate && <small> (by {o.dueDate})</small>}</span></div>
+                    ))}
+                  </div>
+                  <div className="facts-section">
+                    <div className="content-results-header">Amounts</div>
+                    {factsDoc.keyFacts.amounts.length === 0 ? <div className="facts-empty">None identified</div> : factsDoc.keyFacts.amounts.map((a, i) => (
+                      <div key={i} className="facts-row"><strong>{a.amount}</strong><span>{a.description}</span></div>
+                    ))}
+                  </div>
+                  <div className="facts-section">
+                    <div className="content-results-header">Governing law</div>
+                    <div className={factsDoc.keyFacts.governingLaw ? 'facts-text' : 'facts-empty'}>{factsDoc.keyFacts.governingLaw || 'Not stated'}</div>
+                  </div>
+                  {factsDoc.keyFacts.pendingTasks.length > 0 && (
+                    <div className="facts-section proposed-tasks">
+                      <div className="content-results-header" style={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <span>Proposed tasks</span>
+                        <label className="restore-option" style={{ textTransform: 'none', fontWeight: 400 }}>
+                          <input type="checkbox" checked={selectedProposalIds.size === factsDoc.keyFacts.pendingTasks.length} onChange={e => setSelectedProposalIds(new Set(e.target.checked ? factsDoc.keyFacts.pendingTasks.map(t => t.id) : []))} /> Select all
+                        </label>
                       </div>
-                    )}
-                    {m.role === 'model' && m.text && (
-                        <button className="tts-button" onClick={() => handleTextToSpeech(m)} title="Read Aloud">
-                            <AudioWaveform size={16} className={playingAudioId === m.id ? 'playing' : ''} />
+                      {factsDoc.keyFacts.pendingTasks.map(task => (
+                        <label key={task.id} className="task-item" style={{ cursor: 'pointer' }}>
+                          <input type="checkbox" checked={selectedProposalIds.has(task.id)} onChange={() => setSelectedProposalIds(prev => {
+                            const next = new Set(prev);
+                            if (!next.delete(task.id)) next.add(task.id);
+                            return next;
+                          })} />
+                          <div className="task-details"><p>{task.text}</p><small>Due: {task.deadline}</small></div>
+                        </label>
+                      ))}
+                      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                        <button className="primary-btn" style={{ flex: 1 }} onClick={() => resolveProposedTasks(factsDoc.id, selectedProposalIds)} disabled={selectedProposalIds.size === 0}>
+                          <Check size={16} /> Add {selectedProposalIds.size} {selectedProposalIds.size === 1 ? 'task' : 'tasks'}
                         </button>
-                    )}
-                  </div>
+                        <button className="header-btn" onClick={() => resolveProposedTasks(factsDoc.id, new Set())}>
+                          <X size={14} /> Reject all
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  <div className="facts-footnote">Extracted {factsDoc.keyFacts.extractedAt}. Verify every fact against the document before relying on it.</div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      {chatPreview && (
+        <div className="modal-overlay" onClick={() => setChatPreview(null)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '800px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>What Will Be Sent</h3>
+              <button className="close-modal" onClick={() => setChatPreview(null)}><X size={20} /></button>
+            </div>
+            <div className="facts-panel">
+              {!redactionSettings.enabled && (
+                <div className="vault-alert" style={{ marginBottom: 0 }}>
+                  <AlertTriangle size={18} />
+                  <span>Redaction is off. This request would be sent exactly as typed, with attachments as they are.</span>
                 </div>
-              ))}
-              {isLoading && (
-                <div className="msg-wrap model">
-                  <div className="avatar model"><Scale size={18} /></div>
-                  <div className="bubble" style={{display: 'flex', alignItems: 'center', gap: '1rem'}}>
-                    <Loader2 size={16} className="animate-spin" /> {loadingMessage}
-                  </div>
+              )}
+              {isImageWithheld && (
+                <div className="vault-alert" style={{ marginBottom: 0 }}>
+                  <AlertTriangle size={18} />
+                  <span>This request cannot be sent. Images have no text that can be checked for personal data, so redaction withholds them and the model would be asked about an image it never receives. Remove the image, or turn redaction off in Privacy &amp; Redaction settings to have it analysed.</span>
                 </div>
               )}
-              <div ref={chatEndRef} />
+              <OutgoingRequestView request={chatPreview} />
+              <div className="facts-footnote">Earlier turns are shown as they will be replayed. If the conversation has grown long, older turns are condensed by a separate, equally redacted request before sending.</div>
             </div>
-            
-            {!isConfigured && (
-              <div className="config-error-bar">
-                <div className="config-error-content">
-                  <AlertTriangle size={32} />
-                  <div>
-                    <strong>Configuration Error: API Key Not Found</strong>
-                    <br />
-                    Please check your <strong>GEMINI_API_KEY</strong> in Netlify site settings under <strong>Environment variables</strong> and <strong>Snippet Injection</strong>, then redeploy.
-                  </div>
-                </div>
+          </div>
+        </div>
+      )}
+      {isPrivacyOpen && (
+        <div className="modal-overlay" onClick={() => setIsPrivacyOpen(false)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '800px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Privacy & Redaction</h3>
+              <div className="deadline-views">
+                <button className={privacyTab === 'settings' ? 'active' : ''} onClick={() => setPrivacyTab('settings')}>Settings</button>
+                <button className={privacyTab === 'test' ? 'active' : ''} onClick={() => setPrivacyTab('test')}>Test</button>
+                <button className={privacyTab === 'log' ? 'active' : ''} onClick={() => setPrivacyTab('log')}>Sent ({outgoingLog.length})</button>
               </div>
-            )}
-            <div className="input-bar">
-              <div className="input-box-wrapper">
-                {selectedFile && (
-                  <div style={{background: '#F7FAFC', border: '1px solid #E2E8F0', padding: '0.5rem 1rem', borderRadius: '0.75rem', marginBottom: '0.75rem', fontSize: '0.85rem', display: 'flex', alignItems: 'center', justifyContent: 'space-between'}}>
-                    <div style={{display: 'flex', alignItems: 'center', gap: '0.5rem'}}>
-                      {selectedFile.type.startsWith('image/') ? <FileImage size={16} color="var(--brand-navy)" /> : <FileText size={16} color="var(--brand-navy)" />}
-                      <span style={{fontWeight: 600}}>{selectedFile.name}</span> 
-                      <span style={{color: '#718096', fontStyle: 'italic'}}>(Analysis Pending)</span>
+              <button className="close-modal" onClick={() => setIsPrivacyOpen(false)}><X size={20} /></button>
+            </div>
+            <div className="facts-panel">
+              {privacyTab === 'settings' ? (
+                <>
+                  <label className="restore-option">
+                    <input type="checkbox" checked={redactionSettings.enabled} onChange={e => setRedactionSettings({ ...redactionSettings, enabled: e.target.checked })} />
+                    <span><strong>Redact personal data before every request</strong><br /><small>Identifiers are replaced by placeholders such as [PAN_1] and restored in the reply on this device. Documents are sent as their extracted text; images and scans without a text layer are withheld.</small></span>
+                  </label>
+                  <div className="facts-section">
+                    <div className="content-results-header">Detect</div>
+                    <div className="weekday-options">
+                      {PII_KINDS.map(kind => (
+                        <label key={kind} className="restore-option">
+                          <input type="checkbox" checked={redactionSettings.detectors[kind]} disabled={!redactionSettings.enabled} onChange={e => setRedactionSettings({ ...redactionSettings, detectors: { ...redactionSettings.detectors, [kind]: e.target.checked } })} /> {PII_DETECTORS[kind].label}
+                        </label>
+                      ))}
+                      <label className="restore-option">
+                        <input type="checkbox" checked={redactionSettings.partyNames} disabled={!redactionSettings.enabled} onChange={e => setRedactionSettings({ ...redactionSettings, partyNames: e.target.checked })} /> Client and opposing party names
+                      </label>
                     </div>
-                    <X size={16} style={{cursor: 'pointer'}} onClick={() => setSelectedFile(null)} />
                   </div>
-                )}
-                <form onSubmit={handleSubmit}>
-                  <input type="file" ref={fileInputRef} onChange={handleFileChange} style={{display: 'none'}} accept="image/*,application/pdf,text/*,.docx,.doc" />
-                  <textarea 
-                    ref={textareaRef}
-                    value={userInput}
-                    onChange={(e) => setUserInput(e.target.value)}
-                    onKeyDown={e => { if(e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmit(e); } }}
-                    className="input-textarea"
-                    placeholder={!isConfigured ? "Application is not configured." : (isListening ? "Listening..." : "Analyze a case, statute, or upload a document/image...")}
-                    rows={1}
-                    disabled={!isConfigured}
-                  />
-                  <div className="input-actions">
-                    <button type="button" className="action-btn" title="Attach Document/Image" onClick={() => fileInputRef.current?.click()} disabled={!isConfigured}>
-                      <Paperclip size={20} />
-                    </button>
-                    <button type="button" className={`action-btn ${isListening ? 'active-mic' : ''}`} title="Voice Command" onClick={toggleListening} disabled={!isConfigured}>
-                      {isListening ? <Mic size={20} /> : <MicOff size={20} />}
-                    </button>
-                    <button type="submit" className="send-btn" disabled={isLoading || (!userInput.trim() && !selectedFile) || !isConfigured}>
-                      <Send size={18} />
+                  <div className="facts-section">
+                    <div className="content-results-header">Sensitive terms</div>
+                    {matters.length === 0 ? (
+                      <div className="facts-empty">Create a matter to add client names and other terms to redact.</div>
+                    ) : matters.map(m => (
+                      <div key={m.id} className="facts-row">
+                        <strong>{m.name}</strong>
+                        <span>{[...(redactionSettings.partyNames ? [m.clientName, m.opposingParty] : []), ...(m.sensitiveTerms || [])].filter(t => t.trim()).join(', ') || <span className="facts-empty">None</span>}</span>
+                      </div>
+                    ))}
+                    <div className="facts-footnote">Edit a matter's sensitive terms under Manage matters.</div>
+                  </div>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                    <span className="facts-footnote" style={{ flex: 1, margin: 0 }}>{Object.keys(placeholderMapRef.current.values).length} placeholders assigned. Each value keeps its placeholder across conversations.</span>
+                    <button className="header-btn" onClick={handleForgetPlaceholders}><Trash2 size={14} /> Forget Placeholders</button>
+                  </div>
+                </>
+              ) : privacyTab === 'test' ? (
+                <>
+                  <textarea className="draft-instruction" rows={5} value={redactionTestText} onChange={e => setRedactionTestText(e.target.value)} placeholder="Paste text to see how it would be redacted, e.g. PAN ABCPE1234F, phone 98765 43210" />
+                  {redactionTestText && (
+                    <>
+                      <pre className="outgoing-part">{redactionSettings.enabled ? redactionTest.text : redactionTestText}</pre>
+                      <div className="facts-footnote">{redactionSettings.enabled ? `${redactionTest.hits.length} ${redactionTest.hits.length === 1 ? 'value' : 'values'} would be redacted.` : 'Redaction is off; this text would be sent as it is.'}</div>
+                    </>
+                  )}
+                </>
+              ) : outgoingLog.length === 0 ? (
+                <div className="facts-empty">Requests sent to the AI model during this session are listed here, exactly as they left the browser.</div>
+              ) : outgoingLog.map(request => (
+                <details key={request.id} className="playbook-position">
+                  <summary><strong>{request.sentAt}</strong> • {request.parts.find(p => !p.isNote && p.role === 'user')?.text.slice(0, 80) || request.model}</summary>
+                  <OutgoingRequestView request={request} />
+                </details>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+      {isSettingsOpen && (
+        <div className="modal-overlay" onClick={() => setIsSettingsOpen(false)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '720px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Settings</h3>
+              <div className="deadline-views">
+                <button className={settingsTab === 'key' ? 'active' : ''} onClick={() => setSettingsTab('key')}>API Key</button>
+                <button className={settingsTab === 'models' ? 'active' : ''} onClick={() => setSettingsTab('models')}>Models</button>
+                <button className={settingsTab === 'instructions' ? 'active' : ''} onClick={() => setSettingsTab('instructions')}>Instructions</button>
+                <button className={settingsTab === 'generation' ? 'active' : ''} onClick={() => setSettingsTab('generation')}>Generation</button>
+              </div>
+              <button className="close-modal" onClick={() => setIsSettingsOpen(false)}><X size={20} /></button>
+            </div>
+            <div className="facts-panel">
+              {settingsTab === 'key' ? (
+                <div className="facts-section">
+                  <div className="content-results-header">Gemini API key</div>
+                  <div className="api-key-field">
+                    <input type={showApiKey ? 'text' : 'password'} value={apiKey} onChange={e => { setApiKey(e.target.value); setApiKeyTest({ status: 'idle', message: '' }); }} placeholder={window.GEMINI_API_KEY || BUILD_TIME_API_KEY ? 'Using the deployment key' : 'Paste your API key'} autoComplete="off" spellCheck={false} />
+                    <button className="action-btn" onClick={() => setShowApiKey(!showApiKey)} title={showApiKey ? 'Hide key' : 'Show key'}>{showApiKey ? <EyeOff size={16} /> : <Eye size={16} />}</button>
+                    <button className="header-btn" onClick={handleTestApiKey} disabled={apiKeyTest.status === 'testing'}>
+                      {apiKeyTest.status === 'testing' ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />} Test
                     </button>
                   </div>
-                </form>
+                  {apiKeyTest.status === 'ok' && <div className="facts-footnote api-key-ok">{apiKeyTest.message}</div>}
+                  {apiKeyTest.status === 'error' && <div className="vault-alert" style={{ margin: '0.5rem 0 0' }}><AlertTriangle size={18} /> {apiKeyTest.message}</div>}
+                  <div className="facts-footnote">
+                    Stored only in this browser{workspaceLock ? ', encrypted with your workspace passphrase' : ''}. A key entered here is used instead of the deployment's GEMINI_API_KEY; clear the field to go back to it.
+                  </div>
+                </div>
+              ) : settingsTab === 'models' ? (
+                <>
+                  <div className="facts-section">
+                    <div className="content-results-header">Provider</div>
+                    <div style={{ display: 'grid', gap: '0.5rem' }}>
+                      <label className="restore-option">
+                        <input type="radio" checked={modelSettings.provider === 'gemini'} onChange={() => setModelSettings({ ...modelSettings, provider: 'gemini' })} />
+                        <span><strong>Google Gemini</strong><br /><small>Requests go to the Gemini API, after redaction.</small></span>
+                      </label>
+                      <label className="restore-option">
+                        <input type="radio" checked={modelSettings.provider === 'mock'} onChange={() => setModelSettings({ ...modelSettings, provider: 'mock' })} />
+                        <span><strong>Offline mock</strong><br /><small>Scripted, repeatable replies with sample sources, produced on this device with no network or API key. For development and testing only.</small></span>
+                      </label>
+                    </div>
+                    {PROVIDER_OVERRIDE && <div className="facts-footnote">This page was opened with ?provider=mock, so the offline mock answers whatever is selected here.</div>}
+                  </div>
+                  <div className="facts-section">
+                    <div className="content-results-header">Model per feature</div>
+                    {MODEL_FEATURES.map(feature => (
+                      <label key={feature} className="facts-row model-row">
+                        <span>{MODEL_FEATURE_LABELS[feature]}</span>
+                        <input list="known-models" value={modelSettings.models[feature]} placeholder={DEFAULT_FEATURE_MODELS[feature]} onChange={e => setModelSettings({ ...modelSettings, models: { ...modelSettings.models, [feature]: e.target.value } })} />
+                      </label>
+                    ))}
+                    <datalist id="known-models">{KNOWN_MODELS.map(model => <option key={model} value={model} />)}</datalist>
+                    <div className="facts-footnote">A blank field uses the default model. The offline mock ignores model names.</div>
+                  </div>
+                </>
+              ) : settingsTab === 'instructions' ? (
+                (['research', 'vision'] as InstructionFeature[]).map(feature => (
+                  <div key={feature} className="facts-section">
+                    <div className="content-results-header">{feature === 'research' ? 'Legal research' : 'Image evidence'}</div>
+                    <textarea className="draft-instruction" rows={5} value={modelSettings.instructions[feature]} placeholder={DEFAULT_SYSTEM_INSTRUCTIONS[feature]} onChange={e => setModelSettings({ ...modelSettings, instructions: { ...modelSettings.instructions, [feature]: e.target.value } })} />
+                    <div className="facts-footnote">
+                      {feature === 'research' ? 'Sent with every research question.' : 'Sent when a question comes with an image.'} A blank instruction uses the default.
+                      {modelSettings.instructions[feature] !== DEFAULT_SYSTEM_INSTRUCTIONS[feature] && <> <a href="#" onClick={e => { e.preventDefault(); setModelSettings({ ...modelSettings, instructions: { ...modelSettings.instructions, [feature]: DEFAULT_SYSTEM_INSTRUCTIONS[feature] } }); }}>Restore the default</a></>}
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <>
+                  <div className="facts-section">
+                    <div className="content-results-header">Temperature</div>
+                    <label className="restore-option">
+                      <input type="checkbox" checked={modelSettings.temperature === null} onChange={e => setModelSettings({ ...modelSettings, temperature: e.target.checked ? null : 1 })} /> Use each model's default
+                    </label>
+                    {modelSettings.temperature !== null && (
+                      <div className="temperature-field">
+                        <input type="range" min={0} max={2} step={0.1} value={modelSettings.temperature} onChange={e => setModelSettings({ ...modelSettings, temperature: Number(e.target.value) })} />
+                        <strong>{modelSettings.temperature.toFixed(1)}</strong>
+                      </div>
+                    )}
+                    <div className="facts-footnote">Lower values give more consistent, literal answers; higher values more varied ones. Applies to every text feature.</div>
+                  </div>
+                  <div className="facts-section">
+                    <div className="content-results-header">Safety filters</div>
+                    {SAFETY_CATEGORIES.map(({ category, label }) => (
+                      <label key={category} className="facts-row model-row">
+                        <span>{label}</span>
+                        <select value={modelSettings.safety[category] || ''} onChange={e => {
+                          const safety = { ...modelSettings.safety };
+                          if (e.target.value) safety[category] = e.target.value as HarmBlockThreshold;
+                          else delete safety[category];
+                          setModelSettings({ ...modelSettings, safety });
+                        }}>
+                          <option value="">API default</option>
+                          {SAFETY_THRESHOLDS.map(({ threshold, label }) => <option key={threshold} value={threshold}>{label}</option>)}
+                        </select>
+                      </label>
+                    ))}
+                    <div className="facts-footnote">Criminal matters routinely discuss violence and other dangerous conduct. If answers come back blocked, loosen the filter for that category.</div>
+                  </div>
+                </>
+              )}
+              <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <button className="header-btn" onClick={handleResetSettings}><RotateCcw size={14} /> Reset to Defaults</button>
               </div>
             </div>
-          </>
-        ) : activeTab === 'documents' ? (
-          <div className="vault-container">
-            <div className="vault-actions">
-              <div style={{position: 'relative', flex: 1}}>
-                <Search size={18} style={{position: 'absolute', left: '0.85rem', top: '0.85rem', color: '#A0AEC0'}} />
-                <input type="text" className="search-input" placeholder="Search vaulted files..." value={docSearchTerm} onChange={e => setDocSearchTerm(e.target.value)} />
+          </div>
+        </div>
+      )}
+      {isLockSettingsOpen && (
+        <div className="modal-overlay" onClick={() => !isRekeying && setIsLockSettingsOpen(false)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '520px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Workspace Lock</h3>
+              <button className="close-modal" onClick={() => setIsLockSettingsOpen(false)} disabled={isRekeying}><X size={20} /></button>
+            </div>
+            <form className="matter-form" onSubmit={handleSavePassphrase}>
+              <p className="facts-footnote full-width" style={{ margin: 0 }}>
+                {workspaceLock
+                  ? 'Research sessions, documents, tasks and drafts are encrypted on this device with a key derived from your passphrase.'
+                  : 'Set a passphrase to encrypt research sessions, documents, tasks and drafts on this device. Juris will ask for it whenever it opens.'}
+              </p>
+              {workspaceLock && (
+                <label className="full-width">Current passphrase<input type="password" value={lockForm.current} onChange={e => setLockForm({ ...lockForm, current: e.target.value })} autoComplete="current-password" autoFocus /></label>
+              )}
+              <label>{workspaceLock ? 'New passphrase' : 'Passphrase'}<input type="password" value={lockForm.next} onChange={e => setLockForm({ ...lockForm, next: e.target.value })} autoComplete="new-password" autoFocus={!workspaceLock} /></label>
+              <label>Confirm passphrase<input type="password" value={lockForm.confirm} onChange={e => setLockForm({ ...lockForm, confirm: e.target.value })} autoComplete="new-password" /></label>
+              {workspaceLock && (
+                <label className="full-width">Lock after inactivity
+                  <select value={workspaceLock.autoLockMinutes} onChange={e => handleAutoLockChange(Number(e.target.value))}>
+                    {AUTO_LOCK_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes ? `${minutes} minutes` : 'Never'}</option>)}
+                  </select>
+                </label>
+              )}
+              {lockFormError && <div className="vault-alert full-width" style={{ marginBottom: 0 }}><AlertTriangle size={18} /> {lockFormError}</div>}
+              <div className="facts-footnote full-width">A forgotten passphrase cannot be recovered. Workspace backups are not encrypted, so store them somewhere safe.</div>
+              <div className="full-width" style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                {workspaceLock && <button type="button" className="header-btn" onClick={handleRemovePassphrase} disabled={isRekeying || !lockForm.current}>Remove Passphrase</button>}
+                <button type="submit" className="primary-btn" disabled={isRekeying || !lockForm.next || (!!workspaceLock && !lockForm.current)}>
+                  {isRekeying ? <><Loader2 size={16} className="animate-spin" /> Re-encrypting...</> : <><KeyRound size={16} /> {workspaceLock ? 'Change Passphrase' : 'Set Passphrase'}</>}
+                </button>
               </div>
-              <button className="new-chat-btn" style={{margin: 0, padding: '0 1.5rem'}} onClick={() => docUploadInputRef.current?.click()}>
-                <Download size={16} /> Batch Upload
+            </form>
+          </div>
+        </div>
+      )}
+      {isManagingMatters && (
+        <div className="modal-overlay" onClick={() => { setIsManagingMatters(false); setMatterDraft(null); }}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '600px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Matters</h3>
+              <button className="close-modal" onClick={() => { setIsManagingMatters(false); setMatterDraft(null); }}>
+                <X size={20} />
               </button>
-              <input type="file" multiple ref={docUploadInputRef} style={{display: 'none'}} onChange={handleMultiFileUpload} />
             </div>
-
-            {isUploadingDocs && (
-              <div className="upload-indicator">
-                <div style={{display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', fontWeight: 600}}>
-                  <span>SYNCHRONIZING REPOSITORY...</span>
-                  <span>{uploadProgress}%</span>
-                </div>
-                <div className="progress-bar">
-                  <div className="progress-fill" style={{width: `${uploadProgress}%`}}></div>
+            {matterDraft ? (
+              <div className="matter-form">
+                <label className="full-width">Matter name<input value={matterDraft.name} onChange={e => setMatterDraft({ ...matterDraft, name: e.target.value })} placeholder="e.g., Sharma v. Union of India" autoFocus /></label>
+                <label>Client name<input value={matterDraft.clientName} onChange={e => setMatterDraft({ ...matterDraft, clientName: e.target.value })} /></label>
+                <label>Case number<input value={matterDraft.caseNumber} onChange={e => setMatterDraft({ ...matterDraft, caseNumber: e.target.value })} placeholder="e.g., W.P.(C) 1234/2024" /></label>
+                <label>Court / Forum<input value={matterDraft.court} onChange={e => setMatterDraft({ ...matterDraft, court: e.target.value })} placeholder="e.g., High Court of Delhi" /></label>
+                <label>Opposing party<input value={matterDraft.opposingParty} onChange={e => setMatterDraft({ ...matterDraft, opposingParty: e.target.value })} /></label>
+                <label className="full-width">Sensitive terms (one per line)
+                  <textarea rows={3} value={(matterDraft.sensitiveTerms || []).join('\n')} onChange={e => setMatterDraft({ ...matterDraft, sensitiveTerms: e.target.value.split('\n') })} placeholder={"e.g., names of witnesses, project code names, property addresses"} />
+                  <small>Replaced by placeholders in everything sent to the AI model{redactionSettings.partyNames ? ', as are the client and opposing party names' : ''}.</small>
+                </label>
+                <div className="full-width" style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                  <button className="header-btn" onClick={() => setMatterDraft(null)}>Cancel</button>
+                  <button className="primary-btn" onClick={handleSaveMatter} disabled={!matterDraft.name.trim()}>Save Matter</button>
                 </div>
               </div>
-            )}
-
-            <div className="doc-list-grid">
-              {filteredDocs.map(d => {
-                const incompleteTasks = d.tasks?.filter(t => !t.isComplete).length || 0;
-                return (
-                  <div key={d.id} className="doc-item">
-                    <div style={{display: 'flex', alignItems: 'center', gap: '1rem', flex: 1}}>
-                        <div style={{padding: '0.5rem', background: '#F7FAFC', borderRadius: '4px', cursor: 'pointer'}} onClick={() => setViewingDoc(d)}>
-                            <FileText size={24} color="var(--brand-navy)" />
-                        </div>
-                        <div style={{flex: 1}}>
-                            <div style={{fontWeight: 600, fontSize: '0.9rem', cursor: 'pointer'}} onClick={() => setViewingDoc(d)}>{d.name}</div>
-                            <div style={{fontSize: '0.7rem', color: '#718096'}}>{d.date} • {d.type.split('/')[1]?.toUpperCase() || 'DOCUMENT'}</div>
-                        </div>
+            ) : (
+              <div className="matter-list">
+                {matters.length === 0 && <p style={{ textAlign: 'center', color: '#718096', fontSize: '0.9rem' }}>No matters yet. Create one to organise documents, research and tasks.</p>}
+                {matters.map(m => (
+                  <div key={m.id} className="matter-row">
+                    <div>
+                      <strong>{m.name}</strong>
+                      <small>{[m.clientName, m.caseNumber, m.court, m.opposingParty && `v. ${m.opposingParty}`].filter(Boolean).join(' • ') || 'No details recorded'}</small>
+                      <small>{managedDocs.filter(d => d.matterId === m.id).length} documents • {sessionHistory.filter(s => s.matterId === m.id).length} sessions</small>
                     </div>
-                    <div style={{display: 'flex', gap: '0.5rem', alignItems: 'center'}}>
-                       <button className="action-btn" title={d.file ? "Get AI Summary" : "Re-upload to summarize"} onClick={() => handleSummarizeDocument(d)} disabled={!d.file || !isConfigured} >
-                        <BookOpenText size={18} />
-                      </button>
-                      <button className="action-btn" title={d.file ? "Analyze with Gemini" : "Re-upload to analyze"} onClick={() => setAnalyzingDoc(d)} disabled={!d.file || !isConfigured}>
-                        <Sparkles size={18} />
-                      </button>
-                      <button className="action-btn" title="Manage Tasks" onClick={() => setManagingTasksForDoc(d)} style={{position: 'relative'}}>
-                        <ListTodo size={18} />
-                        {incompleteTasks > 0 && <span className="task-badge">{incompleteTasks}</span>}
-                      </button>
-                      <button className="action-btn" style={{color: '#FC8181'}} title="Delete" onClick={() => setManagedDocs(prev => prev.filter(x => x.id !== d.id))}><Trash2 size={18} /></button>
+                    <div style={{ display: 'flex', gap: '0.25rem' }}>
+                      <button className="action-btn" title="Edit" onClick={() => setMatterDraft(m)}><Pencil size={16} /></button>
+                      <button className="action-btn" style={{ color: '#FC8181' }} title="Delete" onClick={() => handleDeleteMatter(m)}><Trash2 size={16} /></button>
                     </div>
                   </div>
-                );
-              })}
-              {filteredDocs.length === 0 && <div style={{textAlign: 'center', padding: '4rem', opacity: 0.2}}>No records found in current index.</div>}
-            </div>
+                ))}
+                <button className="primary-btn" style={{ width: '100%', marginTop: '1rem' }} onClick={() => setMatterDraft({ id: Math.random().toString(36).substr(2, 9), name: '', clientName: '', caseNumber: '', court: '', opposingParty: '', createdAt: new Date().toISOString() })}>
+                  <Plus size={16} /> New Matter
+                </button>
+              </div>
+            )}
           </div>
-        ) : ( // History Tab
-          <div className="vault-container">
-            {sessionHistory.length === 0 ? (
-              <div style={{textAlign: 'center', padding: '6rem', opacity: 0.2}}>
-                <History size={64} style={{marginBottom: '1rem'}} />
-                <p>History archive is empty.</p>
+        </div>
+      )}
+      {isManagingProfiles && (
+        <div className="modal-overlay" onClick={() => { setIsManagingProfiles(false); setProfileDraft(null); }}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '640px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Research Profiles</h3>
+              <button className="close-modal" onClick={() => { setIsManagingProfiles(false); setProfileDraft(null); }}>
+                <X size={20} />
+              </button>
+            </div>
+            {profileDraft ? (
+              <div className="matter-form">
+                <label className="full-width">Profile name<input value={profileDraft.name} onChange={e => setProfileDraft({ ...profileDraft, name: e.target.value })} placeholder="e.g., Madras High Court" autoFocus /></label>
+                <label>Jurisdiction / Forum<input value={profileDraft.jurisdiction} onChange={e => setProfileDraft({ ...profileDraft, jurisdiction: e.target.value })} placeholder="e.g., High Court of Madras" /></label>
+                <label>Practice area<input value={profileDraft.practiceArea} onChange={e => setProfileDraft({ ...profileDraft, practiceArea: e.target.value })} placeholder="e.g., Arbitration" /></label>
+                <label className="full-width">Preferred authorities
+                  <textarea rows={2} value={profileDraft.authorities} onChange={e => setProfileDraft({ ...profileDraft, authorities: e.target.value })} placeholder="e.g., Supreme Court, then Division Benches of this High Court; the Arbitration and Conciliation Act, 1996" />
+                </label>
+                <label className="full-width">Citation style
+                  <textarea rows={2} value={profileDraft.citationStyle} onChange={e => setProfileDraft({ ...profileDraft, citationStyle: e.target.value })} />
+                </label>
+                <label className="full-width">Answer format
+                  <textarea rows={2} value={profileDraft.answerFormat} onChange={e => setProfileDraft({ ...profileDraft, answerFormat: e.target.value })} />
+                </label>
+                <label className="full-width">Official sources (one domain per line)
+                  <textarea rows={3} value={profileDraft.officialSources.join('\n')} onChange={e => setProfileDraft({ ...profileDraft, officialSources: e.target.value.split('\n') })} placeholder={"e.g., mhc.tn.gov.in\nindiacode.nic.in"} />
+                  <small>Web searches look to these sites first, and answers drawn from them are marked Official in the sources panel.</small>
+                </label>
+                <div className="full-width" style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                  <button className="header-btn" onClick={() => setProfileDraft(null)}>Cancel</button>
+                  <button className="primary-btn" onClick={handleSaveProfile} disabled={!profileDraft.name.trim()}>Save Profile</button>
+                </div>
               </div>
             ) : (
-              sessionHistory.map(s => (
-                <div key={s.id} className="history-item" onClick={() => loadSession(s)}>
-                  <div style={{display: 'flex', alignItems: 'center', gap: '1rem'}}>
-                    <Clock size={20} color="var(--brand-gold)" />
+              <div className="matter-list">
+                <p className="facts-footnote" style={{ marginTop: 0 }}>The active profile tailors research answers to its forum and house style. Each research session remembers the profile it was run under.</p>
+                {researchProfiles.map(p => (
+                  <div key={p.id} className="matter-row">
                     <div>
-                      <div style={{fontWeight: 700, fontSize: '1rem', color: 'var(--brand-navy)', marginBottom: '0.25rem'}}>{s.title}</div>
-                      <div style={{fontSize: '0.75rem', color: '#718096'}}>{s.date} • {s.messages.length} exchanges</div>
+                      <strong>{p.name}{p.id === activeProfile.id ? ' (active)' : ''}</strong>
+                      <small>{[p.jurisdiction, p.practiceArea].filter(Boolean).join(' • ') || 'No details recorded'}</small>
+                      <small>{p.officialSources.length > 0 ? p.officialSources.join(', ') : 'No official sources'} • {sessionHistory.filter(s => s.profileId === p.id).length} sessions</small>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.25rem' }}>
+                      {p.id !== activeProfile.id && <button className="action-btn" title="Use for research" onClick={() => handleSelectProfile(p.id)}><Check size={16} /></button>}
+                      <button className="action-btn" title="Edit" onClick={() => setProfileDraft(p)}><Pencil size={16} /></button>
+                      <button className="action-btn" style={{ color: '#FC8181' }} title="Delete" onClick={() => handleDeleteProfile(p)} disabled={researchProfiles.length <= 1}><Trash2 size={16} /></button>
                     </div>
                   </div>
-                  <button className="delete-btn" style={{border: 'none', background: 'transparent', cursor: 'pointer'}} onClick={(e) => deleteSession(s.id, e)}><Trash2 size={18} /></button>
+                ))}
+                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                  <button className="header-btn" onClick={handleRestoreDefaultProfiles}>
+                    <RotateCcw size={14} /> Restore Built-in Profiles
+                  </button>
+                  <button className="primary-btn" style={{ flex: 1 }} onClick={() => setProfileDraft({ id: Math.random().toString(36).substr(2, 9), name: '', jurisdiction: '', practiceArea: '', authorities: '', citationStyle: SCC_CITATION_STYLE, answerFormat: MEMO_ANSWER_FORMAT, officialSources: [] })}>
+                    <Plus size={16} /> New Profile
+                  </button>
                 </div>
-              ))
+              </div>
             )}
           </div>
-        )}
-      </main>
-
-      {/* CITATIONS RAIL */}
-      {activeTab === 'research' && (
-        <>
-            <aside className={`right-rail ${!isCitationRailVisible ? (window.innerWidth > 768 ? 'hidden' : '') : 'mobile-visible'}`}>
-                <div className="rail-header">VERIFIED CITATIONS</div>
-                <div className="citation-list">
-                    {citations.length === 0 ? (
-                    <div style={{textAlign: 'center', padding: '4rem 1rem', opacity: 0.2, fontSize: '0.85rem'}}>
-                        Legal citations and evidentiary sources will appear here as they are generated.
-                    </div>
-                    ) : (
-                        displayedCitations.map((c, i) => (
-                        <div key={i} className="citation-card">
-                            <div className="card-title">
-                            {c.web ? <Globe size={14} color="#3182CE" /> : <ListFilter size={14} color="#A0AEC0" />}
-                            {c.web?.title || 'Grounding Reference'}
-                            </div>
-                            {c.web?.uri && <div className="citation-meta">{c.web.uri}</div>}
-                            <div style={{fontSize: '0.75rem', color: '#4A5568', lineHeight: 1.4}}>
-                            {c.text ? c.text.substring(0, 120) + '...' : "Authoritative legal background and interpretative context supporting the current analysis."}
-                            </div>
-                            {c.web && (
-                            <div className="citation-actions">
-                                <button className="cite-action-btn" onClick={() => copyToClipboard(c.web?.uri || '')}>
-                                <Copy size={12} /> Copy Link
-                                </button>
-                                <a href={c.web.uri} target="_blank" rel="noreferrer" className="cite-action-btn">
-                                <ExternalLink size={12} /> External Link
-                                </a>
-                            </div>
-                            )}
-                        </div>
-                        ))
-                    )}
+        </div>
+      )}
+      {pendingRestore && (
+        <div className="modal-overlay" onClick={() => !isRestoring && setPendingRestore(null)}>
+          <div className="modal-content" onClick={e => e.stopPropagation()} style={{ maxWidth: '520px', width: '100%' }}>
+            <div className="modal-header">
+              <h3>Restore Workspace</h3>
+              <button className="close-modal" onClick={() => setPendingRestore(null)} disabled={isRestoring}>
+                <X size={20} />
+              </button>
+            </div>
+            <div className="restore-panel">
+              {pendingRestore.error && (
+                <div className="vault-alert" style={{ marginBottom: 0 }}>
+                  <AlertTriangle size={18} />
+                  <span>{pendingRestore.error}</span>
                 </div>
-            </aside>
-            <button 
-                className={`rail-toggle-btn ${!isCitationRailVisible ? 'hidden' : ''}`}
-                onClick={() => setIsCitationRailVisible(!isCitationRailVisible)}
-                title={isCitationRailVisible ? "Hide Citations" : "Show Citations"}
-            >
-                {isCitationRailVisible ? <ChevronRight size={18} /> : <ChevronLeft size={18} />}
-            </button>
-        </>
+              )}
+              {pendingRestore.backup && (
+                <>
+                  <div className="restore-summary">
+                    <strong>{pendingRestore.fileName}</strong><br />
+                    Backed up {new Date(pendingRestore.backup.exportedAt).getTime() > 0 ? new Date(pendingRestore.backup.exportedAt).toLocaleString() : 'at an unknown time'}<br />
+                    {pendingRestore.backup.matters.length} matters • {pendingRestore.backup.sessions.length} research sessions • {pendingRestore.backup.documents.length} documents ({pendingRestore.backup.documents.filter(d => d.fileData).length} with files) • {pendingRestore.backup.documents.reduce((n, d) => n + d.tasks.length, 0)} tasks • {pendingRestore.backup.comparisons.length} comparisons • {pendingRestore.backup.courtCalendar.holidays.length} court holidays • {pendingRestore.backup.drafts.length} drafts • {pendingRestore.backup.profiles.length} research profiles
+                  </div>
+                  <label className="restore-option">
+                    <input type="radio" checked={restoreMode === 'merge'} onChange={() => setRestoreMode('merge')} />
+                    <div>Merge into current workspace<small>Keeps your existing data and adds what is in the backup.</small></div>
+                  </label>
+                  <label className="restore-option">
+                    <input type="radio" checked={restoreMode === 'replace'} onChange={() => setRestoreMode('replace')} />
+                    <div>Replace current workspace<small>Removes everything currently stored and restores the backup exactly.</small></div>
+                  </label>
+                  {restoreMode === 'merge' && restoreConflicts.matters + restoreConflicts.sessions + restoreConflicts.documents > 0 && (
+                    <div>
+                      <p style={{ margin: '0 0 0.5rem', fontSize: '0.85rem', color: '#4A5568' }}>
+                        {restoreConflicts.matters} matters, {restoreConflicts.sessions} sessions and {restoreConflicts.documents} documents already exist in this workspace.
+                      </p>
+                      <select value={conflictStrategy} onChange={e => setConflictStrategy(e.target.value as ConflictStrategy)}>
+                        <option value="keep-existing">Keep the current versions</option>
+                        <option value="use-imported">Overwrite with the backed-up versions</option>
+                        <option value="keep-both">Keep both (imported copies get new IDs)</option>
+                      </select>
+                    </div>
+                  )}
+                  <button className="primary-btn" onClick={handleApplyRestore} disabled={isRestoring}>
+                    {isRestoring ? <><Loader2 size={16} className="animate-spin" /> Restoring...</> : <><ArchiveRestore size={16} /> Restore</>}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
       )}
-
-      {/* MODALS */}
-      {viewingDoc && <div className="modal-overlay" onClick={() => setViewingDoc(null)}><div className="modal-content doc-viewer" onClick={e => e.stopPropagation()}><div className="modal-header"><h3>{viewingDoc.name}</h3><div className="viewer-controls"><button onClick={() => alert("Search is a WIP feature.")}><Search size={16} /> Search</button><button onClick={() => alert("Zoom is a WIP feature.")}><ZoomIn size={16} /></button><button onClick={() => alert("Zoom is a WIP feature.")}><ZoomOut size={16} /></button><button onClick={handlePrintDoc}><Printer size={16} /> Print</button></div><button className="close-modal" onClick={() => setViewingDoc(null)}><X size={20} /></button></div><iframe ref={docViewerFrameRef} src={viewingDoc.url} title={viewingDoc.name} /></div></div>}
-      {managingTasksForDoc && <div className="modal-overlay" onClick={() => setManagingTasksForDoc(null)}><div className="modal-content" onClick={e => e.stopPropagation()}><div className="modal-header"><h3>Tasks for: {managingTasksForDoc.name}</h3><button className="close-modal" onClick={() => setManagingTasksForDoc(null)}><X size={20} /></button></div><div className="task-manager"><div className="task-list">{managingTasksForDoc.tasks.length === 0 && <p style={{textAlign: 'center', color: '#718096', fontSize: '0.9rem'}}>No tasks for this document.</p>}{managingTasksForDoc.tasks.map(task => (<div key={task.id} className={`task-item ${task.isComplete ? 'complete' : ''}`}><input type="checkbox" checked={task.isComplete} onChange={() => toggleTask(managingTasksForDoc.id, task.id)} /><div className="task-details"><p>{task.text}</p>{task.deadline && <small>Due: {task.deadline}</small>}</div><button className="delete-task" onClick={() => deleteTask(managingTasksForDoc.id, task.id)}><Trash2 size={16} /></button></div>))}</div><div className="add-task-form"><input type="text" placeholder="New task..." value={newTaskText} onChange={e => setNewTaskText(e.target.value)} /><input type="date" value={newTaskDeadline} onChange={e => setNewTaskDeadline(e.target.value)} /><button onClick={() => handleAddTask(managingTasksForDoc.id)}>Add Task</button></div></div></div></div>}
-      {analyzingDoc && <div className="modal-overlay" onClick={() => setAnalyzingDoc(null)}><div className="modal-content" onClick={e => e.stopPropagation()} style={{maxWidth: '600px'}}><div className="modal-header"><h3>Analyze: {analyzingDoc.name}</h3><button className="close-modal" onClick={() => { setAnalyzingDoc(null); setAnalysisResult(''); setAnalysisPrompt(''); }}><X size={20} /></button></div><div className="analysis-manager"><p style={{fontSize: '0.9rem', color: '#4A5568', marginTop: 0}}>What would you like to know about this document?</p><textarea value={analysisPrompt} onChange={e => setAnalysisPrompt(e.target.value)} placeholder="e.g., Summarize the key arguments in this document." rows={3}></textarea><button onClick={handleAnalyzeDocument} disabled={isAnalyzing || !analysisPrompt || !isConfigured}>{isAnalyzing ? <><Loader2 size={16} className="animate-spin" /> Analyzing...</> : <><Sparkles size={16}/> Analyze</>}</button>{analysisResult && <div className="analysis-result"><h4>Analysis Result:</h4><div className="bubble model" style={{maxWidth: '100%', whiteSpace: 'pre-wrap'}}>{analysisResult}</div></div>}</div></div></div>}
       {summarizingDoc && (
-        <div className="modal-overlay" onClick={() => setSummarizingDoc(null)}>
+        <div className="modal-overlay" onClick={closeSummary}>
           <div className="modal-content" onClick={e => e.stopPropagation()} style={{maxWidth: '700px'}}>
             <div className="modal-header">
               <h3>AI Summary: {summarizingDoc.name}</h3>
-              <button className="close-modal" onClick={() => setSummarizingDoc(null)}>
-                <X size={20} />
-              </button>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                {isSummarizing && (
+                  <button className="stop-stream-btn" onClick={() => summaryStreamRef.current?.abort()}>
+                    <StopCircle size={16} /> Stop
+                  </button>
+                )}
+                <button className="close-modal" onClick={closeSummary}>
+                  <X size={20} />
+                </button>
+              </div>
             </div>
             <div className="summary-content" style={{ padding: '1.5rem', maxHeight: '70vh', overflowY: 'auto' }}>
-              {isSummarizing ? (
+              {isSummarizing && !summaryResult ? (
                 <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', minHeight: '200px' }}>
                   <Loader2 size={32} className="animate-spin" />
                   <p style={{ marginTop: '1rem', color: '#718096' }}>Generating summary...</p>
                 </div>
               ) : (
-                <div className="bubble model" style={{ maxWidth: '100%', whiteSpace: 'pre-wrap' }}>
-                  {summaryResult}
+                <div className="bubble model" style={{ maxWidth: '100%' }}>
+                  <MarkdownContent text={summaryResult} />
                 </div>
               )}
             </div>
@@ -1002,5 +8905,6 @@ const JurisApp = () => {
   );
 };
 
-const root = ReactDOM.createRoot(document.getElementById('root')!);
-root.render(<JurisApp />);
+// Tests import the helpers in this file without a page to render into.
+const rootElement = document.getElementById('root');
+if (rootElement) ReactDOM.createRoot(rootElement).render(<JurisApp />);